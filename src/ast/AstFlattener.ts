@@ -0,0 +1,108 @@
+/**
+ * AST 内联 (单文档) 模块
+ *
+ * 将按文件划分的项目 AST 合并为一棵 {@link Ast.Root}：
+ * 每个 `\input`/`\include`/`\subfile` 等包含命令的宏节点都被替换为一个 {@link InlinedFileNode}，
+ * 其内容是目标文件解析后的内容。下游只需处理一棵树，无需再手动拼接 `ProjectAST.files`。
+ *
+ * 原始的文件 AST 不会被修改：内联过程会复制所经过的节点数组。
+ */
+
+import type { Ast, IncludedFileReference, InlinedFileNode } from '../types/index';
+import { createLogger, Logger } from '../utils/logger';
+
+const logger: Logger = createLogger('ast:AstFlattener');
+
+/** {@link InlinedFileNode} 使用的环境名称。`@` 不会出现在普通文档的环境名中，避免与用户环境冲突。 */
+export const INLINED_FILE_ENV = '@inlined-file';
+
+/**
+ * 判断一个节点是否为内联文件标记节点。
+ * @param node - 要检查的 AST 节点。
+ * @returns 如果是 {@link InlinedFileNode}，则返回 `true`。
+ */
+export function isInlinedFileNode(node: Ast.Ast | null | undefined): node is InlinedFileNode {
+  return !!node && node.type === 'environment' && (node as Ast.Environment).env === INLINED_FILE_ENV;
+}
+
+/**
+ * 将项目的各个文件 AST 合并为一棵单文档 AST。
+ *
+ * - 包含命令按其在文件中的位置被替换为目标文件的内容 (递归进行)。
+ * - 目标文件缺失或解析失败时，保留原始的包含命令宏节点。
+ * - 循环包含 (目标文件已在当前内联链上) 时，保留原始宏节点以避免无限递归。
+ * - 同一文件被多次包含时，每次都会内联一份副本，与 LaTeX 重复读入的行为一致。
+ *
+ * @param rootFilePath - 项目根文件的规范化路径。
+ * @param fileAsts - 文件路径到其 AST 的映射 (AST 为 `null` 表示解析失败或文件不存在)。
+ * @param fileIncludes - 文件路径到其包含引用列表的映射，引用中的 `node` 必须是 `fileAsts` 中对应 AST 内的节点。
+ * @returns 合并后的 AST 根节点；如果根文件没有可用的 AST，则返回 `null`。
+ */
+export function flattenProjectFiles(
+  rootFilePath: string,
+  fileAsts: Map<string, Ast.Root | null>,
+  fileIncludes: Map<string, IncludedFileReference[]>
+): Ast.Root | null {
+  const rootAst = fileAsts.get(rootFilePath);
+  if (!rootAst) {
+    logger.warn(`根文件 ${rootFilePath} 没有可用的 AST，无法生成单文档 AST。`);
+    return null;
+  }
+  let inlinedCount = 0;
+
+  const inlineFile = (filePath: string, ast: Ast.Root, stack: string[]): Ast.Ast[] => {
+    const replacements = new Map<Ast.Ast, IncludedFileReference>();
+    for (const reference of fileIncludes.get(filePath) || []) {
+      replacements.set(reference.node, reference);
+    }
+
+    const copyNodes = (nodes: Ast.Ast[]): Ast.Ast[] => nodes.map(node => {
+      const reference = replacements.get(node);
+      if (reference) {
+        const targetAst = fileAsts.get(reference.path);
+        if (!targetAst) {
+          logger.debug(`包含目标 ${reference.path} 没有可用的 AST，保留原始的 \\${reference.command} 节点。`);
+        } else if (stack.includes(reference.path)) {
+          logger.warn(`检测到循环包含: ${[...stack, reference.path].join(' -> ')}，保留原始的 \\${reference.command} 节点。`);
+        } else {
+          inlinedCount++;
+          const marker: InlinedFileNode = {
+            type: 'environment',
+            env: INLINED_FILE_ENV,
+            content: inlineFile(reference.path, targetAst, [...stack, reference.path]),
+            inlinedFrom: {
+              filePath: reference.path,
+              parentFilePath: filePath,
+              command: reference.command,
+              rawPath: reference.rawPath,
+            },
+            includeMacro: reference.node,
+            position: reference.position,
+          };
+          return marker;
+        }
+      }
+      return copyNode(node);
+    });
+
+    const copyNode = (node: Ast.Ast): Ast.Ast => {
+      const copy: Ast.Ast = { ...node };
+      if (Array.isArray(node.content)) {
+        copy.content = copyNodes(node.content);
+      }
+      if (Array.isArray(node.args)) {
+        copy.args = copyNodes(node.args);
+      }
+      return copy;
+    };
+
+    return copyNodes(ast.content);
+  };
+
+  const flattened: Ast.Root = {
+    ...rootAst,
+    content: inlineFile(rootFilePath, rootAst, [rootFilePath]),
+  };
+  logger.info(`单文档 AST 已生成，共内联 ${inlinedCount} 处文件包含。`);
+  return flattened;
+}
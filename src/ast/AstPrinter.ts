@@ -0,0 +1,416 @@
+/**
+ * LaTeX 输出模块
+ *
+ * 将处理后的 AST (已附加宏参数、处理了环境) 重新输出为 LaTeX 源码。内部使用的 `printRaw` 只适合把参数等片段转换为字符串：
+ * 它把所有空白输出为一个空格、在注释前后插入换行，被解析器省略的空白 (例如宏名和参数之间、环境内容开头的空白) 也无法还原。
+ *
+ * `printLatex` 在 `'preserve'` 格式下按节点的位置信息从源码中取回这些空白、注释周围的空白、数学公式的定界符 (`$` 或 `\(`)
+ * 以及参数是否带有定界符 (`x_1` 与 `x_{1}`)，未修改的 AST 因此可以逐字节还原；被修改或新建的节点 (没有位置信息) 按规范形式输出。
+ * `'normalized'` 格式忽略原有的空白，统一缩进环境内容。
+ */
+
+import type { Ast, PrintLatexOptions, RoundTripResult } from '../types/index';
+import { isInlinedFileNode } from './AstFlattener';
+import { printRaw } from '../latex-utils/unifiedLatexBridge';
+import { isLearnedVerbatimEnvironment } from '../latex-utils/verbatimEnvironments';
+
+const ESCAPE = '\\';
+
+/** `'normalized'` 格式中每一层环境的默认缩进 */
+export const DEFAULT_PRINT_INDENT = '  ';
+
+/** (内部) `'normalized'` 格式中逐字内容占位符的定界字符 (Unicode 私用区字符，不会出现在普通文档中，也不是空白) */
+const PLACEHOLDER_MARK = '\uE000';
+const PLACEHOLDER_PATTERN = new RegExp(`${PLACEHOLDER_MARK}(\\d+)${PLACEHOLDER_MARK}`, 'g');
+
+/** (内部) 宏名以字母结尾时，其后紧跟的字母需要用空格隔开，否则会被读作宏名的一部分 */
+const LETTER_PATTERN = /[a-zA-Z@]/;
+
+/**
+ * (内部) 返回环境节点的名称。
+ */
+function environmentName(node: Ast.Environment | Ast.VerbatimEnvironment): string {
+  return typeof node.env === 'string' ? node.env : printRaw(node.env);
+}
+
+/**
+ * (内部) 判断环境是否为逐字环境：内置逐字环境的 `verbatim` 类型节点，或经过 `collapseVerbatimBodies` 转换的环境节点。
+ * 二者的 `content` 都是原始字符串。
+ */
+function isVerbatimEnvironment(node: Ast.Ast): boolean {
+  return node.type === 'verbatim' || isLearnedVerbatimEnvironment(node);
+}
+
+/**
+ * (内部) 按 `'preserve'` 格式输出一组节点。
+ */
+function printPreserved(nodes: Ast.Ast[], source: string | undefined): string {
+  const output: string[] = [];
+  let cursor = 0;
+  let separateLetters = false;
+  // 与源码对照输出时，新建的空白节点 (例如列表处理在 \item 之间插入的段落分隔) 暂不输出：
+  // 其后的节点在源码中前面有空白时使用源码中的空白，否则在前面没有空白时输出
+  let pendingWhitespace = '';
+
+  const lastOutput = () => output.slice(-2).join('');
+  const push = (text: string) => {
+    if (!text) {
+      return;
+    }
+    if (pendingWhitespace && !/\s$/.test(lastOutput()) && !/^\s/.test(text)) {
+      output.push(pendingWhitespace);
+    }
+    pendingWhitespace = '';
+    output.push(separateLetters && LETTER_PATTERN.test(text[0]) ? ` ${text}` : text);
+    separateLetters = false;
+  };
+  const isWhitespace = (from: number, to: number) => source !== undefined && /^\s*$/.test(source.slice(from, to));
+  const skipWhitespace = (index: number) => {
+    while (source !== undefined && index < source.length && /\s/.test(source[index])) {
+      index++;
+    }
+    return index;
+  };
+
+  // 有位置信息的节点：先输出它与上一个输出位置之间的空白 (被解析器省略的空白)，再从它的起始处继续
+  const startNode = (node: Ast.Ast): boolean => {
+    if (source === undefined || !node.position) {
+      return false;
+    }
+    const start = node.position.start.offset;
+    if (start > cursor && isWhitespace(cursor, start)) {
+      push(source.slice(cursor, start));
+    }
+    cursor = start;
+    return true;
+  };
+  // 语法记号 (定界符、`\begin{...}` 等)：源码中在空白之后出现时连同空白一起输出，否则按规范形式输出
+  const printToken = (token: string): boolean => {
+    if (source !== undefined && token) {
+      const index = skipWhitespace(cursor);
+      if (source.startsWith(token, index)) {
+        push(source.slice(cursor, index + token.length));
+        cursor = index + token.length;
+        return true;
+      }
+    }
+    push(token);
+    return false;
+  };
+  const sourceSlice = (node: Ast.Ast): string | undefined =>
+    source !== undefined && node.position ? source.slice(node.position.start.offset, node.position.end.offset) : undefined;
+  const finishNode = (node: Ast.Ast) => {
+    if (source !== undefined && node.position) {
+      cursor = node.position.end.offset;
+    }
+  };
+
+  const printArgument = (argument: Ast.Argument) => {
+    if (!argument.openMark && !argument.closeMark) {
+      printNodes(argument.content);
+      return;
+    }
+    if (source !== undefined && !source.startsWith(argument.openMark, skipWhitespace(cursor))) {
+      // 源码中没有定界符的参数，例如 `x_1` 中 `_` 的参数 `1`
+      const first = argument.content.find(child => child.position);
+      if (first && first.position!.start.offset >= cursor && isWhitespace(cursor, first.position!.start.offset)) {
+        printNodes(argument.content);
+        return;
+      }
+    }
+    printToken(argument.openMark);
+    printNodes(argument.content);
+    printToken(argument.closeMark);
+  };
+
+  const printNode = (node: Ast.Ast) => {
+    switch (node.type) {
+      case 'root':
+        printNodes(node.content as Ast.Ast[]);
+        return;
+      case 'string':
+        startNode(node);
+        push(node.content as string);
+        finishNode(node);
+        return;
+      case 'whitespace':
+      case 'parbreak': {
+        const text = sourceSlice(node);
+        const canonical = node.type === 'whitespace' ? ' ' : '\n\n';
+        if (startNode(node)) {
+          push(text && /^\s+$/.test(text) ? text : canonical);
+          finishNode(node);
+          return;
+        }
+        if (source === undefined) {
+          push(canonical);
+        } else if (pendingWhitespace !== '\n\n') {
+          pendingWhitespace = canonical;
+        }
+        return;
+      }
+      case 'comment': {
+        const comment = node as Ast.Comment;
+        const text = sourceSlice(node);
+        const percent = text === undefined ? -1 : text.indexOf('%');
+        if (startNode(node) && percent !== -1 && /^\s*$/.test(text!.slice(0, percent))) {
+          // 注释的位置包括其前后的空白：保留源码中的空白，注释内容取自节点
+          const lineEnd = text!.indexOf('\n', percent);
+          push(`${text!.slice(0, percent)}%${comment.content}${lineEnd === -1 ? '' : text!.slice(lineEnd)}`);
+          finishNode(node);
+          return;
+        }
+        const suffix = comment.suffixParbreak ? '' : '\n';
+        push(comment.sameline
+          ? `${comment.leadingWhitespace ? ' ' : ''}%${comment.content}${suffix}`
+          : `\n%${comment.content}${suffix}`);
+        return;
+      }
+      case 'macro': {
+        const macro = node as Ast.Macro;
+        const name = (macro.escapeToken ?? ESCAPE) + macro.content;
+        startNode(node);
+        push(name);
+        if (source !== undefined && node.position && source.startsWith(name, cursor)) {
+          cursor += name.length;
+        }
+        const printedBefore = output.length;
+        for (const argument of macro.args || []) {
+          printArgument(argument);
+        }
+        separateLetters = output.length === printedBefore && LETTER_PATTERN.test(name[name.length - 1]);
+        return;
+      }
+      case 'group':
+        startNode(node);
+        printToken('{');
+        printNodes(node.content as Ast.Ast[]);
+        printToken('}');
+        return;
+      case 'inlinemath': {
+        startNode(node);
+        const parenthesized = source !== undefined && node.position !== undefined && source.startsWith('\\(', cursor);
+        printToken(parenthesized ? '\\(' : '$');
+        printNodes(node.content as Ast.Ast[]);
+        printToken(parenthesized ? '\\)' : '$');
+        return;
+      }
+      case 'displaymath': {
+        startNode(node);
+        const dollars = source !== undefined && node.position !== undefined && source.startsWith('$$', cursor);
+        printToken(dollars ? '$$' : '\\[');
+        printNodes(node.content as Ast.Ast[]);
+        printToken(dollars ? '$$' : '\\]');
+        return;
+      }
+      case 'environment':
+      case 'mathenv':
+      case 'verbatim': {
+        const environment = node as Ast.Environment;
+        if (isInlinedFileNode(environment)) {
+          // 单文档 AST 中被内联文件的内容来自另一个文件，不能与此源码对照
+          push(printPreserved(environment.content, undefined));
+          return;
+        }
+        const name = environmentName(environment);
+        startNode(node);
+        printToken(`${ESCAPE}begin{${name}}`);
+        for (const argument of environment.args || []) {
+          printArgument(argument);
+        }
+        if (isVerbatimEnvironment(node)) {
+          // 逐字内容是没有位置信息的字符串：输出后从源码中 \end{...} 的位置继续
+          const endToken = `${ESCAPE}end{${name}}`;
+          push(environment.content as unknown as string);
+          const endIndex = source !== undefined && node.position ? source.lastIndexOf(endToken, node.position.end.offset - endToken.length) : -1;
+          cursor = endIndex === -1 ? cursor : endIndex;
+        } else {
+          printNodes(environment.content);
+        }
+        printToken(`${ESCAPE}end{${name}}`);
+        return;
+      }
+      case 'verb': {
+        const verb = node as Ast.Verb;
+        startNode(node);
+        push(`${ESCAPE}${verb.env}${verb.escape}${verb.content}${verb.escape}`);
+        finishNode(node);
+        return;
+      }
+      default:
+        push(printRaw(node));
+    }
+  };
+
+  const printNodes = (children: Ast.Ast[]) => {
+    for (const child of children) {
+      printNode(child);
+    }
+  };
+
+  printNodes(nodes);
+  // 文件末尾 (最后一个节点之后) 的空白
+  if (source !== undefined && cursor < source.length && isWhitespace(cursor, source.length)) {
+    push(source.slice(cursor));
+  }
+  return output.join('');
+}
+
+/**
+ * (内部) 按 `'normalized'` 格式输出。逐字内容先替换为占位符，缩进和空白规范化之后再恢复，使其保持原样。
+ */
+function printNormalized(root: Ast.Ast[], indent: string): string {
+  const rawTexts: string[] = [];
+  const protect = (text: string) => `${PLACEHOLDER_MARK}${rawTexts.push(text) - 1}${PLACEHOLDER_MARK}`;
+  const isBlock = (node: Ast.Ast | undefined) =>
+    !!node && (node.type === 'environment' || node.type === 'mathenv' || node.type === 'verbatim' || (node.type === 'macro' && node.content === 'item'));
+  const atLineStart = (text: string) => text === '' || /\n[ \t]*$/.test(text);
+  const indentLines = (text: string) => text.split('\n').map(line => (line.trim() ? indent + line : '')).join('\n');
+
+  const printNodes = (nodes: Ast.Ast[]): string => {
+    let text = '';
+    let separateLetters = false;
+    nodes.forEach((node, index) => {
+      let printed: string;
+      switch (node.type) {
+        case 'whitespace':
+          // 块 (环境和 \item) 前后以及源码中跨行的空白换行输出，行首的空白省略
+          printed = /\s$/.test(text) || text === '' ? ''
+            : isBlock(nodes[index - 1]) || isBlock(nodes[index + 1]) || (node.position && node.position.start.line !== node.position.end.line) ? '\n' : ' ';
+          break;
+        case 'parbreak':
+          text = text.replace(/[ \t]+$/, '');
+          // 列表处理在 \item 之间插入的段落分隔 (没有位置信息) 只换行
+          printed = !node.position && isBlock(nodes[index + 1]) ? '\n' : '\n\n';
+          break;
+        case 'comment': {
+          const comment = node as Ast.Comment;
+          const prefix = comment.sameline ? (comment.leadingWhitespace && !/\s$/.test(text) && text !== '' ? ' ' : '') : (atLineStart(text) ? '' : '\n');
+          printed = `${prefix}%${comment.content}\n${comment.suffixParbreak ? '\n' : ''}`;
+          break;
+        }
+        case 'macro': {
+          const macro = node as Ast.Macro;
+          if (macro.content === 'item' && !atLineStart(text)) {
+            text = `${text.replace(/[ \t]+$/, '')}\n`;
+          }
+          const args = (macro.args || []).map(argument => {
+            if (macro.content !== 'item' || argument.openMark !== '') {
+              return printArgument(argument);
+            }
+            // 列表处理把 \item 之后的内容作为没有定界符的参数，与 \item 之间只保留一个空格
+            const body = printNodes(argument.content).trim();
+            return body ? ` ${body}` : '';
+          }).join('');
+          printed = (macro.escapeToken ?? ESCAPE) + macro.content + args;
+          break;
+        }
+        case 'group':
+          printed = `{${printNodes(node.content as Ast.Ast[])}}`;
+          break;
+        case 'inlinemath':
+          printed = `$${printNodes(node.content as Ast.Ast[])}$`;
+          break;
+        case 'displaymath':
+          printed = `\\[${printNodes(node.content as Ast.Ast[])}\\]`;
+          break;
+        case 'environment':
+        case 'mathenv':
+        case 'verbatim': {
+          const environment = node as Ast.Environment;
+          if (isInlinedFileNode(environment)) {
+            printed = printNodes(environment.content);
+            break;
+          }
+          const name = environmentName(environment);
+          const begin = `${ESCAPE}begin{${name}}${(environment.args || []).map(printArgument).join('')}`;
+          const end = `${ESCAPE}end{${name}}`;
+          if (isVerbatimEnvironment(environment)) {
+            printed = `${begin}${protect(environment.content as unknown as string)}${end}`;
+          } else {
+            const body = printNodes(environment.content).trim();
+            printed = `${begin}${body ? `\n${indentLines(body)}` : ''}\n${end}`;
+          }
+          break;
+        }
+        case 'verb': {
+          const verb = node as Ast.Verb;
+          printed = protect(`${ESCAPE}${verb.env}${verb.escape}${verb.content}${verb.escape}`);
+          break;
+        }
+        case 'string':
+          printed = node.content as string;
+          break;
+        default:
+          printed = printRaw(node);
+      }
+      if (separateLetters && LETTER_PATTERN.test(printed[0] || '')) {
+        printed = ` ${printed}`;
+      }
+      separateLetters = node.type === 'macro' && printed === (node.escapeToken ?? ESCAPE) + node.content
+        && (node.escapeToken ?? ESCAPE) === ESCAPE && LETTER_PATTERN.test((node.content as string).slice(-1));
+      text += printed;
+    });
+    return text;
+  };
+  const printArgument = (argument: Ast.Argument): string => argument.openMark + printNodes(argument.content) + argument.closeMark;
+
+  const text = printNodes(root)
+    .split('\n').map(line => line.replace(/[ \t]+$/, '')).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return `${text.replace(PLACEHOLDER_PATTERN, (_, index: string) => rawTexts[Number(index)])}\n`;
+}
+
+/**
+ * 将处理后的 AST 重新输出为 LaTeX 源码。
+ *
+ * - `'preserve'` 格式 (默认)：附加的参数按其定界符输出，注释和空白保留。提供 `source` 时从源码中取回被解析器规范化或省略的空白，
+ *   未修改的 AST 可以逐字节还原 (参见 {@link checkRoundTrip})；没有位置信息的节点 (新建的节点) 按规范形式输出。
+ * - `'normalized'` 格式：环境内容按层级统一缩进，`\begin`/`\end` 和每个 `\item` 单独一行，行尾空白去掉，连续的空行合并；
+ *   逐字环境和 `\verb` 的内容保持原样。
+ *
+ * 单文档 AST 中内联文件节点 ({@link InlinedFileNode}) 输出为被内联文件的内容。
+ * @param ast - 要输出的 AST 根节点 (或任一节点)。
+ * @param options - 输出选项 {@link PrintLatexOptions}。
+ * @returns LaTeX 源码。
+ */
+export function printLatex(ast: Ast.Ast, options: PrintLatexOptions = {}): string {
+  if (options.format === 'normalized') {
+    return printNormalized(ast.type === 'root' ? ast.content as Ast.Ast[] : [ast], options.indent ?? DEFAULT_PRINT_INDENT);
+  }
+  return printPreserved(ast.type === 'root' ? ast.content as Ast.Ast[] : [ast], options.source);
+}
+
+/**
+ * 检查 AST 按 `'preserve'` 格式重新输出后是否与其源码相同。不同时给出去掉相同的开头和结尾的行之后剩余的差异。
+ * @param ast - 解析 `source` 得到的 AST (可以已附加参数、处理了环境)。
+ * @param source - 原始源码。
+ * @returns 检查结果 {@link RoundTripResult}。
+ */
+export function checkRoundTrip(ast: Ast.Root, source: string): RoundTripResult {
+  const printed = printLatex(ast, { source });
+  if (printed === source) {
+    return { identical: true, printed };
+  }
+  const expected = source.split('\n');
+  const actual = printed.split('\n');
+  let prefix = 0;
+  while (prefix < expected.length && prefix < actual.length && expected[prefix] === actual[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < Math.min(expected.length, actual.length) - prefix
+    && expected[expected.length - 1 - suffix] === actual[actual.length - 1 - suffix]) {
+    suffix++;
+  }
+  return {
+    identical: false,
+    printed,
+    difference: {
+      line: prefix + 1,
+      expected: expected.slice(prefix, expected.length - suffix),
+      actual: actual.slice(prefix, actual.length - suffix),
+    },
+  };
+}
@@ -5,7 +5,7 @@
  * 并提供将任意 AST 对象保存为 JSON 文件的功能。
  */
 
-import type { Ast, ProjectAST } from '../types/index'; // 使用新的统一类型入口
+import type { Ast, ProjectAST, IncludeTreeNode, InclusionDirectives, RootRedirection, TexMagicComments, LocalPackageFile, DefinitionProvenance, DefinitionTimelineEntry, DefinitionDiagnostic, InferredMacroSignature, TheoremSpec } from '../types/index'; // 使用新的统一类型入口
 import { writeFileAsync, mkdirRecursiveAsync } from '../utils/fileSystem'; // 使用新的文件系统工具
 import { getDirname } from '../utils/pathUtils'; // 使用新的路径工具
 import { createLogger, Logger } from '../utils/logger';
@@ -22,14 +22,22 @@ const logger: Logger = createLogger('ast:AstSerializer');
 interface SerializedOutput {
   _metadata?: {
     rootFilePath?: string | null; // ProjectAST 中 rootFilePath 可以是 null
+    rootRedirection?: RootRedirection;
+    rootMagicComments?: TexMagicComments;
+    localPackages?: LocalPackageFile[];
+    usedPackages?: string[];
     projectGlobalErrors?: string[];
+    includeTree?: IncludeTreeNode | null;
+    inclusionControl?: InclusionDirectives & { source: 'document' | 'options' };
     // effectiveMacros 和 effectiveEnvironments 作为顶层扁平化列表，方便快速访问
     effectiveMacros?: Ast.MacroInfoRecord; 
     effectiveEnvironments?: Ast.EnvInfoRecord;
     // macrosByCategory 和 environmentsByCategory 提供更详细的分类信息
     macrosByCategory?: {
         defaultAndUser: Ast.MacroInfoRecord;
+        ctanPackages: Ast.MacroInfoRecord;
         definedInDocument: Ast.MacroInfoRecord;
+        packageLocal: Ast.MacroInfoRecord;
         inferredUsed: Ast.MacroInfoRecord;
         finalEffectiveMacros: Ast.MacroInfoRecord; 
     };
@@ -37,17 +45,39 @@ interface SerializedOutput {
         ctanEnvironments: Ast.EnvInfoRecord;
         userProvidedEnvironments: Ast.EnvInfoRecord;
         definedInDocumentEnvironments: Ast.EnvInfoRecord;
+        packageLocalEnvironments: Ast.EnvInfoRecord;
+        inferredUsedEnvironments: Ast.EnvInfoRecord;
         finalEffectiveEnvironments: Ast.EnvInfoRecord;
     };
+    // 每个生效的宏和环境的来源 (胜出的类别、定义位置和源码)
+    definitionProvenance?: {
+        macros: Record<string, DefinitionProvenance>;
+        environments: Record<string, DefinitionProvenance>;
+    };
+    // 文档中每一次宏和环境的 (重新) 定义，按文档顺序排列
+    definitionTimeline?: DefinitionTimelineEntry[];
+    // 静态检测到的定义问题
+    definitionDiagnostics?: DefinitionDiagnostic[];
+    // 推断出的宏的推断依据
+    inferredMacroSignatures?: Record<string, InferredMacroSignature>;
+    // 推断出的环境的推断依据
+    inferredEnvironmentSignatures?: Record<string, InferredMacroSignature>;
+    // 定理类环境的编号方式和样式
+    theoremEnvironments?: Record<string, TheoremSpec>;
+    // 输出为单文档模式 (根文件的 ast 是合并后的单文档 AST，其他文件不带 ast)
+    flattened?: boolean;
     processingInfo?: {
       timestamp: string;
       parserVersion: string; 
+      reprocessingPasses?: number;
     };
   };
   // 其余属性是文件路径到其 AST 和错误的映射
   [filePath: string]: {
-    ast: Ast.Root;       // 明确类型为 Ast.Root
+    ast?: Ast.Root;      // 明确类型为 Ast.Root (单文档模式下只有根文件带有)
     parsingError?: string;
+    excluded?: boolean;
+    lineOffsets?: number[];
   } | any; // `| any` 是为了兼容 _metadata 属性，可以考虑更严格的类型
 }
 
@@ -56,11 +86,14 @@ interface SerializedOutput {
  * 
  * @param projectAST - 项目AST对象，期望包含 `_detailedMacros` 和 `_detailedEnvironments`。 
  * @param prettyPrint - 是否格式化输出的 JSON 字符串 (带缩进)。默认为 `false`。
+ * @param flatten - 是否输出单文档 AST：根文件条目的 `ast` 为 `projectAST.flattenedAst`，其他文件的条目只保留错误、排除标记和行偏移量表，
+ *                  `_metadata` 与按文件输出时相同。默认为 `false`。
  * @returns 表示项目AST的 JSON 字符串。
  */
 export function serializeProjectAstToJson(
   projectAST: ProjectAST,
-  prettyPrint: boolean = false
+  prettyPrint: boolean = false,
+  flatten: boolean = false
 ): string {
   const outputData: SerializedOutput = {};
   
@@ -72,14 +105,40 @@ export function serializeProjectAstToJson(
         parserVersion: projectAST._processingInfo?.parserVersion || 'unknown', 
     }
   };
+  if (projectAST._processingInfo?.reprocessingPasses !== undefined) {
+    outputData._metadata.processingInfo!.reprocessingPasses = projectAST._processingInfo.reprocessingPasses;
+  }
+
+  if (flatten) {
+    outputData._metadata.flattened = true;
+  }
 
   if (projectAST.rootFilePath !== undefined) { // rootFilePath 可以是 null
     outputData._metadata.rootFilePath = projectAST.rootFilePath;
   }
+  if (projectAST.rootRedirection) {
+    outputData._metadata.rootRedirection = projectAST.rootRedirection;
+  }
+  if (projectAST.rootMagicComments && Object.keys(projectAST.rootMagicComments).length > 0) {
+    outputData._metadata.rootMagicComments = projectAST.rootMagicComments;
+  }
   
   if (projectAST.errors && projectAST.errors.length > 0) {
     outputData._metadata.projectGlobalErrors = projectAST.errors;
   }
+
+  if (projectAST.includeTree !== undefined) {
+    outputData._metadata.includeTree = projectAST.includeTree;
+  }
+  if (projectAST.localPackages && projectAST.localPackages.length > 0) {
+    outputData._metadata.localPackages = projectAST.localPackages;
+  }
+  if (projectAST.usedPackages && projectAST.usedPackages.length > 0) {
+    outputData._metadata.usedPackages = projectAST.usedPackages;
+  }
+  if (projectAST.inclusionControl) {
+    outputData._metadata.inclusionControl = projectAST.inclusionControl;
+  }
   
   // 使用详细的分类宏信息
   if (projectAST._detailedMacros) {
@@ -97,6 +156,24 @@ export function serializeProjectAstToJson(
   } else if (projectAST.environments) { 
     outputData._metadata.effectiveEnvironments = projectAST.environments;
   }
+  if (projectAST.definitionProvenance) {
+    outputData._metadata.definitionProvenance = projectAST.definitionProvenance;
+  }
+  if (projectAST.definitionTimeline) {
+    outputData._metadata.definitionTimeline = projectAST.definitionTimeline;
+  }
+  if (projectAST.definitionDiagnostics) {
+    outputData._metadata.definitionDiagnostics = projectAST.definitionDiagnostics;
+  }
+  if (projectAST.inferredMacroSignatures) {
+    outputData._metadata.inferredMacroSignatures = projectAST.inferredMacroSignatures;
+  }
+  if (projectAST.inferredEnvironmentSignatures) {
+    outputData._metadata.inferredEnvironmentSignatures = projectAST.inferredEnvironmentSignatures;
+  }
+  if (projectAST.theoremEnvironments && Object.keys(projectAST.theoremEnvironments).length > 0) {
+    outputData._metadata.theoremEnvironments = projectAST.theoremEnvironments;
+  }
 
   // 填充每个文件的 AST 数据
   for (const fileAstEntry of projectAST.files) {
@@ -105,12 +182,24 @@ export function serializeProjectAstToJson(
         logger.warn("项目中的文件路径名为 '_metadata'，可能导致序列化问题。已跳过此文件条目。" );
         continue;
     }
-    outputData[fileAstEntry.filePath] = {
-      ast: fileAstEntry.ast, // ast 可能为 null，如果文件解析失败
-    };
+    if (!flatten) {
+      outputData[fileAstEntry.filePath] = {
+        ast: fileAstEntry.ast, // ast 可能为 null，如果文件解析失败
+      };
+    } else if (fileAstEntry.filePath === projectAST.rootFilePath) {
+      outputData[fileAstEntry.filePath] = { ast: projectAST.flattenedAst ?? null };
+    } else {
+      outputData[fileAstEntry.filePath] = {};
+    }
     if (fileAstEntry.error) {
       outputData[fileAstEntry.filePath].parsingError = fileAstEntry.error;
     }
+    if (fileAstEntry.excluded) {
+      outputData[fileAstEntry.filePath].excluded = true;
+    }
+    if (fileAstEntry.lineOffsets) {
+      outputData[fileAstEntry.filePath].lineOffsets = fileAstEntry.lineOffsets;
+    }
   }
   
   return prettyPrint 
@@ -0,0 +1,153 @@
+/**
+ * 定义导出模块
+ *
+ * 将项目中发现的宏和环境定义 (文档内定义的、项目目录中本地宏包定义的和根据使用推断的) 导出为自定义宏/环境文件，
+ * 格式与 `configManager` 中 `loadRecordFromFile` 读取的格式相同 (`{ "name": { "signature": "..." } }`)，
+ * 并附加来源类别、所在文件、使用次数等注释字段，便于整理后在其他项目中复用。
+ */
+
+import type { Ast, ProjectAST, DefinitionTimelineEntry, DefinitionProvenance, ExportedDefinition, DiscoveredDefinitions, InferredMacroSignature } from '../types/index';
+import { visit } from '../latex-utils/astQuery';
+import { getDirname, getRelativePath } from '../utils/pathUtils';
+
+/**
+ * (内部) 名称的使用统计：总次数以及首次使用所在的文件。
+ */
+interface UsageStats {
+  count: number;
+  firstFile: string;
+}
+
+/**
+ * (内部) 按文档顺序统计项目文件中每个宏和环境的使用次数。
+ */
+function collectUsageStats(projectAst: ProjectAST): { macros: Map<string, UsageStats>; environments: Map<string, UsageStats> } {
+  const macros = new Map<string, UsageStats>();
+  const environments = new Map<string, UsageStats>();
+  const record = (stats: Map<string, UsageStats>, name: string, filePath: string) => {
+    const existing = stats.get(name);
+    if (existing) {
+      existing.count++;
+    } else {
+      stats.set(name, { count: 1, firstFile: filePath });
+    }
+  };
+  for (const file of projectAst.files) {
+    if (!file.ast) {
+      continue;
+    }
+    visit(file.ast, (node: Ast.Ast) => {
+      if (node.type === 'macro') {
+        record(macros, node.content, file.filePath);
+      } else if (node.type === 'environment' || node.type === 'mathenv') {
+        record(environments, node.env, file.filePath);
+      }
+    });
+  }
+  return { macros, environments };
+}
+
+/**
+ * (内部) 生成一类 (宏或环境) 的导出定义：依次为文档内定义、本地宏包定义和推断的定义，同名时以先出现的为准。
+ */
+function exportKind(
+  kind: DefinitionTimelineEntry['kind'],
+  definedInDocument: Ast.MacroInfoRecord | Ast.EnvInfoRecord,
+  packageLocal: Ast.MacroInfoRecord | Ast.EnvInfoRecord,
+  provenance: Record<string, DefinitionProvenance>,
+  inferred: Ast.MacroInfoRecord | Ast.EnvInfoRecord,
+  inferredSignatures: Record<string, InferredMacroSignature>,
+  timeline: DefinitionTimelineEntry[],
+  usage: Map<string, UsageStats>,
+  toSourceFile: (filePath: string) => string
+): Record<string, ExportedDefinition> {
+  // 每个名称的定义次数及最后一次定义所在的文件；宏的定义命令中包含宏名本身，统计使用次数时需要减去
+  const definitionCounts = new Map<string, number>();
+  const definitionFiles = new Map<string, string>();
+  for (const entry of timeline) {
+    if (entry.kind === kind) {
+      definitionCounts.set(entry.name, (definitionCounts.get(entry.name) || 0) + 1);
+      definitionFiles.set(entry.name, entry.file);
+    }
+  }
+
+  const exported: Record<string, ExportedDefinition> = {};
+  for (const [name, info] of Object.entries(definedInDocument)) {
+    const definitionFile = definitionFiles.get(name);
+    const ownOccurrences = kind === 'macro' ? definitionCounts.get(name) || 0 : 0;
+    exported[name] = {
+      signature: info.signature || '',
+      category: 'defined-in-document',
+      ...(definitionFile !== undefined ? { sourceFile: toSourceFile(definitionFile) } : {}),
+      usageCount: Math.max(0, (usage.get(name)?.count || 0) - ownOccurrences),
+    };
+  }
+  for (const [name, info] of Object.entries(packageLocal)) {
+    if (exported[name]) {
+      continue;
+    }
+    const definitionFile = provenance[name]?.category === 'package-local' ? provenance[name].file : undefined;
+    exported[name] = {
+      signature: info.signature || '',
+      category: 'package-local',
+      ...(definitionFile !== undefined ? { sourceFile: toSourceFile(definitionFile) } : {}),
+      usageCount: usage.get(name)?.count || 0,
+    };
+  }
+  for (const [name, info] of Object.entries(inferred)) {
+    if (exported[name]) {
+      continue;
+    }
+    const stats = usage.get(name);
+    const inference = inferredSignatures[name];
+    exported[name] = {
+      signature: info.signature || '',
+      category: 'inferred',
+      ...(stats ? { sourceFile: toSourceFile(stats.firstFile) } : {}),
+      usageCount: inference ? inference.usageCount : stats?.count || 0,
+      ...(inference ? { confidence: inference.confidence } : {}),
+    };
+  }
+  return exported;
+}
+
+/**
+ * 导出项目中发现的宏和环境定义 (文档内定义的、项目目录中本地宏包定义的和根据使用推断的)。
+ * 来自默认宏、CTAN 或用户提供文件的定义不会被导出。
+ *
+ * 返回值中的 `macros` 和 `environments` 可以直接保存为 JSON，作为 `ParserOptions.macrosFile`/`environmentsFile` 使用。
+ * @param projectAst - {@link ProjectAST}，需要包含 `_detailedMacros` 和 `_detailedEnvironments`
+ *   (本地宏包定义的 `sourceFile` 取自 `definitionProvenance`)。
+ * @returns {@link DiscoveredDefinitions}。`sourceFile` 相对于根文件所在目录；无法确定根文件时为规范化的绝对路径。
+ */
+export function exportDiscoveredDefinitions(projectAst: ProjectAST): DiscoveredDefinitions {
+  const usage = collectUsageStats(projectAst);
+  const timeline = projectAst.definitionTimeline || [];
+  const baseDir = projectAst.rootFilePath ? getDirname(projectAst.rootFilePath) : null;
+  const toSourceFile = (filePath: string) => (baseDir ? getRelativePath(baseDir, filePath) : filePath);
+
+  return {
+    macros: exportKind(
+      'macro',
+      projectAst._detailedMacros?.definedInDocument || {},
+      projectAst._detailedMacros?.packageLocal || {},
+      projectAst.definitionProvenance?.macros || {},
+      projectAst._detailedMacros?.inferredUsed || {},
+      projectAst.inferredMacroSignatures || {},
+      timeline,
+      usage.macros,
+      toSourceFile
+    ),
+    environments: exportKind(
+      'environment',
+      projectAst._detailedEnvironments?.definedInDocumentEnvironments || {},
+      projectAst._detailedEnvironments?.packageLocalEnvironments || {},
+      projectAst.definitionProvenance?.environments || {},
+      projectAst._detailedEnvironments?.inferredUsedEnvironments || {},
+      projectAst.inferredEnvironmentSignatures || {},
+      timeline,
+      usage.environments,
+      toSourceFile
+    ),
+  };
+}
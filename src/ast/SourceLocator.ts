@@ -0,0 +1,71 @@
+/**
+ * 源码定位模块
+ *
+ * 把项目 AST 中的任一节点映射回其所在的文件和行列号。节点所在的文件由它在哪个文件的 AST 中 (或单文档 AST 中
+ * 哪个 {@link InlinedFileNode} 中) 决定；行列号由节点位置的偏移量和文件的行偏移量表 (`ProjectFileAst.lineOffsets`) 得出，
+ * 没有行偏移量表时使用节点位置中记录的行列号。启用 `ParserOptions.positions` 时每个节点都有位置信息。
+ */
+
+import type { Ast, ProjectAST, SourceLocation } from '../types/index';
+import { isInlinedFileNode } from './AstFlattener';
+import { offsetToPoint } from '../latex-utils/sourcePositions';
+
+/** 每个项目 AST 的节点到所在文件路径的索引，首次查询时建立 */
+const fileIndexCache = new WeakMap<ProjectAST, WeakMap<object, string>>();
+
+/**
+ * (内部) 记录 `node` 及其参数和子节点所在的文件。内联文件节点的内容属于被内联的文件。
+ */
+function indexNodes(node: Ast.Ast, filePath: string, index: WeakMap<object, string>): void {
+  index.set(node, filePath);
+  const contentFilePath = isInlinedFileNode(node) ? node.inlinedFrom.filePath : filePath;
+  if (Array.isArray(node.args)) {
+    for (const argument of node.args as Ast.Argument[]) {
+      indexNodes(argument, filePath, index);
+    }
+  }
+  if (Array.isArray(node.content)) {
+    for (const child of node.content as Ast.Ast[]) {
+      indexNodes(child, contentFilePath, index);
+    }
+  }
+}
+
+/**
+ * (内部) 为项目 AST 建立节点到文件路径的索引 (包括各文件的 AST 和单文档 AST)。
+ */
+function buildFileIndex(projectAst: ProjectAST): WeakMap<object, string> {
+  const index = new WeakMap<object, string>();
+  if (projectAst.flattenedAst && projectAst.rootFilePath) {
+    indexNodes(projectAst.flattenedAst, projectAst.rootFilePath, index);
+  }
+  for (const file of projectAst.files) {
+    if (file.ast) {
+      indexNodes(file.ast, file.filePath, index);
+    }
+  }
+  return index;
+}
+
+/**
+ * 查找节点在项目源文件中的位置。
+ * @param projectAst - 节点所属的 {@link ProjectAST}。
+ * @param node - 项目中任一文件的 AST (或单文档 AST) 中的节点。
+ * @returns 节点起始处的文件、行号、列号和偏移量；节点不属于此项目或没有位置信息时返回 `null`。
+ */
+export function locate(projectAst: ProjectAST, node: Ast.Ast): SourceLocation | null {
+  let index = fileIndexCache.get(projectAst);
+  if (!index || !index.has(node)) {
+    // AST 可能在上次查询之后被修改，重新建立索引
+    index = buildFileIndex(projectAst);
+    fileIndexCache.set(projectAst, index);
+  }
+  const filePath = index.get(node);
+  const start = node.position?.start;
+  if (filePath === undefined || !start) {
+    return null;
+  }
+  const lineOffsets = projectAst.files.find(file => file.filePath === filePath)?.lineOffsets;
+  const point = lineOffsets ? offsetToPoint(lineOffsets, start.offset) : start;
+  return { file: filePath, line: point.line, column: point.column, offset: start.offset };
+}
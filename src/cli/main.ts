@@ -11,8 +11,11 @@ import { hideBin } from 'yargs/helpers';
 import type { Ast, ProjectAST, CliOptions, ParserOptions } from '../types/index';
 import { ProjectProcessor } from '../core/ProjectProcessor';
 import { serializeProjectAstToJson, saveAstDataAsJson } from '../ast/AstSerializer';
-import { writeFileAsync } from '../utils/fileSystem';
+import { exportDiscoveredDefinitions } from '../ast/DefinitionExporter';
+import { checkRoundTrip } from '../ast/AstPrinter';
+import { readFileAsync, writeFileAsync } from '../utils/fileSystem';
 import { joinPaths, getDirname, getBasename } from '../utils/pathUtils';
+import { splitNameList } from '../latex-utils/projectFileUtils';
 import { createLogger, Logger, setGlobalLogLevel, LoggerLogLevel } from '../utils/logger';
 
 // 初始化顶层 logger
@@ -21,24 +24,32 @@ const cliLogger: Logger = createLogger('cli:main');
 // 全局类型导出 (如果其他CLI工具可能需要从这个主文件导入)
 export type { Ast };
 
+/**
+ * 将可多次指定、每次又可用逗号分隔的列表选项展开为单个数组。
+ * @param values - yargs 解析得到的数组选项值。
+ * @returns 展开后的列表；如果选项未提供，则返回 undefined。
+ */
+function splitListOption(values: string[] | undefined): string[] | undefined {
+  if (!values) {
+    return undefined;
+  }
+  return values.flatMap(value => splitNameList(String(value)));
+}
+
 /**
  * 解析命令行参数。
+ * 第一个参数为 `defs` 时解析 `defs` 子命令 (导出项目中发现的定义)，否则解析默认的 AST 输出命令。
  * @param args - 来自 process.argv 的参数数组 (通常是 process.argv.slice(2) 或 yargs 的 hideBin(process.argv))。
  * @returns 解析后的 CliOptions 对象。
  */
 function parseCliArguments(args: string[]): CliOptions {
-  const parser = yargs(args)
-    .usage('用法: $0 <入口路径> [选项]')
+  const isDefsCommand = args[0] === 'defs';
+  const parser = yargs(isDefsCommand ? args.slice(1) : args)
+    .usage(isDefsCommand ? '用法: $0 defs <入口路径> [选项]' : '用法: $0 <入口路径> [选项]')
     .positional('entryPath', {
       describe: '根 .tex 文件或项目目录的路径',
       type: 'string',
     })
-    .option('output', {
-      alias: 'o',
-      describe: '输出JSON文件的路径',
-      type: 'string',
-      default: 'ast.json',
-    })
     .option('custom-macros-file', {
       alias: 'c',
       describe: '包含自定义宏定义的JSON文件路径',
@@ -49,6 +60,11 @@ function parseCliArguments(args: string[]): CliOptions {
       describe: '包含自定义环境定义的JSON文件路径',
       type: 'string',
     })
+    .option('strict-config', {
+      describe: '严格校验自定义宏/环境定义文件：文件缺失、无法解析或有任何问题时中止，而不是忽略有问题的条目',
+      type: 'boolean',
+      default: false,
+    })
     .option('pretty', {
       describe: '格式化JSON输出',
       type: 'boolean',
@@ -59,15 +75,31 @@ function parseCliArguments(args: string[]): CliOptions {
       type: 'boolean',
       default: true,
     })
-    .option('save-individual-ast', {
-      describe: '将每个文件的AST保存为单独的JSON文件',
+    .option('fixpoint-reprocessing', {
+      describe: '首轮解析后重新处理所见定义已过时的文件，直到定义状态稳定',
       type: 'boolean',
-      default: false,
+      default: true,
+    })
+    .option('include-only', {
+      describe: '覆盖文档中的 \\includeonly：只跟随列出的 \\include 文件 (可多次指定或用逗号分隔)',
+      type: 'string',
+      array: true,
+    })
+    .option('exclude-only', {
+      describe: '覆盖文档中的 \\excludeonly：跳过列出的 \\include 文件 (可多次指定或用逗号分隔)',
+      type: 'string',
+      array: true,
     })
-    .option('individual-ast-dir', {
-      describe: '存储单独AST文件的目录',
+    .option('include-only-mode', {
+      describe: '被排除的 \\include 文件的处理方式: skip 不解析，flag 仍解析但标记为 excluded',
       type: 'string',
-      default: 'individual_asts',
+      choices: ['skip', 'flag'],
+      default: 'skip',
+    })
+    .option('local-packages', {
+      describe: '解析项目目录中由 \\usepackage/\\documentclass 引用的本地 .sty/.cls 文件，并使用其中的定义',
+      type: 'boolean',
+      default: true,
     })
     .option('verbose', {
         alias: 'v',
@@ -81,8 +113,71 @@ function parseCliArguments(args: string[]): CliOptions {
         default: false,
     })
     .help('h')
-    .alias('h', 'help')
-    .epilog('示例: latex-ast-parser ./main.tex -o project_ast.json -c ./my_macros.json');
+    .alias('h', 'help');
+
+  if (isDefsCommand) {
+    parser
+      .option('emit', {
+        describe: '将发现的宏定义写入此JSON文件 (格式与 --custom-macros-file 相同)',
+        type: 'string',
+      })
+      .option('emit-environments', {
+        describe: '将发现的环境定义写入此JSON文件 (格式与 --custom-environments-file 相同)',
+        type: 'string',
+      })
+      .epilog('示例: latex-ast-parser defs ./thesis --emit macros.json --emit-environments environments.json\n'
+        + '未指定 --emit/--emit-environments 时，宏和环境定义一起输出到标准输出。');
+  } else {
+    parser
+      .option('output', {
+        alias: 'o',
+        describe: '输出JSON文件的路径',
+        type: 'string',
+        default: 'ast.json',
+      })
+      .option('flatten', {
+        describe: '输出合并后的单文档AST (包含命令被替换为目标文件的内容)，而不是按文件划分的项目AST',
+        type: 'boolean',
+        default: false,
+      })
+      .option('include-package-asts', {
+        describe: '在输出中包含本地 .sty/.cls 文件的AST',
+        type: 'boolean',
+        default: false,
+      })
+      .option('expand-macros', {
+        describe: '展开文档中定义的宏 (宏调用被替换为代入参数后的定义体)',
+        type: 'boolean',
+        default: false,
+      })
+      .option('max-expansion-depth', {
+        describe: '宏展开的最大嵌套深度',
+        type: 'number',
+        default: 10,
+      })
+      .option('positions', {
+        describe: '为每个节点保留源码位置信息，并在输出中包含每个文件的行偏移量表',
+        type: 'boolean',
+        default: false,
+      })
+      .option('check-roundtrip', {
+        describe: '不输出AST，而是把每个文件的AST重新输出为LaTeX源码并与原始文件比较，存在差异时以状态码 1 退出',
+        type: 'boolean',
+        default: false,
+      })
+      .option('save-individual-ast', {
+        describe: '将每个文件的AST保存为单独的JSON文件',
+        type: 'boolean',
+        default: false,
+      })
+      .option('individual-ast-dir', {
+        describe: '存储单独AST文件的目录',
+        type: 'string',
+        default: 'individual_asts',
+      })
+      .epilog('示例: latex-ast-parser ./main.tex -o project_ast.json -c ./my_macros.json\n'
+        + '      latex-ast-parser defs ./thesis --emit macros.json (导出项目中发现的定义，参见 defs --help)');
+  }
 
   const argv = parser.parseSync();
 
@@ -95,20 +190,102 @@ function parseCliArguments(args: string[]): CliOptions {
   }
   
   return {
+    command: isDefsCommand ? 'defs' : 'parse',
     entryPath: entryPath,
-    output: argv.output as string,
+    output: argv.output as string | undefined,
     customMacrosFile: argv.customMacrosFile as string | undefined,
     customEnvironmentsFile: argv.customEnvironmentsFile as string | undefined,
+    strictConfig: argv.strictConfig as boolean,
     pretty: argv.pretty as boolean,
     loadDefaultMacros: argv.loadDefaultMacros as boolean, 
-    saveIndividualAst: argv.saveIndividualAst as boolean,
-    individualAstDir: argv.individualAstDir as string,
+    fixpointReprocessing: argv.fixpointReprocessing as boolean,
+    flatten: argv.flatten as boolean | undefined,
+    includeOnly: splitListOption(argv.includeOnly as string[] | undefined),
+    excludeOnly: splitListOption(argv.excludeOnly as string[] | undefined),
+    includeOnlyMode: argv.includeOnlyMode as 'skip' | 'flag',
+    followLocalPackages: argv.localPackages as boolean,
+    includePackageAsts: argv.includePackageAsts as boolean | undefined,
+    expandMacros: argv.expandMacros as boolean | undefined,
+    maxExpansionDepth: argv.maxExpansionDepth as number | undefined,
+    positions: argv.positions as boolean | undefined,
+    checkRoundtrip: argv.checkRoundtrip as boolean | undefined,
+    saveIndividualAst: argv.saveIndividualAst as boolean | undefined,
+    individualAstDir: argv.individualAstDir as string | undefined,
+    emitMacrosFile: argv.emit as string | undefined,
+    emitEnvironmentsFile: argv.emitEnvironments as string | undefined,
     showHelp: argv.help as boolean,
     verbose: argv.verbose as boolean,
     silent: argv.silent as boolean,
   } as CliOptions; 
 }
 
+/**
+ * 执行 `defs` 子命令：导出项目中发现的宏和环境定义 (参见 {@link exportDiscoveredDefinitions})。
+ * 指定了 `--emit`/`--emit-environments` 时分别写入对应文件，否则一起输出到标准输出。
+ * @param cliArgs - 解析后的命令行参数。
+ * @param projectAst - 解析得到的项目AST。
+ */
+async function runDefsCommand(cliArgs: CliOptions, projectAst: ProjectAST): Promise<void> {
+  const definitions = exportDiscoveredDefinitions(projectAst);
+  const macroCount = Object.keys(definitions.macros).length;
+  const environmentCount = Object.keys(definitions.environments).length;
+  cliLogger.info(`发现 ${macroCount} 个宏定义和 ${environmentCount} 个环境定义。`);
+
+  if (!cliArgs.emitMacrosFile && !cliArgs.emitEnvironmentsFile) {
+    console.log(cliArgs.pretty ? JSON.stringify(definitions, null, 2) : JSON.stringify(definitions));
+    return;
+  }
+  let failed = false;
+  if (cliArgs.emitMacrosFile) {
+    failed = !(await saveAstDataAsJson(definitions.macros, cliArgs.emitMacrosFile, cliArgs.pretty)) || failed;
+  }
+  if (cliArgs.emitEnvironmentsFile) {
+    failed = !(await saveAstDataAsJson(definitions.environments, cliArgs.emitEnvironmentsFile, cliArgs.pretty)) || failed;
+  }
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+/**
+ * 执行 `--check-roundtrip` 模式：把每个文件的AST重新输出为LaTeX源码 (参见 {@link checkRoundTrip})，
+ * 与磁盘上的原始文件比较并在标准输出中列出差异。存在差异或无法读取的文件时以状态码 1 退出。
+ * @param projectAst - 解析得到的项目AST。
+ */
+async function runCheckRoundtrip(projectAst: ProjectAST): Promise<void> {
+  let identicalCount = 0;
+  let failedCount = 0;
+  for (const fileAst of projectAst.files) {
+    if (!fileAst.ast || fileAst.error) {
+      cliLogger.warn(`跳过文件 ${fileAst.filePath}，因为它未能成功解析。`);
+      continue;
+    }
+    let source: string;
+    try {
+      source = await readFileAsync(fileAst.filePath);
+    } catch (error) {
+      cliLogger.error(`无法读取文件 ${fileAst.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      failedCount++;
+      continue;
+    }
+    const result = checkRoundTrip(fileAst.ast, source);
+    if (result.identical) {
+      identicalCount++;
+      console.log(`相同  ${fileAst.filePath}`);
+      continue;
+    }
+    failedCount++;
+    const { line, expected, actual } = result.difference!;
+    console.log(`不同  ${fileAst.filePath} (第 ${line} 行起)`);
+    expected.forEach(text => console.log(`  - ${text}`));
+    actual.forEach(text => console.log(`  + ${text}`));
+  }
+  cliLogger.info(`往返检查完成: ${identicalCount} 个文件相同，${failedCount} 个文件存在差异或无法读取。`);
+  if (failedCount > 0) {
+    process.exit(1);
+  }
+}
+
 /**
  * CLI 主执行函数 (重构版)。
  */
@@ -141,13 +318,36 @@ async function mainCli(): Promise<void> {
         environmentsFile: cliArgs.customEnvironmentsFile,
         customMacroRecord: undefined, 
         customEnvironmentRecord: undefined, 
+        strictConfig: cliArgs.strictConfig,
         loadDefaultMacros: cliArgs.loadDefaultMacros,
+        fixpointReprocessing: cliArgs.fixpointReprocessing,
+        flatten: cliArgs.flatten,
+        includeOnly: cliArgs.includeOnly,
+        excludeOnly: cliArgs.excludeOnly,
+        includeOnlyMode: cliArgs.includeOnlyMode,
+        followLocalPackages: cliArgs.followLocalPackages,
+        includePackageAsts: cliArgs.includePackageAsts,
+        expandMacros: cliArgs.expandMacros,
+        maxExpansionDepth: cliArgs.maxExpansionDepth,
+        positions: cliArgs.positions,
     };
 
     cliLogger.info(`正在解析LaTeX项目，入口: ${cliArgs.entryPath}`);
     const projectAst: ProjectAST = await projectProcessor.parse(cliArgs.entryPath, parserOptions);
     cliLogger.info('项目解析完成。');
 
+    if (cliArgs.command === 'defs') {
+      await runDefsCommand(cliArgs, projectAst);
+      cliLogger.info('CLI 执行完毕。');
+      return;
+    }
+
+    if (cliArgs.checkRoundtrip) {
+      await runCheckRoundtrip(projectAst);
+      cliLogger.info('CLI 执行完毕。');
+      return;
+    }
+
     if (cliArgs.saveIndividualAst && projectAst.files) {
       const outputDir = cliArgs.individualAstDir || 'individual_asts';
       cliLogger.info(`正在导出独立的AST文件到目录: ${outputDir}`);
@@ -168,7 +368,12 @@ async function mainCli(): Promise<void> {
       cliLogger.info(`成功导出 ${fileCount} 个独立AST文件。`);
     }
 
-    const jsonOutput = serializeProjectAstToJson(projectAst, cliArgs.pretty);
+    if (cliArgs.flatten && !projectAst.flattenedAst) {
+      cliLogger.error('未能生成单文档AST (根文件缺失或解析失败)。');
+      process.exit(1);
+    }
+    // 单文档模式下根文件的 ast 为合并后的单文档 AST，_metadata 与按文件输出时相同
+    const jsonOutput = serializeProjectAstToJson(projectAst, cliArgs.pretty, cliArgs.flatten);
 
     if (cliArgs.output && cliArgs.output !== '-') { 
       await writeFileAsync(cliArgs.output, jsonOutput);
@@ -179,7 +384,7 @@ async function mainCli(): Promise<void> {
 
     if (projectAst._detailedMacros) {
         cliLogger.info(`\n--- 宏定义摘要 ---`);
-        const { defaultAndUser, definedInDocument, inferredUsed, finalEffectiveMacros } = projectAst._detailedMacros;
+        const { defaultAndUser, ctanPackages, definedInDocument, inferredUsed, finalEffectiveMacros } = projectAst._detailedMacros;
         const printMacroCat = (catName: string, macros: Ast.MacroInfoRecord) => {
             const names = Object.keys(macros);
             cliLogger.info(`[${catName}] (${names.length} 个):` + (names.length > 0 ? '' : ' 无'));
@@ -187,13 +392,14 @@ async function mainCli(): Promise<void> {
             if (names.length > 10) cliLogger.info(`  ...及其他 ${names.length - 10} 个`);
         };
         printMacroCat("默认/用户提供", defaultAndUser);
+        printMacroCat("CTAN 宏包", ctanPackages);
         printMacroCat("文档内定义", definedInDocument);
         printMacroCat("推断使用", inferredUsed);
         cliLogger.info(`[最终生效宏] (${Object.keys(finalEffectiveMacros).length} 个)`);
     }
     if (projectAst._detailedEnvironments) {
         cliLogger.info(`\n--- 环境定义摘要 ---`);
-        const { ctanEnvironments, userProvidedEnvironments, definedInDocumentEnvironments, finalEffectiveEnvironments } = projectAst._detailedEnvironments;
+        const { ctanEnvironments, userProvidedEnvironments, definedInDocumentEnvironments, inferredUsedEnvironments, finalEffectiveEnvironments } = projectAst._detailedEnvironments;
         const printEnvCat = (catName: string, envs: Ast.EnvInfoRecord) => {
             const names = Object.keys(envs);
             cliLogger.info(`[${catName}] (${names.length} 个):` + (names.length > 0 ? '' : ' 无'));
@@ -203,9 +409,17 @@ async function mainCli(): Promise<void> {
         printEnvCat("CTAN标准", ctanEnvironments);
         printEnvCat("用户提供", userProvidedEnvironments);
         printEnvCat("文档内定义", definedInDocumentEnvironments);
+        printEnvCat("推断使用", inferredUsedEnvironments);
         cliLogger.info(`[最终生效环境] (${Object.keys(finalEffectiveEnvironments).length} 个)`);
     }
     
+    if (projectAst.definitionDiagnostics && projectAst.definitionDiagnostics.length > 0) {
+        cliLogger.warn(`\n检测到 ${projectAst.definitionDiagnostics.length} 个定义问题:`);
+        projectAst.definitionDiagnostics.forEach(diagnostic => {
+            cliLogger.warn(`- [${diagnostic.code}] ${diagnostic.file}${diagnostic.line !== undefined ? `:${diagnostic.line}` : ''}: ${diagnostic.message}`);
+        });
+    }
+
     if (projectAst.errors && projectAst.errors.length > 0) {
         cliLogger.error('\n解析过程中遇到的全局错误:');
         projectAst.errors.forEach(error => {
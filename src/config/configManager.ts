@@ -5,11 +5,12 @@
  * 并生成供解析器核心逻辑使用的、统一的 {@link ResolvedParserConfig} 对象。
  */
 
-import type { Ast } from '../types/index';
+import type { Ast, ConfigValidationIssue } from '../types/index';
 import type { CliOptions, ResolvedParserConfig, ParserOptions } from './options';
 import { readFileAsync, fileExistsAsync } from '../utils/fileSystem';
 import { resolvePath, getDirname } from '../utils/pathUtils';
 import { createLogger, Logger } from '../utils/logger'; // LoggerLogLevel 已从 logger.ts 导出
+import { DefinitionFileKind, DefinitionRecordValidationResult, validateMacroRecord, validateEnvironmentRecord, formatConfigValidationIssue } from './definitionFileSchema';
 
 const logger: Logger = createLogger('config:manager');
 
@@ -21,44 +22,80 @@ const logger: Logger = createLogger('config:manager');
 const DEFAULT_PARSER_VALUES: Omit<ResolvedParserConfig, 'entryPath' | 'baseDir'> = {
   customMacroRecord: {},
   customEnvironmentRecord: {},
+  customMacroPackages: {},
+  customEnvironmentPackages: {},
+  configIssues: [],
   loadDefaultMacros: true,
+  fixpointReprocessing: true,
+  maxReprocessingPasses: 5,
+  flatten: false,
+  includeOnlyMode: 'skip',
+  includeCommands: {},
+  followLocalPackages: true,
+  includePackageAsts: false,
+  expandMacros: false,
+  maxExpansionDepth: 10,
+  positions: false,
   // 例如: logLevel: LoggerLogLevel.INFO, 
 };
 
 /**
- * 从指定的文件路径异步加载 JSON 内容，并将其解析为特定的记录类型 (宏或环境定义)。
+ * 从指定的文件路径异步加载 JSON 内容，并校验为宏或环境定义记录 (参见 `definitionFileSchema.ts`)。
+ * 文件缺失、无法解析以及校验发现的问题都记录为警告并包含在返回值的 `issues` 中。
  * @param filePath - (可选) 包含 JSON 数据的文件路径。如果未定义，则直接返回 `undefined`。
  * @param baseDir - 用于解析相对文件路径的基目录。
- * @param recordType - 描述记录类型的字符串（例如 "宏" 或 "环境"），主要用于日志记录。
- * @returns 一个 Promise，解析为类型为 `T` 的记录对象；如果文件不存在、无法读取或解析失败，则返回 `undefined`。
+ * @param kind - 记录的种类 (宏或环境)。
+ * @returns 一个 Promise，解析为校验结果；文件不存在或无法解析时 `record` 为空对象。
  */
 async function loadRecordFromFile<T extends Ast.MacroInfoRecord | Ast.EnvInfoRecord>(
   filePath: string | undefined,
   baseDir: string,
-  recordType: '宏' | '环境'
-): Promise<T | undefined> {
+  kind: DefinitionFileKind
+): Promise<DefinitionRecordValidationResult<T> | undefined> {
   if (!filePath) {
     return undefined;
   }
+  const recordType = kind === 'macro' ? '宏' : '环境';
   const resolvedPath = resolvePath(baseDir, filePath);
+  const failed = (message: string): DefinitionRecordValidationResult<T> => {
+    logger.warn(`${message}: ${resolvedPath}`);
+    return { record: {} as T, packages: {}, issues: [{ file: resolvedPath, path: '$', message }] };
+  };
   if (!(await fileExistsAsync(resolvedPath))) {
-    logger.warn(`自定义${recordType}定义文件未找到: ${resolvedPath}`);
-    return undefined;
+    return failed(`自定义${recordType}定义文件未找到`);
   }
+  let data: unknown;
   try {
-    const content = await readFileAsync(resolvedPath);
-    const record = JSON.parse(content) as T;
-    if (record && typeof record === 'object') {
-      logger.info(`已加载自定义${recordType}定义 (来自 ${resolvedPath}): ${Object.keys(record).length} 个条目。`);
-      return record;
-    } else {
-      logger.warn(`自定义${recordType}定义文件内容格式不正确或为空: ${resolvedPath}`);
-      return undefined;
-    }
+    data = JSON.parse(await readFileAsync(resolvedPath));
   } catch (error) {
-    logger.warn(`无法加载或解析自定义${recordType}定义文件 ${resolvedPath}: ${(error as Error).message}`);
-    return undefined;
+    return failed(`无法加载或解析自定义${recordType}定义文件 (${(error as Error).message})`);
+  }
+  const result = (kind === 'macro' ? validateMacroRecord(data, resolvedPath) : validateEnvironmentRecord(data, resolvedPath)) as DefinitionRecordValidationResult<T>;
+  for (const issue of result.issues) {
+    logger.warn(`自定义${recordType}定义文件有误: ${formatConfigValidationIssue(issue)}`);
+  }
+  logger.info(`已加载自定义${recordType}定义 (来自 ${resolvedPath}): ${Object.keys(result.record).length} 个条目。`);
+  return result;
+}
+
+/**
+ * 汇总加载自定义定义文件时发现的问题；严格模式下存在问题时抛出错误。
+ * @param strict - 是否为严格模式 (`strictConfig`)。
+ * @param results - 各文件的校验结果。
+ * @returns 所有问题。
+ * @throws Error 严格模式下存在任何问题时，错误消息列出所有问题。
+ */
+function collectConfigIssues(
+  strict: boolean,
+  ...results: (DefinitionRecordValidationResult<Ast.MacroInfoRecord | Ast.EnvInfoRecord> | undefined)[]
+): ConfigValidationIssue[] {
+  const issues = results.flatMap(result => result?.issues || []);
+  if (strict && issues.length > 0) {
+    const message = `自定义定义文件校验失败 (${issues.length} 个问题):\n` + issues.map(issue => `  - ${formatConfigValidationIssue(issue)}`).join('\n');
+    logger.error(message);
+    throw new Error(message);
   }
+  return issues;
 }
 
 /**
@@ -77,11 +114,12 @@ export async function resolveCliOptionsToPartialConfig(
   const configFileBaseDir = CWD;
 
   const customMacroRecordFromFile = await loadRecordFromFile<Ast.MacroInfoRecord>(
-    cliOptions.customMacrosFile, configFileBaseDir, '宏'
+    cliOptions.customMacrosFile, configFileBaseDir, 'macro'
   );
   const customEnvironmentRecordFromFile = await loadRecordFromFile<Ast.EnvInfoRecord>(
-    cliOptions.customEnvironmentsFile, configFileBaseDir, '环境'
+    cliOptions.customEnvironmentsFile, configFileBaseDir, 'environment'
   );
+  const configIssues = collectConfigIssues(!!cliOptions.strictConfig, customMacroRecordFromFile, customEnvironmentRecordFromFile);
 
   const loadDefaultMacros = cliOptions.loadDefaultMacros !== undefined
                             ? cliOptions.loadDefaultMacros
@@ -89,8 +127,38 @@ export async function resolveCliOptionsToPartialConfig(
 
   const partialConfig: Omit<ResolvedParserConfig, 'entryPath' | 'baseDir'> & { entryPath?: string } = {
     loadDefaultMacros: loadDefaultMacros!, 
-    customMacroRecord: customMacroRecordFromFile || DEFAULT_PARSER_VALUES.customMacroRecord,
-    customEnvironmentRecord: customEnvironmentRecordFromFile || DEFAULT_PARSER_VALUES.customEnvironmentRecord,
+    fixpointReprocessing: cliOptions.fixpointReprocessing !== undefined
+                          ? cliOptions.fixpointReprocessing
+                          : DEFAULT_PARSER_VALUES.fixpointReprocessing,
+    maxReprocessingPasses: DEFAULT_PARSER_VALUES.maxReprocessingPasses,
+    flatten: cliOptions.flatten !== undefined ? cliOptions.flatten : DEFAULT_PARSER_VALUES.flatten,
+    includeOnly: cliOptions.includeOnly,
+    excludeOnly: cliOptions.excludeOnly,
+    includeOnlyMode: cliOptions.includeOnlyMode !== undefined
+                     ? cliOptions.includeOnlyMode
+                     : DEFAULT_PARSER_VALUES.includeOnlyMode,
+    includeCommands: DEFAULT_PARSER_VALUES.includeCommands,
+    followLocalPackages: cliOptions.followLocalPackages !== undefined
+                         ? cliOptions.followLocalPackages
+                         : DEFAULT_PARSER_VALUES.followLocalPackages,
+    includePackageAsts: cliOptions.includePackageAsts !== undefined
+                        ? cliOptions.includePackageAsts
+                        : DEFAULT_PARSER_VALUES.includePackageAsts,
+    expandMacros: cliOptions.expandMacros !== undefined
+                  ? cliOptions.expandMacros
+                  : DEFAULT_PARSER_VALUES.expandMacros,
+    maxExpansionDepth: cliOptions.maxExpansionDepth !== undefined && cliOptions.maxExpansionDepth >= 0
+                       ? cliOptions.maxExpansionDepth
+                       : DEFAULT_PARSER_VALUES.maxExpansionDepth,
+    positions: cliOptions.positions !== undefined
+               ? cliOptions.positions
+               : DEFAULT_PARSER_VALUES.positions,
+    customMacroRecord: customMacroRecordFromFile?.record || DEFAULT_PARSER_VALUES.customMacroRecord,
+    customEnvironmentRecord: customEnvironmentRecordFromFile?.record || DEFAULT_PARSER_VALUES.customEnvironmentRecord,
+    customMacroPackages: customMacroRecordFromFile?.packages || DEFAULT_PARSER_VALUES.customMacroPackages,
+    customEnvironmentPackages: customEnvironmentRecordFromFile?.packages || DEFAULT_PARSER_VALUES.customEnvironmentPackages,
+    configIssues,
+    strictConfig: cliOptions.strictConfig,
     entryPath: cliOptions.entryPath, 
   };
 
@@ -115,11 +183,12 @@ export async function processParserOptions(
     const baseDir = getDirname(resolvedEntryPath); 
 
     const macrosFromFile = await loadRecordFromFile<Ast.MacroInfoRecord>(
-        options.macrosFile, baseDir, '宏' 
+        options.macrosFile, baseDir, 'macro'
     );
     const envsFromFile = await loadRecordFromFile<Ast.EnvInfoRecord>(
-        options.environmentsFile, baseDir, '环境' 
+        options.environmentsFile, baseDir, 'environment'
     );
+    const configIssues = collectConfigIssues(!!options.strictConfig, macrosFromFile, envsFromFile);
 
     const resolved: ResolvedParserConfig = {
         entryPath: resolvedEntryPath,
@@ -127,8 +196,41 @@ export async function processParserOptions(
         loadDefaultMacros: options.loadDefaultMacros !== undefined
             ? options.loadDefaultMacros
             : DEFAULT_PARSER_VALUES.loadDefaultMacros!,
-        customMacroRecord: options.customMacroRecord || macrosFromFile || DEFAULT_PARSER_VALUES.customMacroRecord,
-        customEnvironmentRecord: options.customEnvironmentRecord || envsFromFile || DEFAULT_PARSER_VALUES.customEnvironmentRecord,
+        fixpointReprocessing: options.fixpointReprocessing !== undefined
+            ? options.fixpointReprocessing
+            : DEFAULT_PARSER_VALUES.fixpointReprocessing,
+        maxReprocessingPasses: options.maxReprocessingPasses !== undefined && options.maxReprocessingPasses >= 0
+            ? options.maxReprocessingPasses
+            : DEFAULT_PARSER_VALUES.maxReprocessingPasses,
+        flatten: options.flatten !== undefined ? options.flatten : DEFAULT_PARSER_VALUES.flatten,
+        includeOnly: options.includeOnly,
+        excludeOnly: options.excludeOnly,
+        includeOnlyMode: options.includeOnlyMode !== undefined
+            ? options.includeOnlyMode
+            : DEFAULT_PARSER_VALUES.includeOnlyMode,
+        includeCommands: options.includeCommands || DEFAULT_PARSER_VALUES.includeCommands,
+        followLocalPackages: options.followLocalPackages !== undefined
+            ? options.followLocalPackages
+            : DEFAULT_PARSER_VALUES.followLocalPackages,
+        includePackageAsts: options.includePackageAsts !== undefined
+            ? options.includePackageAsts
+            : DEFAULT_PARSER_VALUES.includePackageAsts,
+        expandMacros: options.expandMacros !== undefined
+            ? options.expandMacros
+            : DEFAULT_PARSER_VALUES.expandMacros,
+        maxExpansionDepth: options.maxExpansionDepth !== undefined && options.maxExpansionDepth >= 0
+            ? options.maxExpansionDepth
+            : DEFAULT_PARSER_VALUES.maxExpansionDepth,
+        positions: options.positions !== undefined
+            ? options.positions
+            : DEFAULT_PARSER_VALUES.positions,
+        customMacroRecord: options.customMacroRecord || macrosFromFile?.record || DEFAULT_PARSER_VALUES.customMacroRecord,
+        customEnvironmentRecord: options.customEnvironmentRecord || envsFromFile?.record || DEFAULT_PARSER_VALUES.customEnvironmentRecord,
+        // 直接传入的记录优先于文件，此时文件中的 package 标记不适用
+        customMacroPackages: (!options.customMacroRecord && macrosFromFile?.packages) || DEFAULT_PARSER_VALUES.customMacroPackages,
+        customEnvironmentPackages: (!options.customEnvironmentRecord && envsFromFile?.packages) || DEFAULT_PARSER_VALUES.customEnvironmentPackages,
+        configIssues,
+        strictConfig: options.strictConfig,
     };
     logger.debug('从ParserOptions处理得到的ResolvedConfig:', resolved);
     return resolved;
@@ -0,0 +1,288 @@
+/**
+ * 自定义定义文件校验模块。
+ *
+ * 校验自定义宏/环境定义文件 (`ParserOptions.macrosFile`/`environmentsFile`) 的内容，每个问题都带有精确的 JSON 路径
+ * (例如 `$.foo.signture`)。除 `signature` 外，条目还可以包含：
+ * - `renderInfo`：`unified-latex` 的渲染信息 (例如 `inMathMode`、`namedArguments`)；
+ * - `escapeToken` (仅宏)：宏使用的转义记号；
+ * - `processContent` (仅环境)：借用其内容处理方式的 CTAN 环境名称，例如 `"itemize"` 使 `\item` 被拆分为参数；
+ * - `package`：条目所属的宏包，只在文档使用该宏包时生效；
+ * - `defs` 子命令导出的注释字段 (`category`、`sourceFile`、`usageCount`、`confidence`)，加载时被忽略。
+ */
+
+import type { Ast, ConfigValidationIssue } from '../types/index';
+import { environmentInfo as ctanPackageEnvironmentInfo } from '@unified-latex/unified-latex-ctan';
+import { parseXparseArgSpec, findXparseArgSpecError, xparseArgumentToSignature } from '../latex-utils/xparseArgSpec';
+
+/** 定义文件的种类 */
+export type DefinitionFileKind = 'macro' | 'environment';
+
+/**
+ * 定义记录的校验结果。
+ */
+export interface DefinitionRecordValidationResult<T extends Ast.MacroInfoRecord | Ast.EnvInfoRecord> {
+  /** 通过校验的条目 (已去除注释字段和 `package`；有问题的字段被忽略，签名有误的条目被整体忽略) */
+  record: T;
+  /** 带 `package` 标记的条目：名称 -> 宏包名 */
+  packages: Record<string, string>;
+  /** 发现的问题 */
+  issues: ConfigValidationIssue[];
+}
+
+/** `defs` 子命令导出的注释字段，加载时被忽略 */
+const ANNOTATION_FIELDS = new Set(['category', 'sourceFile', 'usageCount', 'confidence']);
+
+/** 每种定义允许的字段 (不含注释字段) */
+const ENTRY_FIELDS: Record<DefinitionFileKind, string[]> = {
+  macro: ['signature', 'renderInfo', 'escapeToken', 'package'],
+  environment: ['signature', 'renderInfo', 'processContent', 'package'],
+};
+
+/** 每种定义的 `renderInfo` 中的布尔字段 (另有 `namedArguments`) */
+const RENDER_INFO_BOOLEAN_FIELDS: Record<DefinitionFileKind, string[]> = {
+  macro: ['inParMode', 'pgfkeysArgs', 'breakAfter', 'breakAround', 'breakBefore', 'inMathMode', 'hangingIndent', 'tikzPathCommand'],
+  environment: ['inMathMode', 'alignContent', 'pgfkeysArgs', 'tikzEnvironment'],
+};
+
+/**
+ * 将对象键追加到 JSON 路径上：标识符形式的键使用 `.key`，其他键使用 `["key"]`。
+ */
+function jsonPath(base: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${base}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${base}.${key}` : `${base}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * 判断值是否为普通对象 (不是数组或 `null`)。
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 计算两个字符串的编辑距离，用于为拼写错误的字段给出建议。
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 生成未知字段的问题描述，字段名与某个已知字段相近时给出建议。
+ */
+function unknownFieldMessage(field: string, knownFields: string[]): string {
+  const suggestion = knownFields.find(known => editDistance(field.toLowerCase(), known.toLowerCase()) <= 2);
+  return `未知字段 '${field}'` + (suggestion ? `，是否应为 '${suggestion}'？` : '。');
+}
+
+/**
+ * 生成缺少 `signature` 字段的问题；条目中有与 `signature` 相近的字段 (例如 `signture`) 时，问题指向该字段。
+ * @returns 问题的 JSON 路径和描述。
+ */
+function missingSignatureIssue(entry: Record<string, unknown>, entryPath: string): [string, string] {
+  const misspelled = Object.keys(entry).find(field => editDistance(field.toLowerCase(), 'signature') <= 2);
+  return misspelled
+    ? [jsonPath(entryPath, misspelled), `${unknownFieldMessage(misspelled, ['signature'])} 条目缺少 signature 字段，已忽略。`]
+    : [jsonPath(entryPath, 'signature'), '缺少 signature 字段；没有参数时应写作 "signature": ""。'];
+}
+
+/**
+ * (内部) 查找 CTAN 中带有内容处理函数的环境，供 `processContent` 引用。
+ */
+function findCtanProcessContent(envName: string): Ast.EnvInfo['processContent'] | undefined {
+  for (const packageEnvs of Object.values(ctanPackageEnvironmentInfo as Record<string, Ast.EnvInfoRecord>)) {
+    const processContent = packageEnvs[envName]?.processContent;
+    if (processContent) {
+      return processContent;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * (内部) 校验签名。
+ * @returns 问题描述；签名有效时返回 `null`。
+ */
+function checkSignature(signature: string): string | null {
+  const error = findXparseArgSpecError(signature);
+  if (error) {
+    return error;
+  }
+  const unsupported = parseXparseArgSpec(signature).find(arg => xparseArgumentToSignature(arg) === null);
+  return unsupported ? `签名中的参数类型 '${unsupported.rawSpecifier}' 无法用于附加参数。` : null;
+}
+
+/**
+ * (内部) 校验 `renderInfo`。
+ * @returns 通过校验的字段。
+ */
+function validateRenderInfo(
+  kind: DefinitionFileKind,
+  value: unknown,
+  path: string,
+  argumentCount: number,
+  report: (path: string, message: string) => void
+): Record<string, unknown> | undefined {
+  if (!isPlainObject(value)) {
+    report(path, 'renderInfo 应为对象。');
+    return undefined;
+  }
+  const booleanFields = RENDER_INFO_BOOLEAN_FIELDS[kind];
+  const knownFields = [...booleanFields, 'namedArguments'];
+  const renderInfo: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    const fieldPath = jsonPath(path, field);
+    if (booleanFields.includes(field)) {
+      if (typeof fieldValue !== 'boolean') {
+        report(fieldPath, `${field} 应为布尔值。`);
+        continue;
+      }
+    } else if (field === 'namedArguments') {
+      if (!Array.isArray(fieldValue) || !fieldValue.every(name => name === null || typeof name === 'string')) {
+        report(fieldPath, 'namedArguments 应为由字符串或 null 组成的数组。');
+        continue;
+      }
+      if (fieldValue.length !== argumentCount) {
+        report(fieldPath, `namedArguments 有 ${fieldValue.length} 项，但签名有 ${argumentCount} 个参数。`);
+        continue;
+      }
+    } else {
+      report(fieldPath, unknownFieldMessage(field, knownFields));
+      continue;
+    }
+    renderInfo[field] = fieldValue;
+  }
+  return renderInfo;
+}
+
+/**
+ * (内部) 校验一个定义记录。
+ */
+function validateRecord(kind: DefinitionFileKind, data: unknown, file?: string): DefinitionRecordValidationResult<Ast.MacroInfoRecord & Ast.EnvInfoRecord> {
+  const issues: ConfigValidationIssue[] = [];
+  const report = (path: string, message: string) => {
+    issues.push({ ...(file !== undefined ? { file } : {}), path, message });
+  };
+  const record: Record<string, Record<string, unknown> & { signature: string }> = {};
+  const packages: Record<string, string> = {};
+  if (!isPlainObject(data)) {
+    report('$', `定义文件的内容应为以${kind === 'macro' ? '宏' : '环境'}名称为键的对象。`);
+    return { record: {} as Ast.MacroInfoRecord & Ast.EnvInfoRecord, packages, issues };
+  }
+
+  const knownFields = ENTRY_FIELDS[kind];
+  for (const [name, entry] of Object.entries(data)) {
+    const entryPath = jsonPath('$', name);
+    if (name.length === 0) {
+      report(entryPath, '名称不能为空。');
+      continue;
+    }
+    if (kind === 'macro' && name.startsWith('\\')) {
+      report(entryPath, `宏名称不应包含反斜杠，应为 '${name.replace(/^\\+/, '')}'。`);
+      continue;
+    }
+    if (!isPlainObject(entry)) {
+      report(entryPath, '条目应为对象，例如 { "signature": "m" }。');
+      continue;
+    }
+
+    // 缺少签名的条目会覆盖其他来源的签名 (使宏变为没有参数)，因此签名是必需的；没有参数的宏应写作 "signature": ""
+    if (entry.signature === undefined) {
+      report(...missingSignatureIssue(entry, entryPath));
+      continue;
+    }
+    if (typeof entry.signature !== 'string') {
+      report(jsonPath(entryPath, 'signature'), 'signature 应为字符串。');
+      continue;
+    }
+    const signatureError = checkSignature(entry.signature);
+    if (signatureError) {
+      report(jsonPath(entryPath, 'signature'), signatureError);
+      continue;
+    }
+    const argumentCount = parseXparseArgSpec(entry.signature).length;
+
+    const info: Record<string, unknown> & { signature: string } = { signature: entry.signature };
+    for (const [field, value] of Object.entries(entry)) {
+      const fieldPath = jsonPath(entryPath, field);
+      if (field === 'signature') {
+        continue;
+      } else if (field === 'renderInfo' && knownFields.includes(field)) {
+        const renderInfo = validateRenderInfo(kind, value, fieldPath, argumentCount, report);
+        if (renderInfo) {
+          info.renderInfo = renderInfo;
+        }
+      } else if (field === 'escapeToken' && knownFields.includes(field)) {
+        if (typeof value === 'string') {
+          info.escapeToken = value;
+        } else {
+          report(fieldPath, 'escapeToken 应为字符串。');
+        }
+      } else if (field === 'processContent' && knownFields.includes(field)) {
+        const processContent = typeof value === 'string' ? findCtanProcessContent(value) : undefined;
+        if (processContent) {
+          info.processContent = processContent;
+        } else {
+          report(fieldPath, typeof value === 'string'
+            ? `'${value}' 不是带有内容处理方式的 CTAN 环境 (例如 itemize、enumerate、description)。`
+            : 'processContent 应为 CTAN 环境名称字符串。');
+        }
+      } else if (field === 'package') {
+        if (typeof value === 'string' && value.length > 0) {
+          packages[name] = value;
+        } else {
+          report(fieldPath, 'package 应为非空的宏包名称字符串。');
+        }
+      } else if (ANNOTATION_FIELDS.has(field)) {
+        const valid = field === 'usageCount' ? Number.isInteger(value) && (value as number) >= 0
+          : field === 'confidence' ? typeof value === 'number' && value >= 0 && value <= 1
+          : typeof value === 'string';
+        if (!valid) {
+          report(fieldPath, field === 'usageCount' ? 'usageCount 应为非负整数。'
+            : field === 'confidence' ? 'confidence 应为 0 到 1 之间的数。'
+            : `${field} 应为字符串。`);
+        }
+      } else {
+        report(fieldPath, unknownFieldMessage(field, [...knownFields, ...ANNOTATION_FIELDS]));
+      }
+    }
+    record[name] = info;
+  }
+  return { record: record as Ast.MacroInfoRecord & Ast.EnvInfoRecord, packages, issues };
+}
+
+/**
+ * 校验自定义宏定义记录 (通常来自 JSON 文件)。
+ * @param data - 解析后的 JSON 内容。
+ * @param file - (可选) 记录所在的文件，写入每个问题的 `file` 字段。
+ * @returns {@link DefinitionRecordValidationResult}。
+ */
+export function validateMacroRecord(data: unknown, file?: string): DefinitionRecordValidationResult<Ast.MacroInfoRecord> {
+  return validateRecord('macro', data, file);
+}
+
+/**
+ * 校验自定义环境定义记录 (通常来自 JSON 文件)。`processContent` 被解析为对应 CTAN 环境的内容处理函数。
+ * @param data - 解析后的 JSON 内容。
+ * @param file - (可选) 记录所在的文件，写入每个问题的 `file` 字段。
+ * @returns {@link DefinitionRecordValidationResult}。
+ */
+export function validateEnvironmentRecord(data: unknown, file?: string): DefinitionRecordValidationResult<Ast.EnvInfoRecord> {
+  return validateRecord('environment', data, file);
+}
+
+/**
+ * 将问题格式化为一行文本，例如 `macros.json: $.foo.signture: 未知字段 'signture'，是否应为 'signature'？`。
+ */
+export function formatConfigValidationIssue(issue: ConfigValidationIssue): string {
+  return `${issue.file !== undefined ? `${issue.file}: ` : ''}${issue.path}: ${issue.message}`;
+}
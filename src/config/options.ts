@@ -13,6 +13,7 @@ export type {
   ParserOptions,      // 解析器库 API 的选项接口
   CliOptions,         // 命令行接口参数的选项接口
   ResolvedParserConfig, // 项目内部使用的最终配置对象接口
+  ConfigValidationIssue, // 校验自定义定义文件时发现的问题
 } from '../types/index';
 
 // 示例：未来可能添加的与配置加载/验证流程相关的特定辅助类型
@@ -22,11 +23,4 @@ export interface ConfigLoadingSource {
   type: 'cli' | 'file' | 'object'; // 配置来源：命令行、文件、直接对象
   path?: string;                   // 如果来源是文件，则为文件路径
 }
-
-// 例如，用于表示配置验证错误的类型
-export interface ConfigValidationError {
-  optionPath: string; // 配置项路径 (例如 "compilerOptions.target")
-  message: string;    // 错误描述信息
-  value?: any;       //导致错误的配置值
-}
 */ 
\ No newline at end of file
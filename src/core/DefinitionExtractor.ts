@@ -5,42 +5,127 @@
  * 此模块利用 `commandDefinitionUtils` 来处理底层的、特定于命令的规范提取，
  * 并实现了更高级的提取逻辑，例如基于用法的宏参数签名推断。
  */
-import type { Ast, NewCommandSpec, NewEnvironmentSpec } from '../types/index'; // 移除了 ResolvedParserConfig，此类不直接使用它
-import { extractNewCommands as extractNewCommandSpecs, listNewEnvironments } from '../latex-utils/commandDefinitionUtils'; // 移除了 macroToEnvironmentSpec，因为它在 listNewEnvironments 内部使用
+import type { Ast, NewCommandSpec, NewEnvironmentSpec, ExpandedMacroNode, IncludedFileReference, InclusionDirectives, IncludeCommandConfig, PackageReference, InferredMacroUsage } from '../types/index'; // 移除了 ResolvedParserConfig，此类不直接使用它
+import { extractNewCommands as extractNewCommandSpecs, listNewEnvironments, COMMAND_DEFINERS, ALL_ENVIRONMENT_DEFINERS } from '../latex-utils/commandDefinitionUtils'; // 移除了 macroToEnvironmentSpec，因为它在 listNewEnvironments 内部使用
 import { UtilNewCommandSpec, listNewcommands as unifiedListNewcommands } from '@unified-latex/unified-latex-util-macros';
 import { visit, VisitInfo, Matcher, createMacroMatcher, match, VisitorFn } from '../latex-utils/astQuery'; 
-import { printRaw } from '../latex-utils/unifiedLatexBridge';
-import { resolveTexPathWithExtension } from '../latex-utils/projectFileUtils';
-import { normalizePath } from '../utils/pathUtils';
+import { printRaw, attachMacroArgs } from '../latex-utils/unifiedLatexBridge';
+import { MacroCall, readMacroCallShape, readEnvironmentCallShape, shapeToSignature, inferSignatureFromCalls } from '../latex-utils/signatureInference';
+import { resolveTexPathWithExtension, splitNameList } from '../latex-utils/projectFileUtils';
+import { normalizePath, resolvePath } from '../utils/pathUtils';
 import { createLogger, Logger } from '../utils/logger';
 
+/**
+ * 加载宏包/文档类的命令及其签名。原始解析器不一定为它们附加参数 (例如 `\LoadClass`)，
+ * 因此提取前会先按这些签名附加一次。名称参数都是第 2 个参数。
+ */
+const PACKAGE_LOADING_COMMANDS: Record<string, { signature: string; kind: 'package' | 'class' }> = {
+    'usepackage': { signature: 'o m', kind: 'package' },
+    'RequirePackage': { signature: 'o m o', kind: 'package' },
+    'documentclass': { signature: 'o m', kind: 'class' },
+    'LoadClass': { signature: 'o m o', kind: 'class' },
+};
+
+/**
+ * 描述一个文件包含命令的参数布局。
+ */
+interface IncludeCommandInfo {
+    /** 文件路径参数在 `args` 中的下标 */
+    pathArgIndex: number;
+    /** (可选) 目录参数在 `args` 中的下标 (`import` 宏包的双参数命令) */
+    dirArgIndex?: number;
+    /** 目录参数相对于哪个目录解析：`'root'` 为根文档目录，`'current'` 为当前文件目录 */
+    dirBase?: 'root' | 'current';
+    /** 是否最终通过 `\include` 读入文件 (因此受 `\includeonly`/`\excludeonly` 控制) */
+    usesInclude?: boolean;
+    /** (可选) 路径模板，`#1`…`#9` 会被替换为对应参数的文本 (参见 {@link IncludeCommandConfig.pathTemplate}) */
+    pathTemplate?: string;
+}
+
+/**
+ * 已知的文件包含命令。`import` 宏包命令的签名为 `s m m`，因此目录和文件分别是第 2、3 个参数。
+ */
+const INCLUDE_COMMANDS: Record<string, IncludeCommandInfo> = {
+    'input': { pathArgIndex: 0 },
+    'include': { pathArgIndex: 0, usesInclude: true },
+    'subfile': { pathArgIndex: 0 },
+    'import': { pathArgIndex: 2, dirArgIndex: 1, dirBase: 'root' },
+    'subimport': { pathArgIndex: 2, dirArgIndex: 1, dirBase: 'current' },
+    'inputfrom': { pathArgIndex: 2, dirArgIndex: 1, dirBase: 'root' },
+    'subinputfrom': { pathArgIndex: 2, dirArgIndex: 1, dirBase: 'current' },
+    'includefrom': { pathArgIndex: 2, dirArgIndex: 1, dirBase: 'root', usesInclude: true },
+    'subincludefrom': { pathArgIndex: 2, dirArgIndex: 1, dirBase: 'current', usesInclude: true },
+};
+
 export class DefinitionExtractor {
     private logger: Logger;
     private knownMacroNamesProvider: () => Set<string>; 
+    private includeCommandsProvider: () => Record<string, IncludeCommandConfig>;
+    private macroInfoProvider: () => Ast.MacroInfoRecord;
 
     /**
      * 创建一个新的 `DefinitionExtractor` 实例。
      * @param knownMacroNamesProvider - 一个回调函数，当被调用时，应返回一个包含当前所有已知宏名称的集合 (字符串不含前导反斜杠)。
      *                                 此集合用于在推断宏签名时避免重复处理或覆盖已明确定义的宏。
+     * @param includeCommandsProvider - (可选) 一个回调函数，返回内置命令之外的文件包含命令 (用户配置的以及文档中识别出的包装命令)。
+     * @param macroInfoProvider - (可选) 一个回调函数，返回当前生效的宏信息记录，用于确定 `\let` 别名的签名。
      */
-    constructor(knownMacroNamesProvider: () => Set<string>) {
+    constructor(
+        knownMacroNamesProvider: () => Set<string>,
+        includeCommandsProvider: () => Record<string, IncludeCommandConfig> = () => ({}),
+        macroInfoProvider: () => Ast.MacroInfoRecord = () => ({})
+    ) {
         this.logger = createLogger('core:DefinitionExtractor');
         this.knownMacroNamesProvider = knownMacroNamesProvider;
+        this.includeCommandsProvider = includeCommandsProvider;
+        this.macroInfoProvider = macroInfoProvider;
     }
 
     /**
-     * 从给定的 AST 中提取通过 `\newcommand`, `\renewcommand` 等命令明确定义的宏。
+     * 从给定的 AST 中提取通过 `\newcommand`, `\renewcommand`, `\def` 等命令明确定义的宏。
      * @param astTree - 要进行扫描的 AST 树 (通常是 {@link Ast.Root} 节点)。
      * @returns 返回一个 {@link Ast.MacroInfoRecord} 对象，其中键是宏名称 (不含前导反斜杠)，值是包含其参数签名的对象。
      */
     public extractDefinedMacrosFromAst(astTree: Ast.Ast): Ast.MacroInfoRecord {
-        const newMacros: Ast.MacroInfoRecord = {};
-        const commandSpecs: NewCommandSpec[] = extractNewCommandSpecs(astTree);
-        for (const spec of commandSpecs) {
+        return this.macroSpecsToInfoRecord(this.extractDefinedMacroSpecsFromAst(astTree));
+    }
+
+    /**
+     * 从给定的 AST 中提取宏定义规范 (包含定义体)，按定义在文档中出现的顺序排列。
+     * `\let\new\old` 定义的别名复制目标宏在该位置的签名：先查找本文件中此前的定义，再查找当前生效的宏。
+     * @param astTree - 要进行扫描的 AST 树 (通常是 {@link Ast.Root} 节点)。
+     * @returns {@link NewCommandSpec} 数组；别名的 `signature` 已被确定。
+     */
+    public extractDefinedMacroSpecsFromAst(astTree: Ast.Ast): NewCommandSpec[] {
+        const specs: NewCommandSpec[] = [];
+        const signaturesSoFar: Record<string, string> = {};
+        let knownMacros: Ast.MacroInfoRecord | null = null;
+        for (const spec of extractNewCommandSpecs(astTree)) {
             // NewCommandSpec 中的 name 已经由 extractNewCommands 处理过，不含 \
-            if (spec.name) {
-                newMacros[spec.name] = { signature: spec.signature };
+            if (!spec.name) {
+                continue;
             }
+            let signature = spec.signature;
+            if (spec.aliasOf !== undefined) {
+                knownMacros = knownMacros ?? this.macroInfoProvider();
+                signature = signaturesSoFar[spec.aliasOf] ?? knownMacros[spec.aliasOf]?.signature ?? '';
+                this.logger.debug(`\\${spec.name} 是 \\${spec.aliasOf} 的别名，签名: '${signature}'`);
+            }
+            signaturesSoFar[spec.name] = signature;
+            specs.push({ ...spec, signature });
+        }
+        return specs;
+    }
+
+    /**
+     * 将宏定义规范转换为 {@link Ast.MacroInfoRecord}。同名宏以最后一个定义为准。
+     * @param specs - 宏定义规范数组。
+     * @returns 宏名称到其签名的记录。
+     */
+    public macroSpecsToInfoRecord(specs: NewCommandSpec[]): Ast.MacroInfoRecord {
+        const newMacros: Ast.MacroInfoRecord = {};
+        for (const spec of specs) {
+            newMacros[spec.name] = { signature: spec.signature };
         }
         this.logger.debug(`从AST中提取到 ${Object.keys(newMacros).length} 个明确定义的宏。`);
         return newMacros;
@@ -52,16 +137,28 @@ export class DefinitionExtractor {
      * @returns 返回一个 {@link Ast.EnvInfoRecord} 对象，其中键是环境名称，值是包含其参数签名的对象。
      */
     public extractDefinedEnvironmentsFromAst(astTree: Ast.Ast): Ast.EnvInfoRecord {
+        return this.environmentSpecsToInfoRecord(this.extractDefinedEnvironmentSpecsFromAst(astTree));
+    }
+
+    /**
+     * 从给定的 AST 中提取环境定义规范 (包含定义命令、参数和宏包来源等详细信息)。
+     * @param astTree - 要进行扫描的 AST 树。
+     * @returns 具有名称的 {@link NewEnvironmentSpec} 数组。
+     */
+    public extractDefinedEnvironmentSpecsFromAst(astTree: Ast.Ast): NewEnvironmentSpec[] {
+        return listNewEnvironments(astTree).filter(spec => spec.name);
+    }
+
+    /**
+     * 将环境定义规范转换为 {@link Ast.EnvInfoRecord}。同名环境以最后一个定义为准。
+     * @param specs - 环境定义规范数组。
+     * @returns 环境名称到其签名的记录。
+     */
+    public environmentSpecsToInfoRecord(specs: NewEnvironmentSpec[]): Ast.EnvInfoRecord {
         const newEnvs: Ast.EnvInfoRecord = {};
-        const envSpecs: NewEnvironmentSpec[] = listNewEnvironments(astTree); 
-        for (const spec of envSpecs) {
-            if (spec.name) {
-                newEnvs[spec.name] = { signature: spec.signature };
-                // 注意: NewEnvironmentSpec 包含比 EnvInfo 更详细的参数信息 (spec.parameters)。
-                // 如果 EnvInfo 需要这些更详细的信息 (例如用于特定的环境内容处理)，
-                // 则可以在此处进行转换和添加，或者直接让 DefinitionHandler 存储 NewEnvironmentSpec。
-                // 当前 EnvInfo 主要关注签名，所以直接使用 spec.signature。
-            }
+        for (const spec of specs) {
+            // NewEnvironmentSpec 中更详细的信息 (参数、宏包来源等) 由 DefinitionHandler 另行记录为来源信息
+            newEnvs[spec.name] = { signature: spec.signature };
         }
         this.logger.debug(`从AST中提取到 ${Object.keys(newEnvs).length} 个明确定义的环境。`);
         return newEnvs;
@@ -69,15 +166,24 @@ export class DefinitionExtractor {
 
     /**
      * 扫描 AST，推断那些在文档中被使用但当前未在已知定义中找到的宏的参数签名。
-     * 推断基于宏调用后紧随的花括号 `{...}` 组的数量。
+     * 推断基于宏调用的形式：`*`、前导的 `[...]` 可选参数和随后的 `{...}` 组 (参见 {@link inferSignatureFromCalls})。
      * 此逻辑迁移自原 `MacroHandler.extractUsedCustomMacros`。
      * @param astTree - 要进行扫描的 AST 树。
      * @returns 返回一个 {@link Ast.MacroInfoRecord} 对象，包含推断出的宏及其基于用法的参数签名。
      */
     public extractInferredUsedMacros(astTree: Ast.Ast): Ast.MacroInfoRecord {
-        const inferredMacros: Ast.MacroInfoRecord = {};
-        const currentlyKnownMacroNames = this.knownMacroNamesProvider();
-        const potentialCustomMacros = new Map<string, { node: Ast.Macro, argCount: number }>();
+        return this.macroCallsToInfoRecord(this.selectUndefinedMacroCalls(this.extractMacroCalls(astTree, '')));
+    }
+
+    /**
+     * 扫描 AST，收集每一次宏调用及其形式 (参见 {@link readMacroCallShape})。
+     * 应在附加参数之前的原始 AST 上调用：按签名附加的参数无法区分花括号组和单个记号，调用形式只能从原始节点中可靠地读取。
+     * @param astTree - 要进行扫描的 AST 树。
+     * @param filePath - AST 所属文件的路径，记录在调用信息中。
+     * @returns 宏名称到其调用 (按文档顺序) 的映射。
+     */
+    public extractMacroCalls(astTree: Ast.Ast, filePath: string): Record<string, MacroCall[]> {
+        const calls: Record<string, MacroCall[]> = {};
 
         const visitorFn: VisitorFn = (node: Ast.Ast, visitInfo: VisitInfo) => { 
             if (!node || typeof node !== 'object' || !('type' in node) || node.type !== 'macro') {
@@ -85,120 +191,163 @@ export class DefinitionExtractor {
             }
             const macroNode = node as Ast.Macro;
             const macroName = macroNode.content;
-            if (!macroName || currentlyKnownMacroNames.has(macroName)) {
+            if (!macroName) {
                 return;
             }
-            let argCount = 0;
             const parentOfMacro = visitInfo?.parents?.[0]; 
             const macroIndexInParent = visitInfo?.index;  
-            if (parentOfMacro && 
-                'content' in parentOfMacro && 
-                Array.isArray(parentOfMacro.content) && 
-                macroIndexInParent != null
-            ) {
-                const parentContent = parentOfMacro.content as Ast.Ast[];
-                let currentIndex = macroIndexInParent + 1; 
-                while (currentIndex < parentContent.length) {
-                    const nextNode = parentContent[currentIndex];
-                    if (!nextNode || typeof nextNode !== 'object' || !('type' in nextNode)) {
-                        break; 
-                    }
-                    if (nextNode.type === 'whitespace') { 
-                        currentIndex++;
-                        continue;
-                    }
-                    if (nextNode.type === 'group') { 
-                        argCount++;
-                        currentIndex++;
-                    } else {
-                        break; 
-                    }
-                }
-            }
-            if (!potentialCustomMacros.has(macroName) ||
-                (potentialCustomMacros.get(macroName)!.argCount < argCount)) {
-                potentialCustomMacros.set(macroName, { node: macroNode, argCount });
-            }
+            const siblings = parentOfMacro && 'content' in parentOfMacro && Array.isArray(parentOfMacro.content) && macroIndexInParent != null
+                ? parentOfMacro.content as Ast.Ast[]
+                : null;
+            const shape = siblings ? readMacroCallShape(siblings, macroIndexInParent!) : readMacroCallShape([macroNode], 0);
+            const start = macroNode.position?.start;
+            const usage: InferredMacroUsage = {
+                file: filePath,
+                ...(start ? { line: start.line, column: start.column } : {}),
+                signature: shapeToSignature(shape),
+            };
+            (calls[macroName] = calls[macroName] || []).push({ usage, shape });
         };
         
         visit(astTree, visitorFn);
+        return calls;
+    }
+
+    /**
+     * 扫描 AST，收集每一次环境使用及其形式 (`\begin{env}` 之后的 `[...]`/`{...}` 组，参见 {@link readEnvironmentCallShape})。
+     * 与 {@link extractMacroCalls} 一样，应在处理环境之前的原始 AST 上调用。
+     * @param astTree - 要进行扫描的 AST 树。
+     * @param filePath - AST 所属文件的路径，记录在使用信息中。
+     * @returns 环境名称到其使用 (按文档顺序) 的映射。
+     */
+    public extractEnvironmentCalls(astTree: Ast.Ast, filePath: string): Record<string, MacroCall[]> {
+        const calls: Record<string, MacroCall[]> = {};
+        visit(astTree, (node: Ast.Ast) => {
+            if (!node || typeof node !== 'object' || node.type !== 'environment') {
+                return;
+            }
+            const envNode = node as Ast.Environment;
+            const envName = envNode.env;
+            const shape = readEnvironmentCallShape(envNode);
+            const start = envNode.position?.start;
+            const usage: InferredMacroUsage = {
+                file: filePath,
+                ...(start ? { line: start.line, column: start.column } : {}),
+                signature: shapeToSignature(shape),
+            };
+            (calls[envName] = calls[envName] || []).push({ usage, shape });
+        });
+        return calls;
+    }
 
-        for (const [macroName, data] of potentialCustomMacros.entries()) {
-            let signature = '';
-            for (let i = 0; i < data.argCount; i++) {
-                signature += (signature ? ' ' : '') + 'm'; 
+    /**
+     * 从宏调用中选出那些当前未在已知定义中找到的宏。
+     * @param calls - {@link extractMacroCalls} 的结果。
+     * @returns 未定义的宏名称到其调用的映射。
+     */
+    public selectUndefinedMacroCalls(calls: Record<string, MacroCall[]>): Record<string, MacroCall[]> {
+        const currentlyKnownMacroNames = this.knownMacroNamesProvider();
+        const undefinedCalls: Record<string, MacroCall[]> = {};
+        for (const [macroName, macroCalls] of Object.entries(calls)) {
+            if (!currentlyKnownMacroNames.has(macroName)) {
+                undefinedCalls[macroName] = macroCalls;
             }
-            inferredMacros[macroName] = { signature };
+        }
+        this.logger.debug(`收集到 ${Object.keys(undefinedCalls).length} 个未定义宏的调用。`);
+        return undefinedCalls;
+    }
+
+    /**
+     * 将未定义宏的调用汇总为推断出的 {@link Ast.MacroInfoRecord}。
+     * @param calls - {@link selectUndefinedMacroCalls} 的结果。
+     * @returns 宏名称到推断签名的记录。
+     */
+    public macroCallsToInfoRecord(calls: Record<string, MacroCall[]>): Ast.MacroInfoRecord {
+        const inferredMacros: Ast.MacroInfoRecord = {};
+        for (const [macroName, macroCalls] of Object.entries(calls)) {
+            inferredMacros[macroName] = { signature: inferSignatureFromCalls(macroName, macroCalls).signature };
         }
         this.logger.debug(`从AST中推断出 ${Object.keys(inferredMacros).length} 个宏的签名。`);
         return inferredMacros;
     }
 
     /**
-     * 从 AST 中提取通过 `\input`, `\include`, `\subfile` 等命令引用的文件路径。
+     * 从 AST 中提取通过 `\input`, `\include`, `\subfile` 以及 `import` 宏包的
+     * `\import`, `\subimport`, `\inputfrom`, `\subinputfrom`, `\includefrom`, `\subincludefrom` 等命令引用的文件路径。
+     *
+     * 单参数命令相对于当前文件所在目录解析。`import` 宏包的双参数命令 `\cmd{dir}{file}` 中：
+     * `\import`/`\inputfrom`/`\includefrom` 的 `dir` 是绝对路径或相对于根文档目录的路径，
+     * `\subimport`/`\subinputfrom`/`\subincludefrom` 的 `dir` 相对于当前文件所在目录。
+     * 被导入文件中的相对路径又相对于被导入文件自身的目录，因此嵌套导入可以逐层解析。
      * @param astTree - 要进行扫描的 AST 树。
      * @param baseDir - 当前文件所在的目录路径，用于解析相对路径。
-     * @returns 返回一个对象数组，每个对象包含规范化的文件路径 (`path`)、使用的命令 (`command`) 和原始路径字符串 (`rawPath`)。
+     * @param rootDir - (可选) 根文档所在的目录，用于解析 `\import{dir}{file}` 的 `dir`。默认为 `baseDir`。
+     * 宏展开 (`expandMacros`) 产生的包含命令 (例如 `\chapterfile{intro}` 展开得到的 `\input{chapters/intro}`) 没有可靠的位置信息，
+     * 其 `command` 和 `position` 取自文档中原始的宏调用，使被包含文件中的定义在调用处生效。
+     * @returns 返回一个按文档顺序排列的对象数组，每个对象包含规范化的文件路径 (`path`)、使用的命令 (`command`)、
+     *          原始路径字符串 (`rawPath`，双参数命令还有 `rawDir`)、命令在源码中的位置 (`position`) 以及对应的宏节点 (`node`)。
      */
     public extractIncludedFiles(
         astTree: Ast.Ast,
-        baseDir: string
-    ): { path: string; command: string; rawPath: string }[] {
+        baseDir: string,
+        rootDir: string = baseDir
+    ): IncludedFileReference[] {
         this.logger.debug(`[DefinitionExtractor] 开始从 ${baseDir} 提取包含文件。 AST根节点类型: ${astTree.type}`);
-        const includedFiles: { path: string; command: string; rawPath: string }[] = [];
-        const includeCommands = ['input', 'include', 'subfile'];
-        const includeCommandMatcher: Matcher = match.createMacroMatcher(includeCommands);
+        const includedFiles: IncludedFileReference[] = [];
+        const commandTable = this.getIncludeCommandTable();
+        const includeCommands = Object.keys(commandTable);
 
-        const testFn = (node: Ast.Ast | null | undefined, _info?: VisitInfo): boolean => {
-            // console.log(`[DEBUG] [DefinitionExtractor-testFn] 检查节点: ${node ? (node as any).type + ((node as any).type === 'macro' ? '('+(node as Ast.Macro).content+')' : '') : 'null/undefined'}`);
+        const testFn = (node: Ast.Ast | null | undefined, info?: VisitInfo): boolean => {
             if (!node || typeof node !== 'object' || !('type' in node)) {
                 return false;
             }
-            const isMacroNode = node.type === 'macro';
-            if (isMacroNode) {
-                const commandName = (node as Ast.Macro).content;
-                const isTargetCommand = includeCommands.includes(commandName);
-                // console.log(`[DEBUG] [DefinitionExtractor-testFn] 宏节点: \\${commandName}, 是否为目标命令: ${isTargetCommand}`);
-                return isTargetCommand;
+            if (node.type !== 'macro' || !includeCommands.includes((node as Ast.Macro).content)) {
+                return false;
             }
-            return false;
+            // 宏/环境定义体中的包含命令 (例如 \newcommand{\chapterfile}[1]{\input{chapters/#1}}) 不是实际的文件包含
+            return !(info?.parents || []).some(parent => parent.type === 'macro' &&
+                (COMMAND_DEFINERS.has((parent as Ast.Macro).content) || ALL_ENVIRONMENT_DEFINERS.has((parent as Ast.Macro).content)));
         };
 
         const visitorFn: VisitorFn = (node: Ast.Ast, info: VisitInfo) => { 
             const macroNode = node as Ast.Macro;
-            // console.log(`[DEBUG] [DefinitionExtractor-visitorFn] 处理宏 \\${macroNode.content}，参数:`, JSON.stringify(macroNode.args), `Context Key: ${info.key}, Index: ${info.index}`);
+            const expansionOrigin = this.findExpansionOrigin(node, info.parents || []);
+            const commandInfo = commandTable[macroNode.content];
 
-            if (!macroNode.args || macroNode.args.length < 1) {
-                this.logger.warn(`文件包含命令 '${macroNode.content}' (位于 ${baseDir} 附近) 没有参数，无法提取路径。`);
-                return;
-            }
-            const firstArg = macroNode.args[0];
-            if (firstArg.type !== 'argument') {
-                this.logger.warn(`文件包含命令 '${macroNode.content}' 的第一个参数不是有效的 argument 类型。实际类型: ${firstArg.type}`);
-                return;
-            }
-            let rawPath = '';
-            if (Array.isArray(firstArg.content)) {
-                rawPath = firstArg.content
-                    .filter((n: Ast.Ast): n is Ast.String => !!(n && typeof n ==='object' && 'type' in n && n.type === 'string'))
-                    .map((n: Ast.String) => n.content)
-                    .join('');
-            } else if (typeof firstArg.content === 'string') {
-                rawPath = firstArg.content; 
-            }
+            const rawPath = commandInfo.pathTemplate !== undefined
+                ? this.expandPathTemplate(macroNode, commandInfo.pathTemplate, baseDir)
+                : this.getIncludeArgumentText(macroNode, commandInfo.pathArgIndex, baseDir);
             if (!rawPath) {
-                this.logger.warn(`文件包含命令 '${macroNode.content}' (位于 ${baseDir} 附近) 的第一个参数内容为空或未能提取出有效字符串。 Arg content:`, firstArg.content);
                 return;
             }
-            // this.logger.debug(`[DefinitionExtractor] 提取到原始包含路径: '${rawPath}' from command \'${macroNode.content}\'`);
-            const resolvedPath = resolveTexPathWithExtension(baseDir, rawPath);
+            let rawDir: string | undefined;
+            let pathBaseDir = baseDir;
+            if (commandInfo.dirArgIndex !== undefined) {
+                // \import{}{file} 这类空目录参数是合法的，此时等价于相应的基准目录
+                const dirText = this.getIncludeArgumentText(macroNode, commandInfo.dirArgIndex, baseDir, true);
+                if (dirText === null) {
+                    return;
+                }
+                rawDir = dirText;
+                pathBaseDir = resolvePath(commandInfo.dirBase === 'root' ? rootDir : baseDir, rawDir);
+            }
+
+            const resolvedPath = resolveTexPathWithExtension(pathBaseDir, rawPath);
             const normalizedPath = normalizePath(resolvedPath); 
-            // this.logger.debug(`[DefinitionExtractor] 原始路径 '${rawPath}' 解析并规范化为: '${normalizedPath}'`);
-            includedFiles.push({
+            const reference: IncludedFileReference = {
                 path: normalizedPath,
-                command: macroNode.content,
-                rawPath: rawPath
-            });
+                command: expansionOrigin ? expansionOrigin.content : macroNode.content,
+                rawPath: rawPath,
+                position: expansionOrigin ? expansionOrigin.position : macroNode.position,
+                node: macroNode,
+            };
+            if (rawDir !== undefined) {
+                reference.rawDir = rawDir;
+            }
+            if (commandInfo.usesInclude) {
+                reference.includeOnlyName = rawDir ? `${rawDir.replace(/\/+$/, '')}/${rawPath}` : rawPath;
+            }
+            includedFiles.push(reference);
         };
         
         visit(astTree, visitorFn, { test: testFn as (node: Ast.Ast, info: VisitInfo) => boolean });
@@ -209,4 +358,200 @@ export class DefinitionExtractor {
         }
         return includedFiles;
     }
-} 
\ No newline at end of file
+
+    /**
+     * (私有) 返回节点所在的宏展开对应的、文档中的原始宏调用 (节点自身及其祖先中最近的、带有位置信息的 `expandedFrom`)。
+     * 嵌套展开中内层的 `expandedFrom` 复制自定义体，没有位置信息，因此继续向外查找。
+     * @param node - 要检查的节点。
+     * @param parents - 节点的祖先 (由近及远)。
+     * @returns 原始宏调用节点；节点不在宏展开结果中时返回 `undefined`。
+     */
+    private findExpansionOrigin(node: Ast.Ast, parents: Ast.Ast[]): Ast.Macro | undefined {
+        for (const candidate of [node, ...parents]) {
+            const origin = (candidate as Partial<ExpandedMacroNode>).expandedFrom;
+            if (origin?.position) {
+                return origin;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 识别文档中定义的、只是 `\input`/`\include`/`\subfile` 薄包装的宏，
+     * 例如 `\newcommand{\chapterfile}[1]{\input{chapters/#1}}`。
+     * 宏体 (忽略空白和注释) 必须恰好是一个包含命令；其路径参数的原始文本作为路径模板，
+     * 例如上例得到 `{ argIndex: 0, pathTemplate: 'chapters/#1', via: 'input' }`。
+     * @param astTree - 要进行扫描的 AST 树。
+     * @returns 命令名称到其包含命令配置的映射。
+     */
+    public extractIncludeCommandWrappers(astTree: Ast.Ast): Record<string, IncludeCommandConfig> {
+        const wrappers: Record<string, IncludeCommandConfig> = {};
+        for (const spec of extractNewCommandSpecs(astTree)) {
+            const bodyNodes = spec.body.filter(node =>
+                node.type !== 'whitespace' && node.type !== 'comment' && node.type !== 'parbreak'
+            );
+            if (bodyNodes.length !== 1 || bodyNodes[0].type !== 'macro') {
+                continue;
+            }
+            const innerMacro = bodyNodes[0] as Ast.Macro;
+            const via = innerMacro.content;
+            if (via !== 'input' && via !== 'include' && via !== 'subfile') {
+                continue;
+            }
+            const pathArg = innerMacro.args?.[INCLUDE_COMMANDS[via].pathArgIndex];
+            const pathTemplate = pathArg ? printRaw(pathArg.content).trim() : '';
+            if (!pathTemplate) {
+                continue;
+            }
+            const name = spec.name.replace(/^\\/, '');
+            const firstParam = /#([1-9])/.exec(pathTemplate);
+            wrappers[name] = {
+                ...(firstParam ? { argIndex: Number(firstParam[1]) - 1 } : {}),
+                pathTemplate,
+                via,
+            };
+        }
+        if (Object.keys(wrappers).length > 0) {
+            this.logger.debug('[DefinitionExtractor] 识别出文件包含包装命令:', wrappers);
+        }
+        return wrappers;
+    }
+
+    /**
+     * (私有) 合并内置的文件包含命令与 `includeCommandsProvider` 提供的命令。
+     * @returns 命令名称到其参数布局的映射。
+     */
+    private getIncludeCommandTable(): Record<string, IncludeCommandInfo> {
+        const table: Record<string, IncludeCommandInfo> = { ...INCLUDE_COMMANDS };
+        for (const [name, commandConfig] of Object.entries(this.includeCommandsProvider())) {
+            table[name] = {
+                pathArgIndex: commandConfig.argIndex ?? 0,
+                pathTemplate: commandConfig.pathTemplate,
+                usesInclude: commandConfig.via === 'include',
+            };
+        }
+        return table;
+    }
+
+    /**
+     * (私有) 展开路径模板：将其中的 `#1`…`#9` 替换为宏节点对应参数的文本。
+     * 缺失或为空的参数 (例如未给出的可选参数) 被替换为空字符串。
+     * @param macroNode - 包含命令的宏节点。
+     * @param pathTemplate - 路径模板。
+     * @param baseDir - 当前文件所在的目录 (仅用于日志)。
+     * @returns 展开后的路径；如果展开结果为空，则返回 `null`。
+     */
+    private expandPathTemplate(macroNode: Ast.Macro, pathTemplate: string, baseDir: string): string | null {
+        const expanded = pathTemplate.replace(/#([1-9])/g, (_match, paramNumber: string) =>
+            this.getIncludeArgumentText(macroNode, Number(paramNumber) - 1, baseDir, true) ?? ''
+        ).trim();
+        if (!expanded) {
+            this.logger.warn(`文件包含命令 '${macroNode.content}' (位于 ${baseDir} 附近) 按模板 '${pathTemplate}' 展开后路径为空。`);
+            return null;
+        }
+        return expanded;
+    }
+
+    /**
+     * (私有) 提取包含命令指定参数中的路径字符串 (只拼接其中的字符串节点)。
+     * @param macroNode - 包含命令的宏节点。
+     * @param argIndex - 参数在 `macroNode.args` 中的下标。
+     * @param baseDir - 当前文件所在的目录 (仅用于日志)。
+     * @param allowEmpty - 是否允许参数内容为空 (例如 `\import{}{file}` 的目录参数)。
+     * @returns 参数中的路径字符串；如果参数缺失、无效或 (在不允许时) 为空，则返回 `null`。
+     */
+    private getIncludeArgumentText(
+        macroNode: Ast.Macro,
+        argIndex: number,
+        baseDir: string,
+        allowEmpty: boolean = false
+    ): string | null {
+        const arg = macroNode.args?.[argIndex];
+        if (!arg) {
+            this.logger.warn(`文件包含命令 '${macroNode.content}' (位于 ${baseDir} 附近) 缺少第 ${argIndex + 1} 个参数，无法提取路径。`);
+            return null;
+        }
+        if (arg.type !== 'argument') {
+            this.logger.warn(`文件包含命令 '${macroNode.content}' 的第 ${argIndex + 1} 个参数不是有效的 argument 类型。实际类型: ${arg.type}`);
+            return null;
+        }
+        let text = '';
+        if (Array.isArray(arg.content)) {
+            text = arg.content
+                .filter((n: Ast.Ast): n is Ast.String => !!(n && typeof n ==='object' && 'type' in n && n.type === 'string'))
+                .map((n: Ast.String) => n.content)
+                .join('');
+        } else if (typeof arg.content === 'string') {
+            text = arg.content; 
+        }
+        if (!text && !allowEmpty) {
+            this.logger.warn(`文件包含命令 '${macroNode.content}' (位于 ${baseDir} 附近) 的第 ${argIndex + 1} 个参数内容为空或未能提取出有效字符串。 Arg content:`, arg.content);
+            return null;
+        }
+        return text;
+    }
+
+    /**
+     * 从 AST 中提取 `\includeonly{...}` 和 `\excludeonly{...}` 指令列出的文件名。
+     * 与 LaTeX 一致，同一指令出现多次时以最后一次为准。
+     * @param astTree - 要进行扫描的 AST 树。
+     * @returns 返回一个 {@link InclusionDirectives} 对象；未出现的指令对应字段为 undefined。
+     */
+    public extractInclusionDirectives(astTree: Ast.Ast): InclusionDirectives {
+        const directives: InclusionDirectives = {};
+        const directiveMatcher: Matcher = match.createMacroMatcher(['includeonly', 'excludeonly']);
+
+        const visitorFn: VisitorFn = (node: Ast.Ast) => {
+            const macroNode = node as Ast.Macro;
+            const listArg = macroNode.args?.find((arg: Ast.Argument) => arg.openMark === '{');
+            if (!listArg) {
+                this.logger.warn(`\\${macroNode.content} 缺少文件列表参数，已忽略。`);
+                return;
+            }
+            const names = splitNameList(printRaw(listArg.content));
+            if (macroNode.content === 'includeonly') {
+                directives.includeOnly = names;
+            } else {
+                directives.excludeOnly = names;
+            }
+        };
+
+        visit(astTree, visitorFn, { test: directiveMatcher as (node: Ast.Ast, info: VisitInfo) => boolean });
+        if (directives.includeOnly || directives.excludeOnly) {
+            this.logger.debug('[DefinitionExtractor] 提取到文件包含控制指令:', directives);
+        }
+        return directives;
+    }
+
+    /**
+     * 从 AST 中提取 `\usepackage`、`\RequirePackage`、`\documentclass` 和 `\LoadClass` 引用的宏包和文档类。
+     * `\usepackage{a,b}` 这样的逗号分隔列表会被拆分为多个引用。
+     * 注意：此方法会为上述命令附加参数 (如果尚未附加)。
+     * @param astTree - 要进行扫描的 AST 树 (通常是 {@link Ast.Root} 节点)。
+     * @returns 按文档顺序排列的 {@link PackageReference} 数组。
+     */
+    public extractPackageReferences(astTree: Ast.Root): PackageReference[] {
+        const signatures: Ast.MacroInfoRecord = {};
+        for (const [command, info] of Object.entries(PACKAGE_LOADING_COMMANDS)) {
+            signatures[command] = { signature: info.signature };
+        }
+        attachMacroArgs(astTree, signatures);
+
+        const references: PackageReference[] = [];
+        const visitorFn: VisitorFn = (node: Ast.Ast) => {
+            const macroNode = node as Ast.Macro;
+            const nameArg = macroNode.args?.[1];
+            if (!nameArg || !Array.isArray(nameArg.content)) {
+                return;
+            }
+            for (const name of splitNameList(printRaw(nameArg.content))) {
+                references.push({ name, kind: PACKAGE_LOADING_COMMANDS[macroNode.content].kind, command: macroNode.content });
+            }
+        };
+        const packageMatcher: Matcher = match.createMacroMatcher(Object.keys(PACKAGE_LOADING_COMMANDS));
+        visit(astTree, visitorFn, { test: packageMatcher as (node: Ast.Ast, info: VisitInfo) => boolean });
+
+        this.logger.debug(`[DefinitionExtractor] 提取到 ${references.length} 个宏包/文档类引用。`);
+        return references;
+    }
+}
@@ -3,31 +3,84 @@
  *
  * 在整个项目解析生命周期中管理 LaTeX 的宏定义和环境定义。
  * 这包括加载默认定义、用户通过配置或文件提供的定义、
- * 从文档内容中提取的定义，以及为使用了但未知的宏推断出的定义。
+ * 从文档内容中提取的定义，以及为使用了但未知的宏和环境推断出的定义。
  * 同时，它还负责处理这些不同来源定义的优先级和合并逻辑。
  */
 
-import type { Ast, ResolvedParserConfig, NewCommandSpec, NewEnvironmentSpec } from '../types/index';
-import { environmentInfo as ctanPackageEnvironmentInfo } from "@unified-latex/unified-latex-ctan";
+import type { Ast, ResolvedParserConfig, NewCommandSpec, NewEnvironmentSpec, IncludeCommandConfig, DefinitionCategory, DefinitionProvenance, DefinitionTimelineEntry, DefinitionDiagnostic, DiagnosedDefinitionNode, InferredMacroSignature, TheoremSpec, VerbatimEnvironmentInfo } from '../types/index';
+import { environmentInfo as ctanPackageEnvironmentInfo, macroInfo as ctanPackageMacroInfo } from "@unified-latex/unified-latex-ctan";
+import { printRaw } from '../latex-utils/unifiedLatexBridge';
+import { NEW_DEFINERS, RENEW_DEFINERS, THEOREM_DEFINERS } from '../latex-utils/commandDefinitionUtils';
+import { PACKAGE_VERBATIM_ENVIRONMENTS } from '../latex-utils/verbatimEnvironments';
+import { parseXparseArgSpec } from '../latex-utils/xparseArgSpec';
+import { MacroCall, inferSignatureFromCalls } from '../latex-utils/signatureInference';
+import { DefinitionTimeline, DocumentOrderKey, TimelineEntry, compareDocumentOrderKeys, findSegmentIndex, toDefinitionTimelineEntries } from './DefinitionTimeline';
 import { createLogger, Logger } from '../utils/logger';
 // 注意：从外部文件加载（例如通过 utils.readFileAsync，现在是 fileSystem.readFileAsync）
 // 的逻辑已由 ConfigManager 处理。DefinitionHandler 通过 ResolvedParserConfig 直接接收已加载的记录。
 
+/**
+ * 一个定义在源码中的位置和写法。只有文档内和本地宏包中的定义有这些信息。
+ */
+type DefinitionSource = Pick<DefinitionProvenance, 'file' | 'line' | 'column' | 'definingCommand' | 'source' | 'aliasOf' | 'packageSource'>;
+
+/** 文档中的一次宏定义 */
+interface DocumentMacroDefinition {
+  info: { signature: string };
+  spec: NewCommandSpec;
+  source: DefinitionSource;
+}
+
+/** 文档中的一次环境定义 */
+interface DocumentEnvironmentDefinition {
+  info: Ast.EnvInfo;
+  source: DefinitionSource;
+  definitionMacro: Ast.Macro;
+  theorem?: TheoremSpec;
+  verbatim?: VerbatimEnvironmentInfo;
+}
+
 export class DefinitionHandler {
   private logger: Logger;
 
   // 分类存储宏定义
   private defaultMacros: Ast.MacroInfoRecord;         // 默认宏
+  private ctanPackageMacros: Ast.MacroInfoRecord;     // 来自 CTAN 的、文档所用宏包 (及 LaTeX 内核) 的宏
   private userProvidedMacros: Ast.MacroInfoRecord;    // 用户通过配置对象提供的宏 (customMacroRecord)
-  private definedInDocMacros: Ast.MacroInfoRecord;    // 文档中定义的宏 (例如 \newcommand)
+  private packageTaggedUserMacros: Record<string, Ast.MacroInfoRecord>; // 宏包名 -> 带有该 package 标记、尚未生效的用户宏
+  private definedInDocMacros: Ast.MacroInfoRecord;    // 文档中定义的宏 (例如 \newcommand)，由时间线得出的文档末尾状态
+  private packageLocalMacros: Ast.MacroInfoRecord;    // 项目目录中本地 .sty/.cls 文件定义的宏
   private inferredUsedMacros: Ast.MacroInfoRecord;    // 从用法中推断出的宏
+  private inferredMacroSignatures: Record<string, InferredMacroSignature>; // 推断出的宏的推断依据
+  private inferredMacroCalls: Map<string, Record<string, MacroCall[]>>;   // 映射：文件路径 -> 该文件中未定义宏的调用
+  private definedInDocMacroSpecs: Record<string, NewCommandSpec>; // 文档中定义的宏的完整规范 (含定义体，用于宏展开)
+  private resolvedDocMacroSpecs: Map<DocumentMacroDefinition, NewCommandSpec>; // 每一次宏定义的完整规范 (`\let` 别名已解析)
 
   // 分类存储环境定义
   private ctanEnvs: Ast.EnvInfoRecord;                // 来自 CTAN 的标准环境
   private userProvidedEnvs: Ast.EnvInfoRecord;        // 用户通过配置对象提供的环境 (customEnvironmentRecord)
-  private definedInDocEnvs: Ast.EnvInfoRecord;        // 文档中定义的环境 (例如 \newenvironment)
-  // 环境通常不像宏那样被"推断"，因为它们的使用（\begin{env} ... \end{env}）更为明确。
-  // 但如果未完全指定，它们的签名可能会根据用法进行细化或确认。
+  private packageTaggedUserEnvs: Record<string, Ast.EnvInfoRecord>;     // 宏包名 -> 带有该 package 标记、尚未生效的用户环境
+  private definedInDocEnvs: Ast.EnvInfoRecord;        // 文档中定义的环境 (例如 \newenvironment)，由时间线得出的文档末尾状态
+  private packageLocalEnvs: Ast.EnvInfoRecord;        // 项目目录中本地 .sty/.cls 文件定义的环境
+  private inferredUsedEnvs: Ast.EnvInfoRecord;        // 从用法 (\begin{env} 之后的 [...]/{...}) 中推断出的环境
+  private inferredEnvSignatures: Record<string, InferredMacroSignature>; // 推断出的环境的推断依据
+  private inferredEnvCalls: Map<string, Record<string, MacroCall[]>>;    // 映射：文件路径 -> 该文件中未定义环境的使用
+  // 文档通过 \usepackage/\documentclass 等引用的宏包/文档类名称 (按首次出现顺序)
+  private usedPackages: string[];
+  // 文档内定义的时间线 (每一次定义及其在文档中的位置) 和文件的文档顺序键
+  private docMacroTimeline: DefinitionTimeline<DocumentMacroDefinition>;
+  private docEnvTimeline: DefinitionTimeline<DocumentEnvironmentDefinition>;
+  private fileOrderKeys: Map<string, DocumentOrderKey>;
+  // 定义的来源信息 (文档内定义的来源记录在时间线中)
+  private packageLocalMacroSources: Record<string, DefinitionSource>;
+  private packageLocalEnvSources: Record<string, DefinitionSource>;
+  private packageLocalTheorems: Record<string, TheoremSpec>; // 本地宏包中定义的定理类环境的编号方式和样式
+  private packageLocalVerbatimEnvs: Record<string, VerbatimEnvironmentInfo>; // 本地宏包中定义的逐字环境
+  private ctanPackageMacroOrigins: Record<string, string>; // 宏名称 -> 提供它的 CTAN 宏包
+  private ctanEnvOrigins: Record<string, string>;          // 环境名称 -> 提供它的 CTAN 宏包
+  // 文件包含命令
+  private userIncludeCommands: Record<string, IncludeCommandConfig>;    // 用户通过配置提供的包含命令 (includeCommands)
+  private definedInDocIncludeCommands: Record<string, IncludeCommandConfig>; // 文档中定义的 \input/\include 包装命令
 
   /**
    * 创建一个新的 DefinitionHandler 实例。
@@ -39,18 +92,53 @@ export class DefinitionHandler {
 
     // 初始化宏存储
     this.defaultMacros = {};
+    this.ctanPackageMacros = {};
     this.userProvidedMacros = { ...config.customMacroRecord }; // 已由 ConfigManager 加载
     this.definedInDocMacros = {};
+    this.packageLocalMacros = {};
     this.inferredUsedMacros = {};
+    this.inferredMacroSignatures = {};
+    this.inferredMacroCalls = new Map<string, Record<string, MacroCall[]>>();
+    this.definedInDocMacroSpecs = {};
+    this.resolvedDocMacroSpecs = new Map<DocumentMacroDefinition, NewCommandSpec>();
+    this.fileOrderKeys = new Map<string, DocumentOrderKey>();
+    this.docMacroTimeline = new DefinitionTimeline<DocumentMacroDefinition>(filePath => this.getFileOrderKey(filePath));
+    this.docEnvTimeline = new DefinitionTimeline<DocumentEnvironmentDefinition>(filePath => this.getFileOrderKey(filePath));
+    this.packageLocalMacroSources = {};
+    this.packageLocalEnvSources = {};
+    this.packageLocalTheorems = {};
+    this.packageLocalVerbatimEnvs = {};
+    this.ctanPackageMacroOrigins = {};
+    this.ctanEnvOrigins = {};
 
     // 初始化环境存储
     this.ctanEnvs = this.loadCtanEnvironments();
     this.userProvidedEnvs = { ...config.customEnvironmentRecord }; // 已由 ConfigManager 加载
+    // 带 package 标记的用户定义在文档使用对应宏包时才生效 (参见 addUsedPackages)
+    this.packageTaggedUserMacros = this.deferPackageTaggedDefinitions(this.userProvidedMacros, config.customMacroPackages);
+    this.packageTaggedUserEnvs = this.deferPackageTaggedDefinitions(this.userProvidedEnvs, config.customEnvironmentPackages);
     this.definedInDocEnvs = {};
+    this.packageLocalEnvs = {};
+    this.inferredUsedEnvs = {};
+    this.inferredEnvSignatures = {};
+    this.inferredEnvCalls = new Map<string, Record<string, MacroCall[]>>();
+    this.usedPackages = [];
+
+    // 初始化文件包含命令存储；配置中带签名的包含命令同时作为用户提供的宏注册
+    this.userIncludeCommands = { ...config.includeCommands };
+    this.definedInDocIncludeCommands = {};
+    for (const [commandName, commandConfig] of Object.entries(this.userIncludeCommands)) {
+      if (commandConfig.signature !== undefined && !this.userProvidedMacros[commandName]) {
+        this.userProvidedMacros[commandName] = { signature: commandConfig.signature };
+      }
+    }
 
     if (config.loadDefaultMacros) {
       this.defaultMacros = this.loadDefaultMacroSignatures();
       this.logger.info(`已加载 ${Object.keys(this.defaultMacros).length} 个默认宏。`);
+      // LaTeX 内核的宏总是可用，无需 \usepackage；xparse 自 2020 年起已并入内核
+      this.addCtanPackageMacros('latex2e');
+      this.addCtanPackageMacros('xparse');
     }
     
     this.logger.info(`初始化时，用户提供的宏数量: ${Object.keys(this.userProvidedMacros).length} 个。`);
@@ -58,6 +146,28 @@ export class DefinitionHandler {
     this.logger.info(`初始化时，CTAN 标准环境数量: ${Object.keys(this.ctanEnvs).length} 个。`);
   }
 
+  /**
+   * 将带有 `package` 标记的用户定义从 `record` 中移出，按宏包分组。
+   * @param record - 用户提供的定义记录 (会被修改)。
+   * @param packageTags - 名称到宏包名的映射。
+   * @returns 宏包名到该宏包的用户定义的映射。
+   */
+  private deferPackageTaggedDefinitions<T extends Ast.MacroInfoRecord | Ast.EnvInfoRecord>(
+    record: T,
+    packageTags: Record<string, string> = {}
+  ): Record<string, T> {
+    const deferred: Record<string, T> = {};
+    for (const [name, packageName] of Object.entries(packageTags)) {
+      if (!record[name]) {
+        continue;
+      }
+      deferred[packageName] = deferred[packageName] || ({} as T);
+      deferred[packageName][name] = record[name];
+      delete record[name];
+    }
+    return deferred;
+  }
+
   /**
    * 从 `ctanPackageEnvironmentInfo` 加载 LaTeX 标准环境定义。
    * @returns 一个包含所有CTAN标准环境的 {@link Ast.EnvInfoRecord} 对象。
@@ -71,6 +181,9 @@ export class DefinitionHandler {
                 const packageEnvs = (ctanPackageEnvironmentInfo as any)[packageName] as Ast.EnvInfoRecord;
                 if (packageEnvs && typeof packageEnvs === 'object') {
                     flatCtanEnvs = { ...flatCtanEnvs, ...packageEnvs };
+                    for (const envName of Object.keys(packageEnvs)) {
+                        this.ctanEnvOrigins[envName] = packageName;
+                    }
                 }
             }
         }
@@ -78,6 +191,32 @@ export class DefinitionHandler {
     return flatCtanEnvs;
   }
 
+  /**
+   * 从 `ctanPackageMacroInfo` 加载单个宏包的宏定义。
+   * @param packageName - 宏包或文档类名称 (例如 `cleveref`、`beamer`)。
+   * @returns 该宏包的 {@link Ast.MacroInfoRecord} 副本；CTAN 中没有该宏包的信息时返回空对象。
+   */
+  private loadCtanPackageMacros(packageName: string): Ast.MacroInfoRecord {
+    const packageMacros: Ast.MacroInfoRecord | undefined = Object.prototype.hasOwnProperty.call(ctanPackageMacroInfo, packageName)
+      ? ctanPackageMacroInfo[packageName]
+      : undefined;
+    return packageMacros ? { ...packageMacros } : {};
+  }
+
+  /**
+   * 将单个 CTAN 宏包的宏加入 CTAN 宏包类别，并记录每个宏来自哪个宏包。
+   * @param packageName - 宏包或文档类名称。
+   * @returns 加入的宏数量。
+   */
+  private addCtanPackageMacros(packageName: string): number {
+    const packageMacros = this.loadCtanPackageMacros(packageName);
+    for (const macroName of Object.keys(packageMacros)) {
+      this.ctanPackageMacroOrigins[macroName] = packageName;
+    }
+    Object.assign(this.ctanPackageMacros, packageMacros);
+    return Object.keys(packageMacros).length;
+  }
+
   /**
    * 加载一组预定义的常用 LaTeX 宏签名。
    * 此方法迁移自旧的 `MacroHandler::loadDefaultMacros`。
@@ -90,6 +229,16 @@ export class DefinitionHandler {
       'input': { signature: 'm' },
       'include': { signature: 'm' },
       'subfile': { signature: 'm' },
+      'includeonly': { signature: 'm' },
+      'RequirePackage': { signature: 'o m o' },
+      'LoadClass': { signature: 'o m o' },
+      'import': { signature: 's m m' },
+      'subimport': { signature: 's m m' },
+      'inputfrom': { signature: 's m m' },
+      'subinputfrom': { signature: 's m m' },
+      'includefrom': { signature: 's m m' },
+      'subincludefrom': { signature: 's m m' },
+      'excludeonly': { signature: 'm' },
       'textbf': { signature: 'm' },
       'textit': { signature: 'm' },
       'texttt': { signature: 'm' },
@@ -103,6 +252,16 @@ export class DefinitionHandler {
       'sqrt': { signature: 'o m' },
       'newcommand': { signature: 'm o o m' },
       'renewcommand': { signature: 'm o o m' },
+      'DeclareRobustCommand': { signature: 's m o o m' },
+      // TeX 原语定义命令及其前缀：操作数不是参数 (参见 commandDefinitionUtils 中的 \def/\let 处理)
+      'def': { signature: '' },
+      'gdef': { signature: '' },
+      'edef': { signature: '' },
+      'xdef': { signature: '' },
+      'let': { signature: '' },
+      'long': { signature: '' },
+      'global': { signature: '' },
+      'protected': { signature: '' },
       'DeclareMathOperator': { signature: 's m m' }, // amsmath 包通常使用星号版本
       'DeclarePairedDelimiter': { signature: 'm m m' },
       'begin': { signature: 'm o' }, // \begin 命令自身的签名
@@ -121,80 +280,709 @@ export class DefinitionHandler {
       'newenvironment': { signature: 'm o o m m' },
       'renewenvironment': { signature: 'm o o m m' },
       'provideenvironment': { signature: 'm o o m m' },
-      'newtheorem': { signature: 's m o m' }, // 常见形式: \newtheorem*{theorem}{Theorem}[section]
+      'newtheorem': { signature: 's m o m o' }, // 形式: \newtheorem*{name}[shared]{Title}[within]
+      'theoremstyle': { signature: 'm' },
+      'declaretheorem': { signature: 'o m o' }, // thmtools: \declaretheorem[options]{name}[options]
       'newtcolorbox': { signature: 'o m o o m' },
-      'DeclareTColorBox': { signature: 'm m m' }, // name, arg_spec, options
-      'newlist': { signature: 'm m m' }, // name, counter, max_depth
+      'NewTColorBox': { signature: 'o m m m' }, // init_options, name, arg_spec, options
+      'RenewTColorBox': { signature: 'o m m m' },
+      'ProvideTColorBox': { signature: 'o m m m' },
+      'DeclareTColorBox': { signature: 'o m m m' },
+      'newtcbtheorem': { signature: 'o m m m m' }, // init_options, name, display_name, options, prefix
+      'newtcblisting': { signature: 'o m o o m' },
+      'newlist': { signature: 'm m m' }, // name, type, max_depth
+      'renewlist': { signature: 'm m m' },
+      'newmdenv': { signature: 'o m' },
+      'newfloat': { signature: 'm m m o' }, // type, placement, ext, within
+      'DeclareFloatingEnvironment': { signature: 'o m' },
+      'lstnewenvironment': { signature: 'm o o m m' },
+      'newminted': { signature: 'o m m' }, // envname, language, options
+      'newmintedfile': { signature: 'o m m' }, // macroname, language, options
+      'DefineVerbatimEnvironment': { signature: 'm m m' }, // name, base, options
+      'CustomVerbatimEnvironment': { signature: 'm m m' },
+      'RecustomVerbatimEnvironment': { signature: 'm m m' },
     };
   }
   
   /**
    * 根据定义的优先级合并宏记录。
-   * 优先级顺序: 文档内定义 > 用户提供 > 默认 > 推断。
+   * 优先级顺序: 文档内定义 > 本地宏包 > 用户提供 > 默认 > CTAN 宏包 > 推断。
+   * 手工维护的默认签名优先于 CTAN 的签名，以保留针对本项目调校过的参数形式。
+   * @param docMacros - 使用的文档内定义，默认为文档末尾生效的定义。
    * @returns 合并后的 {@link Ast.MacroInfoRecord} 对象。
    */
-  private mergeMacroRecords(): Ast.MacroInfoRecord {
+  private mergeMacroRecords(docMacros: Ast.MacroInfoRecord = this.definedInDocMacros): Ast.MacroInfoRecord {
     return {
       ...this.inferredUsedMacros,    // 最低优先级
+      ...this.ctanPackageMacros,
       ...this.defaultMacros,
       ...this.userProvidedMacros,
-      ...this.definedInDocMacros,    // 最高优先级
+      ...this.packageLocalMacros,
+      ...docMacros,                  // 最高优先级
     };
   }
 
   /**
    * 根据定义的优先级合并环境记录。
-   * 优先级顺序: 文档内定义 > 用户提供 > CTAN标准。
+   * 优先级顺序: 文档内定义 > 本地宏包 > 用户提供 > CTAN标准 > 推断。
+   * @param docEnvs - 使用的文档内定义，默认为文档末尾生效的定义。
    * @returns 合并后的 {@link Ast.EnvInfoRecord} 对象。
    */
-  private mergeEnvironmentRecords(): Ast.EnvInfoRecord {
+  private mergeEnvironmentRecords(docEnvs: Ast.EnvInfoRecord = this.definedInDocEnvs): Ast.EnvInfoRecord {
     return {
-      ...this.ctanEnvs,             // 最低优先级 (相对于用户和文档内)
+      ...this.inferredUsedEnvs,     // 最低优先级
+      ...this.ctanEnvs,
       ...this.userProvidedEnvs,
-      ...this.definedInDocEnvs,     // 最高优先级
+      ...this.packageLocalEnvs,
+      ...docEnvs,                   // 最高优先级
     };
   }
-  
+
+  /**
+   * 设置文件的文档顺序键 (参见 {@link DefinitionTimeline})。根文件为 `[]`，被包含的文件为父文件的键加上包含命令的偏移量。
+   * 应在解析该文件之前设置。
+   * @param filePath - 文件的规范化路径。
+   * @param key - 文档顺序键。
+   */
+  public setFileOrderKey(filePath: string, key: DocumentOrderKey): void {
+    this.fileOrderKeys.set(filePath, [...key]);
+  }
+
+  /**
+   * 获取文件的文档顺序键。未设置过的文件视为根文件 (`[]`)。
+   * @param filePath - 文件的规范化路径。
+   * @returns 文档顺序键的副本。
+   */
+  public getFileOrderKey(filePath: string): DocumentOrderKey {
+    return [...(this.fileOrderKeys.get(filePath) || [])];
+  }
+
+  /**
+   * 设置一个文件中定义的全部宏 (例如通过 `\newcommand` 定义的)，替换该文件此前记录的定义。
+   * 每个定义只对文档中其后的内容生效 (参见 {@link getMacroInfoRecordResolver})。
+   * @param filePath - 文件的规范化路径。
+   * @param specs - 按文档顺序排列的 {@link NewCommandSpec} 数组 (别名的签名已确定)。
+   */
+  public setDocumentMacroDefinitions(filePath: string, specs: NewCommandSpec[]): void {
+    this.logger.debug(`文件 ${filePath} 中定义了 ${specs.length} 个宏:`, specs.map(spec => spec.name));
+    this.docMacroTimeline.setFileDefinitions(filePath, specs.map(spec => ({
+      name: spec.name,
+      offset: spec.definition.position?.start.offset,
+      value: {
+        info: { signature: spec.signature },
+        spec,
+        source: {
+          ...this.describeDefinitionNode(spec.definition, filePath),
+          source: spec.source ?? printRaw(spec.definition),
+          ...(spec.aliasOf !== undefined ? { aliasOf: spec.aliasOf } : {}),
+        },
+      },
+    })));
+    this.refreshDocumentDefinitions();
+  }
+
+  /**
+   * 设置一个文件中定义的全部环境 (例如通过 `\newenvironment` 定义的)，替换该文件此前记录的定义。
+   * @param filePath - 文件的规范化路径。
+   * @param specs - {@link NewEnvironmentSpec} 数组。
+   */
+  public setDocumentEnvironmentDefinitions(filePath: string, specs: NewEnvironmentSpec[]): void {
+    this.logger.debug(`文件 ${filePath} 中定义了 ${specs.length} 个环境:`, specs.map(spec => spec.name));
+    this.docEnvTimeline.setFileDefinitions(filePath, specs.map(spec => ({
+      name: spec.name,
+      offset: spec.definitionMacro.position?.start.offset,
+      value: {
+        info: this.environmentSpecToInfo(spec),
+        source: this.describeEnvironmentSpec(spec, filePath),
+        definitionMacro: spec.definitionMacro,
+        ...(spec.theorem ? { theorem: spec.theorem } : {}),
+        ...(spec.verbatim ? { verbatim: spec.verbatim } : {}),
+      },
+    })));
+    this.refreshDocumentDefinitions();
+  }
+
+  /**
+   * (私有) 生成文档内环境定义的信息记录。enumitem 定义的列表借用其列表类型 (例如 `itemize`) 在 CTAN 中的内容处理方式，使 `\item` 被拆分。
+   */
+  private environmentSpecToInfo(spec: NewEnvironmentSpec): Ast.EnvInfo {
+    const processContent = spec.listType ? this.ctanEnvs[spec.listType]?.processContent : undefined;
+    return { signature: spec.signature, ...(processContent ? { processContent } : {}) };
+  }
+
+  /**
+   * (私有) 根据时间线重新计算文档末尾生效的文档内定义 (用于合并、分类视图和来源记录)。
+   * `\let` 别名的目标若是文档中此前定义的宏，则复制目标在该位置的完整规范 (含定义体)，与 `\let` 的语义一致。
+   */
+  private refreshDocumentDefinitions(): void {
+    this.definedInDocMacros = {};
+    this.definedInDocMacroSpecs = {};
+    this.resolvedDocMacroSpecs.clear();
+    for (const { name, value } of this.docMacroTimeline.getEntries()) {
+      const target = value.spec.aliasOf !== undefined ? this.definedInDocMacroSpecs[value.spec.aliasOf] : undefined;
+      this.definedInDocMacroSpecs[name] = target ? { ...target, name, definition: value.spec.definition } : value.spec;
+      this.resolvedDocMacroSpecs.set(value, this.definedInDocMacroSpecs[name]);
+      this.definedInDocMacros[name] = value.info;
+    }
+    this.definedInDocEnvs = {};
+    for (const [name, value] of Object.entries(this.docEnvTimeline.getFinalState())) {
+      this.definedInDocEnvs[name] = value.info;
+    }
+  }
+
+  /**
+   * 获取文档中定义的宏的完整规范 (文档末尾生效的定义)。
+   * @returns 宏名称到 {@link NewCommandSpec} 的映射 (浅拷贝)。
+   */
+  public getDocumentMacroSpecs(): Record<string, NewCommandSpec> {
+    return { ...this.definedInDocMacroSpecs };
+  }
+
+  /**
+   * 返回一个函数，用于查询文件中某一偏移量处生效的文档内宏定义的完整规范 (用于宏展开，参见 {@link getMacroInfoRecordResolver})。
+   * @param filePath - 文件的规范化路径。
+   * @returns 以偏移量为参数的查询函数；偏移量为 `undefined` 时返回文件末尾生效的规范。
+   */
+  public getDocumentMacroSpecResolver(filePath: string): (offset: number | undefined) => Record<string, NewCommandSpec> {
+    const { boundaries, states } = this.docMacroTimeline.getFileSegments(filePath);
+    const records: Record<string, NewCommandSpec>[] = [];
+    return (offset) => {
+      const index = findSegmentIndex(boundaries, offset);
+      if (!records[index]) {
+        records[index] = {};
+        for (const [name, value] of Object.entries(states[index])) {
+          records[index][name] = this.resolvedDocMacroSpecs.get(value) ?? value.spec;
+        }
+      }
+      return records[index];
+    };
+  }
+
+  /**
+   * 返回一个函数，用于查询文件中某一偏移量处生效的宏信息记录：文档内定义取该位置之前的最后一次 (重新) 定义，
+   * 其他来源的定义与 {@link getEffectiveMacroInfoRecord} 相同。返回的函数基于调用时的定义状态。
+   * @param filePath - 文件的规范化路径。
+   * @returns 以偏移量为参数的查询函数；偏移量为 `undefined` 时返回文件末尾生效的记录。
+   */
+  public getMacroInfoRecordResolver(filePath: string): (offset: number | undefined) => Ast.MacroInfoRecord {
+    const { boundaries, states } = this.docMacroTimeline.getFileSegments(filePath);
+    const records: Ast.MacroInfoRecord[] = [];
+    return (offset) => {
+      const index = findSegmentIndex(boundaries, offset);
+      if (!records[index]) {
+        const docMacros: Ast.MacroInfoRecord = {};
+        for (const [name, value] of Object.entries(states[index])) {
+          docMacros[name] = value.info;
+        }
+        records[index] = this.mergeMacroRecords(docMacros);
+      }
+      return records[index];
+    };
+  }
+
+  /**
+   * 返回一个函数，用于查询文件中某一偏移量处生效的环境信息记录 (参见 {@link getMacroInfoRecordResolver})。
+   * @param filePath - 文件的规范化路径。
+   * @returns 以偏移量为参数的查询函数。
+   */
+  public getEnvInfoRecordResolver(filePath: string): (offset: number | undefined) => Ast.EnvInfoRecord {
+    const { boundaries, states } = this.docEnvTimeline.getFileSegments(filePath);
+    const records: Ast.EnvInfoRecord[] = [];
+    return (offset) => {
+      const index = findSegmentIndex(boundaries, offset);
+      if (!records[index]) {
+        const docEnvs: Ast.EnvInfoRecord = {};
+        for (const [name, value] of Object.entries(states[index])) {
+          docEnvs[name] = value.info;
+        }
+        records[index] = this.mergeEnvironmentRecords(docEnvs);
+      }
+      return records[index];
+    };
+  }
+
+  /**
+   * 获取文件中某一偏移量处生效的宏信息记录。
+   * @param filePath - 文件的规范化路径。
+   * @param offset - 文件中的源码偏移量。
+   * @returns 该位置生效的 {@link Ast.MacroInfoRecord}。
+   */
+  public getEffectiveMacroInfoRecordAt(filePath: string, offset: number): Ast.MacroInfoRecord {
+    return this.getMacroInfoRecordResolver(filePath)(offset);
+  }
+
+  /**
+   * 获取文件中某一偏移量处生效的环境信息记录。
+   * @param filePath - 文件的规范化路径。
+   * @param offset - 文件中的源码偏移量。
+   * @returns 该位置生效的 {@link Ast.EnvInfoRecord}。
+   */
+  public getEffectiveEnvInfoRecordAt(filePath: string, offset: number): Ast.EnvInfoRecord {
+    return this.getEnvInfoRecordResolver(filePath)(offset);
+  }
+
+  /**
+   * 返回文档中每一次宏和环境的 (重新) 定义，按文档顺序排列。
+   * @returns {@link DefinitionTimelineEntry} 数组。
+   */
+  public getDefinitionTimeline(): DefinitionTimelineEntry[] {
+    const describe = (value: { info: { signature: string }; source: DefinitionSource }) => ({
+      signature: value.info.signature ?? '',
+      line: value.source.line,
+      column: value.source.column,
+      definingCommand: value.source.definingCommand,
+    });
+    return [
+      ...toDefinitionTimelineEntries('macro', this.docMacroTimeline.getEntries(), describe),
+      ...toDefinitionTimelineEntries('environment', this.docEnvTimeline.getEntries(), describe),
+    ].sort((a, b) => compareDocumentOrderKeys(a.documentOrderKey, b.documentOrderKey));
+  }
+
+  /**
+   * 按文档顺序检查文档内的定义，报告 LaTeX 层面的定义错误 (参见 {@link DefinitionDiagnostic})：
+   * 用 `\newcommand` 等定义已存在的名称、用 `\renewcommand` 等重新定义从未定义的名称，以及同一名称在不同文件中的参数个数不一致。
+   * 其他来源 (本地宏包、默认、CTAN) 的定义视为在整个文档中存在；用户提供的定义只用于判断名称是否已定义，推断的定义不参与检查。
+   * 每条诊断同时附加到对应定义宏节点的 `definitionDiagnostics` 上 (参见 {@link DiagnosedDefinitionNode})。
+   * 应在所有文件解析完毕后调用。
+   * @returns {@link DefinitionDiagnostic} 数组 (宏的诊断在前，各自按文档顺序排列)。
+   */
+  public diagnoseDefinitions(): DefinitionDiagnostic[] {
+    const macroLayers: [DefinitionCategory, Ast.MacroInfoRecord][] = [
+      ['package-local', this.packageLocalMacros],
+      ['user-provided', this.userProvidedMacros],
+      ['default', this.defaultMacros],
+      ['ctan-package', this.ctanPackageMacros],
+    ];
+    const envLayers: [DefinitionCategory, Ast.EnvInfoRecord][] = [
+      ['package-local', this.packageLocalEnvs],
+      ['user-provided', this.userProvidedEnvs],
+      ['ctan', this.ctanEnvs],
+    ];
+    const diagnosticsByNode = new Map<Ast.Macro, DefinitionDiagnostic[]>();
+    const diagnostics = [
+      ...this.diagnoseTimeline('macro', this.docMacroTimeline.getEntries(), macroLayers, value => value.spec.definition, diagnosticsByNode),
+      ...this.diagnoseTimeline('environment', this.docEnvTimeline.getEntries(), envLayers, value => value.definitionMacro, diagnosticsByNode),
+    ];
+    for (const [node, nodeDiagnostics] of diagnosticsByNode.entries()) {
+      (node as DiagnosedDefinitionNode).definitionDiagnostics = nodeDiagnostics;
+    }
+    return diagnostics;
+  }
+
+  /**
+   * (私有) 检查一条定义时间线，参见 {@link diagnoseDefinitions}。
+   * @param kind - 定义的种类。
+   * @param entries - 按文档顺序排列的定义。
+   * @param staticLayers - 在整个文档中存在的其他来源的定义，按优先级排列。
+   * @param getNode - 取出定义宏节点的函数。
+   * @param diagnosticsByNode - 收集每个定义宏节点的诊断。
+   */
+  private diagnoseTimeline<T extends { info: { signature?: string }; source: DefinitionSource }>(
+    kind: DefinitionDiagnostic['kind'],
+    entries: TimelineEntry<T>[],
+    staticLayers: [DefinitionCategory, Record<string, { signature?: string }>][],
+    getNode: (value: T) => Ast.Macro,
+    diagnosticsByNode: Map<Ast.Macro, DefinitionDiagnostic[]>
+  ): DefinitionDiagnostic[] {
+    const label = (name: string) => (kind === 'macro' ? `宏 \\${name}` : `环境 ${name}`);
+    const where = (source: DefinitionSource) => `${source.file}${source.line !== undefined ? `:${source.line}` : ''}`;
+    const diagnostics: DefinitionDiagnostic[] = [];
+    const earlier: Record<string, TimelineEntry<T>[]> = {};
+    for (const entry of entries) {
+      const { name, value } = entry;
+      const command = value.source.definingCommand ?? '';
+      const signature = value.info.signature ?? '';
+      const previousEntries = earlier[name] || [];
+      const previousEntry = previousEntries[previousEntries.length - 1];
+      const staticLayer = staticLayers.find(([, record]) => record[name]);
+      const report = (code: DefinitionDiagnostic['code'], message: string, previous?: DefinitionDiagnostic['previous']) => {
+        const diagnostic: DefinitionDiagnostic = {
+          code,
+          kind,
+          name,
+          message,
+          file: entry.filePath,
+          ...(value.source.line !== undefined ? { line: value.source.line, column: value.source.column } : {}),
+          definingCommand: command,
+          signature,
+          ...(previous ? { previous } : {}),
+        };
+        this.logger.warn(`${where(value.source)}: ${message}`);
+        diagnostics.push(diagnostic);
+        const node = getNode(value);
+        diagnosticsByNode.set(node, [...(diagnosticsByNode.get(node) || []), diagnostic]);
+      };
+      const describeEntry = (previous: TimelineEntry<T>): DefinitionDiagnostic['previous'] => ({
+        category: 'defined-in-document',
+        signature: previous.value.info.signature ?? '',
+        file: previous.filePath,
+        ...(previous.value.source.line !== undefined ? { line: previous.value.source.line, column: previous.value.source.column } : {}),
+        definingCommand: previous.value.source.definingCommand,
+      });
+
+      if (NEW_DEFINERS.has(command)) {
+        if (previousEntry) {
+          report('already-defined', `\\${command} 定义的${label(name)} 已在 ${where(previousEntry.value.source)} 定义过`, describeEntry(previousEntry));
+        } else if (staticLayer && staticLayer[0] !== 'user-provided' && !(staticLayer[0] === 'ctan' && THEOREM_DEFINERS.has(command))) {
+          // CTAN 中的 theorem、lemma 等只是为方便预置的签名，并非宏包真正定义的环境
+          report('already-defined', `\\${command} 定义的${label(name)} 已由 ${staticLayer[0]} 定义提供`, {
+            category: staticLayer[0],
+            signature: staticLayer[1][name].signature ?? '',
+          });
+        }
+      } else if (RENEW_DEFINERS.has(command) && !previousEntry && !staticLayer) {
+        report('undefined-redefinition', `\\${command} 重新定义的${label(name)} 此前从未定义`);
+      }
+
+      const arity = parseXparseArgSpec(signature).length;
+      const conflicting = previousEntries.find(previous =>
+        previous.filePath !== entry.filePath && parseXparseArgSpec(previous.value.info.signature ?? '').length !== arity
+      );
+      if (conflicting) {
+        const conflictingArity = parseXparseArgSpec(conflicting.value.info.signature ?? '').length;
+        report('arity-conflict', `${label(name)} 在此定义为 ${arity} 个参数，但在 ${where(conflicting.value.source)} 定义为 ${conflictingArity} 个参数`, describeEntry(conflicting));
+      }
+      earlier[name] = [...previousEntries, entry];
+    }
+    return diagnostics;
+  }
+
+  /**
+   * 记录本地宏包中宏定义的来源 (文件、位置、定义命令和源码)。同名宏以最后一个定义为准。
+   * @param specs - 按文档顺序排列的 {@link NewCommandSpec} 数组。
+   * @param filePath - 定义所在文件的规范化路径。
+   */
+  public recordPackageLocalMacroSources(specs: NewCommandSpec[], filePath: string): void {
+    for (const spec of specs) {
+      this.packageLocalMacroSources[spec.name] = {
+        ...this.describeDefinitionNode(spec.definition, filePath),
+        source: spec.source ?? printRaw(spec.definition),
+        ...(spec.aliasOf !== undefined ? { aliasOf: spec.aliasOf } : {}),
+      };
+    }
+  }
+
+  /**
+   * 记录本地宏包中环境定义的来源 (文件、位置、定义命令、源码和宏包来源)。同名环境以最后一个定义为准。
+   * @param specs - {@link NewEnvironmentSpec} 数组。
+   * @param filePath - 定义所在文件的规范化路径。
+   */
+  public recordPackageLocalEnvironmentSources(specs: NewEnvironmentSpec[], filePath: string): void {
+    for (const spec of specs) {
+      this.packageLocalEnvSources[spec.name] = this.describeEnvironmentSpec(spec, filePath);
+      if (spec.theorem) {
+        this.packageLocalTheorems[spec.name] = spec.theorem;
+      } else {
+        delete this.packageLocalTheorems[spec.name];
+      }
+      if (spec.verbatim) {
+        this.packageLocalVerbatimEnvs[spec.name] = spec.verbatim;
+      } else {
+        delete this.packageLocalVerbatimEnvs[spec.name];
+      }
+    }
+  }
+
+  /**
+   * (私有) 根据定义宏节点生成来源信息中的文件、位置和定义命令部分。
+   */
+  private describeDefinitionNode(node: Ast.Macro, filePath: string): DefinitionSource {
+    const start = node.position?.start;
+    return {
+      file: filePath,
+      ...(start ? { line: start.line, column: start.column } : {}),
+      definingCommand: node.content,
+    };
+  }
+
+  /**
+   * (私有) 生成环境定义的来源信息。
+   */
+  private describeEnvironmentSpec(spec: NewEnvironmentSpec, filePath: string): DefinitionSource {
+    return {
+      ...this.describeDefinitionNode(spec.definitionMacro, filePath),
+      definingCommand: spec.definingCommand,
+      source: printRaw(spec.definitionMacro),
+      ...(spec.packageSource !== undefined ? { packageSource: spec.packageSource } : {}),
+    };
+  }
+
+  /**
+   * 添加项目目录中本地 `.sty`/`.cls` 文件定义的宏。
+   * @param packageMacros - 一个包含本地宏包中定义的宏的 {@link Ast.MacroInfoRecord} 对象。
+   */
+  public addPackageLocalMacros(packageMacros: Ast.MacroInfoRecord): void {
+    this.logger.debug(`添加 ${Object.keys(packageMacros).length} 个本地宏包定义的宏。键:`, Object.keys(packageMacros));
+    Object.assign(this.packageLocalMacros, packageMacros);
+  }
+
+  /**
+   * 添加项目目录中本地 `.sty`/`.cls` 文件定义的环境。
+   * @param packageEnvs - 一个包含本地宏包中定义的环境的 {@link Ast.EnvInfoRecord} 对象。
+   */
+  public addPackageLocalEnvironments(packageEnvs: Ast.EnvInfoRecord): void {
+    this.logger.debug(`添加 ${Object.keys(packageEnvs).length} 个本地宏包定义的环境。键:`, Object.keys(packageEnvs));
+    Object.assign(this.packageLocalEnvs, packageEnvs);
+  }
+
+  /**
+   * 登记文档使用的宏包/文档类，并加载 CTAN 中这些宏包的宏签名 (例如 `\usepackage{cleveref}` 使 `\cref` 可用)。
+   * 自定义定义文件中标记为属于这些宏包的用户定义同时生效。
+   * 未启用默认宏 (`loadDefaultMacros` 为 `false`) 时不加载 CTAN 签名。
+   * @param packageNames - 宏包或文档类名称列表。
+   */
+  public addUsedPackages(packageNames: string[]): void {
+    for (const packageName of packageNames) {
+      if (this.usedPackages.includes(packageName)) {
+        continue;
+      }
+      this.usedPackages.push(packageName);
+      Object.assign(this.userProvidedMacros, this.packageTaggedUserMacros[packageName]);
+      Object.assign(this.userProvidedEnvs, this.packageTaggedUserEnvs[packageName]);
+      if (!this.config.loadDefaultMacros) {
+        continue;
+      }
+      const count = this.addCtanPackageMacros(packageName);
+      if (count > 0) {
+        this.logger.debug(`从 CTAN 加载了宏包 '${packageName}' 的 ${count} 个宏。`);
+      }
+    }
+  }
+
+  /**
+   * 获取文档使用的宏包/文档类名称 (按首次出现顺序)。
+   * @returns 名称数组的副本。
+   */
+  public getUsedPackages(): string[] {
+    return [...this.usedPackages];
+  }
+
+  /**
+   * 添加在文档中识别出的文件包含包装命令 (例如 `\newcommand{\chapterfile}[1]{\input{chapters/#1}}`)。
+   * @param includeCommands - 命令名称到其包含命令配置的映射。
+   */
+  public addDocumentIncludeCommands(includeCommands: Record<string, IncludeCommandConfig>): void {
+    const names = Object.keys(includeCommands);
+    if (names.length > 0) {
+      this.logger.debug(`添加 ${names.length} 个文档内定义的文件包含命令:`, names);
+    }
+    Object.assign(this.definedInDocIncludeCommands, includeCommands);
+  }
+
+  /**
+   * 获取除内置命令外所有生效的文件包含命令。用户配置的命令优先于文档中识别出的同名包装命令。
+   * @returns 命令名称到其包含命令配置的映射。
+   */
+  public getIncludeCommands(): Record<string, IncludeCommandConfig> {
+    return { ...this.definedInDocIncludeCommands, ...this.userIncludeCommands };
+  }
+
+  /**
+   * 设置一个文件中未定义宏的调用，替换该文件此前记录的调用，并根据所有文件中的调用重新推断这些宏的签名
+   * (参见 {@link inferSignatureFromCalls})。已被任何方式明确定义的宏不会被推断。
+   * @param filePath - 文件的规范化路径。
+   * @param calls - 宏名称到其调用的映射。
+   */
+  public setInferredMacroCalls(filePath: string, calls: Record<string, MacroCall[]>): void {
+    this.inferredMacroCalls.set(filePath, calls);
+    const previousCount = Object.keys(this.inferredUsedMacros).length;
+    const { record, signatures } = this.inferFromCalls(this.inferredMacroCalls, macroName => this.isExplicitlyDefinedMacro(macroName));
+    this.inferredUsedMacros = record;
+    this.inferredMacroSignatures = signatures;
+    const count = Object.keys(this.inferredUsedMacros).length;
+    if (count !== previousCount) {
+        this.logger.debug(`推断出的宏数量: ${previousCount} -> ${count}。`);
+    }
+  }
+
+  /**
+   * 设置一个文件中未定义环境的使用 (`\begin{env}` 之后的 `[...]`/`{...}` 组)，替换该文件此前记录的使用，
+   * 并根据所有文件中的使用重新推断这些环境的签名。已被任何方式明确定义的环境不会被推断。
+   * @param filePath - 文件的规范化路径。
+   * @param calls - 环境名称到其使用的映射。
+   */
+  public setInferredEnvironmentCalls(filePath: string, calls: Record<string, MacroCall[]>): void {
+    this.inferredEnvCalls.set(filePath, calls);
+    const previousCount = Object.keys(this.inferredUsedEnvs).length;
+    const { record, signatures } = this.inferFromCalls(this.inferredEnvCalls, envName => this.isExplicitlyDefinedEnvironment(envName));
+    this.inferredUsedEnvs = record;
+    this.inferredEnvSignatures = signatures;
+    const count = Object.keys(this.inferredUsedEnvs).length;
+    if (count !== previousCount) {
+        this.logger.debug(`推断出的环境数量: ${previousCount} -> ${count}。`);
+    }
+  }
+
+  /**
+   * (私有) 按文档顺序汇总所有文件中的调用，推断未明确定义的名称的签名。
+   * @param callsByFile - 文件路径到该文件中的调用的映射。
+   * @param isExplicitlyDefined - 判断名称是否已被明确定义的函数。
+   * @returns 推断出的信息记录及其推断依据。
+   */
+  private inferFromCalls(
+    callsByFile: Map<string, Record<string, MacroCall[]>>,
+    isExplicitlyDefined: (name: string) => boolean
+  ): { record: Record<string, { signature: string }>; signatures: Record<string, InferredMacroSignature> } {
+    const callsByName: Record<string, MacroCall[]> = {};
+    const filesInDocumentOrder = [...callsByFile.keys()]
+      .sort((a, b) => compareDocumentOrderKeys(this.getFileOrderKey(a), this.getFileOrderKey(b)));
+    for (const file of filesInDocumentOrder) {
+      for (const [name, calls] of Object.entries(callsByFile.get(file)!)) {
+        (callsByName[name] = callsByName[name] || []).push(...calls);
+      }
+    }
+    const record: Record<string, { signature: string }> = {};
+    const signatures: Record<string, InferredMacroSignature> = {};
+    for (const [name, calls] of Object.entries(callsByName)) {
+      if (isExplicitlyDefined(name)) {
+        continue;
+      }
+      signatures[name] = inferSignatureFromCalls(name, calls);
+      record[name] = { signature: signatures[name].signature };
+    }
+    return { record, signatures };
+  }
+
   /**
-   * 添加从文档内容中提取的宏 (例如通过 `\newcommand` 定义的)。
-   * @param docMacros - 一个包含在文档中定义的宏的 {@link Ast.MacroInfoRecord} 对象。
+   * 返回每个推断出的宏的推断依据 (调用形式的直方图、置信度和不一致的调用)。
+   * @returns 宏名称到 {@link InferredMacroSignature} 的映射。
    */
-  public addDocumentDefinedMacros(docMacros: Ast.MacroInfoRecord): void {
-    this.logger.debug(`添加 ${Object.keys(docMacros).length} 个文档内定义的宏。键:`, Object.keys(docMacros));
-    // 文档内定义的宏具有较高优先级，因此会覆盖同名的用户提供或默认宏。
-    Object.assign(this.definedInDocMacros, docMacros);
+  public getInferredMacroSignatures(): Record<string, InferredMacroSignature> {
+    const signatures: Record<string, InferredMacroSignature> = {};
+    for (const macroName of Object.keys(this.inferredUsedMacros)) {
+      signatures[macroName] = this.inferredMacroSignatures[macroName];
+    }
+    return signatures;
   }
 
   /**
-   * 添加从文档内容中提取的环境 (例如通过 `\newenvironment` 定义的)。
-   * @param docEnvs - 一个包含在文档中定义的环境的 {@link Ast.EnvInfoRecord} 对象。
+   * 返回文档和本地宏包中定义的定理类环境的编号方式和样式。文档内定义取文档末尾生效的定义，并覆盖本地宏包中的同名定义。
+   * @returns 环境名称到 {@link TheoremSpec} 的映射。
    */
-  public addDocumentDefinedEnvironments(docEnvs: Ast.EnvInfoRecord): void {
-    this.logger.debug(`添加 ${Object.keys(docEnvs).length} 个文档内定义的环境。键:`, Object.keys(docEnvs));
-    Object.assign(this.definedInDocEnvs, docEnvs);
+  public getTheoremEnvironments(): Record<string, TheoremSpec> {
+    const theorems: Record<string, TheoremSpec> = { ...this.packageLocalTheorems };
+    for (const [envName, value] of Object.entries(this.docEnvTimeline.getFinalState())) {
+      if (value.theorem) {
+        theorems[envName] = value.theorem;
+      } else {
+        delete theorems[envName];
+      }
+    }
+    return theorems;
   }
 
   /**
-   * 添加通过用法推断出签名的宏。
-   * 这些宏具有最低优先级，仅当它们未在其他地方被定义时才会被添加。
-   * @param inferredMacros - 一个包含带有推断签名的宏的 {@link Ast.MacroInfoRecord} 对象。
+   * 返回已知的逐字环境 (内置的除外)：宏包预先定义的 (`Verbatim`、`tcblisting` 等)、本地宏包和文档中
+   * 由 `\lstnewenvironment`、`\newminted`、`\DefineVerbatimEnvironment` 等定义的。文档内定义取文档末尾生效的定义。
+   * @returns 环境名称到 {@link VerbatimEnvironmentInfo} 的映射。
    */
-  public addInferredUsedMacros(inferredMacros: Ast.MacroInfoRecord): void {
+  public getVerbatimEnvironments(): Record<string, VerbatimEnvironmentInfo> {
+    const environments: Record<string, VerbatimEnvironmentInfo> = { ...PACKAGE_VERBATIM_ENVIRONMENTS, ...this.packageLocalVerbatimEnvs };
+    for (const [envName, value] of Object.entries(this.docEnvTimeline.getFinalState())) {
+      if (value.verbatim) {
+        environments[envName] = value.verbatim;
+      } else {
+        delete environments[envName];
+      }
+    }
+    return environments;
+  }
+
+  /**
+   * 返回每个推断出的环境的推断依据。
+   * @returns 环境名称到 {@link InferredMacroSignature} 的映射。
+   */
+  public getInferredEnvironmentSignatures(): Record<string, InferredMacroSignature> {
+    const signatures: Record<string, InferredMacroSignature> = {};
+    for (const envName of Object.keys(this.inferredUsedEnvs)) {
+      signatures[envName] = this.inferredEnvSignatures[envName];
+    }
+    return signatures;
+  }
+
+  /**
+   * 获取被明确定义 (而非推断) 的宏名称，即推断时视为已知的宏。
+   * @returns 宏名称的集合。
+   */
+  public getDefinedMacroNames(): Set<string> {
+    return new Set(Object.keys(this.mergeMacroRecords()).filter(macroName => this.isExplicitlyDefinedMacro(macroName)));
+  }
+
+  /**
+   * (私有) 判断宏是否被推断以外的任何方式定义。
+   */
+  private isExplicitlyDefinedMacro(macroName: string): boolean {
+    return !!(
+      this.defaultMacros[macroName] ||
+      this.ctanPackageMacros[macroName] ||
+      this.userProvidedMacros[macroName] ||
+      this.packageLocalMacros[macroName] ||
+      this.definedInDocMacros[macroName]
+    );
+  }
+
+  /**
+   * 获取被明确定义 (而非推断) 的环境名称，即推断时视为已知的环境。
+   * @returns 环境名称的集合。
+   */
+  public getDefinedEnvironmentNames(): Set<string> {
+    return new Set(Object.keys(this.mergeEnvironmentRecords()).filter(envName => this.isExplicitlyDefinedEnvironment(envName)));
+  }
+
+  /**
+   * (私有) 判断环境是否被推断以外的任何方式定义。
+   */
+  private isExplicitlyDefinedEnvironment(envName: string): boolean {
+    return !!(
+      this.ctanEnvs[envName] ||
+      this.userProvidedEnvs[envName] ||
+      this.packageLocalEnvs[envName] ||
+      this.definedInDocEnvs[envName]
+    );
+  }
+
+  /**
+   * 移除那些已被更高优先级来源定义的推断宏和环境。
+   * 在不动点重处理中，一个宏可能在其定义所在的文件被解析之前就已被推断；
+   * 定义生效后，这些推断记录不再影响最终结果，只会误导分类视图。
+   * @returns 被移除的推断宏和环境的数量。
+   */
+  public pruneShadowedInferredMacros(): number {
     let count = 0;
-    for (const [macroName, macroInfo] of Object.entries(inferredMacros)) {
-      if (
-        !this.defaultMacros[macroName] &&
-        !this.userProvidedMacros[macroName] &&
-        !this.definedInDocMacros[macroName] &&
-        !this.inferredUsedMacros[macroName] // 同时检查是否已被推断，以避免重复记录日志
-      ) {
-        this.inferredUsedMacros[macroName] = macroInfo;
+    for (const macroName of Object.keys(this.inferredUsedMacros)) {
+      if (this.isExplicitlyDefinedMacro(macroName)) {
+        delete this.inferredUsedMacros[macroName];
+        count++;
+      }
+    }
+    for (const envName of Object.keys(this.inferredUsedEnvs)) {
+      if (this.isExplicitlyDefinedEnvironment(envName)) {
+        delete this.inferredUsedEnvs[envName];
         count++;
       }
     }
     if (count > 0) {
-        this.logger.debug(`新增了 ${count} 个推断出的宏。`);
+      this.logger.debug(`移除了 ${count} 个已被明确定义覆盖的推断宏和环境。`);
     }
+    return count;
+  }
+
+  /**
+   * 计算当前定义状态的指纹。
+   * 指纹只由最终生效的宏/环境名称及其签名、文档内定义的时间线 (以及文件包含命令) 构成，用于判断某个文件解析时所见的定义状态
+   * 是否与当前状态一致 (参见 `ProjectProcessor` 的不动点重处理)。
+   * @returns 表示当前定义状态的字符串。
+   */
+  public getDefinitionStateFingerprint(): string {
+    const macros = this.mergeMacroRecords();
+    const envs = this.mergeEnvironmentRecords();
+    const macroPart = Object.keys(macros).sort().map(name => `${name}:${macros[name].signature ?? ''}`);
+    const envPart = Object.keys(envs).sort().map(name => `${name}:${envs[name].signature ?? ''}`);
+    const includeCommands = this.getIncludeCommands();
+    const includePart = Object.keys(includeCommands).sort().map(name => `${name}:${JSON.stringify(includeCommands[name])}`);
+    // 文档内定义只在其后生效，因此定义的位置变化也会改变某些文件所见的定义
+    const timelinePart = this.getDefinitionTimeline().map(entry => `${entry.name}@${entry.documentOrderKey.join('.')}:${entry.signature}`);
+    return JSON.stringify([macroPart, envPart, includePart, timelinePart]);
   }
 
   /**
@@ -215,6 +1003,81 @@ export class DefinitionHandler {
     return this.mergeEnvironmentRecords();
   }
 
+  /**
+   * (私有) 返回宏在优先级合并中胜出的类别。
+   * @returns 类别；宏未定义时返回 `null`。
+   */
+  private resolveMacroCategory(macroName: string): DefinitionCategory | null {
+    const layers: [DefinitionCategory, Ast.MacroInfoRecord][] = [
+      ['defined-in-document', this.definedInDocMacros],
+      ['package-local', this.packageLocalMacros],
+      ['user-provided', this.userProvidedMacros],
+      ['default', this.defaultMacros],
+      ['ctan-package', this.ctanPackageMacros],
+      ['inferred', this.inferredUsedMacros],
+    ];
+    return layers.find(([, record]) => record[macroName])?.[0] ?? null;
+  }
+
+  /**
+   * (私有) 返回环境在优先级合并中胜出的类别。
+   * @returns 类别；环境未定义时返回 `null`。
+   */
+  private resolveEnvironmentCategory(envName: string): DefinitionCategory | null {
+    const layers: [DefinitionCategory, Ast.EnvInfoRecord][] = [
+      ['defined-in-document', this.definedInDocEnvs],
+      ['package-local', this.packageLocalEnvs],
+      ['user-provided', this.userProvidedEnvs],
+      ['ctan', this.ctanEnvs],
+      ['inferred', this.inferredUsedEnvs],
+    ];
+    return layers.find(([, record]) => record[envName])?.[0] ?? null;
+  }
+
+  /**
+   * 返回每个最终生效的宏和环境的来源记录：在优先级合并中胜出的类别，
+   * 以及 (对文档内和本地宏包中的定义) 定义所在的文件、位置、定义命令和源码。
+   * @returns 宏和环境名称到 {@link DefinitionProvenance} 的映射。
+   */
+  public getDefinitionProvenance(): {
+    macros: Record<string, DefinitionProvenance>;
+    environments: Record<string, DefinitionProvenance>;
+  } {
+    const docMacroSources = this.docMacroTimeline.getFinalState();
+    const docEnvSources = this.docEnvTimeline.getFinalState();
+    const macros: Record<string, DefinitionProvenance> = {};
+    for (const [macroName, macroInfo] of Object.entries(this.mergeMacroRecords())) {
+      const category = this.resolveMacroCategory(macroName)!;
+      const sourced = category === 'defined-in-document' ? docMacroSources[macroName]?.source
+        : category === 'package-local' ? this.packageLocalMacroSources[macroName] : undefined;
+      const packageSource = category === 'ctan-package' ? this.ctanPackageMacroOrigins[macroName]
+        : category === 'user-provided' ? this.config.customMacroPackages?.[macroName] : undefined;
+      macros[macroName] = {
+        name: macroName,
+        category,
+        signature: macroInfo.signature ?? '',
+        ...sourced,
+        ...(packageSource !== undefined ? { packageSource } : {}),
+      };
+    }
+    const environments: Record<string, DefinitionProvenance> = {};
+    for (const [envName, envInfo] of Object.entries(this.mergeEnvironmentRecords())) {
+      const category = this.resolveEnvironmentCategory(envName)!;
+      const sourced = category === 'defined-in-document' ? docEnvSources[envName]?.source
+        : category === 'package-local' ? this.packageLocalEnvSources[envName] : undefined;
+      const packageSource = category === 'ctan' ? this.ctanEnvOrigins[envName]
+        : category === 'user-provided' ? this.config.customEnvironmentPackages?.[envName] : undefined;
+      environments[envName] = {
+        name: envName,
+        category,
+        signature: envInfo.signature ?? '',
+        ...sourced,
+        ...(packageSource !== undefined ? { packageSource } : {}),
+      };
+    }
+    return { macros, environments };
+  }
+
   /**
    * 返回所有宏和环境定义的分类视图。
    * 此方法主要用于在最终的 {@link ProjectAST} 元数据中提供详细信息。
@@ -222,12 +1085,16 @@ export class DefinitionHandler {
    */
   public getAllDefinitionsCategorized(): {
     defaultAndUserMacros: Ast.MacroInfoRecord;       // 默认宏和用户通过配置提供的宏的合并
+    ctanPackageMacros: Ast.MacroInfoRecord;          // 来自 CTAN 的、文档所用宏包的宏
     definedInDocumentMacros: Ast.MacroInfoRecord;    // 文档中定义的宏
+    packageLocalMacros: Ast.MacroInfoRecord;         // 本地 .sty/.cls 文件定义的宏
     inferredUsedMacros: Ast.MacroInfoRecord;         // 从用法中推断的宏
     finalEffectiveMacros: Ast.MacroInfoRecord;       // 所有宏合并后的最终生效列表
     ctanEnvironments: Ast.EnvInfoRecord;             // CTAN 标准环境
     userProvidedEnvironments: Ast.EnvInfoRecord;     // 用户通过配置提供的环境
     definedInDocumentEnvironments: Ast.EnvInfoRecord; // 文档中定义的环境
+    packageLocalEnvironments: Ast.EnvInfoRecord;      // 本地 .sty/.cls 文件定义的环境
+    inferredUsedEnvironments: Ast.EnvInfoRecord;      // 从用法中推断的环境
     finalEffectiveEnvironments: Ast.EnvInfoRecord;    // 所有环境合并后的最终生效列表
   } {
     const finalEffectiveMacros = this.getEffectiveMacroInfoRecord();
@@ -235,12 +1102,16 @@ export class DefinitionHandler {
     return {
       // 返回副本以防止外部修改
       defaultAndUserMacros: { ...this.defaultMacros, ...this.userProvidedMacros }, 
+      ctanPackageMacros: { ...this.ctanPackageMacros },
       definedInDocumentMacros: { ...this.definedInDocMacros },
+      packageLocalMacros: { ...this.packageLocalMacros },
       inferredUsedMacros: { ...this.inferredUsedMacros },
       finalEffectiveMacros: { ...finalEffectiveMacros }, 
       ctanEnvironments: { ...this.ctanEnvs },
       userProvidedEnvironments: { ...this.userProvidedEnvs },
       definedInDocumentEnvironments: { ...this.definedInDocEnvs },
+      packageLocalEnvironments: { ...this.packageLocalEnvs },
+      inferredUsedEnvironments: { ...this.inferredUsedEnvs },
       finalEffectiveEnvironments: { ...finalEffectiveEnvs }, 
     };
   }
@@ -0,0 +1,249 @@
+/**
+ * 定义时间线模块。
+ *
+ * LaTeX 的定义按文档顺序生效：第 2 章中的 `\renewcommand` 只影响其后的内容，第 1 章仍然使用原来的定义。
+ * 此模块按文档顺序记录文档中的每一次 (重新) 定义，并回答"在文件 X 的偏移量 N 处哪些定义生效"。
+ *
+ * 文档中的位置用"文档顺序键"表示：根文件中的位置为 `[offset]`，在根文件偏移量 100 处被 `\input` 的文件中的位置为
+ * `[100, offset]`，依此类推。键按字典序比较，前缀在前 (包含命令本身位于被包含文件的内容之前)。
+ */
+
+import type { Ast, ProjectAST, IncludeTreeNode, DefinitionTimelineEntry } from '../types/index';
+
+/** 文档顺序键，参见模块说明 */
+export type DocumentOrderKey = number[];
+
+/**
+ * 时间线中的一次定义。
+ */
+export interface TimelineEntry<T> {
+    /** 宏或环境的名称 */
+    name: string;
+    /** 定义所在文件 */
+    filePath: string;
+    /** 定义在文件中的偏移量 */
+    offset: number;
+    /** 定义的文档顺序键 */
+    key: DocumentOrderKey;
+    /** 定义的内容 */
+    value: T;
+}
+
+/**
+ * 按字典序比较两个文档顺序键，前缀在前。
+ * @returns 负数表示 `a` 在 `b` 之前，0 表示相同，正数表示 `a` 在 `b` 之后。
+ */
+export function compareDocumentOrderKeys(a: DocumentOrderKey, b: DocumentOrderKey): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return a.length - b.length;
+}
+
+/**
+ * 判断 `prefix` 是否为 `key` 的前缀 (即 `key` 位于 `prefix` 对应的文件或其包含的文件中)。
+ */
+function isKeyPrefix(prefix: DocumentOrderKey, key: DocumentOrderKey): boolean {
+    return prefix.length <= key.length && prefix.every((part, index) => key[index] === part);
+}
+
+export class DefinitionTimeline<T> {
+    private fileOrderKeyProvider: (filePath: string) => DocumentOrderKey;
+    private fileEntries: Map<string, TimelineEntry<T>[]>; // 映射：文件路径 -> 该文件中的定义 (按偏移量排列)
+
+    /**
+     * 创建一个新的 `DefinitionTimeline` 实例。
+     * @param fileOrderKeyProvider - 返回文件的文档顺序键的函数 (根文件为 `[]`)。
+     */
+    constructor(fileOrderKeyProvider: (filePath: string) => DocumentOrderKey) {
+        this.fileOrderKeyProvider = fileOrderKeyProvider;
+        this.fileEntries = new Map<string, TimelineEntry<T>[]>();
+    }
+
+    /**
+     * 设置一个文件中的全部定义，替换该文件此前记录的定义 (重新解析文件时使用)。
+     * @param filePath - 文件路径。
+     * @param definitions - 文件中的定义；`offset` 缺失时视为位于文件开头。
+     */
+    public setFileDefinitions(filePath: string, definitions: { name: string; offset?: number; value: T }[]): void {
+        const fileKey = this.fileOrderKeyProvider(filePath);
+        const entries = definitions.map(definition => {
+            const offset = definition.offset ?? 0;
+            return { name: definition.name, filePath, offset, key: [...fileKey, offset], value: definition.value };
+        });
+        this.fileEntries.set(filePath, entries.sort((a, b) => a.offset - b.offset));
+    }
+
+    /**
+     * 返回所有定义，按文档顺序排列。文档顺序键在调用时根据当前的文件顺序键计算。
+     * @returns {@link TimelineEntry} 数组。
+     */
+    public getEntries(): TimelineEntry<T>[] {
+        const entries: TimelineEntry<T>[] = [];
+        for (const [filePath, fileEntries] of this.fileEntries.entries()) {
+            const fileKey = this.fileOrderKeyProvider(filePath);
+            entries.push(...fileEntries.map(entry => ({ ...entry, key: [...fileKey, entry.offset] })));
+        }
+        return entries.sort((a, b) => compareDocumentOrderKeys(a.key, b.key));
+    }
+
+    /**
+     * 返回文档末尾生效的定义 (每个名称在文档顺序中的最后一次定义)。
+     * @returns 名称到定义内容的映射。
+     */
+    public getFinalState(): Record<string, T> {
+        const state: Record<string, T> = {};
+        for (const entry of this.getEntries()) {
+            state[entry.name] = entry.value;
+        }
+        return state;
+    }
+
+    /**
+     * 将一个文件划分为定义状态不变的若干段，供逐位置查询使用。
+     * 文件中的定义在其偏移量处生效；文件包含的其他文件中的定义在对应包含命令的偏移量处生效。
+     * @param filePath - 文件路径。
+     * @returns `boundaries` 为升序的分段偏移量；`states[i]` 为前 `i` 个分段点之后生效的定义 (`states.length === boundaries.length + 1`)。
+     */
+    public getFileSegments(filePath: string): { boundaries: number[]; states: Record<string, T>[] } {
+        const fileKey = this.fileOrderKeyProvider(filePath);
+        const initialState: Record<string, T> = {};
+        const changes: { boundary: number; entry: TimelineEntry<T> }[] = [];
+        for (const entry of this.getEntries()) {
+            if (isKeyPrefix(fileKey, entry.key)) {
+                changes.push({ boundary: entry.key[fileKey.length], entry });
+            } else if (compareDocumentOrderKeys(entry.key, fileKey) < 0) {
+                initialState[entry.name] = entry.value;
+            }
+        }
+        const boundaries: number[] = [];
+        const states: Record<string, T>[] = [initialState];
+        for (const { boundary, entry } of changes) {
+            if (boundaries[boundaries.length - 1] !== boundary) {
+                boundaries.push(boundary);
+                states.push({ ...states[states.length - 1] });
+            }
+            states[states.length - 1][entry.name] = entry.value;
+        }
+        return { boundaries, states };
+    }
+}
+
+/**
+ * 返回文件分段中给定偏移量所在段的下标 (偏移量处的分段点已生效)。没有偏移量时返回最后一段。
+ * @param boundaries - {@link DefinitionTimeline.getFileSegments} 返回的分段偏移量。
+ * @param offset - 源码偏移量。
+ */
+export function findSegmentIndex(boundaries: number[], offset: number | undefined): number {
+    if (offset === undefined) {
+        return boundaries.length;
+    }
+    let low = 0;
+    let high = boundaries.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (boundaries[mid] <= offset) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
+
+/**
+ * 根据文件包含树计算每个文件的文档顺序键：根文件为 `[]`，被包含的文件为父文件的键加上包含命令的偏移量。
+ * 重复包含和缺失的文件被忽略，与 `ProjectProcessor` 的解析顺序一致。
+ * @param includeTree - 文件包含树。
+ * @returns 文件路径到文档顺序键的映射。
+ */
+export function computeFileOrderKeys(includeTree: IncludeTreeNode): Map<string, DocumentOrderKey> {
+    const keys = new Map<string, DocumentOrderKey>([[includeTree.filePath, []]]);
+    const walk = (node: IncludeTreeNode, key: DocumentOrderKey): void => {
+        for (const child of node.children) {
+            if (child.alreadyParsed || child.missing || keys.has(child.filePath)) {
+                continue;
+            }
+            const childKey = [...key, child.position?.start.offset ?? Number.MAX_SAFE_INTEGER];
+            keys.set(child.filePath, childKey);
+            walk(child, childKey);
+        }
+    };
+    walk(includeTree, []);
+    return keys;
+}
+
+/**
+ * 查询项目中某一位置生效的宏和环境定义：文档内定义取该位置之前的最后一次 (重新) 定义，
+ * 其他来源 (本地宏包、用户提供、默认、CTAN、推断) 的定义在整个文档中生效。
+ * @param projectAst - {@link ProjectAST}，需要包含 `includeTree`、`definitionTimeline` 和分类的定义信息。
+ * @param filePath - 文件的规范化路径。
+ * @param offset - 文件中的源码偏移量。
+ * @returns 该位置生效的宏和环境信息记录。
+ */
+export function getDefinitionsInEffectAt(
+    projectAst: ProjectAST,
+    filePath: string,
+    offset: number
+): { macros: Ast.MacroInfoRecord; environments: Ast.EnvInfoRecord } {
+    const detailedMacros = projectAst._detailedMacros;
+    const detailedEnvs = projectAst._detailedEnvironments;
+    const macros: Ast.MacroInfoRecord = {
+        ...detailedMacros?.inferredUsed,
+        ...detailedMacros?.ctanPackages,
+        ...detailedMacros?.defaultAndUser,
+        ...detailedMacros?.packageLocal,
+    };
+    const environments: Ast.EnvInfoRecord = {
+        ...detailedEnvs?.inferredUsedEnvironments,
+        ...detailedEnvs?.ctanEnvironments,
+        ...detailedEnvs?.userProvidedEnvironments,
+        ...detailedEnvs?.packageLocalEnvironments,
+    };
+    const fileKeys = projectAst.includeTree ? computeFileOrderKeys(projectAst.includeTree) : new Map<string, DocumentOrderKey>();
+    const point = [...(fileKeys.get(filePath) ?? []), offset];
+    for (const entry of projectAst.definitionTimeline || []) {
+        if (compareDocumentOrderKeys(entry.documentOrderKey, point) > 0) {
+            break;
+        }
+        if (entry.kind === 'macro') {
+            macros[entry.name] = { signature: entry.signature };
+        } else {
+            environments[entry.name] = { signature: entry.signature };
+        }
+    }
+    return { macros, environments };
+}
+
+/**
+ * 将时间线中的定义转换为 {@link DefinitionTimelineEntry}，并标记重新定义。
+ * @param kind - 定义的种类。
+ * @param entries - 按文档顺序排列的定义。
+ * @param describe - 从定义内容中取出签名、行列号和定义命令的函数。
+ */
+export function toDefinitionTimelineEntries<T>(
+    kind: DefinitionTimelineEntry['kind'],
+    entries: TimelineEntry<T>[],
+    describe: (value: T) => Pick<DefinitionTimelineEntry, 'signature' | 'line' | 'column' | 'definingCommand'>
+): DefinitionTimelineEntry[] {
+    const seen = new Set<string>();
+    return entries.map(entry => {
+        const redefinition = seen.has(entry.name);
+        seen.add(entry.name);
+        const { signature, line, column, definingCommand } = describe(entry.value);
+        return {
+            kind,
+            name: entry.name,
+            signature,
+            file: entry.filePath,
+            offset: entry.offset,
+            ...(line !== undefined ? { line, column } : {}),
+            ...(definingCommand !== undefined ? { definingCommand } : {}),
+            documentOrderKey: entry.key,
+            redefinition,
+        };
+    });
+}
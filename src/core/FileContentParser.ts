@@ -6,12 +6,18 @@
  * 2. 与 {@link DefinitionHandler} 和 {@link DefinitionExtractor} 协作，提取和处理文件内的宏定义及环境定义。
  * 3. 执行多遍的参数附加和环境内容处理流程，以确保定义的正确应用。
  * 4. 从处理后的 AST 中提取文件依赖关系 (例如 `\input` 或 `\include` 的文件)。
+ *
+ * 已知逐字环境的内容在解析前被遮盖、解析后恢复为原始文本 (参见 `verbatimEnvironments`)。
  */
 
 import type { Ast, ResolvedParserConfig, InternalFileParseResult } from '../types/index';
 import { DefinitionHandler } from './DefinitionHandler';
 import { DefinitionExtractor } from './DefinitionExtractor';
-import { getParser as getRawParser, attachMacroArgs, processEnvironments, RawLatexParser } from '../latex-utils/unifiedLatexBridge';
+import { LocalPackageLoader } from './LocalPackageLoader';
+import { MacroExpander } from './MacroExpander';
+import { getParser as getRawParser, attachMacroArgsByPosition, processEnvironmentsByPosition, RawLatexParser } from '../latex-utils/unifiedLatexBridge';
+import { maskVerbatimEnvironments, restoreVerbatimBodies, collapseVerbatimBodies, annotateCodeBlockLanguages } from '../latex-utils/verbatimEnvironments';
+import { fillMissingPositions } from '../latex-utils/sourcePositions';
 import { Logger, createLogger } from '../utils/logger';
 import { getDirname } from '../utils/pathUtils';
 
@@ -20,23 +26,34 @@ export class FileContentParser {
     private rawParser: RawLatexParser;
     private definitionHandlerRef: DefinitionHandler; // 对项目中共享的 DefinitionHandler 实例的引用
     private definitionExtractor: DefinitionExtractor; // 用于从 AST 提取各种定义的实例
+    private packageLoader: LocalPackageLoader | null; // 本地 .sty/.cls 文件加载器 (未启用时为 null)
+    private macroExpander: MacroExpander | null; // 文档内定义的宏的展开器 (未启用 expandMacros 时为 null)
+    private verbatimReparseFiles: Set<string>; // 正在因本文件定义的逐字环境而重新解析的文件，防止反复重解析
+    private keepPositions: boolean; // 是否为所有节点补全位置信息 (对应 ParserOptions.positions)
 
     /**
      * 创建一个新的 `FileContentParser` 实例。
      * @param config - 已解析的、全局的解析器配置对象 {@link ResolvedParserConfig}。
      * @param definitionHandler - 对项目中共享的 {@link DefinitionHandler} 实例的引用，用于管理和查询宏/环境定义。
+     * @param packageLoader - (可选) 本地宏包加载器。提供时，文件引用的本地 `.sty`/`.cls` 会在提取文件自身的定义之前被加载。
      */
-    constructor(config: ResolvedParserConfig, definitionHandler: DefinitionHandler) {
+    constructor(config: ResolvedParserConfig, definitionHandler: DefinitionHandler, packageLoader: LocalPackageLoader | null = null) {
         this.logger = createLogger('core:FileContentParser');
         this.rawParser = getRawParser({ flags: { autodetectExpl3AndAtLetter: true } }); // 获取原始解析器
         this.definitionHandlerRef = definitionHandler;
+        this.packageLoader = packageLoader;
+        this.macroExpander = config.expandMacros ? new MacroExpander(config, definitionHandler) : null;
+        this.verbatimReparseFiles = new Set<string>();
+        this.keepPositions = config.positions;
         
         // DefinitionExtractor 依赖一个函数来获取当前所有已知宏的名称集合，
         // 以便在推断未知宏时避免重复处理。此函数从 DefinitionHandler 获取这些信息。
-        this.definitionExtractor = new DefinitionExtractor(() => {
-            const effectiveMacros = this.definitionHandlerRef.getEffectiveMacroInfoRecord();
-            return new Set(Object.keys(effectiveMacros));
-        });
+        this.definitionExtractor = new DefinitionExtractor(
+            // 推断出的宏不视为已知，以便汇总它们在所有文件中的调用
+            () => this.definitionHandlerRef.getDefinedMacroNames(),
+            () => this.definitionHandlerRef.getIncludeCommands(),
+            () => this.definitionHandlerRef.getEffectiveMacroInfoRecord()
+        );
         this.logger.debug('FileContentParser 已初始化。这条是 DEBUG 日志。');
     }
 
@@ -45,87 +62,143 @@ export class FileContentParser {
      * 此方法执行多阶段的 AST 处理，包括宏/环境的提取、参数附加和内容处理。
      * @param filePath - 正在解析的文件的（通常是绝对）路径。主要用于日志记录和解析相对路径（例如文件包含）。
      * @param fileContent - 要解析的 LaTeX 文件的完整字符串内容。
+     * @param rootDir - (可选) 项目根文件所在的目录，用于解析 `\import{dir}{file}` 等相对于根文档的路径。默认为当前文件所在目录。
      * @returns 返回一个 Promise，该 Promise 解析为 {@link InternalFileParseResult} 对象，
      *          其中包含处理后的 AST、此文件中新发现的定义、包含的文件列表以及任何解析错误。
      */
     public async parseFileContent(
         filePath: string, 
-        fileContent: string
+        fileContent: string,
+        rootDir?: string
     ): Promise<InternalFileParseResult> {
         this.logger.info(`开始解析文件内容: ${filePath}`);
         let ast: Ast.Root | null = null;
         let parsingError: string | undefined;
 
         try {
-            // 阶段 1: 获取原始 AST
-            ast = this.rawParser.parse(fileContent);
-            this.logger.debug('原始 AST 已成功生成。');
+            // 阶段 1: 获取原始 AST。已知逐字环境的内容先被遮盖，解析后恢复为原始文本
+            const verbatimEnvironments = this.definitionHandlerRef.getVerbatimEnvironments();
+            const masked = maskVerbatimEnvironments(fileContent, verbatimEnvironments);
+            ast = this.rawParser.parse(masked.source);
+            restoreVerbatimBodies(ast, masked.bodies);
+            this.logger.debug(`原始 AST 已成功生成 (保留了 ${masked.bodies.length} 个逐字环境的原始内容)。`);
+
+            // 在附加任何参数之前记录每一次宏调用和环境使用的形式，供推断未定义宏 (阶段 7) 和环境 (阶段 5.5) 的签名
+            const macroCalls = this.definitionExtractor.extractMacroCalls(ast, filePath);
+            const environmentCalls = this.definitionExtractor.extractEnvironmentCalls(ast, filePath);
 
             // 获取文件所在目录，用于解析 extractIncludedFiles 中的相对路径
             const baseDir = getDirname(filePath);
 
             // --- 多阶段 AST 处理流程 ---
+
+            // 阶段 1.5: 加载此文件引用的本地宏包/文档类，使其定义对本文件生效
+            const packageReferences = this.definitionExtractor.extractPackageReferences(ast);
+            this.definitionHandlerRef.addUsedPackages(packageReferences.map(reference => reference.name));
+            if (this.packageLoader) {
+                const searchDirs = rootDir && rootDir !== baseDir ? [baseDir, rootDir] : [baseDir];
+                await this.packageLoader.loadReferencedPackages(packageReferences, filePath, searchDirs);
+            }
             
             // 阶段 2: 从原始AST中提取本文档定义的【宏】
-            const definedInThisFileMacros = this.definitionExtractor.extractDefinedMacrosFromAst(ast);
-            // 将新发现的宏添加到全局 DefinitionHandler 中
-            this.definitionHandlerRef.addDocumentDefinedMacros(definedInThisFileMacros);
+            const definedInThisFileSpecs = this.definitionExtractor.extractDefinedMacroSpecsFromAst(ast);
+            const definedInThisFileMacros = this.definitionExtractor.macroSpecsToInfoRecord(definedInThisFileSpecs);
+            // 将新发现的宏 (连同其位置、定义体和来源) 记录到全局 DefinitionHandler 的定义时间线中
+            this.definitionHandlerRef.setDocumentMacroDefinitions(filePath, definedInThisFileSpecs);
             this.logger.debug(`提取并添加了 ${Object.keys(definedInThisFileMacros).length} 个文档内定义的宏。`);
+            // 同时识别其中作为 \input/\include 薄包装的宏，使其调用也能被当作文件包含跟随
+            this.definitionHandlerRef.addDocumentIncludeCommands(this.definitionExtractor.extractIncludeCommandWrappers(ast));
 
             // 阶段 3: 第一次宏参数附加
-            // 使用当前所有已知的宏 (包括默认宏、用户提供宏以及刚从本文档提取的宏)
+            // 使用当前所有已知的宏 (包括默认宏、用户提供宏以及刚从本文档提取的宏)，文档内定义只对其后的内容生效。
             // 目的是为了确保后续提取环境定义时，定义环境的宏 (如 \newenvironment, \newtcolorbox) 的参数能够被正确解析。
-            let macrosForFirstPass = this.definitionHandlerRef.getEffectiveMacroInfoRecord();
-            attachMacroArgs(ast, macrosForFirstPass);
+            attachMacroArgsByPosition(ast, this.definitionHandlerRef.getMacroInfoRecordResolver(filePath));
             this.logger.debug('第一次宏参数附加操作完成。');
 
             // 阶段 4: 从(可能已部分处理参数的)AST中提取本文档定义的【环境】
-            const definedInThisFileEnvs = this.definitionExtractor.extractDefinedEnvironmentsFromAst(ast);
-            // 将新发现的环境添加到全局 DefinitionHandler 中
-            this.definitionHandlerRef.addDocumentDefinedEnvironments(definedInThisFileEnvs);
+            const definedInThisFileEnvSpecs = this.definitionExtractor.extractDefinedEnvironmentSpecsFromAst(ast);
+            const definedInThisFileEnvs = this.definitionExtractor.environmentSpecsToInfoRecord(definedInThisFileEnvSpecs);
+            // 将新发现的环境 (连同其位置和来源) 记录到全局 DefinitionHandler 的定义时间线中
+            this.definitionHandlerRef.setDocumentEnvironmentDefinitions(filePath, definedInThisFileEnvSpecs);
             this.logger.debug(`提取并添加了 ${Object.keys(definedInThisFileEnvs).length} 个文档内定义的环境。`);
 
+            // 阶段 4.5: 本文件定义并使用了新的逐字环境时，遮盖它们的内容重新解析本文件
+            const learnedVerbatimEnvs = Object.keys(this.definitionHandlerRef.getVerbatimEnvironments())
+                .filter(envName => !verbatimEnvironments[envName] && fileContent.includes(`\\begin{${envName}}`));
+            if (learnedVerbatimEnvs.length > 0 && !this.verbatimReparseFiles.has(filePath)) {
+                this.logger.debug(`文件 ${filePath} 使用了其中定义的逐字环境 ${learnedVerbatimEnvs.join(', ')}，重新解析。`);
+                this.verbatimReparseFiles.add(filePath);
+                try {
+                    return await this.parseFileContent(filePath, fileContent, rootDir);
+                } finally {
+                    this.verbatimReparseFiles.delete(filePath);
+                }
+            }
+
             // 阶段 5: 第二次宏参数附加
             // 获取更新后的、最完整的宏定义记录 (此时可能包含了因环境定义间接引入的宏，
             // 或者用户提供的宏可能影响了环境定义的解析方式)。
             // 再次附加参数以确保一致性，特别是如果环境定义本身引入了新的宏或依赖特定宏的解析。
-            let macrosForSecondPass = this.definitionHandlerRef.getEffectiveMacroInfoRecord();
-            attachMacroArgs(ast, macrosForSecondPass);
+            attachMacroArgsByPosition(ast, this.definitionHandlerRef.getMacroInfoRecordResolver(filePath));
             this.logger.debug('第二次宏参数附加操作完成。');
 
+            // 阶段 5.5: 根据 \begin{env} 之后的 [...]/{...} 组推断未定义环境的签名 (DefinitionHandler 忽略已定义的环境)
+            this.definitionHandlerRef.setInferredEnvironmentCalls(filePath, environmentCalls);
+
             // 阶段 6: 环境处理
-            // 使用当前所有已知的环境定义 (包含本文档刚刚提取的环境) 为 AST 中的环境附加参数并处理其内容。
-            const envsForProcessing = this.definitionHandlerRef.getEffectiveEnvInfoRecord();
+            // 使用每个环境所在位置生效的环境定义 (包含本文档刚刚提取的环境) 为 AST 中的环境附加参数并处理其内容。
             try {
-                processEnvironments(ast, envsForProcessing);
+                processEnvironmentsByPosition(ast, this.definitionHandlerRef.getEnvInfoRecordResolver(filePath));
                 this.logger.debug('环境参数附加和内容处理完成。');
             } catch (envProcessingError) {
                 const message = envProcessingError instanceof Error ? envProcessingError.message : String(envProcessingError);
                 this.logger.warn(`在文件 ${filePath} 中处理环境时发生错误: ${message}`);
                 // 注意：这类错误通常不会阻止后续步骤，但可能影响AST的准确性。可以考虑是否作为文件级错误记录。
             }
+            // 参数附加完毕后，逐字环境的内容统一为与内置 verbatim 节点相同的字符串形式
+            const collapsedCount = collapseVerbatimBodies(ast, verbatimEnvironments);
+            this.logger.debug(`在文件 ${filePath} 中转换了 ${collapsedCount} 个逐字环境的内容。`);
 
             // 阶段 7: 从AST中提取使用了但仍未知的宏（启发式推断其签名）
-            const inferredInThisFileMacros = this.definitionExtractor.extractInferredUsedMacros(ast);
-            // 将推断出的宏添加到全局 DefinitionHandler (仅当它们之前未被任何方式定义时)
-            this.definitionHandlerRef.addInferredUsedMacros(inferredInThisFileMacros);
+            const undefinedMacroCalls = this.definitionExtractor.selectUndefinedMacroCalls(macroCalls);
+            const inferredInThisFileMacros = this.definitionExtractor.macroCallsToInfoRecord(undefinedMacroCalls);
+            // 将调用记录到全局 DefinitionHandler，由其汇总所有文件中的调用推断签名 (仅当宏未被任何方式定义时)
+            this.definitionHandlerRef.setInferredMacroCalls(filePath, undefinedMacroCalls);
             this.logger.debug(`提取并添加了 ${Object.keys(inferredInThisFileMacros).length} 个推断出的宏。`);
             
             // 阶段 8: 最终的宏参数附加
             // 使用包含推断宏在内的、最终生效的宏定义列表，确保所有（包括推断出的）宏的参数都得到处理。
-            const finalMacrosForAttachment = this.definitionHandlerRef.getEffectiveMacroInfoRecord();
-            attachMacroArgs(ast, finalMacrosForAttachment);
+            attachMacroArgsByPosition(ast, this.definitionHandlerRef.getMacroInfoRecordResolver(filePath));
             this.logger.debug('最终的宏参数附加操作完成。');
+
+            // 阶段 8.2: 为代码块标注语言 (需要环境参数已附加)
+            const codeBlockCount = annotateCodeBlockLanguages(ast, this.definitionHandlerRef.getVerbatimEnvironments());
+            this.logger.debug(`在文件 ${filePath} 中为 ${codeBlockCount} 个代码块标注了语言。`);
+
+            // 阶段 8.5: (可选) 展开文档内定义的宏的调用
+            if (this.macroExpander) {
+                const expandedCount = this.macroExpander.expandMacros(ast, filePath);
+                this.logger.debug(`在文件 ${filePath} 中展开了 ${expandedCount} 处宏调用。`);
+            }
+
+            // 阶段 8.7: (可选) 为参数附加、环境处理和宏展开产生的节点补全位置信息
+            if (this.keepPositions) {
+                const filledCount = fillMissingPositions(ast, fileContent);
+                this.logger.debug(`在文件 ${filePath} 中为 ${filledCount} 个节点补全了位置信息。`);
+            }
             
             // 阶段 9: 从最终处理的 AST 中提取此文件包含的其他文件引用
-            const includedFiles = this.definitionExtractor.extractIncludedFiles(ast, baseDir);
+            const includedFiles = this.definitionExtractor.extractIncludedFiles(ast, baseDir, rootDir);
             this.logger.debug(`从文件 ${filePath} 中提取到 ${includedFiles.length} 个包含的文件引用。`);
+            const inclusionDirectives = this.definitionExtractor.extractInclusionDirectives(ast);
 
             return {
                 ast,
                 newlyFoundMacros: { ...definedInThisFileMacros, ...inferredInThisFileMacros }, // 本文件贡献的所有新宏
                 newlyFoundEnvironments: definedInThisFileEnvs, // 本文件贡献的所有新环境
                 includedFiles,
+                inclusionDirectives,
+                packageReferences,
                 error: parsingError, // 如果在 try...catch 外部的特定步骤中设置了错误信息
             };
 
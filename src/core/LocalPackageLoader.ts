@@ -0,0 +1,154 @@
+/**
+ * 本地宏包加载器模块。
+ *
+ * 模板项目经常在 `main.tex` 旁边附带自己的 `mylab.sty` 或 `thesis.cls`，文档依赖的宏和环境就定义在其中。
+ * 此模块负责：
+ * 1. 在项目目录中查找 `\usepackage`/`\RequirePackage`/`\documentclass`/`\LoadClass` 引用的 `.sty`/`.cls` 文件。
+ * 2. 以 `\makeatletter` 语义 (`@` 视为字母) 解析这些文件，并递归加载它们引用的其他本地宏包。
+ * 3. 将其中的宏和环境定义以 "package-local" 类别加入 {@link DefinitionHandler}。
+ *
+ * 在系统中安装的宏包 (例如 `amsmath`) 不在项目目录中，会被直接忽略。
+ */
+
+import type { Ast, ResolvedParserConfig, PackageReference, LocalPackageFile } from '../types/index';
+import { DefinitionHandler } from './DefinitionHandler';
+import { DefinitionExtractor } from './DefinitionExtractor';
+import { getParser as getRawParser, attachMacroArgs, RawLatexParser } from '../latex-utils/unifiedLatexBridge';
+import { readFileAsync, fileExistsAsync } from '../utils/fileSystem';
+import { joinPaths, normalizePath, getDirname } from '../utils/pathUtils';
+import { Logger, createLogger } from '../utils/logger';
+
+export class LocalPackageLoader {
+    private logger: Logger;
+    private rawParser: RawLatexParser;
+    private definitionHandlerRef: DefinitionHandler;
+    private definitionExtractor: DefinitionExtractor;
+    private includePackageAsts: boolean;
+    private loadedPackages: Map<string, LocalPackageFile>; // 映射："kind:name" -> 已加载的本地宏包
+    private missingPackages: Set<string>;                  // 已确认不在项目目录中的 "kind:name"
+
+    /**
+     * 创建一个新的 `LocalPackageLoader` 实例。
+     * @param config - 已解析的、全局的解析器配置对象 {@link ResolvedParserConfig}。
+     * @param definitionHandler - 对项目中共享的 {@link DefinitionHandler} 实例的引用，本地宏包中的定义会加入其中。
+     */
+    constructor(config: ResolvedParserConfig, definitionHandler: DefinitionHandler) {
+        this.logger = createLogger('core:LocalPackageLoader');
+        // 宏包和文档类文件总是在 \makeatletter 状态下读入
+        this.rawParser = getRawParser({ flags: { atLetter: true } });
+        this.definitionHandlerRef = definitionHandler;
+        this.definitionExtractor = new DefinitionExtractor(
+            () => new Set(Object.keys(this.definitionHandlerRef.getEffectiveMacroInfoRecord())),
+            () => ({}),
+            () => this.definitionHandlerRef.getEffectiveMacroInfoRecord()
+        );
+        this.includePackageAsts = config.includePackageAsts;
+        this.loadedPackages = new Map<string, LocalPackageFile>();
+        this.missingPackages = new Set<string>();
+    }
+
+    /**
+     * 加载一组宏包/文档类引用中位于项目目录的那些。已加载或已确认不存在的引用会被跳过。
+     * @param references - 宏包/文档类引用 (按文档顺序)。
+     * @param requestedBy - 引用它们的文件路径。
+     * @param searchDirs - 查找 `.sty`/`.cls` 文件的目录，按优先级排列 (通常是引用文件所在目录和根文件所在目录)。
+     */
+    public async loadReferencedPackages(
+        references: PackageReference[],
+        requestedBy: string,
+        searchDirs: string[]
+    ): Promise<void> {
+        for (const reference of references) {
+            const key = `${reference.kind}:${reference.name}`;
+            if (this.loadedPackages.has(key) || this.missingPackages.has(key)) {
+                continue;
+            }
+            const filePath = await this.findPackageFile(reference, searchDirs);
+            if (!filePath) {
+                this.missingPackages.add(key);
+                this.logger.debug(`宏包/文档类 '${reference.name}' 不在项目目录中，视为已安装的宏包。`);
+                continue;
+            }
+            await this.loadPackageFile(key, reference, filePath, requestedBy, searchDirs);
+        }
+    }
+
+    /**
+     * 返回所有已加载的本地宏包 (按加载顺序)。
+     * @returns {@link LocalPackageFile} 数组的副本。
+     */
+    public getLoadedPackages(): LocalPackageFile[] {
+        return Array.from(this.loadedPackages.values()).map(packageFile => ({ ...packageFile }));
+    }
+
+    /**
+     * (私有) 在给定目录中查找宏包/文档类文件。
+     * @param reference - 宏包/文档类引用。
+     * @param searchDirs - 按优先级排列的查找目录。
+     * @returns 找到的文件的规范化路径；找不到时返回 `null`。
+     */
+    private async findPackageFile(reference: PackageReference, searchDirs: string[]): Promise<string | null> {
+        const fileName = `${reference.name}.${reference.kind === 'package' ? 'sty' : 'cls'}`;
+        for (const dir of searchDirs) {
+            const candidate = normalizePath(joinPaths(dir, fileName));
+            if (await fileExistsAsync(candidate)) {
+                return candidate;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * (私有) 读取并解析一个本地宏包文件，先递归加载其引用的本地宏包，再登记其自身的定义。
+     * 这与 LaTeX 的读入顺序一致：`\RequirePackage` 的定义先生效，宏包自身的定义可以覆盖它们。
+     * @param key - 宏包的 "kind:name" 键。
+     * @param reference - 宏包/文档类引用。
+     * @param filePath - 宏包文件路径。
+     * @param requestedBy - 引用此宏包的文件路径。
+     * @param searchDirs - 上层引用使用的查找目录。
+     */
+    private async loadPackageFile(
+        key: string,
+        reference: PackageReference,
+        filePath: string,
+        requestedBy: string,
+        searchDirs: string[]
+    ): Promise<void> {
+        const packageFile: LocalPackageFile = { name: reference.name, kind: reference.kind, filePath, requestedBy };
+        // 先登记，防止宏包之间的循环引用导致无限递归
+        this.loadedPackages.set(key, packageFile);
+        this.logger.info(`加载本地${reference.kind === 'package' ? '宏包' : '文档类'} '${reference.name}': ${filePath} (由 ${requestedBy} 引用)`);
+
+        let ast: Ast.Root;
+        try {
+            ast = this.rawParser.parse(await readFileAsync(filePath));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.error(`解析本地宏包文件 ${filePath} 失败: ${message}`);
+            packageFile.error = `本地宏包文件解析失败: ${message}`;
+            if (this.includePackageAsts) {
+                packageFile.ast = null;
+            }
+            return;
+        }
+
+        const nestedReferences = this.definitionExtractor.extractPackageReferences(ast);
+        this.definitionHandlerRef.addUsedPackages(nestedReferences.map(nested => nested.name));
+        await this.loadReferencedPackages(nestedReferences, filePath, [getDirname(filePath), ...searchDirs]);
+
+        const packageMacroSpecs = this.definitionExtractor.extractDefinedMacroSpecsFromAst(ast);
+        const packageMacros = this.definitionExtractor.macroSpecsToInfoRecord(packageMacroSpecs);
+        this.definitionHandlerRef.addPackageLocalMacros(packageMacros);
+        this.definitionHandlerRef.recordPackageLocalMacroSources(packageMacroSpecs, filePath);
+        attachMacroArgs(ast, this.definitionHandlerRef.getEffectiveMacroInfoRecord());
+        const packageEnvSpecs = this.definitionExtractor.extractDefinedEnvironmentSpecsFromAst(ast);
+        const packageEnvs = this.definitionExtractor.environmentSpecsToInfoRecord(packageEnvSpecs);
+        this.definitionHandlerRef.addPackageLocalEnvironments(packageEnvs);
+        this.definitionHandlerRef.recordPackageLocalEnvironmentSources(packageEnvSpecs, filePath);
+        this.logger.debug(`本地宏包 '${reference.name}' 定义了 ${Object.keys(packageMacros).length} 个宏和 ${Object.keys(packageEnvs).length} 个环境。`);
+
+        if (this.includePackageAsts) {
+            packageFile.ast = ast;
+        }
+    }
+}
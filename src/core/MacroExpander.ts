@@ -0,0 +1,237 @@
+/**
+ * 宏展开模块。
+ *
+ * 将文档中定义的宏 (`\newcommand`、`\def` 等) 的调用替换为代入参数后的定义体，
+ * 例如 `\R` 展开为 `\mathbb{R}`，`\mycmd{a}{b}` (定义为 `#1 is #2`) 展开为 `a is b`。
+ * - 定义体中的 `#1`…`#9` 被替换为对应参数的内容，`##` 还原为 `#`。
+ * - 省略的可选参数使用定义中的默认值 (例如 `O{x}`)。
+ * - 展开结果会继续展开，直到没有可展开的宏或达到最大深度；直接或间接递归的宏不会被展开。
+ * - 展开结果的顶层节点带有 `expandedFrom`，指向文档中原始的宏调用节点 (参见 {@link ExpandedMacroNode})。
+ * - 每处调用使用该位置生效的定义 (参见 `DefinitionTimeline`)：在两次调用之间被重新定义的宏，两次调用按各自的定义展开。
+ *
+ * 只有记录了定义体的文档内定义会被展开；定义命令 (`\newcommand`、`\def` 等) 的参数和操作数保持原样。
+ */
+
+import type { Ast, ResolvedParserConfig, NewCommandSpec, ExpandedMacroNode } from '../types/index';
+import { DefinitionHandler } from './DefinitionHandler';
+import { getParser as getRawParser, attachMacroArgs, RawLatexParser } from '../latex-utils/unifiedLatexBridge';
+import { COMMAND_DEFINERS, PRIMITIVE_DEFINERS, ALL_ENVIRONMENT_DEFINERS } from '../latex-utils/commandDefinitionUtils';
+import { Logger, createLogger } from '../utils/logger';
+
+/**
+ * 深拷贝一组 AST 节点。
+ * @param nodes - 要复制的节点。
+ * @param keepPositions - 是否保留位置信息。定义体中的节点位于定义处，复制到调用处后其位置信息会产生误导。
+ */
+function cloneNodes(nodes: Ast.Ast[], keepPositions: boolean): Ast.Ast[] {
+    return JSON.parse(JSON.stringify(nodes), (key, value) => (!keepPositions && key === 'position' ? undefined : value));
+}
+
+/** 一处宏调用展开时使用的定义：调用位置生效的文档内宏规范和宏信息记录 */
+interface ExpansionScope {
+    specs: Record<string, NewCommandSpec>;
+    macros: Ast.MacroInfoRecord;
+}
+
+/** 一次 `expandMacros` 的共享状态 */
+interface ExpansionState {
+    count: number;
+    reported: Set<string>;
+    scopeAt: (offset: number) => ExpansionScope;
+}
+
+export class MacroExpander {
+    private logger: Logger;
+    private rawParser: RawLatexParser;
+    private definitionHandlerRef: DefinitionHandler;
+    private maxDepth: number;
+
+    /**
+     * 创建一个新的 `MacroExpander` 实例。
+     * @param config - 已解析的、全局的解析器配置对象 {@link ResolvedParserConfig}。
+     * @param definitionHandler - 对项目中共享的 {@link DefinitionHandler} 实例的引用，从中获取宏的定义体和签名。
+     */
+    constructor(config: ResolvedParserConfig, definitionHandler: DefinitionHandler) {
+        this.logger = createLogger('core:MacroExpander');
+        this.rawParser = getRawParser();
+        this.definitionHandlerRef = definitionHandler;
+        this.maxDepth = config.maxExpansionDepth;
+    }
+
+    /**
+     * 原地展开 AST 中文档内定义的宏的调用。调用前 AST 中的宏参数应已附加。
+     * 每处调用按其在文件中的位置使用当时生效的定义；展开结果中的节点 (没有位置信息) 沿用所在调用处的定义。
+     * @param ast - 要处理的 AST 根节点。
+     * @param filePath - AST 对应文件的规范化路径，用于查询各位置生效的定义。
+     * @returns 展开的宏调用数量 (包括嵌套展开)。
+     */
+    public expandMacros(ast: Ast.Root, filePath: string): number {
+        if (Object.keys(this.definitionHandlerRef.getDocumentMacroSpecs()).length === 0) {
+            return 0;
+        }
+        const specsAt = this.definitionHandlerRef.getDocumentMacroSpecResolver(filePath);
+        const macrosAt = this.definitionHandlerRef.getMacroInfoRecordResolver(filePath);
+        const state: ExpansionState = {
+            count: 0,
+            reported: new Set<string>(),
+            scopeAt: offset => ({ specs: specsAt(offset), macros: macrosAt(offset) }),
+        };
+        this.expandInArray(ast.content, [], state, state.scopeAt(0));
+        this.logger.debug(`共展开了 ${state.count} 处宏调用。`);
+        return state.count;
+    }
+
+    /**
+     * (私有) 原地展开节点数组中的宏调用，并递归处理子节点。
+     * @param nodes - 节点数组。
+     * @param stack - 当前正在展开的宏名称链，用于检测递归和限制深度。
+     * @param state - 本次展开的共享状态。
+     * @param scope - 没有位置信息的节点使用的定义 (所在父节点或调用处生效的定义)。
+     */
+    private expandInArray(nodes: Ast.Ast[], stack: string[], state: ExpansionState, scope: ExpansionScope): void {
+        let i = 0;
+        while (i < nodes.length) {
+            const node = nodes[i];
+            // 文档中的节点按其位置查询生效的定义；展开结果 (stack 非空) 始终使用调用处的定义
+            const nodeScope = stack.length === 0 && node.position ? state.scopeAt(node.position.start.offset) : scope;
+            if (node.type === 'macro') {
+                const name = (node as Ast.Macro).content;
+                if (PRIMITIVE_DEFINERS.has(name) || name === 'let') {
+                    i = this.skipDefinitionOperands(nodes, i, name === 'let');
+                    continue;
+                }
+                if (COMMAND_DEFINERS.has(name) || ALL_ENVIRONMENT_DEFINERS.has(name)) {
+                    i++;
+                    continue;
+                }
+                const spec = nodeScope.specs[name];
+                if (spec && this.canExpand(name, stack, state.reported)) {
+                    const expansion = this.instantiate(spec, node as Ast.Macro, stack, state, nodeScope);
+                    attachMacroArgs({ type: 'root', content: expansion }, nodeScope.macros);
+                    this.expandInArray(expansion, [...stack, name], state, nodeScope);
+                    for (const expandedNode of expansion) {
+                        (expandedNode as ExpandedMacroNode).expandedFrom = node as Ast.Macro;
+                    }
+                    nodes.splice(i, 1, ...expansion);
+                    i += expansion.length;
+                    state.count++;
+                    continue;
+                }
+            }
+            if (Array.isArray(node.content)) {
+                this.expandInArray(node.content, stack, state, nodeScope);
+            }
+            for (const arg of (node.args || []) as Ast.Argument[]) {
+                this.expandInArray(arg.content, stack, state, nodeScope);
+            }
+            i++;
+        }
+    }
+
+    /**
+     * (私有) 判断宏是否可以在当前展开链中展开。递归调用和超过最大深度的调用保持原样，并对每个宏只警告一次。
+     */
+    private canExpand(name: string, stack: string[], reported: Set<string>): boolean {
+        let reason: string | null = null;
+        if (stack.includes(name)) {
+            reason = `宏 \\${name} 是递归定义的 (${[...stack, name].map(n => `\\${n}`).join(' -> ')})`;
+        } else if (stack.length >= this.maxDepth) {
+            reason = `宏 \\${name} 的展开深度超过了上限 ${this.maxDepth}`;
+        }
+        if (reason === null) {
+            return true;
+        }
+        if (!reported.has(name)) {
+            reported.add(name);
+            this.logger.warn(`${reason}，保留原始的宏调用。`);
+        }
+        return false;
+    }
+
+    /**
+     * (私有) 返回 `\def`/`\let` 的操作数之后的下标。`\def` 跳过到定义体 (第一个组) 为止，`\let` 跳过两个宏 (以及可选的 `=`)。
+     */
+    private skipDefinitionOperands(nodes: Ast.Ast[], index: number, isLet: boolean): number {
+        let i = index + 1;
+        if (isLet) {
+            let macrosSeen = 0;
+            while (i < nodes.length && macrosSeen < 2) {
+                if (nodes[i].type === 'macro') {
+                    macrosSeen++;
+                }
+                i++;
+            }
+            return i;
+        }
+        while (i < nodes.length && nodes[i].type !== 'group') {
+            i++;
+        }
+        return i + 1;
+    }
+
+    /**
+     * (私有) 生成一次宏调用的展开结果：先展开参数中的宏，再将其代入定义体。
+     * @param spec - 宏的定义规范。
+     * @param macro - 宏调用节点 (不会被修改)。
+     * @param stack - 当前的展开链。
+     * @param state - 本次展开的共享状态。
+     * @param scope - 调用处生效的定义。
+     * @returns 展开后的节点数组。
+     */
+    private instantiate(spec: NewCommandSpec, macro: Ast.Macro, stack: string[], state: ExpansionState, scope: ExpansionScope): Ast.Ast[] {
+        const argContents = (macro.args || []).map(arg => {
+            let content = cloneNodes(arg.content, true);
+            const defaultArg = arg._renderInfo?.defaultArg;
+            if (content.length === 0 && arg.openMark === '' && typeof defaultArg === 'string') {
+                content = this.rawParser.parse(defaultArg).content;
+            }
+            this.expandInArray(content, stack, state, scope);
+            return content;
+        });
+        if (spec.aliasOf !== undefined) {
+            // 别名的目标不是文档内定义的宏：以目标宏替换，参数保持不变
+            return [{
+                type: 'macro',
+                content: spec.aliasOf,
+                args: (macro.args || []).map((arg, index) => ({ ...arg, content: argContents[index] })),
+            }];
+        }
+        return this.substituteParameters(cloneNodes(spec.body, false), argContents);
+    }
+
+    /**
+     * (私有) 将节点数组中的 `#1`…`#9` 替换为参数内容，`##` 还原为 `#`。
+     * 解析器将 `#1` 解析为字符串节点 `#` 和以数字开头的字符串节点。
+     */
+    private substituteParameters(nodes: Ast.Ast[], argContents: Ast.Ast[][]): Ast.Ast[] {
+        const result: Ast.Ast[] = [];
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i];
+            const next = nodes[i + 1];
+            if (node.type === 'string' && node.content === '#' && next?.type === 'string') {
+                if (next.content === '#') {
+                    result.push(node);
+                    i++;
+                    continue;
+                }
+                const match = /^([1-9])(.*)$/s.exec(next.content);
+                if (match) {
+                    result.push(...cloneNodes(argContents[Number(match[1]) - 1] || [], true));
+                    if (match[2]) {
+                        result.push({ type: 'string', content: match[2] });
+                    }
+                    i++;
+                    continue;
+                }
+            }
+            if (Array.isArray(node.content)) {
+                node.content = this.substituteParameters(node.content, argContents);
+            }
+            for (const arg of (node.args || []) as Ast.Argument[]) {
+                arg.content = this.substituteParameters(arg.content, argContents);
+            }
+            result.push(node);
+        }
+        return result;
+    }
+}
@@ -4,20 +4,26 @@
  * 负责协调整个 LaTeX 项目的解析过程，主要职责包括：
  * - 初始化和管理配置 ({@link ResolvedParserConfig})。
  * - 初始化和管理 {@link DefinitionHandler} (用于宏和环境定义) 和 {@link FileContentParser} (用于单个文件解析)。
- * - 实现根文件确定逻辑，找到项目的入口 TeX 文件。
- * - 管理文件处理队列，以递归方式解析根文件及其所有依赖的 TeX 文件。
- * - 调用 `FileContentParser` 来处理每个文件的具体内容解析。
+ * - 实现根文件确定逻辑，找到项目的入口 TeX 文件 (并跟随 `% !TeX root = ...` 魔法注释)。
+ * - 按文档顺序 (深度优先展开包含命令) 递归解析根文件及其所有依赖的 TeX 文件，并构建文件包含树。
+ * - 遵循 `\includeonly`/`\excludeonly`，跳过或标记被排除的 `\include` 文件。
+ * - 调用 `FileContentParser` 来处理每个文件的具体内容解析 (其间通过 {@link LocalPackageLoader} 加载项目中的本地宏包)。
+ * - 在首轮解析后执行定义感知的不动点重处理，使较早解析的文件也能用上稍后才读到的定义。
  * - 收集和聚合来自所有已解析文件的 AST (抽象语法树)、错误信息以及最终的宏/环境定义状态。
  * - 构建并返回最终的 {@link ProjectAST} 对象，作为整个项目解析的结果。
  */
 
-import type { Ast, ResolvedParserConfig, ParserOptions, ProjectAST, ProjectFileAst, InternalFileParseResult } from '../types/index';
+import type { Ast, ResolvedParserConfig, ParserOptions, ProjectAST, ProjectFileAst, InternalFileParseResult, IncludeTreeNode, IncludedFileReference, InclusionDirectives, RootRedirection, TexMagicComments, DefinitionDiagnostic } from '../types/index';
 import { DefinitionHandler } from './DefinitionHandler';
 import { FileContentParser } from './FileContentParser';
+import { LocalPackageLoader } from './LocalPackageLoader';
 import { processParserOptions } from '../config/configManager'; 
+import { formatConfigValidationIssue } from '../config/definitionFileSchema';
 import { readFileAsync, fileExistsAsync, getFileStatsAsync } from '../utils/fileSystem';
 import { resolvePath, normalizePath, getDirname, joinPaths } from '../utils/pathUtils';
-import { findTexFiles, isTexFile, isRootFileContent } from '../latex-utils/projectFileUtils';
+import { isIncludeSelected, findRootFileCandidates, resolveMagicRoot } from '../latex-utils/projectFileUtils';
+import { flattenProjectFiles } from '../ast/AstFlattener';
+import { computeLineOffsets } from '../latex-utils/sourcePositions';
 import { Logger, createLogger } from '../utils/logger';
 
 export class ProjectProcessor {
@@ -25,12 +31,26 @@ export class ProjectProcessor {
     private config!: ResolvedParserConfig; // 已解析的配置，在 initialize 方法中设置
     private definitionHandler!: DefinitionHandler; // 宏和环境定义管理器
     private fileContentParser!: FileContentParser;   // 单个文件内容解析器
+    private packageLoader: LocalPackageLoader | null = null; // 本地 .sty/.cls 文件加载器 (未启用时为 null)
 
     private parsedFilePaths: Set<string>;         // 存储已处理文件的规范化路径，用于防止重复解析
     private projectAstMap: Map<string, Ast.Root | null>; // 映射：文件路径 -> 该文件的 AST (或 null 如果解析失败)
     private projectFileErrors: Map<string, string>;  // 映射：文件路径 -> 该文件的特定解析错误信息
     private projectGlobalErrors: string[];         // 项目级别的全局错误列表（例如找不到根文件、引用的文件不存在等）
     private currentRootFilePath: string | null;    // 当前项目最终确定的根文件路径
+    private fileContents: Map<string, string>;     // 映射：文件路径 -> 文件原始内容 (供重处理使用)
+    private fileDefinitionFingerprints: Map<string, string>; // 映射：文件路径 -> 解析该文件结束时的定义状态指纹
+    private processingOrder: string[];             // 文件的处理顺序
+    private reprocessingPasses: number;            // 不动点重处理实际执行的轮数
+    private includeTree: IncludeTreeNode | null;   // 文件包含树 (按文档顺序)
+    private includeTreeNodes: Map<string, IncludeTreeNode>; // 映射：文件路径 -> 展开该文件的包含树节点 (供重处理使用)
+    private fileIncludes: Map<string, IncludedFileReference[]>; // 映射：文件路径 -> 该文件最近一次解析得到的包含引用
+    private flattenedAst: Ast.Root | null;         // 单文档模式下合并后的 AST
+    private definitionDiagnostics: DefinitionDiagnostic[]; // 静态检测到的定义问题
+    private inclusionControl: (InclusionDirectives & { source: 'document' | 'options' }) | null; // 生效的 \includeonly/\excludeonly 列表
+    private excludedFilePaths: Set<string>;        // 被 \includeonly/\excludeonly 排除但仍被解析 ('flag' 模式) 的文件
+    private rootRedirection: RootRedirection | null; // 通过 % !TeX root 魔法注释发生的根文件重定向
+    private rootMagicComments: TexMagicComments | null; // 根文件头部的魔法注释
 
     /**
      * 创建一个新的 `ProjectProcessor` 实例。
@@ -42,6 +62,19 @@ export class ProjectProcessor {
         this.projectFileErrors = new Map<string, string>();
         this.projectGlobalErrors = [];
         this.currentRootFilePath = null;
+        this.fileContents = new Map<string, string>();
+        this.fileDefinitionFingerprints = new Map<string, string>();
+        this.processingOrder = [];
+        this.reprocessingPasses = 0;
+        this.includeTree = null;
+        this.includeTreeNodes = new Map<string, IncludeTreeNode>();
+        this.fileIncludes = new Map<string, IncludedFileReference[]>();
+        this.flattenedAst = null;
+        this.definitionDiagnostics = [];
+        this.inclusionControl = null;
+        this.excludedFilePaths = new Set<string>();
+        this.rootRedirection = null;
+        this.rootMagicComments = null;
         this.logger.debug('ProjectProcessor 实例已创建。');
     }
 
@@ -54,13 +87,41 @@ export class ProjectProcessor {
     private async initialize(resolvedConfig: ResolvedParserConfig): Promise<void> {
         this.config = resolvedConfig;
         this.definitionHandler = new DefinitionHandler(this.config);
-        this.fileContentParser = new FileContentParser(this.config, this.definitionHandler);
+        this.packageLoader = this.config.followLocalPackages
+            ? new LocalPackageLoader(this.config, this.definitionHandler)
+            : null;
+        this.fileContentParser = new FileContentParser(this.config, this.definitionHandler, this.packageLoader);
         
         this.parsedFilePaths.clear();
         this.projectAstMap.clear();
         this.projectFileErrors.clear();
         this.projectGlobalErrors = [];
         this.currentRootFilePath = null;
+        this.fileContents.clear();
+        this.fileDefinitionFingerprints.clear();
+        this.processingOrder = [];
+        this.reprocessingPasses = 0;
+        this.includeTree = null;
+        this.includeTreeNodes.clear();
+        this.fileIncludes.clear();
+        this.flattenedAst = null;
+        this.definitionDiagnostics = [];
+        this.inclusionControl = null;
+        this.excludedFilePaths.clear();
+        this.rootRedirection = null;
+        this.rootMagicComments = null;
+        // 非严格模式下，自定义定义文件中的问题不会中止解析，但需要在结果中报告
+        for (const issue of this.config.configIssues) {
+            this.projectGlobalErrors.push(`自定义定义文件有误: ${formatConfigValidationIssue(issue)}`);
+        }
+        if (this.config.includeOnly || this.config.excludeOnly) {
+            // 通过选项提供的列表覆盖文档中的指令
+            this.inclusionControl = {
+                includeOnly: this.config.includeOnly,
+                excludeOnly: this.config.excludeOnly,
+                source: 'options',
+            };
+        }
         this.logger.info('ProjectProcessor 已使用新配置完成初始化。');
     }
 
@@ -87,6 +148,9 @@ export class ProjectProcessor {
 
         // 2. 确定项目的根 TeX 文件:
         this.currentRootFilePath = await this.determineRootFile(this.config.entryPath, this.config.baseDir);
+        if (this.currentRootFilePath) {
+            this.currentRootFilePath = await this.followRootMagicComments(this.currentRootFilePath);
+        }
 
         if (!this.currentRootFilePath) {
             const errorMsg = `无法确定项目的根文件，指定的入口路径为: ${this.config.entryPath}`;
@@ -96,70 +160,274 @@ export class ProjectProcessor {
         }
         this.logger.info(`项目根文件已确定为: ${this.currentRootFilePath}`);
 
-        // 3. 递归地解析根文件及其所有包含的 TeX 文件:
-        const filesToParseQueue: string[] = [this.currentRootFilePath!]; // currentRootFilePath is checked for null above
-        const processingOrder: string[] = []; // 记录文件处理顺序
+        // 3. 按文档顺序 (深度优先，在包含命令出现处展开) 递归地解析根文件及其所有包含的 TeX 文件:
+        this.includeTree = { filePath: normalizePath(this.currentRootFilePath), children: [] };
+        this.definitionHandler.setFileOrderKey(this.includeTree.filePath, []);
+        await this.processFileRecursively(this.includeTree);
+        this.logger.info('[ProjectProcessor] 所有文件均已处理完毕。处理顺序:', this.processingOrder);
+        for (const packageFile of this.packageLoader?.getLoadedPackages() || []) {
+            if (packageFile.error) {
+                this.projectGlobalErrors.push(`本地宏包文件 ${packageFile.filePath} 处理失败: ${packageFile.error}`);
+            }
+        }
+
+        // 4. 定义感知的不动点重处理:
+        if (this.config.fixpointReprocessing) {
+            await this.reprocessUntilStable();
+        }
+
+        // 4.5. 检查文档内定义的冲突和误用 (诊断附加在定义节点上):
+        this.definitionDiagnostics = this.definitionHandler.diagnoseDefinitions();
+
+        // 5. (可选) 生成合并后的单文档 AST:
+        if (this.config.flatten) {
+            this.flattenedAst = flattenProjectFiles(this.includeTree.filePath, this.projectAstMap, this.getSelectedFileIncludes());
+        }
+        return this.buildProjectAstResult();
+    }
+
+    /**
+     * (私有) 解析包含树节点对应的文件，然后按包含命令在文件中出现的顺序，深度优先地解析其包含的文件。
+     * 这与 LaTeX 读入内容的顺序一致：`\input` 的内容在其出现的位置被展开，
+     * 因此 `ProjectAST.files` 和文件的处理顺序都是文档顺序。
+     * 每条包含边都会作为子节点记录到 `treeNode.children` 中，包括指向缺失文件或已解析文件的边。
+     * @param treeNode - 当前文件对应的包含树节点，其 `filePath` 已规范化。
+     */
+    private async processFileRecursively(treeNode: IncludeTreeNode): Promise<void> {
+        const filePath = treeNode.filePath;
+        this.processingOrder.push(filePath); // 记录处理顺序
+        this.parsedFilePaths.add(filePath);
+        this.includeTreeNodes.set(filePath, treeNode);
+        this.logger.info(`[ProjectProcessor] === 正在解析文件 (${this.processingOrder.length}): ${filePath} ===`);
 
-        while (filesToParseQueue.length > 0) {
-            const currentFilePath = filesToParseQueue.shift()!;
-            const normalizedFilePath = normalizePath(currentFilePath);
+        let fileContent: string;
+        try {
+            fileContent = await readFileAsync(filePath);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.error(`[ProjectProcessor] 读取文件 ${filePath} 失败: ${message}`);
+            this.projectFileErrors.set(filePath, `读取文件失败: ${message}`);
+            this.projectAstMap.set(filePath, null); 
+            return; 
+        }
 
-            if (this.parsedFilePaths.has(normalizedFilePath)) {
-                this.logger.debug(`跳过已解析的文件: ${normalizedFilePath}`);
-                continue; 
+        this.fileContents.set(filePath, fileContent);
+        const parseResult = await this.parseAndRecordFile(filePath, fileContent);
+        
+        // 调试日志：打印 DefinitionHandler 在处理完此文件后的状态
+        const currentDefs = this.definitionHandler.getAllDefinitionsCategorized();
+        this.logger.debug(`[ProjectProcessor] 文件 ${filePath} 处理完毕后，文档内定义的宏:`, Object.keys(currentDefs.definedInDocumentMacros));
+        this.logger.debug(`[ProjectProcessor] 文件 ${filePath} 处理完毕后，文档内定义的环境:`, Object.keys(currentDefs.definedInDocumentEnvironments));
+        this.logger.debug(`[ProjectProcessor] 文件 ${filePath} 处理完毕后，最终生效的宏:`, Object.keys(currentDefs.finalEffectiveMacros).length);
+        this.recordInclusionDirectives(parseResult.inclusionDirectives, filePath);
+        await this.processIncludedFiles(treeNode, parseResult.includedFiles);
+    }
+
+    /**
+     * (私有) 按文档顺序处理文件中的包含引用：为每条引用记录包含树的子节点，并深度优先地解析尚未解析的文件。
+     * 重处理文件时再次调用，此时已有的子节点 (及其子树) 按文件路径复用，只有新出现的包含引用对应的文件会被解析。
+     * @param treeNode - 文件对应的包含树节点。
+     * @param includedFiles - 文件最近一次解析得到的包含引用。
+     */
+    private async processIncludedFiles(treeNode: IncludeTreeNode, includedFiles: IncludedFileReference[]): Promise<void> {
+        const filePath = treeNode.filePath;
+        const previousChildren = treeNode.children;
+        treeNode.children = [];
+        for (const includedFile of includedFiles) {
+            const normalizedIncludedPath = normalizePath(includedFile.path);
+            const previousIndex = previousChildren.findIndex(child => child.filePath === normalizedIncludedPath);
+            if (previousIndex !== -1) {
+                treeNode.children.push(...previousChildren.splice(previousIndex, 1));
+                continue;
             }
+            const childNode: IncludeTreeNode = {
+                filePath: normalizedIncludedPath,
+                parentFilePath: filePath,
+                command: includedFile.command,
+                rawPath: includedFile.rawPath,
+                ...(includedFile.rawDir !== undefined ? { rawDir: includedFile.rawDir } : {}),
+                position: includedFile.position,
+                children: [],
+            };
+            treeNode.children.push(childNode);
 
-            processingOrder.push(normalizedFilePath); // 记录处理顺序
-            this.parsedFilePaths.add(normalizedFilePath);
-            this.logger.info(`[ProjectProcessor] === 正在解析文件 (${processingOrder.length}): ${normalizedFilePath} ===`);
-
-            let fileContent: string;
-            try {
-                fileContent = await readFileAsync(normalizedFilePath);
-            } catch (error) {
-                const message = error instanceof Error ? error.message : String(error);
-                this.logger.error(`[ProjectProcessor] 读取文件 ${normalizedFilePath} 失败: ${message}`);
-                this.projectFileErrors.set(normalizedFilePath, `读取文件失败: ${message}`);
-                this.projectAstMap.set(normalizedFilePath, null); 
-                continue; 
+            if (this.isExcludedInclude(includedFile)) {
+                childNode.excluded = true;
+                if (this.config.includeOnlyMode === 'skip') {
+                    this.logger.info(`[ProjectProcessor] 跳过被 \\includeonly/\\excludeonly 排除的文件: ${normalizedIncludedPath} (原始路径 '${includedFile.rawPath}')`);
+                    continue;
+                }
+                this.excludedFilePaths.add(normalizedIncludedPath);
             }
 
-            const parseResult: InternalFileParseResult = await this.fileContentParser.parseFileContent(
-                normalizedFilePath, 
-                fileContent
-            );
+            if (this.parsedFilePaths.has(normalizedIncludedPath)) {
+                if (this.fileContents.has(normalizedIncludedPath)) {
+                    childNode.alreadyParsed = true;
+                    this.logger.debug(`跳过已解析的文件: ${normalizedIncludedPath} (在 ${filePath} 中再次被包含)`);
+                } else {
+                    childNode.missing = true;
+                }
+                continue;
+            }
 
-            this.projectAstMap.set(normalizedFilePath, parseResult.ast);
-            if (parseResult.error) {
-                this.projectFileErrors.set(normalizedFilePath, parseResult.error);
-                this.logger.warn(`[ProjectProcessor] 文件 ${normalizedFilePath} 解析时遇到问题: ${parseResult.error}`);
+            if (await fileExistsAsync(normalizedIncludedPath)) {
+                this.logger.debug(`[ProjectProcessor] 展开文件 ${normalizedIncludedPath} (从 ${filePath} 包含)。`);
+                // 被包含文件中的定义在包含命令所在的位置生效 (参见 DefinitionTimeline)
+                this.definitionHandler.setFileOrderKey(normalizedIncludedPath, [
+                    ...this.definitionHandler.getFileOrderKey(filePath),
+                    includedFile.position?.start.offset ?? Number.MAX_SAFE_INTEGER,
+                ]);
+                await this.processFileRecursively(childNode);
+            } else {
+                const missingMsg = `引用的文件未找到: ${normalizedIncludedPath} (在文件 ${filePath} 中通过命令 '${includedFile.command}' 引用，原始路径 '${includedFile.rawPath}'${includedFile.rawDir !== undefined ? `，目录 '${includedFile.rawDir}'` : ''})`;
+                this.logger.warn(missingMsg);
+                this.projectGlobalErrors.push(missingMsg);
+                this.projectAstMap.set(normalizedIncludedPath, null);
+                this.projectFileErrors.set(normalizedIncludedPath, `引用的文件未找到。`);
+                this.parsedFilePaths.add(normalizedIncludedPath); 
+                childNode.missing = true;
             }
-            
-            // 调试日志：打印 DefinitionHandler 在处理完此文件后的状态
-            const currentDefs = this.definitionHandler.getAllDefinitionsCategorized();
-            this.logger.debug(`[ProjectProcessor] 文件 ${normalizedFilePath} 处理完毕后，文档内定义的宏:`, Object.keys(currentDefs.definedInDocumentMacros));
-            this.logger.debug(`[ProjectProcessor] 文件 ${normalizedFilePath} 处理完毕后，文档内定义的环境:`, Object.keys(currentDefs.definedInDocumentEnvironments));
-            this.logger.debug(`[ProjectProcessor] 文件 ${normalizedFilePath} 处理完毕后，最终生效的宏:`, Object.keys(currentDefs.finalEffectiveMacros).length);
-
-            for (const includedFile of parseResult.includedFiles) {
-                const normalizedIncludedPath = normalizePath(includedFile.path);
-                if (!this.parsedFilePaths.has(normalizedIncludedPath)) {
-                    if (await fileExistsAsync(normalizedIncludedPath)) {
-                         filesToParseQueue.push(normalizedIncludedPath);
-                         this.logger.debug(`[ProjectProcessor] 将文件 ${normalizedIncludedPath} (从 ${normalizedFilePath} 包含) 加入解析队列。`);
-                    } else {
-                        const missingMsg = `引用的文件未找到: ${normalizedIncludedPath} (在文件 ${normalizedFilePath} 中通过命令 '${includedFile.command}' 引用，原始路径 '${includedFile.rawPath}')`;
-                        this.logger.warn(missingMsg);
-                        this.projectGlobalErrors.push(missingMsg);
-                        this.projectAstMap.set(normalizedIncludedPath, null);
-                        this.projectFileErrors.set(normalizedIncludedPath, `引用的文件未找到。`);
-                        this.parsedFilePaths.add(normalizedIncludedPath); 
-                    }
-                }
+        }
+    }
+
+    /**
+     * (私有) 记录文件中出现的 `\includeonly`/`\excludeonly` 指令，使其对之后遇到的 `\include` 生效。
+     * 如果列表已通过选项提供，则忽略文档中的指令。
+     * @param directives - 当前文件中提取到的指令。
+     * @param filePath - 指令所在文件的路径 (仅用于日志)。
+     */
+    private recordInclusionDirectives(directives: InclusionDirectives | undefined, filePath: string): void {
+        if (!directives || (!directives.includeOnly && !directives.excludeOnly)) {
+            return;
+        }
+        if (this.inclusionControl?.source === 'options') {
+            this.logger.info(`[ProjectProcessor] 文件 ${filePath} 中的 \\includeonly/\\excludeonly 已被选项覆盖，将被忽略。`);
+            return;
+        }
+        this.inclusionControl = {
+            includeOnly: directives.includeOnly ?? this.inclusionControl?.includeOnly,
+            excludeOnly: directives.excludeOnly ?? this.inclusionControl?.excludeOnly,
+            source: 'document',
+        };
+        this.logger.info(`[ProjectProcessor] 文件 ${filePath} 中的包含控制指令已生效:`, directives);
+    }
+
+    /**
+     * (私有) 判断一条包含引用是否被当前生效的 `\includeonly`/`\excludeonly` 列表排除。
+     * @param reference - 要检查的包含引用。
+     * @returns 如果该引用应被排除，则返回 `true`。
+     */
+    private isExcludedInclude(reference: IncludedFileReference): boolean {
+        return !!this.inclusionControl &&
+            reference.includeOnlyName !== undefined &&
+            !isIncludeSelected(reference.includeOnlyName, this.inclusionControl);
+    }
+
+    /**
+     * (私有) 返回去掉了被排除引用的 {@link fileIncludes}，供生成单文档 AST 使用，
+     * 使被排除的 `\include` 在合并结果中保留为原始宏节点 (即使在 `'flag'` 模式下它们已被解析)。
+     * @returns 文件路径到其未被排除的包含引用列表的映射。
+     */
+    private getSelectedFileIncludes(): Map<string, IncludedFileReference[]> {
+        const selected = new Map<string, IncludedFileReference[]>();
+        for (const [filePath, references] of this.fileIncludes.entries()) {
+            selected.set(filePath, references.filter(reference => !this.isExcludedInclude(reference)));
+        }
+        return selected;
+    }
+
+    /**
+     * (私有) 使用 `FileContentParser` 解析单个文件，并记录其 AST、错误以及解析结束时的定义状态指纹。
+     * @param filePath - 已规范化的文件路径。
+     * @param fileContent - 文件的原始内容。
+     * @returns `FileContentParser` 返回的 {@link InternalFileParseResult}。
+     */
+    private async parseAndRecordFile(filePath: string, fileContent: string): Promise<InternalFileParseResult> {
+        const parseResult: InternalFileParseResult = await this.fileContentParser.parseFileContent(
+            filePath, 
+            fileContent,
+            this.currentRootFilePath ? getDirname(this.currentRootFilePath) : undefined
+        );
+
+        this.projectAstMap.set(filePath, parseResult.ast);
+        this.fileIncludes.set(filePath, parseResult.includedFiles);
+        if (parseResult.error) {
+            this.projectFileErrors.set(filePath, parseResult.error);
+            this.logger.warn(`[ProjectProcessor] 文件 ${filePath} 解析时遇到问题: ${parseResult.error}`);
+        } else {
+            this.projectFileErrors.delete(filePath);
+        }
+        this.fileDefinitionFingerprints.set(filePath, this.definitionHandler.getDefinitionStateFingerprint());
+        return parseResult;
+    }
+
+    /**
+     * (私有) 定义感知的不动点重处理。
+     * 文件按包含关系的顺序解析，因此较早解析的文件 (例如在 `\input{preamble}` 之前就已完成处理的 `main.tex`)
+     * 看不到之后才读入的定义。此方法反复重新解析那些"解析时所见定义状态与当前状态不同"的文件，
+     * 直到 {@link DefinitionHandler} 的状态不再变化，或达到 `maxReprocessingPasses` 上限。
+     * 由于参数一旦附加就不会被 `attachMacroArgs` 覆盖，重处理总是从文件原始内容重新开始。
+     */
+    private async reprocessUntilStable(): Promise<void> {
+        const maxPasses = this.config.maxReprocessingPasses;
+        let staleFiles = this.findStaleFiles();
+        while (staleFiles.length > 0 && this.reprocessingPasses < maxPasses) {
+            this.reprocessingPasses++;
+            this.logger.info(`[ProjectProcessor] 第 ${this.reprocessingPasses} 轮重处理: ${staleFiles.length} 个文件解析时所见的定义已过时:`, staleFiles);
+            const fileCount = this.parsedFilePaths.size;
+            for (const filePath of staleFiles) {
+                const parseResult = await this.parseAndRecordFile(filePath, this.fileContents.get(filePath)!);
+                // 新的定义可能使文件中出现新的包含命令 (例如稍后才读到其定义的包装命令)，解析其中尚未解析的文件
+                await this.processIncludedFiles(this.includeTreeNodes.get(filePath)!, parseResult.includedFiles);
             }
+            if (this.parsedFilePaths.size > fileCount) {
+                this.sortFilesByIncludeTree();
+            }
+            staleFiles = this.findStaleFiles();
         }
-        this.logger.info('[ProjectProcessor] 所有文件均已处理完毕。处理顺序:', processingOrder);
-        return this.buildProjectAstResult();
+
+        if (staleFiles.length > 0) {
+            const msg = `定义状态在 ${maxPasses} 轮重处理后仍未稳定，以下文件的参数附加可能不准确: ${staleFiles.join(', ')}`;
+            this.logger.warn(msg);
+            this.projectGlobalErrors.push(msg);
+        } else {
+            this.logger.info(`[ProjectProcessor] 定义状态已稳定 (重处理 ${this.reprocessingPasses} 轮)。`);
+        }
+        this.definitionHandler.pruneShadowedInferredMacros();
+    }
+
+    /**
+     * (私有) 重处理中解析了新的文件后，将文件的 AST 记录和处理顺序恢复为包含树的文档顺序 (新文件在其包含命令处，而不是末尾)。
+     */
+    private sortFilesByIncludeTree(): void {
+        const order: string[] = [];
+        const walk = (node: IncludeTreeNode): void => {
+            if (!order.includes(node.filePath)) {
+                order.push(node.filePath);
+            }
+            for (const child of node.children) {
+                if (!child.alreadyParsed) {
+                    walk(child);
+                }
+            }
+        };
+        walk(this.includeTree!);
+        const rank = (filePath: string) => (order.includes(filePath) ? order.indexOf(filePath) : order.length);
+        const byDocumentOrder = (a: string, b: string) => rank(a) - rank(b);
+        this.projectAstMap = new Map([...this.projectAstMap.entries()].sort(([a], [b]) => byDocumentOrder(a, b)));
+        this.processingOrder.sort(byDocumentOrder);
+    }
+
+    /**
+     * (私有) 找出解析时所见定义状态与当前定义状态不一致的文件 (按处理顺序)。
+     * @returns 需要重新解析的文件路径列表。
+     */
+    private findStaleFiles(): string[] {
+        const currentFingerprint = this.definitionHandler.getDefinitionStateFingerprint();
+        return this.processingOrder.filter(filePath =>
+            this.fileContents.has(filePath) &&
+            this.fileDefinitionFingerprints.get(filePath) !== currentFingerprint
+        );
     }
 
     /**
@@ -174,6 +442,8 @@ export class ProjectProcessor {
                 filePath,
                 ast: ast!, // ast可能为null，表示该文件解析失败或不存在。其错误记录在error字段
                 error: this.projectFileErrors.get(filePath),
+                ...(this.excludedFilePaths.has(filePath) ? { excluded: true } : {}),
+                ...(this.config.positions && this.fileContents.has(filePath) ? { lineOffsets: computeLineOffsets(this.fileContents.get(filePath)!) } : {}),
             });
         }
         
@@ -186,10 +456,19 @@ export class ProjectProcessor {
         return {
             rootFilePath: this.currentRootFilePath,
             files: projectFileAstArray,
+            includeTree: this.includeTree,
+            flattenedAst: this.config.flatten ? this.flattenedAst : undefined,
+            inclusionControl: this.inclusionControl ?? undefined,
+            rootRedirection: this.rootRedirection ?? undefined,
+            localPackages: this.packageLoader ? this.packageLoader.getLoadedPackages() : undefined,
+            usedPackages: this.definitionHandler.getUsedPackages(),
+            rootMagicComments: this.rootMagicComments ?? undefined,
             macros: allDefinitions.finalEffectiveMacros, // 顶层 `macros` 字段使用最终生效的宏列表
             _detailedMacros: {                         // `_detailedMacros` 提供更详细的分类信息
                 defaultAndUser: allDefinitions.defaultAndUserMacros,
+                ctanPackages: allDefinitions.ctanPackageMacros,
                 definedInDocument: allDefinitions.definedInDocumentMacros,
+                packageLocal: allDefinitions.packageLocalMacros,
                 inferredUsed: allDefinitions.inferredUsedMacros,
                 finalEffectiveMacros: allDefinitions.finalEffectiveMacros,
             },
@@ -198,19 +477,45 @@ export class ProjectProcessor {
                 ctanEnvironments: allDefinitions.ctanEnvironments,
                 userProvidedEnvironments: allDefinitions.userProvidedEnvironments,
                 definedInDocumentEnvironments: allDefinitions.definedInDocumentEnvironments,
+                packageLocalEnvironments: allDefinitions.packageLocalEnvironments,
+                inferredUsedEnvironments: allDefinitions.inferredUsedEnvironments,
                 finalEffectiveEnvironments: allDefinitions.finalEffectiveEnvironments,
             },
+            definitionProvenance: this.definitionHandler.getDefinitionProvenance(),
+            definitionTimeline: this.definitionHandler.getDefinitionTimeline(),
+            definitionDiagnostics: this.definitionDiagnostics.length > 0 ? [...this.definitionDiagnostics] : undefined,
+            inferredMacroSignatures: this.definitionHandler.getInferredMacroSignatures(),
+            inferredEnvironmentSignatures: this.definitionHandler.getInferredEnvironmentSignatures(),
+            theoremEnvironments: this.definitionHandler.getTheoremEnvironments(),
             errors: this.projectGlobalErrors.length > 0 ? [...this.projectGlobalErrors] : undefined,
             _processingInfo: {
                 timestamp: new Date().toISOString(),
-                parserVersion: version 
+                parserVersion: version,
+                reprocessingPasses: this.reprocessingPasses,
             }
         };
     }
 
+    /**
+     * (私有) 跟随 `% !TeX root = ...` 魔法注释找到真正的根文件 (参见 {@link resolveMagicRoot})。
+     * 发生重定向时记录到 {@link rootRedirection}；最终根文件的魔法注释记录到 {@link rootMagicComments}。
+     * @param startFilePath - 初步确定的根文件路径 (已规范化)。
+     * @returns 最终根文件的规范化路径。
+     */
+    private async followRootMagicComments(startFilePath: string): Promise<string> {
+        const resolution = await resolveMagicRoot(startFilePath);
+        if (resolution.warning) {
+            this.logger.warn(resolution.warning);
+            this.projectGlobalErrors.push(resolution.warning);
+        }
+        this.rootRedirection = resolution.redirection;
+        this.rootMagicComments = resolution.magicComments;
+        return normalizePath(resolution.rootFilePath);
+    }
+
     /**
      * (私有) 确定项目的根 TeX 文件。
-     * 此逻辑迁移并适配自原 `ProjectParser.determineRootFile`。
+     * 候选的查找和排名由 {@link findRootFileCandidates} 完成，此方法负责记录错误和歧义。
      * @param entryPathFromConfig - 从配置中获取的、已经过初步解析的入口路径（可能是文件或目录）。
      * @param baseDirForResolution - 用于解析 `entryPathFromConfig` 的基础目录 (通常是 CWD 或 entryPath 的父目录)。
      * @returns 返回根文件的绝对规范化路径，如果找不到则为 `null`。
@@ -227,67 +532,30 @@ export class ProjectProcessor {
         }
 
         const stats = await getFileStatsAsync(resolvedEntryPath);
+        if (!stats.isFile() && !stats.isDirectory()) {
+            const notFileOrDirMsg = `指定的入口路径 '${resolvedEntryPath}' 既不是文件也不是目录。`;
+            this.projectGlobalErrors.push(notFileOrDirMsg);
+            this.logger.warn(notFileOrDirMsg);
+            return null;
+        }
 
-        if (stats.isFile()) {
-            if (isTexFile(resolvedEntryPath)) {
-                this.logger.info(`入口路径 '${resolvedEntryPath}' 是一个 TeX 文件，将其作为根文件。`);
-                return normalizePath(resolvedEntryPath); 
-            }
-            const err = `入口文件 '${resolvedEntryPath}' 不是一个有效的 TeX 文件。`;
+        const candidates = await findRootFileCandidates(resolvedEntryPath);
+        if (candidates.length === 0) {
+            const err = stats.isFile()
+                ? `入口文件 '${resolvedEntryPath}' 不是一个有效的 TeX 文件。`
+                : `在目录 ${resolvedEntryPath} 中未能找到可识别的根 TeX 文件。`;
             this.projectGlobalErrors.push(err);
             this.logger.warn(err);
             return null;
         }
 
-        if (stats.isDirectory()) {
-            this.logger.debug(`入口路径 '${resolvedEntryPath}' 是一个目录，开始在目录中搜索根文件。`);
-            // 策略1: 检查常见的根文件名
-            const commonRootFileNames = ['main.tex', 'root.tex', 'master.tex', 'document.tex', 'thesis.tex'];
-            for (const fileName of commonRootFileNames) {
-                const filePath = normalizePath(joinPaths(resolvedEntryPath, fileName));
-                if (await fileExistsAsync(filePath)) {
-                    this.logger.info(`在目录中找到常见根文件名: ${filePath}`);
-                    return filePath;
-                }
-            }
-            this.logger.debug('未找到常见根文件名，开始扫描目录中的 .tex 文件以查找包含 \\documentclass 的文件。');
-            // 策略2: 查找包含 \documentclass 的文件
-            const texFiles = await findTexFiles(resolvedEntryPath);
-            const rootCandidates: string[] = [];
-            for (const texFile of texFiles) {
-                try {
-                    const content = await readFileAsync(texFile);
-                    if (isRootFileContent(content)) {
-                        rootCandidates.push(normalizePath(texFile));
-                    }
-                } catch (error) {
-                    this.logger.warn(`读取文件 ${texFile} 以检查根文件内容时出错: ${error instanceof Error ? error.message : String(error)}`);
-                }
-            }
-
-            if (rootCandidates.length === 1) {
-                this.logger.info(`找到唯一包含根文件标识的候选文件: ${rootCandidates[0]}`);
-                return rootCandidates[0];
-            } else if (rootCandidates.length > 1) {
-                const msg = `在目录 '${resolvedEntryPath}' 中发现多个可能的根文件: ${rootCandidates.join(', ')}。将使用第一个找到的: ${rootCandidates[0]}`;
-                this.logger.warn(msg);
-                // 可以选择是否将此作为全局错误记录，取决于严格程度
-                // this.projectGlobalErrors.push(msg);
-                return rootCandidates[0];
-            }
-
-            const dirMsg = `在目录 ${resolvedEntryPath} 中未能找到可识别的根 TeX 文件。`;
-            this.projectGlobalErrors.push(dirMsg);
-            this.logger.warn(dirMsg);
-            return null;
+        const [best, ...others] = candidates;
+        const tied = others.filter(candidate => candidate.score === best.score);
+        if (tied.length > 0) {
+            const msg = `在 '${resolvedEntryPath}' 中发现多个同等可能的根文件: ${[best, ...tied].map(c => c.filePath).join(', ')}。将使用: ${best.filePath}`;
+            this.logger.warn(msg);
         }
-
-        const notFileOrDirMsg = `指定的入口路径 '${resolvedEntryPath}' 既不是文件也不是目录。`;
-        this.projectGlobalErrors.push(notFileOrDirMsg);
-        this.logger.warn(notFileOrDirMsg);
-        return null;
+        this.logger.info(`根文件确定为 ${best.filePath} (理由: ${best.reasons.join(', ')})`);
+        return normalizePath(best.filePath);
     }
 }
-
-// findRootFileUtility 保持不变或移除，因为它依赖于私有方法或临时实例
-// 更好的做法是在需要时，由外部代码直接实例化 ProjectProcessor 并调用 parse 
\ No newline at end of file
@@ -10,6 +10,8 @@ import { ProjectProcessor } from './core/ProjectProcessor';
 import type { ParserOptions, ProjectAST } from './types/index'; // 确保从 types/index.ts 导入
 // import { processParserOptions } from './config/configManager'; // ProjectProcessor 内部会处理配置
 import { Logger, createLogger, setGlobalLogLevel, LoggerLogLevel } from './utils/logger';
+import { findRootFileCandidates, resolveMagicRoot } from './latex-utils/projectFileUtils';
+import { resolvePath } from './utils/pathUtils';
 
 const libraryLogger = createLogger('latex-ast-parser:library');
 
@@ -38,18 +40,57 @@ export async function parseLatexProject(options: ParserOptions): Promise<Project
 // --- 辅助工具和类型 --- 
 
 export { serializeProjectAstToJson, saveAstDataAsJson } from './ast/AstSerializer';
+export { flattenProjectFiles, isInlinedFileNode, INLINED_FILE_ENV } from './ast/AstFlattener';
+export { getDefinitionsInEffectAt } from './core/DefinitionTimeline';
+export { locate } from './ast/SourceLocator';
+export { printLatex, checkRoundTrip } from './ast/AstPrinter';
+export { exportDiscoveredDefinitions } from './ast/DefinitionExporter';
+export { validateMacroRecord, validateEnvironmentRecord, formatConfigValidationIssue } from './config/definitionFileSchema';
+export type { DefinitionRecordValidationResult } from './config/definitionFileSchema';
 
 // --- 核心类型定义 --- 
 export type {
   Ast,
   ProjectAST,
   ProjectFileAst,
+  IncludeTreeNode,
+  IncludedFileReference,
+  InclusionDirectives,
+  IncludeCommandConfig,
+  TexMagicComments,
+  RootRedirection,
+  RootFileCandidate,
+  RootCandidateReason,
+  PackageReference,
+  LocalPackageFile,
+  InlinedFileNode,
+  SourceLocation,
+  PrintLatexOptions,
+  RoundTripResult,
+  RoundTripDifference,
   ParserOptions,
   CliOptions,
   ResolvedParserConfig,
+  ConfigValidationIssue,
   NewCommandSpec,
   NewEnvironmentSpec,
+  TheoremSpec,
+  VerbatimEnvironmentInfo,
+  CodeBlockNode,
+  LearnedVerbatimEnvironmentNode,
   EnvironmentParameter,
+  XparseArgument,
+  ExpandedMacroNode,
+  DefinitionCategory,
+  DefinitionProvenance,
+  DefinitionTimelineEntry,
+  DefinitionDiagnostic,
+  DefinitionDiagnosticCode,
+  DiagnosedDefinitionNode,
+  InferredMacroUsage,
+  InferredMacroSignature,
+  ExportedDefinition,
+  DiscoveredDefinitions,
   // InternalFileParseResult, // 通常不作为公共API导出
 } from './types/index';
 
@@ -71,22 +112,28 @@ export { LoggerLogLevel };
 
 /**
  * (辅助函数，如果需要独立于完整解析之外确定根文件)
- * 查找LaTeX项目的根文件。
- * 注意：这是一个简化版本，更推荐通过 `parseLatexProject` 进行完整的项目处理，它内部会执行更可靠的根文件判断。
+ * 查找LaTeX项目的根文件，逻辑与 `parseLatexProject` 内部使用的完全相同：
+ * 取排名最高的候选 (参见 {@link findRootFileCandidates})，再跟随其 `% !TeX root` 魔法注释。
  * @param entryPath - 入口路径（文件或目录）。
  * @param CWD - （可选）当前工作目录，用于解析相对路径。默认为 `process.cwd()`。
  * @returns 根文件的绝对路径，如果找不到则为 `null`。
  */
 export async function findRootFile(entryPath: string, CWD: string = process.cwd()): Promise<string | null> {
     libraryLogger.info(`(辅助工具) 尝试查找根文件，入口: ${entryPath}`);
-    // 此函数需要 ProjectProcessor 的 determineRootFile 逻辑。
-    // 为避免循环依赖或不必要的实例化，最好将 determineRootFile 的核心逻辑移至一个独立的工具函数中，
-    // 例如 projectFileUtils.ts，然后 ProjectProcessor 和此处的 findRootFile 都可以调用它。
-    // 目前的 ProjectProcessor.determineRootFile 是私有的且依赖实例状态。
-    // 因此，这里我们仅作标记，实际实现需要重构 determineRootFile。
-    libraryLogger.warn('findRootFile 功能的当前实现依赖于内部 ProjectProcessor 逻辑的重构。目前可能无法准确工作。');
-    // 临时的 ProjectProcessor 实例化 (不推荐用于生产，因其内部状态)
-    // const tempProcessor = new ProjectProcessor(); 
-    // return (tempProcessor as any).determineRootFile(entryPath, CWD); // 调用私有方法是不可取的
-    return null; // 暂时返回 null
-} 
\ No newline at end of file
+    const candidates = await findRootFileCandidates(resolvePath(CWD, entryPath));
+    if (candidates.length === 0) {
+        libraryLogger.warn(`未能在 ${entryPath} 中找到根文件。`);
+        return null;
+    }
+    const resolution = await resolveMagicRoot(candidates[0].filePath);
+    if (resolution.warning) {
+        libraryLogger.warn(resolution.warning);
+    }
+    return resolution.rootFilePath;
+}
+
+export { findRootFileCandidates, resolveMagicRoot } from './latex-utils/projectFileUtils';
+export type { MagicRootResolution } from './latex-utils/projectFileUtils';
+
+// --- xparse 参数规范工具 ---
+export { parseXparseArgSpec, xparseArgSpecToSignature } from './latex-utils/xparseArgSpec';
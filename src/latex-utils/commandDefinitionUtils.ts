@@ -4,73 +4,647 @@
  * 提供从 AST 中提取宏定义和环境定义的底层功能函数。
  * 这些函数通常直接与 `unified-latex` 的 AST 结构和工具库交互。
  */
-import type { Ast, NewCommandSpec, NewEnvironmentSpec, EnvironmentParameter } from '../types/index';
+import type { Ast, NewCommandSpec, NewEnvironmentSpec, EnvironmentParameter, XparseArgument, TheoremSpec } from '../types/index';
 import { UtilNewCommandSpec, listNewcommands as unifiedListNewcommands } from '@unified-latex/unified-latex-util-macros';
 import { Matcher, VisitorFn, visit, createMacroMatcher, VisitInfo } from './astQuery';
-import { printRaw } from './unifiedLatexBridge';
+import { printRaw, attachMacroArgs } from './unifiedLatexBridge';
+import { parseXparseArgSpec, xparseArgSpecToSignature } from './xparseArgSpec';
+import { findLanguageOption } from './verbatimEnvironments';
 import { Logger, createLogger } from '../utils/logger';
 
 const logger: Logger = createLogger('latex-utils:commandDefinitionUtils');
 
 // --- 宏定义提取 --- 
 /**
- * 从给定的 AST 中提取通过 `\newcommand`, `\renewcommand` 等 LaTeX 命令定义的宏。
- * 这是对 `@unified-latex/unified-latex-util-macros` 包中 `listNewcommands` 函数的直接使用。
+ * TeX 原语的宏定义命令 (`\def` 族)。它们的参数文本 (例如 `#1#2` 或 `(#1,#2)`) 不是标准参数，
+ * 原始解析器不会为其附加参数，`listNewcommands` 也不识别它们。
+ */
+export const PRIMITIVE_DEFINERS = new Set([
+    "def",
+    "gdef",
+    "edef",
+    "xdef",
+]);
+
+/**
+ * 参数形式与 `\newcommand` 相同、但 `listNewcommands` 不识别的 LaTeX 内核定义命令，及其签名。
+ */
+const NEWCOMMAND_LIKE_DEFINERS: Record<string, string> = {
+    "DeclareRobustCommand": "s +m o +o +m",
+};
+
+/**
+ * 宏包提供的、定义固定形式的宏的命令：附加参数时使用的签名、由参数得出的宏名称以及所定义的宏的签名。
+ */
+const PACKAGE_COMMAND_DEFINERS: Record<string, { signature: string; name: (args: Ast.Argument[]) => string | undefined; definedSignature: string }> = {
+    // minted：\newmintedfile[macroname]{language}{options} 定义 \<language>file[options]{filename}
+    "newmintedfile": { signature: "o m m", name: args => argumentText(args[0])?.replace(/^\\/, '') ?? suffixedName(args[1], "file"), definedSignature: "o m" },
+};
+
+/**
+ * 从给定的 AST 中提取宏定义。
+ * - `\newcommand`、`\renewcommand`、`\providecommand` 和 xparse 命令由 `@unified-latex/unified-latex-util-macros`
+ *   包中的 `listNewcommands` 提取；xparse 命令的参数规范经 {@link xparseArgSpecToSignature} 转换为签名。
+ * - `\DeclareRobustCommand` 按 `\newcommand` 的参数形式提取。
+ * - {@link PACKAGE_COMMAND_DEFINERS} 中的宏包命令 (例如 minted 的 `\newmintedfile`) 定义的宏使用固定的签名。
+ * - `\def`/`\gdef`/`\edef`/`\xdef` 的参数文本被转换为签名，参见 {@link defParameterTextToSignature}。
+ * - `\let\new\old` 被记录为别名 ({@link NewCommandSpec.aliasOf})，签名由调用方根据目标宏确定。
+ *
+ * 注意：为 `\DeclareRobustCommand` 附加参数以及修正 `\def`/`\let` 中被误附加参数的宏会原地修改 AST。
  * 
  * @param tree - 要扫描的 LaTeX AST 的根节点。
- * @returns {@link NewCommandSpec} 对象的数组，每个对象描述一个新定义的宏。
+ * @returns {@link NewCommandSpec} 对象的数组 (按定义在文档中出现的顺序)，每个对象描述一个新定义的宏。
  */
 export function extractNewCommands(tree: Ast.Ast): NewCommandSpec[] {
   const specs: UtilNewCommandSpec[] = unifiedListNewcommands(tree);
   logger.debug(`提取到 ${specs.length} 个宏定义 (UtilNewCommandSpec)。`);
-  return specs.map((spec: UtilNewCommandSpec): NewCommandSpec => ({
+  const commandSpecs = specs.map((spec: UtilNewCommandSpec): NewCommandSpec => ({
       ...spec,
       name: spec.name.startsWith('\\') ? spec.name.substring(1) : spec.name,
+      signature: XPARSE_COMMAND_DEFINERS.has(spec.definition?.content) ? xparseArgSpecToSignature(spec.signature) : spec.signature,
   }));
+  const primitiveSpecs = listPrimitiveDefinitions(tree);
+  logger.debug(`提取到 ${primitiveSpecs.length} 个由 \\def/\\let/\\DeclareRobustCommand 等定义的宏。`);
+  const allSpecs = [...commandSpecs, ...primitiveSpecs];
+  // 别名需要按文档顺序解析，因此在位置信息完整时按出现位置排序
+  if (allSpecs.every(spec => spec.definition.position)) {
+    allSpecs.sort((a, b) => a.definition.position!.start.offset - b.definition.position!.start.offset);
+  }
+  return allSpecs;
 }
 
-// --- 环境定义提取 (从原 environment-parser/*) ---
 /**
- * 标准的环境定义命令 (如 \newenvironment)
+ * 将 `\def` 的参数文本转换为参数签名。
+ * - 无定界的参数 (`#1#2`) 转换为 `m`。
+ * - 以单个字符定界的参数 (`#1,`) 转换为 `u` (例如 `u,`)，读取到该字符为止。
+ * - 参数文本以单个字符开头且第一个参数以单个字符定界时 (`(#1,#2)`)，第一个参数转换为 `r` (例如 `r(,`)。
+ * 多字符定界符无法由参数附加逻辑表示，遇到时签名在此截断；无法表示的前导文本会使签名为空。
+ * @param parameterText - 宏名称与定义体之间的参数文本，例如 `"(#1,#2)"`。
+ * @returns 参数签名字符串，例如 `"r(, u)"`。
+ */
+export function defParameterTextToSignature(parameterText: string): string {
+    const parts = parameterText.trim().split(/#[1-9]/);
+    if (parts.length === 1) {
+        return "";
+    }
+    const leadingText = parts[0].trim();
+    const signatureParts: string[] = [];
+    for (const delimiter of parts.slice(1).map(part => part.trim())) {
+        if (delimiter === "") {
+            signatureParts.push("m");
+        } else if (delimiter.length === 1) {
+            signatureParts.push(`u${delimiter}`);
+        } else {
+            logger.debug(`\\def 参数文本 '${parameterText}' 含有多字符定界符 '${delimiter}'，签名在此截断。`);
+            break;
+        }
+    }
+    if (leadingText !== "") {
+        if (leadingText.length === 1 && signatureParts[0]?.startsWith("u")) {
+            signatureParts[0] = `r${leadingText}${signatureParts[0].substring(1)}`;
+        } else {
+            logger.debug(`\\def 参数文本 '${parameterText}' 的前导文本 '${leadingText}' 无法表示为签名。`);
+            return "";
+        }
+    }
+    return signatureParts.join(" ");
+}
+
+/**
+ * 判断节点是否为空白或注释 (TeX 在读取 `\def`/`\let` 的各部分时会跳过它们)。
+ */
+function isSkippableNode(node: Ast.Ast | undefined): boolean {
+    return !!node && (node.type === 'whitespace' || node.type === 'comment' || node.type === 'parbreak');
+}
+
+/**
+ * 返回 `nodes` 中从 `start` 开始的第一个非空白、非注释节点的下标；找不到时返回 -1。
+ */
+function nextSignificantIndex(nodes: Ast.Ast[], start: number): number {
+    for (let i = start; i < nodes.length; i++) {
+        if (!isSkippableNode(nodes[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * 修正作为 `\def`/`\let` 操作数出现的宏节点。
+ * 原始解析器会为已知宏附加参数 (例如 `\let\oldsection\section` 中的 `\section` 会吞掉下一行的内容)，
+ * 但这些宏在此处并未被调用：其参数被放回兄弟节点中，并将 `args` 置为空数组，防止后续再次附加。
+ * 参数节点不记录是否带花括号；只含单个宏或单个字符的必选参数视为未加花括号的单个记号。
+ * @param nodes - 宏节点所在的数组。
+ * @param index - 宏节点的下标。
+ */
+function detachOperandMacroArgs(nodes: Ast.Ast[], index: number): void {
+    const macro = nodes[index] as Ast.Macro;
+    const restored: Ast.Ast[] = [];
+    for (const arg of macro.args || []) {
+        const isSingleToken = arg.content.length === 1 &&
+            (arg.content[0].type === 'macro' || (arg.content[0].type === 'string' && (arg.content[0] as Ast.String).content.length === 1));
+        if (arg.openMark === '{' && !isSingleToken) {
+            restored.push({ type: 'group', content: arg.content });
+        } else if (arg.openMark && arg.openMark !== '{') {
+            restored.push({ type: 'string', content: arg.openMark }, ...arg.content, { type: 'string', content: arg.closeMark });
+        } else {
+            restored.push(...arg.content);
+        }
+    }
+    macro.args = [];
+    nodes.splice(index + 1, 0, ...restored);
+}
+
+/**
+ * 按 `\newcommand` 的参数形式 (`s +m o +o +m`) 计算宏定义的签名。
+ * @param node - 已附加参数的定义宏节点。
+ * @returns 参数签名字符串，例如 `"O{x} m"`。
+ */
+function newcommandLikeMacroToSignature(node: Ast.Macro): string {
+    const numArgsArg = node.args?.[2];
+    if (!numArgsArg || numArgsArg.content.length === 0) {
+        return "";
+    }
+    let numArgs = parseInt(printRaw(numArgsArg.content), 10);
+    if (isNaN(numArgs) || numArgs <= 0) {
+        return "";
+    }
+    const parts: string[] = [];
+    const defaultArg = node.args?.[3];
+    if (defaultArg && defaultArg.openMark === '[') {
+        parts.push(`O{${printRaw(defaultArg.content)}}`);
+        numArgs--;
+    }
+    for (let i = 0; i < numArgs; i++) {
+        parts.push("m");
+    }
+    return parts.join(" ");
+}
+
+/**
+ * 列出 `listNewcommands` 不识别的宏定义：{@link NEWCOMMAND_LIKE_DEFINERS}、{@link PACKAGE_COMMAND_DEFINERS}、{@link PRIMITIVE_DEFINERS} 和 `\let`。
+ * `\def` 族和 `\let` 不带参数，它们的操作数是同一节点数组中紧随其后的兄弟节点，因此按节点数组扫描。
+ * @param tree - 要扫描的 LaTeX AST。
+ * @returns {@link NewCommandSpec} 对象的数组。
+ */
+function listPrimitiveDefinitions(tree: Ast.Ast): NewCommandSpec[] {
+    const specs: NewCommandSpec[] = [];
+    const newcommandLikeSignatures: Ast.MacroInfoRecord = {};
+    for (const [definer, signature] of Object.entries(NEWCOMMAND_LIKE_DEFINERS)) {
+        newcommandLikeSignatures[definer] = { signature };
+    }
+    for (const [definer, { signature }] of Object.entries(PACKAGE_COMMAND_DEFINERS)) {
+        newcommandLikeSignatures[definer] = { signature };
+    }
+    attachMacroArgs(tree as Ast.Root, newcommandLikeSignatures);
+
+    const scanNodes = (nodes: Ast.Ast[]): void => {
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i];
+            if (node.type !== 'macro') {
+                continue;
+            }
+            const definer = (node as Ast.Macro).content;
+            if (PACKAGE_COMMAND_DEFINERS[definer]) {
+                const name = PACKAGE_COMMAND_DEFINERS[definer].name(node.args || []);
+                if (name) {
+                    specs.push({ name, signature: PACKAGE_COMMAND_DEFINERS[definer].definedSignature, body: [], definition: node as Ast.Macro });
+                }
+                continue;
+            }
+            if (NEWCOMMAND_LIKE_DEFINERS[definer]) {
+                const nameArg = node.args?.[1];
+                const name = nameArg ? printRaw(nameArg.content).trim().replace(/^\\/, '') : '';
+                if (name) {
+                    specs.push({
+                        name,
+                        signature: newcommandLikeMacroToSignature(node as Ast.Macro),
+                        body: (node.args?.[4]?.content || []) as Ast.Ast[],
+                        definition: node as Ast.Macro,
+                    });
+                }
+                continue;
+            }
+            if (!PRIMITIVE_DEFINERS.has(definer) && definer !== 'let') {
+                continue;
+            }
+            const nameIndex = nextSignificantIndex(nodes, i + 1);
+            if (nameIndex === -1 || nodes[nameIndex].type !== 'macro') {
+                logger.debug(`\\${definer} 之后没有宏名称，已忽略。`);
+                continue;
+            }
+            detachOperandMacroArgs(nodes, nameIndex);
+            const name = (nodes[nameIndex] as Ast.Macro).content;
+
+            if (definer === 'let') {
+                // \let\new\old 或 \let\new=\old (等号两侧可有空白)
+                let targetIndex = nextSignificantIndex(nodes, nameIndex + 1);
+                const equalsNode = nodes[targetIndex];
+                if (equalsNode?.type === 'string' && (equalsNode as Ast.String).content === '=') {
+                    targetIndex = nextSignificantIndex(nodes, targetIndex + 1);
+                }
+                const target = targetIndex === -1 ? undefined : nodes[targetIndex];
+                if (target?.type === 'macro') {
+                    detachOperandMacroArgs(nodes, targetIndex);
+                }
+                specs.push({
+                    name,
+                    signature: '',
+                    body: target ? [target] : [],
+                    definition: node as Ast.Macro,
+                    aliasOf: target?.type === 'macro' ? (target as Ast.Macro).content : undefined,
+                    source: printRaw(nodes.slice(i, targetIndex === -1 ? nameIndex + 1 : targetIndex + 1)),
+                });
+                i = targetIndex === -1 ? nameIndex : targetIndex;
+                continue;
+            }
+
+            // \def\name<参数文本>{<定义体>}
+            let bodyIndex = nameIndex + 1;
+            while (bodyIndex < nodes.length && nodes[bodyIndex].type !== 'group') {
+                bodyIndex++;
+            }
+            if (bodyIndex >= nodes.length) {
+                logger.debug(`\\${definer}\\${name} 之后没有找到定义体，已忽略。`);
+                continue;
+            }
+            const parameterText = printRaw(nodes.slice(nameIndex + 1, bodyIndex));
+            specs.push({
+                name,
+                signature: defParameterTextToSignature(parameterText),
+                body: nodes[bodyIndex].content as Ast.Ast[],
+                definition: node as Ast.Macro,
+                source: printRaw(nodes.slice(i, bodyIndex + 1)),
+            });
+            // 定义体中可能还有嵌套定义，交给下面的递归处理
+            i = bodyIndex - 1;
+        }
+        for (const node of nodes) {
+            if (Array.isArray(node.content)) {
+                scanNodes(node.content);
+            }
+            if (Array.isArray(node.args)) {
+                for (const arg of node.args as Ast.Argument[]) {
+                    scanNodes(arg.content);
+                }
+            }
+        }
+    };
+
+    if (Array.isArray(tree.content)) {
+        scanNodes(tree.content);
+    }
+    return specs;
+}
+
+/**
+ * xparse 的宏定义命令。它们的第 2 个参数是 xparse 参数规范。
  */
-export const STANDARD_ENVIRONMENT_DEFINERS = new Set([
-    "newenvironment",
-    "renewenvironment",
-    "provideenvironment",
+export const XPARSE_COMMAND_DEFINERS = new Set([
+    "NewDocumentCommand",
+    "RenewDocumentCommand",
+    "ProvideDocumentCommand",
+    "DeclareDocumentCommand",
+    "NewExpandableDocumentCommand",
+    "RenewExpandableDocumentCommand",
+    "ProvideExpandableDocumentCommand",
+    "DeclareExpandableDocumentCommand",
 ]);
 
 /**
- * tcolorbox 包的环境定义命令
+ * 已知的宏定义命令 (LaTeX2e、xparse 以及 TeX 原语)。
+ * 出现在这些命令参数中的宏调用属于定义体，而不是实际调用。
  */
-export const TCOLORBOX_ENVIRONMENT_DEFINERS = new Set([
-    "newtcolorbox",
-    "DeclareTColorBox",
+export const COMMAND_DEFINERS = new Set([
+    "newcommand",
+    "renewcommand",
+    "providecommand",
+    "DeclareRobustCommand",
+    ...XPARSE_COMMAND_DEFINERS,
+    ...Object.keys(PACKAGE_COMMAND_DEFINERS),
+    "def",
+    "gdef",
+    "edef",
+    "xdef",
 ]);
 
+// --- 环境定义提取 (从原 environment-parser/*) ---
+/**
+ * 环境定义命令的参数签名的读取方式：
+ * - 字符串：固定的环境签名 (例如浮动体的 `o`)；
+ * - `numArgsIndex`/`defaultIndex`：`\newenvironment` 形式的 `[参数个数][默认值]`；
+ * - `argSpecIndex`：xparse 参数规范所在的参数。
+ */
+type EnvironmentDefinerSignature =
+    | string
+    | { numArgsIndex: number; defaultIndex: number }
+    | { argSpecIndex: number };
+
+/**
+ * 一个环境定义命令的参数布局。下标指附加参数后 `args` 中的位置，取决于 DefinitionHandler 默认宏
+ * (或原始解析器) 为该命令使用的签名。
+ */
+interface EnvironmentDefinerInfo {
+    /** 提供该命令的宏包，作为 {@link NewEnvironmentSpec.packageSource} */
+    packageSource: string;
+    /** 环境名所在参数的下标；为函数时由参数计算 (例如 `\newminted` 的 `<语言>code`) */
+    name: number | ((args: Ast.Argument[]) => Ast.Argument | string | undefined);
+    /** 环境参数签名的读取方式 */
+    signature: EnvironmentDefinerSignature;
+    /** 开始代码和结束代码所在参数的下标 */
+    beginCodeIndex?: number;
+    endCodeIndex?: number;
+    /** tcolorbox 键值对选项所在参数的下标 */
+    optionsIndex?: number;
+    /** enumitem 列表类型 (`enumerate`/`itemize`/`description`) 所在参数的下标 */
+    listTypeIndex?: number;
+    /** 命令是否同时定义与环境同名的计数器 (浮动体) */
+    definesCounter?: boolean;
+    /** 定义的是逐字环境时设置；`language` 由参数得出代码的语言 */
+    verbatim?: { language?: (args: Ast.Argument[]) => string | undefined };
+    /** `'new'`：名称必须尚未定义；`'renew'`：名称必须已经定义。未设置时不检查 */
+    mode?: 'new' | 'renew';
+}
+
+/** (内部) 第一个花括号参数，用于参数个数不固定的命令 (`\newtheorem`、`\declaretheorem`) */
+const firstBracedArgument = (args: Ast.Argument[]): Ast.Argument | undefined => args.find(arg => arg.openMark === '{');
+
+/**
+ * 已知的环境定义命令及其参数布局。新增定义命令时在此登记，并在 DefinitionHandler 的默认宏中提供对应的签名。
+ */
+const ENVIRONMENT_DEFINERS: Record<string, EnvironmentDefinerInfo> = {
+    // LaTeX 内核：\newenvironment{name}[n][default]{begin}{end}，原始解析器按 `s m o o m m` 附加参数
+    newenvironment: { packageSource: "latex2e", name: 2, signature: { numArgsIndex: 3, defaultIndex: 4 }, beginCodeIndex: 5, endCodeIndex: 6, mode: 'new' },
+    renewenvironment: { packageSource: "latex2e", name: 2, signature: { numArgsIndex: 3, defaultIndex: 4 }, beginCodeIndex: 5, endCodeIndex: 6, mode: 'renew' },
+    provideenvironment: { packageSource: "latex2e", name: 2, signature: { numArgsIndex: 3, defaultIndex: 4 }, beginCodeIndex: 5, endCodeIndex: 6 },
+    // xparse：\NewDocumentEnvironment{name}{spec}{begin}{end}
+    NewDocumentEnvironment: { packageSource: "xparse", name: 0, signature: { argSpecIndex: 1 }, beginCodeIndex: 2, endCodeIndex: 3, mode: 'new' },
+    RenewDocumentEnvironment: { packageSource: "xparse", name: 0, signature: { argSpecIndex: 1 }, beginCodeIndex: 2, endCodeIndex: 3, mode: 'renew' },
+    ProvideDocumentEnvironment: { packageSource: "xparse", name: 0, signature: { argSpecIndex: 1 }, beginCodeIndex: 2, endCodeIndex: 3 },
+    DeclareDocumentEnvironment: { packageSource: "xparse", name: 0, signature: { argSpecIndex: 1 }, beginCodeIndex: 2, endCodeIndex: 3 },
+    // tcolorbox：\newtcolorbox[init]{name}[n][default]{options}；\NewTColorBox[init]{name}{spec}{options}
+    newtcolorbox: { packageSource: "tcolorbox", name: 1, signature: { numArgsIndex: 2, defaultIndex: 3 }, optionsIndex: 4, mode: 'new' },
+    NewTColorBox: { packageSource: "tcolorbox", name: 1, signature: { argSpecIndex: 2 }, optionsIndex: 3, mode: 'new' },
+    RenewTColorBox: { packageSource: "tcolorbox", name: 1, signature: { argSpecIndex: 2 }, optionsIndex: 3, mode: 'renew' },
+    ProvideTColorBox: { packageSource: "tcolorbox", name: 1, signature: { argSpecIndex: 2 }, optionsIndex: 3 },
+    DeclareTColorBox: { packageSource: "tcolorbox", name: 1, signature: { argSpecIndex: 2 }, optionsIndex: 3 },
+    // tcolorbox 库 (\tcbuselibrary{theorems}/{listings})：\newtcbtheorem[init]{name}{display name}{options}{prefix} 的环境接受 {标题}{标签}
+    newtcbtheorem: { packageSource: "tcolorbox", name: 1, signature: "m m", optionsIndex: 3, mode: 'new' },
+    newtcblisting: { packageSource: "tcolorbox", name: 1, signature: { numArgsIndex: 2, defaultIndex: 3 }, optionsIndex: 4, mode: 'new', verbatim: { language: args => findLanguageOption(printRaw(args[4]?.content || [])) } },
+    // 定理类环境
+    newtheorem: { packageSource: "amsthm", name: args => readNewtheoremArgs(args).nameArg, signature: "o", mode: 'new' },
+    declaretheorem: { packageSource: "thmtools", name: firstBracedArgument, signature: "o", mode: 'new' },
+    // enumitem：\newlist{name}{type}{max-depth}，列表环境接受 [options]
+    newlist: { packageSource: "enumitem", name: 0, signature: "o", listTypeIndex: 1, mode: 'new' },
+    renewlist: { packageSource: "enumitem", name: 0, signature: "o", listTypeIndex: 1, mode: 'renew' },
+    // mdframed：\newmdenv[options]{name}，环境接受 [options]
+    newmdenv: { packageSource: "mdframed", name: 1, signature: "o", mode: 'new' },
+    // 浮动体：\newfloat{type}{placement}{ext}[within] (float)、\DeclareFloatingEnvironment[options]{name} (newfloat)，环境接受 [placement]
+    newfloat: { packageSource: "float", name: 0, signature: "o", definesCounter: true },
+    DeclareFloatingEnvironment: { packageSource: "newfloat", name: 1, signature: "o", definesCounter: true },
+    // listings：\lstnewenvironment{name}[n][default]{begin}{end}
+    // 开始代码中的 \lstset{language=...} 给出代码的语言
+    lstnewenvironment: { packageSource: "listings", name: 0, signature: { numArgsIndex: 1, defaultIndex: 2 }, beginCodeIndex: 3, endCodeIndex: 4, mode: 'new', verbatim: { language: args => findLanguageOption(printRaw(args[3]?.content || [])) } },
+    // minted：\newminted[envname]{language}{options} 定义环境 envname，默认为 <language>code
+    newminted: { packageSource: "minted", name: args => argumentText(args[0]) ?? suffixedName(args[1], "code"), signature: "", mode: 'new', verbatim: { language: args => argumentText(args[1]) } },
+    // fancyvrb：\DefineVerbatimEnvironment{name}{base}{options}，环境接受 [options]
+    DefineVerbatimEnvironment: { packageSource: "fancyvrb", name: 0, signature: "o", verbatim: {} },
+    CustomVerbatimEnvironment: { packageSource: "fancyvrb", name: 0, signature: "o", mode: 'new', verbatim: {} },
+    RecustomVerbatimEnvironment: { packageSource: "fancyvrb", name: 0, signature: "o", mode: 'renew', verbatim: {} },
+};
+
+/**
+ * (内部) 返回提供者为给定宏包之一的环境定义命令集合。
+ */
+function environmentDefinersFrom(...packageSources: string[]): Set<string> {
+    return new Set(Object.keys(ENVIRONMENT_DEFINERS).filter(definer => packageSources.includes(ENVIRONMENT_DEFINERS[definer].packageSource)));
+}
+
+/**
+ * 标准的环境定义命令 (如 \newenvironment)
+ */
+export const STANDARD_ENVIRONMENT_DEFINERS = environmentDefinersFrom("latex2e");
+
+/**
+ * xparse 的环境定义命令。它们的第 2 个参数是 xparse 参数规范。
+ */
+export const XPARSE_ENVIRONMENT_DEFINERS = environmentDefinersFrom("xparse");
+
+/**
+ * tcolorbox 包 (及其 theorems、listings 库) 的环境定义命令
+ */
+export const TCOLORBOX_ENVIRONMENT_DEFINERS = environmentDefinersFrom("tcolorbox");
+
 /**
  * amsthm 包的定理类环境定义命令
  */
-export const AMSTHM_THEOREM_DEFINERS = new Set([
-    "newtheorem",
+export const AMSTHM_THEOREM_DEFINERS = environmentDefinersFrom("amsthm");
+
+/**
+ * thmtools 包的定理类环境定义命令。编号方式、标题和样式以键值对选项给出。
+ */
+export const THMTOOLS_THEOREM_DEFINERS = environmentDefinersFrom("thmtools");
+
+/**
+ * 所有定理类环境定义命令的集合。
+ */
+export const THEOREM_DEFINERS = new Set<string>([
+    ...AMSTHM_THEOREM_DEFINERS,
+    ...THMTOOLS_THEOREM_DEFINERS,
 ]);
 
+/**
+ * 切换后续定理类环境样式的命令 (`\theoremstyle{name}`)。
+ */
+const THEOREM_STYLE_COMMAND = "theoremstyle";
+
+/**
+ * 定义计数器的命令 (`\newcounter{name}[within]`)，用于识别与计数器配对的环境。
+ */
+const COUNTER_DEFINER = "newcounter";
+
+/**
+ * 未指定 `\theoremstyle` 时定理类环境使用的样式 (与 amsthm 一致)。
+ */
+export const DEFAULT_THEOREM_STYLE = "plain";
+
 /**
  * enumitem 包的列表环境定义命令。
  */
-export const ENUMITEM_LIST_DEFINERS = new Set([
-    "newlist",
-]);
+export const ENUMITEM_LIST_DEFINERS = environmentDefinersFrom("enumitem");
+
+/**
+ * 浮动体定义命令 (float 包的 `\newfloat`、newfloat 包的 `\DeclareFloatingEnvironment`)。
+ */
+export const FLOAT_ENVIRONMENT_DEFINERS = environmentDefinersFrom("float", "newfloat");
+
+/**
+ * 定义逐字环境的命令 (`\lstnewenvironment`、`\newminted`、`\newtcblisting` 和 fancyvrb 的命令)。这些环境的内容保留为原始文本。
+ */
+export const VERBATIM_ENVIRONMENT_DEFINERS = new Set(Object.keys(ENVIRONMENT_DEFINERS).filter(definer => ENVIRONMENT_DEFINERS[definer].verbatim));
 
 /**
  * 所有已知的环境定义命令的集合。
  */
-export const ALL_ENVIRONMENT_DEFINERS = new Set<string>([
-    ...STANDARD_ENVIRONMENT_DEFINERS,
-    ...TCOLORBOX_ENVIRONMENT_DEFINERS,
-    ...AMSTHM_THEOREM_DEFINERS,
-    ...ENUMITEM_LIST_DEFINERS,
+export const ALL_ENVIRONMENT_DEFINERS = new Set<string>(Object.keys(ENVIRONMENT_DEFINERS));
+
+/**
+ * 要求名称尚未定义的定义命令 (宏和环境)。对已定义的名称使用它们是 LaTeX 错误。
+ */
+export const NEW_DEFINERS = new Set([
+    "newcommand",
+    "NewDocumentCommand",
+    "NewExpandableDocumentCommand",
+    ...Object.keys(ENVIRONMENT_DEFINERS).filter(definer => ENVIRONMENT_DEFINERS[definer].mode === 'new'),
+]);
+
+/**
+ * 要求名称已经定义的重新定义命令 (宏和环境)。对未定义的名称使用它们是 LaTeX 错误。
+ */
+export const RENEW_DEFINERS = new Set([
+    "renewcommand",
+    "RenewDocumentCommand",
+    "RenewExpandableDocumentCommand",
+    ...Object.keys(ENVIRONMENT_DEFINERS).filter(definer => ENVIRONMENT_DEFINERS[definer].mode === 'renew'),
 ]);
 
+/**
+ * (内部) `\newtheorem` 各部分对应的参数。
+ */
+interface NewtheoremArgs {
+    starred: boolean;
+    nameArg?: Ast.Argument;
+    sharedCounterArg?: Ast.Argument;
+    titleArg?: Ast.Argument;
+    numberWithinArg?: Ast.Argument;
+}
+
+/**
+ * (内部) 按出现顺序识别 `\newtheorem*{name}[shared]{title}[within]` 的各个参数。
+ * 附加参数时使用的签名不同 (`s m o m o`、`s m o m` 或没有星号槽位) 时参数下标会变化，
+ * 因此跳过未出现的参数槽位，以第一个花括号参数为环境名、第二个为标题，标题之前的方括号参数为共用的计数器，之后的为上级计数器。
+ * @param args - 宏节点的参数数组。
+ */
+function readNewtheoremArgs(args: Ast.Argument[] | undefined): NewtheoremArgs {
+    const result: NewtheoremArgs = { starred: false };
+    for (const arg of args || []) {
+        if (arg.openMark === '{') {
+            if (!result.nameArg) {
+                result.nameArg = arg;
+            } else if (!result.titleArg) {
+                result.titleArg = arg;
+            }
+        } else if (arg.openMark === '[') {
+            if (result.titleArg) {
+                result.numberWithinArg = arg;
+            } else if (result.nameArg) {
+                result.sharedCounterArg = arg;
+            }
+        } else if (!result.nameArg && printRaw(arg.content).trim() === '*') {
+            result.starred = true;
+        }
+    }
+    return result;
+}
+
+/**
+ * (内部) 返回参数的原始文本 (去除首尾空白)；参数不存在或为空时返回 `undefined`。
+ */
+function argumentText(arg: Ast.Argument | undefined): string | undefined {
+    if (!arg?.content || !Array.isArray(arg.content)) {
+        return undefined;
+    }
+    const text = printRaw(arg.content).trim();
+    return text || undefined;
+}
+
+/**
+ * (内部) 解析 `key=value, key2={a,b}` 形式的键值对选项。顶层逗号分隔各项，值外层的花括号会被去除；没有 `=` 的项值为空字符串。
+ * @param text - 选项的原始文本。
+ * @returns 键到值的映射；重复的键以最后一次为准。
+ */
+function parseKeyValueOptions(text: string): Record<string, string> {
+    const options: Record<string, string> = {};
+    const items: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+        if (char === ',' && depth === 0) {
+            items.push(current);
+            current = '';
+            continue;
+        }
+        if (char === '{') depth++;
+        if (char === '}') depth = Math.max(0, depth - 1);
+        current += char;
+    }
+    items.push(current);
+    for (const item of items) {
+        const separator = item.indexOf('=');
+        const key = (separator >= 0 ? item.slice(0, separator) : item).trim();
+        if (!key) {
+            continue;
+        }
+        let value = separator >= 0 ? item.slice(separator + 1).trim() : '';
+        if (value.startsWith('{') && value.endsWith('}')) {
+            value = value.slice(1, -1).trim();
+        }
+        options[key] = value;
+    }
+    return options;
+}
+
+/**
+ * (内部) 生成 `\newtheorem` 定义的定理类环境的编号方式和样式。
+ */
+function newtheoremToTheoremSpec(node: Ast.Macro, style: string): TheoremSpec {
+    const { starred, sharedCounterArg, titleArg, numberWithinArg } = readNewtheoremArgs(node.args);
+    const title = argumentText(titleArg);
+    const sharedCounter = argumentText(sharedCounterArg);
+    const numberWithin = argumentText(numberWithinArg);
+    return {
+        ...(title !== undefined ? { title } : {}),
+        numbered: !starred,
+        ...(!starred && sharedCounter !== undefined ? { sharedCounter } : {}),
+        ...(!starred && numberWithin !== undefined ? { numberWithin } : {}),
+        style,
+    };
+}
+
+/**
+ * (内部) 生成 thmtools 的 `\declaretheorem[options]{name}` 定义的定理类环境的编号方式和样式。
+ * 选项也可以写在环境名之后 (`\declaretheorem{name}[options]`)。支持的键：
+ * `name`/`title`/`heading` (标题)、`numbered` (`no` 表示不编号)、`sibling`/`numberlike`/`sharenumber` (共用计数器)、
+ * `parent`/`numberwithin`/`within` (上级计数器) 和 `style`。
+ */
+function declaretheoremToTheoremSpec(node: Ast.Macro, envName: string, style: string): TheoremSpec {
+    const options: Record<string, string> = {};
+    for (const arg of node.args || []) {
+        if (arg.openMark === '[') {
+            Object.assign(options, parseKeyValueOptions(printRaw(arg.content)));
+        }
+    }
+    const pick = (...keys: string[]): string | undefined => keys.map(key => options[key]).find(value => value);
+    const numbered = options.numbered?.toLowerCase() !== 'no';
+    const sharedCounter = pick('sibling', 'numberlike', 'sharenumber');
+    const numberWithin = pick('parent', 'numberwithin', 'within');
+    return {
+        title: pick('name', 'title', 'heading') ?? envName.charAt(0).toUpperCase() + envName.slice(1),
+        numbered,
+        ...(numbered && sharedCounter !== undefined ? { sharedCounter } : {}),
+        ...(numbered && numberWithin !== undefined ? { numberWithin } : {}),
+        style: pick('style') ?? style,
+    };
+}
+
+/**
+ * (内部) 在参数名称后附加后缀 (例如 `\newminted{python}` 定义的 `pythoncode`)。
+ */
+function suffixedName(arg: Ast.Argument | undefined, suffix: string): string | undefined {
+    const base = argumentText(arg);
+    return base !== undefined ? base + suffix : undefined;
+}
+
 /**
  * 从定义环境的宏节点中提取环境名称。
  * @param node - 宏节点。
@@ -82,40 +656,11 @@ function getEnvironmentNameFromMacro(node: Ast.Macro, definingCommand: string):
         logger.warn(`宏 ${definingCommand} 缺少参数，无法提取环境名称。`);
         return null;
     }
-    let nameArg: Ast.Argument | undefined;
-    switch (definingCommand) {
-        case "newenvironment":
-        case "renewenvironment":
-        case "provideenvironment":
-            nameArg = node.args[2];
-            break;
-        case "newtcolorbox":
-            nameArg = node.args[1];
-            break;
-        case "DeclareTColorBox":
-            nameArg = node.args[0];
-            break;
-        case "newtheorem":
-            const firstArgContent = node.args[0]?.content;
-            if (Array.isArray(firstArgContent) && firstArgContent.length === 1 && firstArgContent[0].type === 'string' && (firstArgContent[0] as Ast.String).content === '*') {
-                 nameArg = node.args[1]; 
-            } else {
-                 nameArg = node.args[0];
-            }
-            break;
-        case "newlist":
-            nameArg = node.args[0];
-            break;
-        default:
-            logger.warn(`环境名称提取逻辑未显式处理命令 '${definingCommand}'，默认尝试第一个参数。`);
-            nameArg = node.args[0];
-            break;
-    }
-    if (nameArg?.content && Array.isArray(nameArg.content) && nameArg.content.length > 0) {
-        const printedName = printRaw(nameArg.content).trim();
-        if (printedName) {
-            return printedName;
-        }
+    const nameSource = ENVIRONMENT_DEFINERS[definingCommand].name;
+    const nameArg = typeof nameSource === 'number' ? node.args[nameSource] : nameSource(node.args);
+    const printedName = typeof nameArg === 'string' ? nameArg : argumentText(nameArg);
+    if (printedName) {
+        return printedName;
     }
     logger.warn(`无法从命令 '${definingCommand}' 的参数中提取环境名称。参数详情:`, JSON.stringify(node.args, null, 2));
     return null;
@@ -171,6 +716,54 @@ function parseEnvironmentArgsForSignature(
     return { signature: signature.trim(), parameters, numArgs };
 }
 
+/**
+ * 将 xparse 参数转换为环境参数描述。`b` (环境体) 不是参数，返回 `null`。
+ * @param arg - 解析后的 xparse 参数。
+ * @returns {@link EnvironmentParameter} 对象或 `null`。
+ */
+function xparseArgumentToEnvironmentParameter(arg: XparseArgument): EnvironmentParameter | null {
+    switch (arg.specifier) {
+        case 'b':
+            return null;
+        case 's':
+        case 't':
+            return { type: 'optionalStar', rawSpecifier: arg.rawSpecifier };
+        case 'u':
+        case 'l':
+            return { type: 'until', rawSpecifier: arg.rawSpecifier };
+        case 'm':
+        case 'r':
+        case 'R':
+        case 'v':
+            return { type: 'mandatory', rawSpecifier: arg.rawSpecifier };
+        default:
+            return { type: 'optional', rawSpecifier: arg.rawSpecifier };
+    }
+}
+
+/**
+ * 解析以 xparse 参数规范描述参数的环境定义 (`\NewDocumentEnvironment`、`\DeclareTColorBox` 等)。
+ * @param argSpecArg - 包含参数规范的参数节点。
+ * @param definingCommand - 定义命令的名称 (用于日志)。
+ * @returns 包含签名、参数列表和参数数量的对象。
+ */
+function parseXparseEnvironmentArgSpec(
+    argSpecArg: Ast.Argument | undefined,
+    definingCommand: string
+): { signature: string; parameters: EnvironmentParameter[]; numArgs: number } {
+    if (!argSpecArg?.content || !Array.isArray(argSpecArg.content) || argSpecArg.content.length === 0) {
+        return { signature: "", parameters: [], numArgs: 0 };
+    }
+    const specString = printRaw(argSpecArg.content).trim();
+    const xparseArgs = parseXparseArgSpec(specString);
+    const parameters = xparseArgs
+        .map(xparseArgumentToEnvironmentParameter)
+        .filter((parameter): parameter is EnvironmentParameter => parameter !== null);
+    const signature = xparseArgSpecToSignature(specString);
+    logger.debug(`${definingCommand}: 解析参数规范 '${specString}' -> 签名 '${signature}'`);
+    return { signature, parameters, numArgs: parameters.length };
+}
+
 /**
  * 从定义环境的宏节点中提取并生成参数签名和详细参数列表。
  * @param node - 宏节点。
@@ -181,48 +774,26 @@ function getEnvironmentSignatureAndParams(
     node: Ast.Macro,
     definingCommand: string
 ): { signature: string; parameters: EnvironmentParameter[]; numArgs: number } {
-    switch (definingCommand) {
-        case "newenvironment":
-        case "renewenvironment":
-        case "provideenvironment":
-            return parseEnvironmentArgsForSignature(node.args, 3, 4);
-        case "newtcolorbox":
-            return parseEnvironmentArgsForSignature(node.args, 2, 3);
-        case "DeclareTColorBox":
-            const argSpecArg = node.args?.[1];
-            if (argSpecArg?.content && Array.isArray(argSpecArg.content) && argSpecArg.content.length > 0) {
-                const specString = printRaw(argSpecArg.content).trim();
-                const sigParts = specString.match(/[moO](?:\{[^}]*\})?/g) || [];
-                const parameters: EnvironmentParameter[] = [];
-                const signature = sigParts.map(p => {
-                    if (p === 'm') parameters.push({type: 'mandatory', rawSpecifier: 'm'});
-                    else if (p === 'o') parameters.push({type: 'optional', rawSpecifier: 'o'});
-                    else if (p.startsWith('O')) {
-                        parameters.push({type: 'optional', rawSpecifier: p });
-                        return 'o'; 
-                    }
-                    return p.charAt(0);
-                }).join(" ");
-                logger.debug(`DeclareTColorBox: 解析参数规范 '${specString}' -> 签名 '${signature}'`);
-                return { signature, parameters, numArgs: parameters.length };
-            }
-            return { signature: "", parameters: [], numArgs: 0 };
-        case "newtheorem":
-            return { signature: "o", parameters: [{ type: 'optional' }], numArgs: 1 };
-        case "newlist":
-            return { signature: "", parameters: [], numArgs: 0 };
-        default:
-            logger.warn(`环境签名提取逻辑未处理命令 '${definingCommand}'。`);
-            return { signature: "", parameters: [], numArgs: 0 };
+    const layout = ENVIRONMENT_DEFINERS[definingCommand].signature;
+    if (typeof layout === 'string') {
+        const parameters = parseXparseArgSpec(layout)
+            .map(xparseArgumentToEnvironmentParameter)
+            .filter((parameter): parameter is EnvironmentParameter => parameter !== null);
+        return { signature: layout, parameters, numArgs: parameters.length };
     }
+    if ('argSpecIndex' in layout) {
+        return parseXparseEnvironmentArgSpec(node.args?.[layout.argSpecIndex], definingCommand);
+    }
+    return parseEnvironmentArgsForSignature(node.args, layout.numArgsIndex, layout.defaultIndex);
 }
 
 /**
  * 根据定义环境的宏节点，生成 {@link NewEnvironmentSpec} 对象。
  * @param node - 宏节点，必须是定义新环境的命令之一。
+ * @param theoremStyle - (可选) 定义处生效的定理样式 (`\theoremstyle{...}`)，只用于定理类环境。默认为 {@link DEFAULT_THEOREM_STYLE}。
  * @returns {@link NewEnvironmentSpec} 对象，如果无法解析则返回 `null`。
  */
-export function macroToEnvironmentSpec(node: Ast.Macro): NewEnvironmentSpec | null {
+export function macroToEnvironmentSpec(node: Ast.Macro, theoremStyle: string = DEFAULT_THEOREM_STYLE): NewEnvironmentSpec | null {
     const definingCommand = node.content;
     if (!ALL_ENVIRONMENT_DEFINERS.has(definingCommand)) {
         return null;
@@ -232,77 +803,39 @@ export function macroToEnvironmentSpec(node: Ast.Macro): NewEnvironmentSpec | nu
         logger.warn(`无法确定命令 '${definingCommand}' 定义的环境名称。`);
         return null;
     }
-    const { signature, parameters, numArgs } = getEnvironmentSignatureAndParams(node, definingCommand);
-    let beginCode: Ast.Ast[] | undefined;
-    let endCode: Ast.Ast[] | undefined;
-    let theoremTitle: string | undefined;
-    let tcolorboxOptions: Ast.Ast[] | string | undefined;
-
-    if (STANDARD_ENVIRONMENT_DEFINERS.has(definingCommand)) {
-        beginCode = node.args?.[5]?.content as Ast.Ast[]; 
-        endCode = node.args?.[6]?.content as Ast.Ast[];
-    } else if (AMSTHM_THEOREM_DEFINERS.has(definingCommand)) {
-        let titleArgIndex = 1; // 默认情况: \newtheorem{envName}{title}, title 在第二个参数 (index 1)
-        const firstArg = node.args?.[0];
-        const secondArg = node.args?.[1];
-        
-        // 检查星号版本: \newtheorem*{envName}{title}
-        // 此时, args[0] 的内容是 "*", args[1] 是 envName, args[2] 是 title
-        const firstArgContentNodes = firstArg?.content;
-        if (Array.isArray(firstArgContentNodes) && 
-            firstArgContentNodes.length === 1 && 
-            firstArgContentNodes[0].type === 'string' && 
-            (firstArgContentNodes[0] as Ast.String).content === '*') {
-            titleArgIndex = 2; 
-        } 
-        // 检查带计数器版本: \newtheorem{envName}[counterLike]{title}
-        // 此时, args[0] 是 envName, args[1] 是 [counterLike], args[2] 是 title
-        else if (secondArg?.openMark === '[') {
-            titleArgIndex = 2;
-        }
-
-        const titleArg = node.args?.[titleArgIndex];
-        if(titleArg?.content && Array.isArray(titleArg.content) && titleArg.content.length > 0) {
-            theoremTitle = printRaw(titleArg.content).trim();
-        }
-    } else if (definingCommand === "newtcolorbox") {
-        const optionsArg = node.args?.[4]; 
-        if (optionsArg?.content && Array.isArray(optionsArg.content)) {
-            tcolorboxOptions = optionsArg.content;
-        }
-    } else if (definingCommand === "DeclareTColorBox") {
-        const optionsArg = node.args?.[2];
-        if (optionsArg?.content && Array.isArray(optionsArg.content)) {
-            tcolorboxOptions = optionsArg.content; 
-        }
+    const { signature, parameters } = getEnvironmentSignatureAndParams(node, definingCommand);
+    const definer = ENVIRONMENT_DEFINERS[definingCommand];
+    const argContent = (index: number | undefined): Ast.Ast[] | undefined => {
+        const content = index !== undefined ? node.args?.[index]?.content : undefined;
+        return Array.isArray(content) ? content : undefined;
+    };
+    let theorem: TheoremSpec | undefined;
+    if (AMSTHM_THEOREM_DEFINERS.has(definingCommand)) {
+        theorem = newtheoremToTheoremSpec(node, theoremStyle);
+    } else if (THMTOOLS_THEOREM_DEFINERS.has(definingCommand)) {
+        theorem = declaretheoremToTheoremSpec(node, name, theoremStyle);
     }
+    // enumitem 的 `enumerate*` 等行内列表与对应的列表类型相同
+    const language = definer.verbatim?.language?.(node.args || []);
+    const listType = definer.listTypeIndex !== undefined ? argumentText(node.args?.[definer.listTypeIndex])?.replace(/\*$/, '') : undefined;
     return {
         name,
         signature,
         parameters: parameters.length > 0 ? parameters : undefined,
         definitionMacro: node,
         definingCommand,
-        beginCode,
-        endCode,
-        theoremTitle,
-        tcolorboxOptions,
-        packageSource: getPackageSourceForDefiningCommand(definingCommand),
+        beginCode: argContent(definer.beginCodeIndex),
+        endCode: argContent(definer.endCodeIndex),
+        theoremTitle: theorem?.title,
+        theorem,
+        tcolorboxOptions: argContent(definer.optionsIndex),
+        ...(definer.verbatim ? { verbatim: { signature, ...(language ? { language } : {}) } } : {}),
+        ...(listType ? { listType } : {}),
+        ...(definer.definesCounter ? { counter: name } : {}),
+        packageSource: definer.packageSource,
     };
 }
 
-/**
- * 根据定义环境的命令获取其可能的包来源。
- * @param definingCommand - 定义环境的命令。
- * @returns 包来源字符串或 `undefined`。
- */
-function getPackageSourceForDefiningCommand(definingCommand: string): string | undefined {
-    if (STANDARD_ENVIRONMENT_DEFINERS.has(definingCommand)) return "latex2e";
-    if (TCOLORBOX_ENVIRONMENT_DEFINERS.has(definingCommand)) return "tcolorbox";
-    if (AMSTHM_THEOREM_DEFINERS.has(definingCommand)) return "amsthm";
-    if (ENUMITEM_LIST_DEFINERS.has(definingCommand)) return "enumitem";
-    return undefined;
-}
-
 /**
  * 选项接口，用于 `listNewEnvironments` 函数。
  */
@@ -318,6 +851,8 @@ export interface ListNewEnvironmentsOptions {
  * 从 AST 中列出所有新定义的环境。
  * 它会查找由特定宏命令（如 `\newenvironment`, `\newtheorem`, `\newtcolorbox` 等）定义的环境，
  * 并提取其名称、参数签名等信息。
+ * 按文档顺序跟踪 `\theoremstyle{...}`，定理类环境记录定义处生效的样式 (每次调用都从 {@link DEFAULT_THEOREM_STYLE} 开始)。
+ * 同一 AST 中由 `\newcounter` 定义了同名计数器的环境 (手工定义的浮动体等) 记录该计数器 ({@link NewEnvironmentSpec.counter})。
  * 
  * @param tree - 要扫描的 LaTeX AST 树。
  * @param options - 可选配置项，例如指定要关注的环境定义命令。
@@ -333,13 +868,26 @@ export function listNewEnvironments(
         logger.warn("listNewEnvironments 调用时未指定任何环境定义命令。");
         return [];
     }
-    const definerMatcher: Matcher = createMacroMatcher(Array.from(definersToConsider));
+    const definerMatcher: Matcher = createMacroMatcher([...definersToConsider, THEOREM_STYLE_COMMAND, COUNTER_DEFINER]);
     let matchedNodesCount = 0;
+    let theoremStyle = DEFAULT_THEOREM_STYLE;
+    const counters = new Set<string>();
 
     const visitor: VisitorFn = (node: Ast.Ast, _info: VisitInfo) => { 
         const macroNode = node as Ast.Macro; 
+        if (macroNode.content === THEOREM_STYLE_COMMAND) {
+            theoremStyle = argumentText(macroNode.args?.[macroNode.args.length - 1]) ?? theoremStyle;
+            return;
+        }
+        if (macroNode.content === COUNTER_DEFINER) {
+            const counterName = argumentText(firstBracedArgument(macroNode.args || []));
+            if (counterName) {
+                counters.add(counterName);
+            }
+            return;
+        }
         matchedNodesCount++;
-        const spec = macroToEnvironmentSpec(macroNode);
+        const spec = macroToEnvironmentSpec(macroNode, theoremStyle);
         if (spec) {
             newEnvSpecs.push(spec);
         }
@@ -350,6 +898,11 @@ export function listNewEnvironments(
         !!(node && typeof node === 'object' && 'type' in node && node.type === 'macro' && definerMatcher(node));
 
     visit(tree, visitor, { test: testFn });
+    for (const spec of newEnvSpecs) {
+        if (!spec.counter && counters.has(spec.name)) {
+            spec.counter = spec.name;
+        }
+    }
 
     logger.debug(`listNewEnvironments: 检查了 ${matchedNodesCount} 个可能是环境定义的宏。`);
     logger.debug(`listNewEnvironments 完成。找到了 ${newEnvSpecs.length} 个环境规范。`);
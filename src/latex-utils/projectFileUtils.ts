@@ -1,12 +1,13 @@
 /**
  * LaTeX 项目文件相关的工具函数模块。
- * 提供了查找TeX文件、判断文件类型、解析包含路径等与LaTeX项目结构和文件处理相关的特定功能。
+ * 提供了查找TeX文件、判断文件类型、解析包含路径、确定项目根文件等与LaTeX项目结构和文件处理相关的特定功能。
  */
 
 import * as nodePath from 'path';
 import { fileExistsAsync, readFileAsync, getFileStatsAsync } from '../utils/fileSystem'; 
 import { readdir } from 'fs/promises'; 
 import { createLogger, Logger } from '../utils/logger';
+import type { TexMagicComments, RootFileCandidate, RootCandidateReason, RootRedirection } from '../types/index';
 
 const logger: Logger = createLogger('latex-utils:projectFileUtils');
 
@@ -70,10 +71,36 @@ export function isTexFile(
  * @returns 如果内容中包含典型的根文件标识，则返回 `true`，否则返回 `false`。
  */
 export function isRootFileContent(content: string): boolean {
-  return (
-    /\\documentclass(?:\s*\[.*?\])?\s*\{.*?[^\\]\}/ms.test(content) ||
-    /\\begin\s*\{document\}/m.test(content)
-  );
+  return getContentRootReasons(content).length > 0;
+}
+
+/**
+ * 解析文件头部的 `% !TeX key = value` 魔法注释。
+ * 只扫描文件开头由空行和注释行组成的部分 (与各编辑器的行为一致)，遇到第一行正文即停止。
+ * 键名不区分大小写 (`!TEX`、`!TeX` 均可)，TeXShop 的 `TS-program` 被视为 `program`。
+ * @param content - 文件的文本内容。
+ * @returns 解析出的魔法注释；没有任何魔法注释时返回空对象。
+ */
+export function parseTexMagicComments(content: string): TexMagicComments {
+  const magicComments: TexMagicComments = {};
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === '') {
+      continue;
+    }
+    if (!trimmed.startsWith('%')) {
+      break;
+    }
+    const match = /^%+\s*!\s*tex\s+([\w-]+)\s*=\s*(.*?)\s*$/i.exec(trimmed);
+    if (match) {
+      let key = match[1].toLowerCase();
+      if (key === 'ts-program') {
+        key = 'program';
+      }
+      magicComments[key] = match[2];
+    }
+  }
+  return magicComments;
 }
 
 /**
@@ -101,6 +128,54 @@ export function resolveTexPathWithExtension(
   return nodePath.normalize(resolvedPath).replace(/\\/g, '/');
 }
 
+/**
+ * 将 `\includeonly`、`\usepackage` 等命令参数中逗号分隔的名称列表拆分为数组。
+ * 会去除每一项两端的空白 (包括换行) 并丢弃空项。
+ * @param listContent - 参数的原始文本，例如 `"chap1, chap3,\n appendix"`。
+ * @returns 名称数组，例如 `['chap1', 'chap3', 'appendix']`。
+ */
+export function splitNameList(listContent: string): string[] {
+  return listContent
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+}
+
+/**
+ * 将 `\include` 参数或 `\includeonly` 列表中的文件名规范化为可比较的形式：
+ * 统一路径分隔符，去掉开头的 `./` 和末尾的 `.tex` 扩展名。
+ * @param name - 原始文件名。
+ * @returns 规范化后的文件名。
+ */
+export function normalizeIncludeName(name: string): string {
+  return name
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/\.tex$/i, '');
+}
+
+/**
+ * 根据 `\includeonly`/`\excludeonly` 列表判断一个 `\include` 的文件是否应被读入。
+ * 与 LaTeX 一致：存在 `\includeonly` 时只读入列表中的文件；`\excludeonly` 中的文件总是被跳过。
+ * @param rawPath - `\include` 命令的原始参数。
+ * @param directives - 生效的包含控制列表。
+ * @returns 如果该文件应被读入，则返回 `true`。
+ */
+export function isIncludeSelected(
+  rawPath: string,
+  directives: { includeOnly?: string[]; excludeOnly?: string[] }
+): boolean {
+  const name = normalizeIncludeName(rawPath);
+  if (directives.includeOnly && !directives.includeOnly.some(entry => normalizeIncludeName(entry) === name)) {
+    return false;
+  }
+  if (directives.excludeOnly && directives.excludeOnly.some(entry => normalizeIncludeName(entry) === name)) {
+    return false;
+  }
+  return true;
+}
+
 /**
  * 异步检查给定的路径是否指向一个实际存在的目录。
  * @param directoryPath - 要检查的目录路径。
@@ -114,4 +189,244 @@ export async function isDirectory(directoryPath: string): Promise<boolean> {
         // 如果路径不存在或获取状态失败，则它不是一个有效的目录
         return false; 
     }
-} 
\ No newline at end of file
+}
+
+/** 常见的根文件名，按优先级排列 (排名相同时靠前者优先)。 */
+const COMMON_ROOT_FILE_NAMES = ['main.tex', 'root.tex', 'master.tex', 'document.tex', 'thesis.tex'];
+
+/** 各根文件候选理由的权重。内容特征优先于文件名。 */
+const ROOT_REASON_WEIGHTS: Record<RootCandidateReason, number> = {
+  'entry-file': 100,
+  'magic-root-target': 8,
+  'has-documentclass': 8,
+  'has-begin-document': 4,
+  'not-included': 2,
+  'common-name': 1,
+};
+
+/** 单参数的文件包含命令 (用于根文件检测时的文本扫描)。 */
+const SINGLE_PATH_INCLUDE_PATTERN = /\\(?:input|include|subfile)\s*\{([^{}]*)\}/g;
+/** `import` 宏包的双参数包含命令 (用于根文件检测时的文本扫描)。 */
+const DIR_PATH_INCLUDE_PATTERN = /\\(sub)?(?:import|inputfrom|includefrom)\*?\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g;
+
+/**
+ * 通过文本扫描找出一个文件 (可能) 包含的所有文件的路径。
+ * 相对路径既按当前文件所在目录、也按项目目录解析，因为不同编辑器/编译方式的约定不同。
+ * @param filePath - 文件路径。
+ * @param content - 文件内容。
+ * @param projectDir - 项目目录。
+ * @returns 被包含文件的规范化路径集合。
+ */
+function scanIncludedPaths(filePath: string, content: string, projectDir: string): Set<string> {
+  const includedPaths = new Set<string>();
+  const fileDir = nodePath.dirname(filePath);
+  const uncommented = content.replace(/(^|[^\\])%.*$/gm, '$1');
+  for (const match of uncommented.matchAll(SINGLE_PATH_INCLUDE_PATTERN)) {
+    const rawPath = match[1].trim();
+    if (rawPath) {
+      includedPaths.add(resolveTexPathWithExtension(fileDir, rawPath));
+      includedPaths.add(resolveTexPathWithExtension(projectDir, rawPath));
+    }
+  }
+  for (const match of uncommented.matchAll(DIR_PATH_INCLUDE_PATTERN)) {
+    const rawPath = match[3].trim();
+    if (rawPath) {
+      const dir = nodePath.resolve(match[1] ? fileDir : projectDir, match[2].trim());
+      includedPaths.add(resolveTexPathWithExtension(dir, rawPath));
+    }
+  }
+  return includedPaths;
+}
+
+/**
+ * 对入口路径下的 TeX 文件进行根文件候选排名。
+ *
+ * - 入口是 TeX 文件时，它就是唯一的候选 (理由包括 `entry-file`)。
+ * - 入口是目录时，扫描其中所有 TeX 文件，按 {@link RootCandidateReason} 的权重之和排序；
+ *   只有具备 `\documentclass`、`\begin{document}`、常见文件名或被 `% !TeX root` 指向的文件才会成为候选。
+ *   分数相同时按常见文件名的优先级、再按路径字典序排列，因此结果不依赖目录的遍历顺序。
+ *
+ * @param entryPath - 入口路径 (文件或目录，应为绝对路径)。
+ * @returns 按可能性从高到低排列的候选列表；入口不存在或没有候选时为空数组。
+ */
+export async function findRootFileCandidates(entryPath: string): Promise<RootFileCandidate[]> {
+  if (!(await fileExistsAsync(entryPath))) {
+    return [];
+  }
+  const stats = await getFileStatsAsync(entryPath);
+  if (stats.isFile()) {
+    if (!isTexFile(entryPath)) {
+      return [];
+    }
+    const reasons: RootCandidateReason[] = ['entry-file'];
+    try {
+      reasons.push(...getContentRootReasons(await readFileAsync(entryPath)));
+    } catch (error) {
+      logger.warn(`读取文件 ${entryPath} 以检查根文件内容时出错: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return [createRootCandidate(normalizeFilePath(entryPath), reasons)];
+  }
+  if (!stats.isDirectory()) {
+    return [];
+  }
+
+  const texFiles = (await findTexFiles(entryPath)).map(normalizeFilePath);
+  const contents = new Map<string, string>();
+  for (const texFile of texFiles) {
+    try {
+      contents.set(texFile, await readFileAsync(texFile));
+    } catch (error) {
+      logger.warn(`读取文件 ${texFile} 以检查根文件内容时出错: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const includedPaths = new Set<string>();
+  const magicRootTargets = new Set<string>();
+  for (const [texFile, content] of contents.entries()) {
+    for (const includedPath of scanIncludedPaths(texFile, content, entryPath)) {
+      if (includedPath !== texFile) {
+        includedPaths.add(includedPath);
+      }
+    }
+    const magicRoot = parseTexMagicComments(content).root;
+    if (magicRoot) {
+      magicRootTargets.add(normalizeFilePath(nodePath.resolve(nodePath.dirname(texFile), magicRoot)));
+    }
+  }
+
+  const candidates: RootFileCandidate[] = [];
+  for (const [texFile, content] of contents.entries()) {
+    const reasons: RootCandidateReason[] = [];
+    if (magicRootTargets.has(texFile)) {
+      reasons.push('magic-root-target');
+    }
+    reasons.push(...getContentRootReasons(content));
+    if (COMMON_ROOT_FILE_NAMES.includes(nodePath.basename(texFile))) {
+      reasons.push('common-name');
+    }
+    if (reasons.length === 0) {
+      continue;
+    }
+    if (!includedPaths.has(texFile)) {
+      reasons.push('not-included');
+    }
+    candidates.push(createRootCandidate(texFile, reasons));
+  }
+
+  const nameRank = (filePath: string): number => {
+    const index = COMMON_ROOT_FILE_NAMES.indexOf(nodePath.basename(filePath));
+    return index === -1 ? COMMON_ROOT_FILE_NAMES.length : index;
+  };
+  candidates.sort((a, b) =>
+    b.score - a.score ||
+    nameRank(a.filePath) - nameRank(b.filePath) ||
+    (a.filePath < b.filePath ? -1 : a.filePath > b.filePath ? 1 : 0)
+  );
+  logger.debug(`在目录 ${entryPath} 中找到 ${candidates.length} 个根文件候选:`, candidates);
+  return candidates;
+}
+
+/**
+ * 根据文件内容得出的根文件候选理由。
+ * @param content - 文件内容。
+ * @returns `has-documentclass` 和/或 `has-begin-document`。
+ */
+function getContentRootReasons(content: string): RootCandidateReason[] {
+  const reasons: RootCandidateReason[] = [];
+  if (/\\documentclass(?:\s*\[.*?\])?\s*\{.*?[^\\]\}/ms.test(content)) {
+    reasons.push('has-documentclass');
+  }
+  if (/\\begin\s*\{document\}/m.test(content)) {
+    reasons.push('has-begin-document');
+  }
+  return reasons;
+}
+
+/**
+ * 由理由列表构造一个根文件候选。
+ * @param filePath - 候选文件路径。
+ * @param reasons - 判定理由。
+ * @returns 带分数的候选。
+ */
+function createRootCandidate(filePath: string, reasons: RootCandidateReason[]): RootFileCandidate {
+  return {
+    filePath,
+    score: reasons.reduce((sum, reason) => sum + ROOT_REASON_WEIGHTS[reason], 0),
+    reasons,
+  };
+}
+
+/**
+ * 将文件路径规范化为使用正斜杠的绝对形式 (与 `resolveTexPathWithExtension` 的输出一致)。
+ * @param filePath - 文件路径。
+ * @returns 规范化后的路径。
+ */
+function normalizeFilePath(filePath: string): string {
+  return nodePath.normalize(filePath).replace(/\\/g, '/');
+}
+
+/**
+ * `% !TeX root` 魔法注释链的解析结果。
+ */
+export interface MagicRootResolution {
+  /** 最终确定的根文件 */
+  rootFilePath: string;
+  /** 如果发生了重定向，则为重定向记录；否则为 null */
+  redirection: RootRedirection | null;
+  /** 最终根文件头部的魔法注释 */
+  magicComments: TexMagicComments;
+  /** 如果链条因循环或目标缺失而中断，则为相应的警告信息 */
+  warning?: string;
+}
+
+/**
+ * 跟随 `% !TeX root = ...` 魔法注释找到真正的根文件。
+ * 入口通常是编辑器中打开的章节文件，其魔法注释指向项目的主文件；主文件本身也可能再次重定向，
+ * 因此会沿着链条一直跟随，直到某个文件没有 `root` 魔法注释、目标不存在或出现循环。
+ * @param startFilePath - 初步确定的根文件路径 (已规范化)。
+ * @returns 链条的解析结果。
+ */
+export async function resolveMagicRoot(startFilePath: string): Promise<MagicRootResolution> {
+  const chain: string[] = [startFilePath];
+  let currentFilePath = startFilePath;
+  let magicComments: TexMagicComments = {};
+  let entryMagicComments: TexMagicComments | undefined;
+  let warning: string | undefined;
+  while (true) {
+    try {
+      magicComments = parseTexMagicComments(await readFileAsync(currentFilePath));
+      entryMagicComments = entryMagicComments ?? magicComments;
+    } catch (error) {
+      logger.warn(`读取文件 ${currentFilePath} 以检查魔法注释时出错: ${error instanceof Error ? error.message : String(error)}`);
+      magicComments = {};
+      break;
+    }
+    if (!magicComments.root) {
+      break;
+    }
+    const targetPath = normalizeFilePath(nodePath.resolve(nodePath.dirname(currentFilePath), magicComments.root));
+    if (targetPath === currentFilePath) {
+      break;
+    }
+    if (chain.includes(targetPath)) {
+      warning = `% !TeX root 魔法注释形成循环: ${[...chain, targetPath].join(' -> ')}，将使用 ${currentFilePath} 作为根文件。`;
+      break;
+    }
+    if (!(await fileExistsAsync(targetPath))) {
+      warning = `文件 ${currentFilePath} 的 % !TeX root 魔法注释指向的文件不存在: ${targetPath}，将使用 ${currentFilePath} 作为根文件。`;
+      break;
+    }
+    logger.info(`根据 ${currentFilePath} 中的 % !TeX root 魔法注释，根文件重定向到: ${targetPath}`);
+    chain.push(targetPath);
+    currentFilePath = targetPath;
+  }
+
+  return {
+    rootFilePath: currentFilePath,
+    redirection: chain.length > 1
+      ? { entryFilePath: startFilePath, rootFilePath: currentFilePath, chain, entryMagicComments: entryMagicComments ?? {} }
+      : null,
+    magicComments,
+    warning,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * 宏签名推断模块。
+ *
+ * 对于文档中使用了但没有任何定义的宏和环境，根据其调用形式推断参数签名：
+ * - 每次调用的形式 (星号、前导的 `[...]` 可选参数个数、随后的 `{...}` 组个数) 由 {@link readMacroCallShape} 读取，
+ *   环境的使用 (`\begin{env}` 之后的组) 由 {@link readEnvironmentCallShape} 读取；
+ * - 所有调用的形式汇总为直方图，由 {@link inferSignatureFromCalls} 得出签名、置信度以及与之不一致的调用。
+ */
+
+import type { Ast, InferredMacroUsage, InferredMacroSignature } from '../types/index';
+
+/**
+ * 一次宏调用的形式。
+ */
+export interface MacroCallShape {
+    /** 宏名后是否紧跟 `*` */
+    starred: boolean;
+    /** 前导的 `[...]` 可选参数个数 */
+    optional: number;
+    /** 随后的 `{...}` 组个数 */
+    mandatory: number;
+}
+
+/**
+ * 一次宏调用：调用的位置及其形式。
+ */
+export interface MacroCall {
+    usage: InferredMacroUsage;
+    shape: MacroCallShape;
+}
+
+/**
+ * 将调用形式转换为签名，例如 `{ starred: true, optional: 1, mandatory: 2 }` 为 `'s o m m'`。
+ */
+export function shapeToSignature(shape: MacroCallShape): string {
+    return [
+        ...(shape.starred ? ['s'] : []),
+        ...Array<string>(shape.optional).fill('o'),
+        ...Array<string>(shape.mandatory).fill('m'),
+    ].join(' ');
+}
+
+/**
+ * 判断节点是否为内容恰好为 `text` 的字符串节点。
+ */
+function isStringNode(node: Ast.Ast | undefined, text: string): boolean {
+    return !!node && node.type === 'string' && node.content === text;
+}
+
+/**
+ * 从 `nodes[start]` (应为 `[`) 开始查找与之匹配的 `]`。
+ * @returns 匹配的 `]` 的下标；没有匹配时返回 -1。
+ */
+function findClosingBracket(nodes: Ast.Ast[], start: number): number {
+    let depth = 0;
+    for (let i = start; i < nodes.length; i++) {
+        if (isStringNode(nodes[i], '[')) {
+            depth++;
+        } else if (isStringNode(nodes[i], ']')) {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        } else if (nodes[i].type === 'parbreak') {
+            return -1;
+        }
+    }
+    return -1;
+}
+
+/**
+ * 读取 `nodes[index]` 处宏调用的形式。宏已附加的参数 (例如原始解析器按 CTAN 签名附加的) 和其后的兄弟节点都会被读取。
+ * 注意：附加的必选参数即使取到的是单个记号，其 `openMark` 也是 `{`，因此应尽量在附加参数之前读取。
+ * @param nodes - 宏所在的节点数组。
+ * @param index - 宏节点的下标。
+ * @returns {@link MacroCallShape}。
+ */
+export function readMacroCallShape(nodes: Ast.Ast[], index: number): MacroCallShape {
+    const shape: MacroCallShape = { starred: false, optional: 0, mandatory: 0 };
+    const macro = nodes[index] as Ast.Macro;
+    let started = false;
+    for (const arg of macro.args || []) {
+        if (arg.openMark === '[' && shape.mandatory === 0) {
+            shape.optional++;
+        } else if (arg.openMark === '{') {
+            shape.mandatory++;
+        } else if (arg.openMark === '' && arg.content.length === 1 && isStringNode(arg.content[0], '*') && !started) {
+            shape.starred = true;
+        } else if (arg.openMark !== '' || arg.content.length > 0) {
+            // 参数取到了不是组的记号 (或不在前导位置的可选参数)：调用到此为止
+            return shape;
+        }
+        started = started || arg.content.length > 0 || arg.openMark !== '';
+    }
+
+    let i = index + 1;
+    if (!started && isStringNode(nodes[i], '*')) {
+        shape.starred = true;
+        i++;
+    }
+    readGroups(nodes, i, shape);
+    return shape;
+}
+
+/**
+ * 读取环境使用的形式：`\begin{env}` 之后 (即环境内容开头) 的 `[...]` 可选参数和 `{...}` 组。环境没有星号形式。
+ * 环境已附加的参数同样会被读取。
+ * @param env - 环境节点。
+ * @returns {@link MacroCallShape}。
+ */
+export function readEnvironmentCallShape(env: Ast.Environment): MacroCallShape {
+    const shape: MacroCallShape = { starred: false, optional: 0, mandatory: 0 };
+    for (const arg of env.args || []) {
+        if (arg.openMark === '[' && shape.mandatory === 0) {
+            shape.optional++;
+        } else if (arg.openMark === '{') {
+            shape.mandatory++;
+        } else if (arg.openMark !== '' || arg.content.length > 0) {
+            return shape;
+        }
+    }
+    readGroups(env.content, 0, shape);
+    return shape;
+}
+
+/**
+ * (内部) 从 `nodes[start]` 开始读取连续的 `[...]` 可选参数 (只在花括号组之前) 和 `{...}` 组，累加到 `shape` 中。空白被跳过。
+ */
+function readGroups(nodes: Ast.Ast[], start: number, shape: MacroCallShape): void {
+    let i = start;
+    while (i < nodes.length) {
+        const node = nodes[i];
+        if (node.type === 'whitespace') {
+            i++;
+        } else if (isStringNode(node, '[') && shape.mandatory === 0) {
+            const closing = findClosingBracket(nodes, i);
+            if (closing < 0) {
+                break;
+            }
+            shape.optional++;
+            i = closing + 1;
+        } else if (node.type === 'group') {
+            shape.mandatory++;
+            i++;
+        } else {
+            break;
+        }
+    }
+}
+
+/**
+ * 汇总一个宏的所有调用，推断其签名：
+ * - 任一调用带 `*` 时签名以 `s` 开头；
+ * - 可选参数个数取所有调用中的最大值 (可选参数可以省略，因此较少的调用并不矛盾)；
+ * - 必选参数个数取出现次数最多的值。次数相同时取较小的值：推断的参数过少时 AST 保持原样，
+ *   过多时则会把调用之后的 `{...}` 甚至 `\begin{...}` 当作参数，改变文档结构。
+ *
+ * 置信度为必选参数个数与推断结果一致的调用所占的比例，不一致的调用记录在 `conflictingUsages` 中。
+ * @param name - 宏名称 (不含反斜杠)。
+ * @param calls - 宏的所有调用 (按文档顺序)。
+ * @returns {@link InferredMacroSignature}。
+ */
+export function inferSignatureFromCalls(name: string, calls: MacroCall[]): InferredMacroSignature {
+    const histogram: Record<string, number> = {};
+    const mandatoryCounts = new Map<number, number>();
+    for (const { usage, shape } of calls) {
+        histogram[usage.signature] = (histogram[usage.signature] || 0) + 1;
+        mandatoryCounts.set(shape.mandatory, (mandatoryCounts.get(shape.mandatory) || 0) + 1);
+    }
+    let mandatory = 0;
+    let bestCount = 0;
+    for (const [count, occurrences] of mandatoryCounts.entries()) {
+        if (occurrences > bestCount || (occurrences === bestCount && count < mandatory)) {
+            mandatory = count;
+            bestCount = occurrences;
+        }
+    }
+    const shape: MacroCallShape = {
+        starred: calls.some(call => call.shape.starred),
+        optional: Math.max(0, ...calls.map(call => call.shape.optional)),
+        mandatory,
+    };
+    return {
+        name,
+        signature: shapeToSignature(shape),
+        confidence: calls.length > 0 ? bestCount / calls.length : 0,
+        usageCount: calls.length,
+        histogram,
+        conflictingUsages: calls.filter(call => call.shape.mandatory !== mandatory).map(call => call.usage),
+    };
+}
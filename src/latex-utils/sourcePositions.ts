@@ -0,0 +1,191 @@
+/**
+ * 源码位置工具模块
+ *
+ * 原始解析器为它直接产生的节点记录位置信息，但参数附加 (`attachMacroArgs`) 和环境处理 (`processEnvironments`)
+ * 创建的参数节点、环境内容处理器和宏展开产生的节点没有位置信息。本模块提供行偏移量表，
+ * 以及按源码为这些节点补全位置信息的函数 (启用 `ParserOptions.positions` 时使用)。
+ */
+import type { Ast } from '../types/index';
+
+/**
+ * 计算源码的行偏移量表：第 `i` 项为第 `i + 1` 行第一个字符的偏移量。
+ * @param source - 文件的源码。
+ * @returns 行偏移量表，第一项总是 `0`。
+ */
+export function computeLineOffsets(source: string): number[] {
+    const lineOffsets = [0];
+    for (let index = source.indexOf('\n'); index !== -1; index = source.indexOf('\n', index + 1)) {
+        lineOffsets.push(index + 1);
+    }
+    return lineOffsets;
+}
+
+/**
+ * 按行偏移量表把偏移量转换为行号和列号 (均从 1 开始，与原始解析器的位置信息一致)。
+ * @param lineOffsets - {@link computeLineOffsets} 返回的行偏移量表。
+ * @param offset - 源码中的偏移量。
+ * @returns 对应的位置点。
+ */
+export function offsetToPoint(lineOffsets: number[], offset: number): Ast.Point {
+    let low = 0;
+    let high = lineOffsets.length - 1;
+    while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (lineOffsets[middle] <= offset) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return { line: low + 1, column: offset - lineOffsets[low] + 1, offset };
+}
+
+/**
+ * (内部) 从 `index` 开始跳过空白和 `%` 注释，与参数附加时跳过的内容一致。
+ */
+function skipWhitespaceAndComments(source: string, index: number): number {
+    while (index < source.length) {
+        if (/\s/.test(source[index])) {
+            index++;
+        } else if (source[index] === '%') {
+            const lineEnd = source.indexOf('\n', index);
+            index = lineEnd === -1 ? source.length : lineEnd + 1;
+        } else {
+            break;
+        }
+    }
+    return index;
+}
+
+/**
+ * (内部) 从参数内容的起始处 `index` 开始查找参数的结束定界符，跳过嵌套的花括号组和转义字符；找不到时返回 `-1`。
+ */
+function findCloseMark(source: string, index: number, closeMark: string): number {
+    let depth = 0;
+    for (let i = index; i < source.length; i++) {
+        if (depth === 0 && source.startsWith(closeMark, i)) {
+            return i;
+        }
+        if (source[i] === '\\') {
+            i++;
+        } else if (source[i] === '{') {
+            depth++;
+        } else if (source[i] === '}') {
+            depth--;
+        }
+    }
+    return -1;
+}
+
+/**
+ * (内部) 返回有子节点的节点的内容在源码中的起止偏移量 (不包括定界符、`\begin{...}`/`\end{...}` 和参数)。
+ */
+function contentRange(node: Ast.Ast, source: string): [number, number] {
+    const start = node.position!.start.offset;
+    const end = node.position!.end.offset;
+    switch (node.type) {
+        case 'root':
+            return [0, source.length];
+        case 'group':
+            return [start + 1, end - 1];
+        case 'inlinemath':
+            return source[start] === '$' ? [start + 1, end - 1] : [start + 2, end - 2];
+        case 'displaymath':
+            return [start + 2, end - 2];
+        case 'environment':
+        case 'mathenv': {
+            const endMarker = source.lastIndexOf('\\end', end);
+            return [source.indexOf('}', start) + 1, endMarker < start ? end : endMarker];
+        }
+        case 'argument': {
+            const argument = node as Ast.Argument;
+            return [start + argument.openMark.length, end - argument.closeMark.length];
+        }
+        default:
+            return [start, end];
+    }
+}
+
+/**
+ * 为 AST 中没有位置信息的节点补全位置信息 (原地修改)。参数节点按源码找到其定界符，
+ * 从宏名 (或 `\begin{name}`) 之后开始依次向后确定；其他节点占据前一个兄弟节点和后一个有位置信息的兄弟节点之间的源码。
+ * 宏的位置扩展到其最后一个参数，其他已有的位置信息保持不变。
+ * @param ast - 解析 `source` 得到的 AST。
+ * @param source - 文件的源码。
+ * @param lineOffsets - (可选) 源码的行偏移量表，未提供时计算。
+ * @returns 补全了位置信息的节点数量。
+ */
+export function fillMissingPositions(ast: Ast.Root, source: string, lineOffsets: number[] = computeLineOffsets(source)): number {
+    let filled = 0;
+    const setPosition = (node: Ast.Ast, start: number, end: number) => {
+        node.position = { start: offsetToPoint(lineOffsets, start), end: offsetToPoint(lineOffsets, Math.max(start, end)) };
+        filled++;
+    };
+
+    // 依次确定参数的位置，返回最后一个参数结束处的偏移量
+    const fillArguments = (args: Ast.Argument[], cursor: number): number => {
+        for (const argument of args) {
+            if (!argument.position) {
+                const start = argument.openMark ? skipWhitespaceAndComments(source, cursor) : cursor;
+                if (argument.openMark && !source.startsWith(argument.openMark, start)) {
+                    // 源码中没有定界符的参数 (例如 `x_1` 中 `_` 的参数 `1`) 占据其内容的范围
+                    const contentEnd = fillNodes(argument.content, start, start);
+                    const first = argument.content.find(child => child.position);
+                    setPosition(argument, first ? first.position!.start.offset : cursor, contentEnd);
+                } else {
+                    const contentStart = start + argument.openMark.length;
+                    const closeIndex = argument.closeMark ? findCloseMark(source, contentStart, argument.closeMark) : -1;
+                    const contentEnd = fillNodes(argument.content, contentStart, closeIndex === -1 ? contentStart : closeIndex);
+                    setPosition(argument, start, closeIndex === -1 ? contentEnd : closeIndex + argument.closeMark.length);
+                }
+                cursor = argument.position!.end.offset;
+                continue;
+            }
+            fillChildren(argument);
+            cursor = Math.max(cursor, argument.position!.end.offset);
+        }
+        return cursor;
+    };
+
+    // 为有位置信息的节点的参数和子节点补全位置信息
+    const fillChildren = (node: Ast.Ast) => {
+        let cursor = node.type === 'macro' ? node.position!.end.offset : contentRange(node, source)[0];
+        if (Array.isArray(node.args)) {
+            cursor = fillArguments(node.args, cursor);
+            // 原始解析器记录的宏位置只包括宏名，附加参数后扩展到最后一个参数
+            if (node.type === 'macro' && cursor > node.position!.end.offset) {
+                node.position = { start: node.position!.start, end: offsetToPoint(lineOffsets, cursor) };
+            }
+        }
+        if (Array.isArray(node.content)) {
+            fillNodes(node.content, cursor, contentRange(node, source)[1]);
+        }
+    };
+
+    // 为 [from, to) 范围内的一组兄弟节点补全位置信息，返回最后一个节点结束处的偏移量
+    const fillNodes = (nodes: Ast.Ast[], from: number, to: number): number => {
+        let cursor = from;
+        nodes.forEach((node, index) => {
+            if (!node.position) {
+                const next = nodes.slice(index + 1).find(sibling => sibling.position);
+                setPosition(node, cursor, next ? next.position!.start.offset : Math.max(cursor, to));
+                if (Array.isArray(node.content)) {
+                    fillNodes(node.content, cursor, node.position!.end.offset);
+                }
+                if (Array.isArray(node.args)) {
+                    fillArguments(node.args, cursor);
+                }
+            } else {
+                fillChildren(node);
+            }
+            cursor = Math.max(cursor, node.position!.end.offset);
+        });
+        return cursor;
+    };
+
+    if (!ast.position) {
+        setPosition(ast, 0, source.length);
+    }
+    fillChildren(ast);
+    return filled;
+}
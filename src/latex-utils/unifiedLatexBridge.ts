@@ -9,8 +9,9 @@
 
 import type { Ast } from '../types/index'; // Assuming Ast types (like Root, MacroInfoRecord, EnvInfoRecord) are exported from here
 import { getParser as getUnifiedLatexParser } from '@unified-latex/unified-latex-util-parse';
-import { attachMacroArgs as unifiedAttachMacroArgs } from '@unified-latex/unified-latex-util-arguments';
-import { processEnvironments as unifiedProcessEnvironments } from '@unified-latex/unified-latex-util-environments';
+import { attachMacroArgs as unifiedAttachMacroArgs, gobbleArguments } from '@unified-latex/unified-latex-util-arguments';
+import { processEnvironments as unifiedProcessEnvironments, processEnvironment } from '@unified-latex/unified-latex-util-environments';
+import { visit } from '@unified-latex/unified-latex-util-visit';
 import { printRaw as unifiedPrintRaw } from '@unified-latex/unified-latex-util-print-raw';
 
 /**
@@ -20,6 +21,8 @@ import { printRaw as unifiedPrintRaw } from '@unified-latex/unified-latex-util-p
 export interface ParserCreationOptions {
   flags?: {
     autodetectExpl3AndAtLetter?: boolean; // 是否自动检测 expl3 和 @letter 语法
+    atLetter?: boolean; // 是否总是将 @ 视为字母 (\makeatletter 语义，例如解析 .sty/.cls 文件)
+    expl3?: boolean; // 是否总是启用 expl3 语法 (_ 和 : 视为字母)
     // 可根据 unified-latex 文档添加其他标志
   };
   // 可添加其他解析器选项（如果可用/需要）
@@ -57,6 +60,41 @@ export function attachMacroArgs(ast: Ast.Root, macros: Ast.MacroInfoRecord): voi
   unifiedAttachMacroArgs(ast, macros);
 }
 
+/**
+ * 与 {@link attachMacroArgs} 相同，但每个宏使用其所在位置生效的宏信息记录，
+ * 使同一文件中重新定义前后的宏调用各自按当时的签名附加参数。
+ * 参数附加的顺序与 `unified-latex-util-arguments::attachMacroArgs` 一致 (每个节点数组从后向前)。
+ * 注意：AST 会被原地修改。
+ * @param ast - 要处理的 LaTeX AST ({@link Ast.Root} 节点)。
+ * @param macrosAt - 返回给定源码偏移量处生效的宏信息记录的函数；节点没有位置信息时参数为 `undefined`。
+ */
+export function attachMacroArgsByPosition(
+  ast: Ast.Root,
+  macrosAt: (offset: number | undefined) => Ast.MacroInfoRecord
+): void {
+  visit(ast, (nodes) => {
+    const array = nodes as unknown as Ast.Ast[];
+    for (let index = array.length - 1; index >= 0; index--) {
+      const node = array[index];
+      if (node.type !== 'macro') {
+        continue;
+      }
+      const macroInfo = macrosAt(node.position?.start.offset)[node.content];
+      const escapeToken = (macroInfo as { escapeToken?: string } | undefined)?.escapeToken;
+      if (!macroInfo || (escapeToken != null && escapeToken !== node.escapeToken)) {
+        continue;
+      }
+      if (macroInfo.renderInfo != null) {
+        node._renderInfo = { ...(node._renderInfo || {}), ...macroInfo.renderInfo };
+      }
+      if (macroInfo.signature == null || node.args != null) {
+        continue;
+      }
+      node.args = gobbleArguments(array, macroInfo.signature, index + 1).args;
+    }
+  }, { includeArrays: true, test: Array.isArray });
+}
+
 /**
  * 根据提供的环境信息记录 ({@link Ast.EnvInfoRecord})，处理 AST 中的环境，
  * 包括附加参数和处理其内容。
@@ -69,6 +107,27 @@ export function processEnvironments(ast: Ast.Root, environments: Ast.EnvInfoReco
   unifiedProcessEnvironments(ast, environments);
 }
 
+/**
+ * 与 {@link processEnvironments} 相同，但每个环境使用其所在位置生效的环境信息记录。
+ * 未知的环境保持原样。
+ * 注意：AST 会被原地修改。
+ * @param ast - 要处理的 LaTeX AST ({@link Ast.Root} 节点)。
+ * @param environmentsAt - 返回给定源码偏移量处生效的环境信息记录的函数；节点没有位置信息时参数为 `undefined`。
+ */
+export function processEnvironmentsByPosition(
+  ast: Ast.Root,
+  environmentsAt: (offset: number | undefined) => Ast.EnvInfoRecord
+): void {
+  visit(ast, {
+    leave: (node) => {
+      const envInfo = environmentsAt(node.position?.start.offset)[printRaw(node.env)];
+      if (envInfo) {
+        processEnvironment(node as Ast.Environment, envInfo);
+      }
+    },
+  }, { test: (node) => node?.type === 'environment' || node?.type === 'mathenv' });
+}
+
 /**
  * 将一个 AST 节点或 AST 节点数组转换为其原始的 LaTeX 字符串表示形式。
  * 此函数是对 `unified-latex-util-print-raw::printRaw` 的封装。
@@ -0,0 +1,288 @@
+/**
+ * 逐字环境工具模块
+ *
+ * 原始解析器只把少数内置的逐字环境 (`verbatim`、`comment`、`lstlisting`、`minted` 等) 的内容保留为原始文本，
+ * 其他逐字环境 (例如 `\lstnewenvironment` 定义的环境) 的内容会被当作 LaTeX 解析：`%` 之后的代码变成注释，
+ * 不配对的花括号和 `$` 会破坏其后的 AST。本模块在解析前把这些环境的内容替换为等长的空白，
+ * 解析后再恢复为原始字符串 (位置信息因此保持不变)，并为代码块标注语言。
+ */
+import type { Ast, VerbatimEnvironmentInfo, CodeBlockNode, LearnedVerbatimEnvironmentNode } from '../types/index';
+import { visit } from './astQuery';
+import { printRaw } from './unifiedLatexBridge';
+import { computeLineOffsets, offsetToPoint } from './sourcePositions';
+import { parseXparseArgSpec } from './xparseArgSpec';
+
+/**
+ * 原始解析器本身就保留原始内容的逐字环境。它们的参数由 CTAN 中的签名附加。
+ */
+export const BUILTIN_VERBATIM_ENVIRONMENTS: Record<string, VerbatimEnvironmentInfo> = {
+    'verbatim': { signature: '' },
+    'verbatim*': { signature: '' },
+    'filecontents': { signature: '' },
+    'filecontents*': { signature: '' },
+    'comment': { signature: '' },
+    'lstlisting': { signature: 'o' },
+    'minted': { signature: 'o m', languageArgIndex: 1 },
+};
+
+/**
+ * 宏包预先定义、但原始解析器不认识的逐字环境 (fancyvrb 的 `Verbatim` 等、tcolorbox listings 库的 `tcblisting`)。
+ */
+export const PACKAGE_VERBATIM_ENVIRONMENTS: Record<string, VerbatimEnvironmentInfo> = {
+    'Verbatim': { signature: 'o' },
+    'Verbatim*': { signature: 'o' },
+    'BVerbatim': { signature: 'o' },
+    'LVerbatim': { signature: 'o' },
+    'tcblisting': { signature: 'm' },
+};
+
+/**
+ * 一个被遮盖的逐字环境内容在源码中的位置 (`end` 为 `\end{...}` 的起始偏移量) 及其原始文本。
+ */
+export interface MaskedVerbatimBody {
+    env: string;
+    start: number;
+    end: number;
+    text: string;
+    /** 内容在源码中的位置 (包括行号和列号)，用作恢复后字符串节点的位置 */
+    position: Ast.Position;
+}
+
+/**
+ * 从 `language=...` 形式的选项文本 (例如 `\lstset{language=Python,#1}` 或 `listing options={language=C}`) 中找出代码的语言。
+ * 值中带有 `#` (由参数决定) 时视为没有给出。
+ * @param text - 选项或定义代码的原始文本。
+ * @returns 语言名称 (包括 `[Sharp]C` 形式的方言)，没有找到时返回 `undefined`。
+ */
+export function findLanguageOption(text: string): string | undefined {
+    const match = /(?:^|[\s,{[])language\s*=\s*\{?\s*((?:\[[^\]]*\])?[^,{}[\]\s#]+)/.exec(text);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * (内部) 从 `index` 开始跳过空格和制表符 (不跨行)。
+ */
+function skipSpaces(source: string, index: number): number {
+    while (index < source.length && (source[index] === ' ' || source[index] === '\t')) {
+        index++;
+    }
+    return index;
+}
+
+/**
+ * (内部) 读取从 `index` 开始的、以 `open`/`close` 定界并允许嵌套的组，返回组结束后的偏移量；不是这样的组时返回 `-1`。
+ */
+function readDelimitedGroup(source: string, index: number, open: string, close: string): number {
+    if (source[index] !== open) {
+        return -1;
+    }
+    let depth = 0;
+    for (let i = index; i < source.length; i++) {
+        if (source[i] === '\\') {
+            i++;
+        } else if (source[i] === open) {
+            depth++;
+        } else if (source[i] === close && --depth === 0) {
+            return i + 1;
+        }
+    }
+    return -1;
+}
+
+/**
+ * (内部) 按环境的签名跳过 `\begin{name}` 之后同一行中的参数，返回逐字内容的起始偏移量。
+ * 只识别 `s`、`o`/`O`/`d`/`D` 形式的 `[...]` 和 `m` 形式的 `{...}`，遇到其他参数类型时停止。
+ */
+function skipEnvironmentArguments(source: string, index: number, signature: string): number {
+    for (const arg of parseXparseArgSpec(signature)) {
+        const start = skipSpaces(source, index);
+        let end = -1;
+        if (arg.specifier === 's') {
+            end = source[start] === '*' ? start + 1 : -1;
+        } else if (arg.specifier === 'o' || arg.specifier === 'O' || ((arg.specifier === 'd' || arg.specifier === 'D') && arg.openDelimiter === '[')) {
+            end = readDelimitedGroup(source, start, '[', ']');
+        } else if (arg.specifier === 'm') {
+            end = readDelimitedGroup(source, start, '{', '}');
+            if (end === -1) {
+                break;
+            }
+        } else {
+            break;
+        }
+        if (end !== -1) {
+            index = end;
+        }
+    }
+    return index;
+}
+
+/**
+ * 把源码中逐字环境的内容替换为等长的空白 (保留换行)，使原始解析器不把它们当作 LaTeX 解析。
+ * 内置的逐字环境 ({@link BUILTIN_VERBATIM_ENVIRONMENTS}) 由原始解析器处理，不会被遮盖，但扫描时会跳过其内容；注释中的 `\begin` 被忽略。
+ * @param source - 文件的源码。
+ * @param environments - 已知的逐字环境。
+ * @returns 遮盖后的源码以及每个被遮盖的内容 (按出现顺序)，供 {@link restoreVerbatimBodies} 恢复。
+ */
+export function maskVerbatimEnvironments(
+    source: string,
+    environments: Record<string, VerbatimEnvironmentInfo>
+): { source: string; bodies: MaskedVerbatimBody[] } {
+    const bodies: MaskedVerbatimBody[] = [];
+    const names = new Set([...Object.keys(environments), ...Object.keys(BUILTIN_VERBATIM_ENVIRONMENTS)]);
+    if (names.size === 0 || !source.includes('\\begin')) {
+        return { source, bodies };
+    }
+    const beginPattern = /\\begin\s*\{([^{}]+)\}/g;
+    let lineOffsets: number[] | undefined;
+    let index = 0;
+    while (index < source.length) {
+        const char = source[index];
+        if (char === '\\' && source[index + 1] === '%') {
+            index += 2;
+            continue;
+        }
+        if (char === '%') {
+            const lineEnd = source.indexOf('\n', index);
+            index = lineEnd === -1 ? source.length : lineEnd + 1;
+            continue;
+        }
+        beginPattern.lastIndex = index;
+        const match = char === '\\' ? beginPattern.exec(source) : null;
+        if (!match || match.index !== index || !names.has(match[1].trim())) {
+            index++;
+            continue;
+        }
+        const env = match[1].trim();
+        const endMarker = `\\end{${env}}`;
+        const builtin = Object.prototype.hasOwnProperty.call(BUILTIN_VERBATIM_ENVIRONMENTS, env);
+        const start = builtin ? index + match[0].length : skipEnvironmentArguments(source, index + match[0].length, environments[env].signature);
+        const end = source.indexOf(endMarker, start);
+        if (end === -1) {
+            index += match[0].length;
+            continue;
+        }
+        if (!builtin) {
+            lineOffsets = lineOffsets ?? computeLineOffsets(source);
+            const position = { start: offsetToPoint(lineOffsets, start), end: offsetToPoint(lineOffsets, end) };
+            bodies.push({ env, start, end, text: source.slice(start, end), position });
+        }
+        index = end + endMarker.length;
+    }
+    if (bodies.length === 0) {
+        return { source, bodies };
+    }
+    let masked = '';
+    let last = 0;
+    for (const body of bodies) {
+        masked += source.slice(last, body.start) + body.text.replace(/[^\r\n]/g, ' ');
+        last = body.end;
+    }
+    masked += source.slice(last);
+    return { source: masked, bodies };
+}
+
+/**
+ * 在解析遮盖后的源码得到的 AST 中恢复逐字环境的内容：环境内容中落在被遮盖范围内的节点 (空白和段落分隔)
+ * 被替换为一个包含原始文本的字符串节点 (位置为被遮盖的范围)，位于 `\begin{name}` 之后的参数节点之后。
+ * 附加环境参数之后，再由 {@link collapseVerbatimBodies} 把它转换为字符串形式的 `content`。
+ * @param ast - 解析 {@link maskVerbatimEnvironments} 返回的源码得到的 AST (原地修改)。
+ * @param bodies - 被遮盖的内容。
+ */
+export function restoreVerbatimBodies(ast: Ast.Root, bodies: MaskedVerbatimBody[]): void {
+    if (bodies.length === 0) {
+        return;
+    }
+    const pending = new Map(bodies.map(body => [body.start, body]));
+    visit(ast, (node: Ast.Ast) => {
+        if (node.type !== 'environment' || !node.position) {
+            return;
+        }
+        const environment = node as Ast.Environment;
+        const begin = environment.position!.start.offset;
+        const body = [...pending.values()].find(candidate => candidate.env === environment.env && candidate.start > begin && candidate.end < environment.position!.end.offset);
+        if (!body) {
+            return;
+        }
+        pending.delete(body.start);
+        const inBody = (child: Ast.Ast) => child.position !== undefined && child.position.start.offset >= body.start && child.position.end.offset <= body.end;
+        const firstIndex = environment.content.findIndex(inBody);
+        const kept = environment.content.filter(child => !inBody(child));
+        const insertAt = firstIndex === -1 ? kept.length : firstIndex;
+        kept.splice(insertAt, 0, { type: 'string', content: body.text, position: body.position } as Ast.String);
+        environment.content = kept;
+    });
+}
+
+/**
+ * 把已知逐字环境 (内置的除外) 的内容转换为与内置 `verbatim` 节点相同的形式：`content` 为原始字符串，
+ * 并标记 `verbatim: true` (参见 {@link LearnedVerbatimEnvironmentNode})。
+ * 应在附加环境参数之后调用，此时环境内容中只剩下 {@link restoreVerbatimBodies} 恢复的字符串节点。
+ * @param ast - 要转换的 AST (原地修改)。
+ * @param environments - 已知的逐字环境。
+ * @returns 转换的环境数量。
+ */
+export function collapseVerbatimBodies(ast: Ast.Root, environments: Record<string, VerbatimEnvironmentInfo>): number {
+    let count = 0;
+    visit(ast, (node: Ast.Ast) => {
+        if (node.type !== 'environment' || !Array.isArray(node.content)) {
+            return;
+        }
+        const environment = node as Ast.Environment;
+        const env = environment.env;
+        if (!Object.prototype.hasOwnProperty.call(environments, env) || Object.prototype.hasOwnProperty.call(BUILTIN_VERBATIM_ENVIRONMENTS, env)) {
+            return;
+        }
+        if (environment.content.length !== 1 || environment.content[0].type !== 'string') {
+            return;
+        }
+        const collapsed = environment as unknown as LearnedVerbatimEnvironmentNode;
+        collapsed.content = (environment.content[0] as Ast.String).content;
+        collapsed.verbatim = true;
+        count++;
+    });
+    return count;
+}
+
+/**
+ * 判断节点是否为已知逐字环境 (内置的除外) 的节点，即经过 {@link collapseVerbatimBodies} 转换的节点。
+ */
+export function isLearnedVerbatimEnvironment(node: Ast.Ast): boolean {
+    return node.type === 'environment' && (node as Partial<LearnedVerbatimEnvironmentNode>).verbatim === true;
+}
+
+/**
+ * 为代码块 (逐字环境的节点) 标注语言，参见 {@link CodeBlockNode}。语言依次取自：参数中的 `language=` 选项、
+ * {@link VerbatimEnvironmentInfo.languageArgIndex} 指定的参数、环境定义给出的语言。应在附加环境参数之后调用。
+ * @param ast - 要标注的 AST (原地修改)。
+ * @param environments - 已知的逐字环境 (内置的逐字环境总是包括在内)。
+ * @returns 标注了语言的代码块数量。
+ */
+export function annotateCodeBlockLanguages(ast: Ast.Root, environments: Record<string, VerbatimEnvironmentInfo>): number {
+    let count = 0;
+    visit(ast, (node: Ast.Ast) => {
+        if (node.type !== 'environment' && node.type !== 'verbatim') {
+            return;
+        }
+        const block = node as Ast.Environment | Ast.VerbatimEnvironment;
+        const info = Object.prototype.hasOwnProperty.call(BUILTIN_VERBATIM_ENVIRONMENTS, block.env)
+            ? BUILTIN_VERBATIM_ENVIRONMENTS[block.env]
+            : environments[block.env];
+        if (!info) {
+            return;
+        }
+        const args = block.args || [];
+        const optionLanguage = args
+            .filter(arg => arg.openMark === '[')
+            .map(arg => findLanguageOption(printRaw(arg.content)))
+            .find(language => language !== undefined);
+        const argLanguage = info.languageArgIndex !== undefined && args[info.languageArgIndex]
+            ? printRaw(args[info.languageArgIndex].content).trim() || undefined
+            : undefined;
+        const language = optionLanguage ?? argLanguage ?? info.language;
+        if (language) {
+            (block as CodeBlockNode).codeLanguage = language;
+            count++;
+        }
+    });
+    return count;
+}
@@ -0,0 +1,231 @@
+/**
+ * xparse (LaTeX3) 参数规范解析模块。
+ *
+ * `\NewDocumentCommand`、`\NewDocumentEnvironment`、`\DeclareTColorBox` 等命令使用 xparse 参数规范描述参数，
+ * 例如 `s O{default} >{\SplitList{;}} +m e{^_}`。此模块将规范解析为结构化的 {@link XparseArgument} 列表，
+ * 并将其转换为 `unified-latex` 参数附加逻辑可以使用的签名字符串。
+ */
+
+import type { XparseArgument } from '../types/index';
+import { createLogger, Logger } from '../utils/logger';
+
+const logger: Logger = createLogger('latex-utils:xparseArgSpec');
+
+/** 不带额外数据的参数类型 */
+const SIMPLE_SPECIFIERS = new Set(['m', 'o', 's', 'v', 'b', 'l', 'g']);
+
+/**
+ * 将参数规范拆分为记号：控制序列 (`\foo`)、花括号组 (`{...}`，保留花括号) 或单个字符。空白被忽略。
+ * @param spec - 参数规范文本。
+ * @returns 记号数组。
+ */
+function tokenizeArgSpec(spec: string): string[] {
+    const tokens: string[] = [];
+    let i = 0;
+    while (i < spec.length) {
+        const char = spec[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '\\') {
+            const controlWord = /^\\[A-Za-z@]+/.exec(spec.substring(i));
+            const token = controlWord ? controlWord[0] : spec.substring(i, i + 2);
+            tokens.push(token);
+            i += token.length;
+        } else if (char === '{') {
+            let depth = 0;
+            let end = i;
+            for (; end < spec.length; end++) {
+                if (spec[end] === '\\') {
+                    end++;
+                } else if (spec[end] === '{') {
+                    depth++;
+                } else if (spec[end] === '}' && --depth === 0) {
+                    break;
+                }
+            }
+            tokens.push(spec.substring(i, end + 1));
+            i = end + 1;
+        } else {
+            tokens.push(char);
+            i++;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * 去掉花括号组记号两端的花括号；其他记号原样返回。
+ */
+function stripBraces(token: string): string {
+    return token.startsWith('{') && token.endsWith('}') ? token.substring(1, token.length - 1) : token;
+}
+
+/**
+ * (内部) 解析 xparse 参数规范，遇到无法识别或不完整的规范时停止。
+ * @returns 此前已解析的参数，以及 (规范有误时的) 错误描述。
+ */
+function parseArgSpec(spec: string): { args: XparseArgument[]; error?: string } {
+    const tokens = tokenizeArgSpec(spec);
+    const args: XparseArgument[] = [];
+    let pos = 0;
+    let consumed: string[] = [];
+    let prefix: Pick<XparseArgument, 'long' | 'noLeadingWhitespace' | 'processors'> = {};
+
+    const next = (): string | undefined => {
+        const token = tokens[pos++];
+        if (token !== undefined) {
+            consumed.push(token);
+        }
+        return token;
+    };
+
+    while (pos < tokens.length) {
+        const specifier = next()!;
+        if (specifier === '+') {
+            prefix.long = true;
+            continue;
+        }
+        if (specifier === '!') {
+            prefix.noLeadingWhitespace = true;
+            continue;
+        }
+        if (specifier === '>' || specifier === '=') {
+            const processor = next();
+            if (processor === undefined) {
+                return { args, error: `xparse 参数规范 '${spec}' 中的 '${specifier}' 缺少处理器。` };
+            }
+            if (specifier === '>') {
+                prefix.processors = [...(prefix.processors || []), stripBraces(processor)];
+            }
+            continue;
+        }
+
+        const arg: XparseArgument = { specifier, rawSpecifier: '', ...prefix };
+        let complete = true;
+        if (SIMPLE_SPECIFIERS.has(specifier)) {
+            // 无额外数据
+        } else if (specifier === 'O' || specifier === 'G') {
+            const defaultValue = next();
+            complete = defaultValue !== undefined;
+            arg.defaultValue = complete ? stripBraces(defaultValue!) : undefined;
+        } else if (specifier === 't') {
+            arg.openDelimiter = next();
+            complete = arg.openDelimiter !== undefined;
+        } else if (specifier === 'r' || specifier === 'R' || specifier === 'd' || specifier === 'D') {
+            arg.openDelimiter = next();
+            arg.closeDelimiter = next();
+            complete = arg.closeDelimiter !== undefined;
+            if (complete && (specifier === 'R' || specifier === 'D')) {
+                const defaultValue = next();
+                complete = defaultValue !== undefined;
+                arg.defaultValue = complete ? stripBraces(defaultValue!) : undefined;
+            }
+        } else if (specifier === 'e' || specifier === 'E') {
+            const tokenGroup = next();
+            complete = tokenGroup !== undefined;
+            arg.tokens = complete ? tokenizeArgSpec(stripBraces(tokenGroup!)) : undefined;
+            if (complete && specifier === 'E') {
+                const defaults = next();
+                complete = defaults !== undefined;
+                arg.defaultValue = complete ? tokenizeArgSpec(stripBraces(defaults!)).map(stripBraces) : undefined;
+            }
+        } else if (specifier === 'u') {
+            const stopTokens = next();
+            complete = stopTokens !== undefined;
+            arg.tokens = complete
+                ? (stopTokens!.startsWith('{') ? tokenizeArgSpec(stripBraces(stopTokens!)) : [stopTokens!])
+                : undefined;
+        } else {
+            return { args, error: `xparse 参数规范 '${spec}' 中包含无法识别的参数类型 '${specifier}'，其后的参数被忽略。` };
+        }
+        if (!complete) {
+            return { args, error: `xparse 参数规范 '${spec}' 中的参数 '${specifier}' 不完整，已忽略。` };
+        }
+        arg.rawSpecifier = consumed.join('');
+        args.push(arg);
+        consumed = [];
+        prefix = {};
+    }
+    if (consumed.length > 0) {
+        return { args, error: `xparse 参数规范 '${spec}' 以前缀 '${consumed.join('')}' 结尾，缺少参数类型。` };
+    }
+    return { args };
+}
+
+/**
+ * 解析 xparse 参数规范。
+ * 支持的参数类型：`m`, `o`, `O{默认值}`, `s`, `t<记号>`, `r<开><闭>`, `R<开><闭>{默认值}`, `d<开><闭>`,
+ * `D<开><闭>{默认值}`, `e{记号}`, `E{记号}{默认值}`, `v`, `b`, `u{记号}`, `l`, `g`, `G{默认值}`，
+ * 以及 `+`、`!` 前缀和 `>{处理器}` 参数处理器。
+ * 遇到无法识别或不完整的规范时记录警告，并返回此前已解析的参数。
+ * @param spec - 参数规范文本，例如 `"s O{x} m"`。
+ * @returns {@link XparseArgument} 数组。
+ */
+export function parseXparseArgSpec(spec: string): XparseArgument[] {
+    const { args, error } = parseArgSpec(spec);
+    if (error) {
+        logger.warn(error);
+    }
+    return args;
+}
+
+/**
+ * 检查 xparse 参数规范是否有误 (包含无法识别或不完整的参数类型)，不记录日志。
+ * @param spec - 参数规范文本。
+ * @returns 错误描述；规范无误时返回 `null`。
+ */
+export function findXparseArgSpecError(spec: string): string | null {
+    return parseArgSpec(spec).error ?? null;
+}
+
+/**
+ * 将单个 xparse 参数转换为 `unified-latex` 签名中的一项。
+ * - `v` 转换为 `m`：`unified-latex` 要求 `v` 带有固定定界符，而 xparse 的定界符在使用时才确定，这里按最常见的 `{...}` 形式处理。
+ * - `b` (环境体)、`l` 和 `g`/`G` 无法由参数附加逻辑表示，返回 `null`。
+ * @param arg - 解析后的参数。
+ * @returns 签名项，例如 `"+O{x}"`；无法表示时返回 `null`。
+ */
+export function xparseArgumentToSignature(arg: XparseArgument): string | null {
+    const prefix = `${arg.long ? '+' : ''}${arg.noLeadingWhitespace ? '!' : ''}`;
+    const tokens = arg.tokens || [];
+    switch (arg.specifier) {
+        case 'm':
+        case 'o':
+        case 's':
+            return prefix + arg.specifier;
+        case 'v':
+            return prefix + 'm';
+        case 'O':
+            return `${prefix}O{${arg.defaultValue}}`;
+        case 't':
+            return `${prefix}t${arg.openDelimiter}`;
+        case 'r':
+        case 'd':
+            return `${prefix}${arg.specifier}${arg.openDelimiter}${arg.closeDelimiter}`;
+        case 'R':
+        case 'D':
+            return `${prefix}${arg.specifier}${arg.openDelimiter}${arg.closeDelimiter}{${arg.defaultValue}}`;
+        case 'e':
+            return `${prefix}e{${tokens.join('')}}`;
+        case 'E': {
+            const defaults = Array.isArray(arg.defaultValue) ? arg.defaultValue : [];
+            return `${prefix}E{${tokens.join('')}}{${defaults.map(value => `{${value}}`).join('')}}`;
+        }
+        case 'u':
+            return tokens.length === 1 ? `${prefix}u${tokens[0]}` : `${prefix}u{${tokens.join('')}}`;
+        default:
+            return null;
+    }
+}
+
+/**
+ * 将 xparse 参数规范转换为 `unified-latex` 可以使用的签名字符串。
+ * @param spec - 参数规范文本，例如 `"s t+ O{x} >{\SplitList{;}} +m"`。
+ * @returns 签名字符串，例如 `"s t+ O{x} +m"`。
+ */
+export function xparseArgSpecToSignature(spec: string): string {
+    return parseXparseArgSpec(spec)
+        .map(xparseArgumentToSignature)
+        .filter((part): part is string => part !== null)
+        .join(' ');
+}
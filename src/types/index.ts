@@ -21,6 +21,220 @@ export interface ProjectFileAst {
   ast: Ast.Root;
   /** 可选的错误信息，如果解析此特定文件失败 */
   error?: string;
+  /** 如果此文件被 `\includeonly`/`\excludeonly` 排除 (且 `includeOnlyMode` 为 `'flag'`)，则为 true */
+  excluded?: boolean;
+  /**
+   * 文件的行偏移量表：第 `i` 项为第 `i + 1` 行第一个字符的偏移量。仅在启用 `ParserOptions.positions` 时提供，
+   * 供 `locate` 把节点的偏移量转换为行号和列号。
+   */
+  lineOffsets?: number[];
+}
+
+/**
+ * 一个节点在项目源文件中的位置 (`locate` 的返回值)。
+ */
+export interface SourceLocation {
+  /** 节点所在文件的路径 */
+  file: string;
+  /** 行号 (从 1 开始) */
+  line: number;
+  /** 列号 (从 1 开始) */
+  column: number;
+  /** 在文件源码中的偏移量 (从 0 开始) */
+  offset: number;
+}
+
+/**
+ * `printLatex` 的选项。
+ */
+export interface PrintLatexOptions {
+  /**
+   * (可选) 输出格式。`'preserve'` (默认) 尽量保持原有的排版：提供 `source` 时节点之间的空白、注释周围的空白和
+   * 参数的定界符按源码输出，未修改的 AST 可以逐字节还原；`'normalized'` 忽略原有的空白，环境内容统一缩进，
+   * 每个 `\item` 单独一行，空行合并为一行。
+   */
+  format?: 'preserve' | 'normalized';
+  /** (可选) AST 解析自的源码，仅用于 `'preserve'` 格式。AST 中的节点需要带有位置信息 (原始解析器总是记录)。 */
+  source?: string;
+  /** (可选) `'normalized'` 格式中每一层环境的缩进。默认为两个空格。 */
+  indent?: string;
+}
+
+/**
+ * 往返检查中原始源码与重新输出的文本之间的一处差异：去掉相同的开头和结尾的行之后剩余的部分。
+ */
+export interface RoundTripDifference {
+  /** 差异在原始源码中的起始行号 (从 1 开始) */
+  line: number;
+  /** 原始源码中的行 */
+  expected: string[];
+  /** 重新输出的文本中的行 */
+  actual: string[];
+}
+
+/**
+ * `checkRoundTrip` 的结果。
+ */
+export interface RoundTripResult {
+  /** 重新输出的文本是否与原始源码完全相同 */
+  identical: boolean;
+  /** 按 `'preserve'` 格式重新输出的文本 */
+  printed: string;
+  /** 差异 (相同时为 `undefined`) */
+  difference?: RoundTripDifference;
+}
+
+/**
+ * 文档中对宏包或文档类的一次引用 (`\usepackage`、`\RequirePackage`、`\documentclass`、`\LoadClass`)。
+ */
+export interface PackageReference {
+  /** 宏包或文档类的名称，例如 `mylab` */
+  name: string;
+  /** `'package'` 对应 `.sty` 文件，`'class'` 对应 `.cls` 文件 */
+  kind: 'package' | 'class';
+  /** 使用的命令，例如 `usepackage` */
+  command: string;
+}
+
+/**
+ * 在项目目录中找到并解析的本地宏包 (`.sty`) 或文档类 (`.cls`) 文件。
+ */
+export interface LocalPackageFile {
+  /** 宏包或文档类的名称 */
+  name: string;
+  /** `'package'` 或 `'class'` */
+  kind: 'package' | 'class';
+  /** 文件的规范化绝对路径 */
+  filePath: string;
+  /** 首次引用此宏包的文件路径 */
+  requestedBy: string;
+  /** (可选) 解析得到的 AST；仅在启用 `ParserOptions.includePackageAsts` 时提供 */
+  ast?: Ast.Root | null;
+  /** 可选的错误信息，如果读取或解析此文件失败 */
+  error?: string;
+}
+
+/**
+ * 文件头部的 `% !TeX key = value` 魔法注释 (TeXstudio、TeXShop、LaTeX Workshop 等编辑器使用)。
+ * 键名统一为小写；TeXShop 的 `TS-program` 被视为 `program`。
+ */
+export interface TexMagicComments {
+  /** `% !TeX root = ...`：此文件所属项目的根文件 (相对于此文件所在目录) */
+  root?: string;
+  /** `% !TeX program = ...` (或 `TS-program`)：编译使用的引擎，例如 `xelatex` */
+  program?: string;
+  /** `% !TeX encoding = ...`：文件编码，例如 `UTF-8` */
+  encoding?: string;
+  /** 其他魔法注释，例如 `spellcheck` */
+  [key: string]: string | undefined;
+}
+
+/**
+ * 一个文件被判定为根文件候选的理由。
+ * - `entry-file`: 入口路径直接指定了此文件
+ * - `magic-root-target`: 其他文件的 `% !TeX root` 魔法注释指向此文件
+ * - `has-documentclass`: 文件包含 `\documentclass`
+ * - `has-begin-document`: 文件包含 `\begin{document}`
+ * - `not-included`: 没有其他文件通过 `\input`/`\include` 等命令包含此文件
+ * - `common-name`: 文件名是常见的根文件名 (例如 `main.tex`)
+ */
+export type RootCandidateReason =
+  | 'entry-file'
+  | 'magic-root-target'
+  | 'has-documentclass'
+  | 'has-begin-document'
+  | 'not-included'
+  | 'common-name';
+
+/**
+ * 根文件候选及其排名依据。
+ */
+export interface RootFileCandidate {
+  /** 候选文件的规范化绝对路径 */
+  filePath: string;
+  /** 排名分数 (各理由权重之和)，越高越可能是根文件 */
+  score: number;
+  /** 判定理由 */
+  reasons: RootCandidateReason[];
+}
+
+/**
+ * 根文件重定向记录：入口文件通过 `% !TeX root` 魔法注释指向了真正的根文件。
+ */
+export interface RootRedirection {
+  /** 最初作为入口的文件 */
+  entryFilePath: string;
+  /** 最终确定的根文件 */
+  rootFilePath: string;
+  /** 完整的重定向链 (从入口文件到根文件，包括两端) */
+  chain: string[];
+  /**
+   * 入口文件头部的魔法注释 (包括指向下一个文件的 `root`)。编辑器按入口文件中的 `program`/`encoding` 编译，
+   * 它们可能与根文件的魔法注释 ({@link ProjectAST.rootMagicComments}) 不同。
+   */
+  entryMagicComments: TexMagicComments;
+}
+
+/**
+ * `\includeonly{...}` / `\excludeonly{...}` 指令的内容 (逗号分隔的文件名列表)。
+ */
+export interface InclusionDirectives {
+  /** `\includeonly` 列出的文件名；未出现该指令时为 undefined */
+  includeOnly?: string[];
+  /** `\excludeonly` (excludeonly 宏包) 列出的文件名；未出现该指令时为 undefined */
+  excludeOnly?: string[];
+}
+
+/**
+ * 单文档 (内联) 模式中的标记节点。
+ * 它替换了原文件中的包含命令宏节点，其 `content` 是被包含文件解析后的内容。
+ * 以普通环境节点的形式出现，因此现有的 AST 遍历工具无需修改即可进入其内容。
+ */
+export interface InlinedFileNode extends Ast.Environment {
+  /** 固定为 `INLINED_FILE_ENV` (`'@inlined-file'`，定义于 `ast/AstFlattener.ts`) */
+  env: string;
+  /** 被内联文件的来源信息 */
+  inlinedFrom: {
+    /** 被内联文件的规范化绝对路径 */
+    filePath: string;
+    /** 包含命令所在的文件路径 */
+    parentFilePath: string;
+    /** 使用的包含命令 (例如 input、include、subfile) */
+    command: string;
+    /** 命令中的原始路径字符串 */
+    rawPath: string;
+  };
+  /** 被替换掉的原始包含命令宏节点 */
+  includeMacro: Ast.Macro;
+}
+
+/**
+ * 文件包含树中的一个节点。
+ * 根节点对应项目根文件 (没有 `command`/`rawPath`/`parentFilePath`)，
+ * 其余每个节点都对应一条包含边：父文件在 `position` 处通过 `command` 引用了 `rawPath`。
+ * `children` 按其在父文件中出现的顺序 (即文档顺序) 排列。
+ */
+export interface IncludeTreeNode {
+  /** 被包含文件的规范化绝对路径 */
+  filePath: string;
+  /** 包含此文件的父文件路径；根节点为 undefined */
+  parentFilePath?: string;
+  /** 使用的包含命令 (例如 input、include、subfile)；根节点为 undefined */
+  command?: string;
+  /** 命令中的原始路径字符串；根节点为 undefined */
+  rawPath?: string;
+  /** `import` 宏包命令 (例如 `\subimport{dir}{file}`) 中的原始目录参数 */
+  rawDir?: string;
+  /** 包含命令在父文件中的源码位置 */
+  position?: Ast.Position;
+  /** 如果被引用的文件不存在，则为 true */
+  missing?: boolean;
+  /** 如果此文件在文档中更早的位置已被解析 (重复包含或循环包含)，则为 true；此时不再展开其子节点 */
+  alreadyParsed?: boolean;
+  /** 如果此 `\include` 被 `\includeonly`/`\excludeonly` 排除，则为 true */
+  excluded?: boolean;
+  /** 此文件按文档顺序包含的子文件 */
+  children: IncludeTreeNode[];
 }
 
 /**
@@ -29,8 +243,36 @@ export interface ProjectFileAst {
 export interface ProjectAST {
   /** 指向项目中已识别的根.tex文件的绝对路径。如果无法确定根文件，则为null */
   rootFilePath: string | null;
-  /** 项目中每个已解析文件的AST和元数据 */
+  /** 项目中每个已解析文件的AST和元数据，按文档顺序 (深度优先展开包含命令) 排列 */
   files: ProjectFileAst[];
+  /** 文件包含树，记录每条包含边的父文件、命令、原始路径和源码位置。如果无法确定根文件，则为 null */
+  includeTree?: IncludeTreeNode | null;
+  /**
+   * (可选) 如果入口文件通过 `% !TeX root = ...` 魔法注释被重定向到另一个根文件，则记录重定向链。
+   */
+  rootRedirection?: RootRedirection;
+  /** (可选) 根文件头部的 `% !TeX ...` 魔法注释 (例如 `program`、`encoding`) */
+  rootMagicComments?: TexMagicComments;
+  /**
+   * (可选) 单文档模式 (`ParserOptions.flatten`) 下合并后的 AST：
+   * 每个包含命令都被替换为包裹了目标文件内容的 {@link InlinedFileNode}。
+   */
+  flattenedAst?: Ast.Root | null;
+  /**
+   * (可选) 解析时生效的 `\includeonly`/`\excludeonly` 列表，以及它们的来源
+   * (`'document'` 表示来自文档中的指令，`'options'` 表示来自 {@link ParserOptions} 的覆盖)。
+   */
+  inclusionControl?: InclusionDirectives & { source: 'document' | 'options' };
+  /**
+   * (可选) 项目目录中找到并解析的本地宏包/文档类文件 (`.sty`/`.cls`)，按加载顺序排列。
+   * 只有启用 `ParserOptions.includePackageAsts` 时才包含 `ast`。
+   */
+  localPackages?: LocalPackageFile[];
+  /**
+   * (可选) 项目通过 `\usepackage`/`\RequirePackage`/`\documentclass`/`\LoadClass` 引用的宏包和文档类名称，
+   * 按首次出现顺序排列。CTAN 中收录的宏包会据此加载其宏签名 (见 `_detailedMacros.ctanPackages`)。
+   */
+  usedPackages?: string[];
   /** 
    * 用于解析项目的最终聚合宏定义。
    * 注意：@unified-latex/unified-latex-types 定义了 Ast.MacroInfoRecord 
@@ -39,7 +281,9 @@ export interface ProjectAST {
   /** 可选：按来源分类的详细宏信息，用于调试或更细致的分析 */
   _detailedMacros?: {
     defaultAndUser: Ast.MacroInfoRecord;
+    ctanPackages: Ast.MacroInfoRecord;
     definedInDocument: Ast.MacroInfoRecord;
+    packageLocal: Ast.MacroInfoRecord;
     inferredUsed: Ast.MacroInfoRecord;
     finalEffectiveMacros: Ast.MacroInfoRecord;
   };
@@ -53,14 +297,48 @@ export interface ProjectAST {
     ctanEnvironments: Ast.EnvInfoRecord;
     userProvidedEnvironments: Ast.EnvInfoRecord;
     definedInDocumentEnvironments: Ast.EnvInfoRecord;
+    packageLocalEnvironments: Ast.EnvInfoRecord;
+    inferredUsedEnvironments: Ast.EnvInfoRecord;
     finalEffectiveEnvironments: Ast.EnvInfoRecord;
   };
+  /**
+   * (可选) 每个最终生效的宏和环境的来源记录 (胜出的类别、定义所在的文件和位置、定义命令及源码)，
+   * 键与 {@link ProjectAST.macros}/{@link ProjectAST.environments} 相同。
+   */
+  definitionProvenance?: {
+    macros: Record<string, DefinitionProvenance>;
+    environments: Record<string, DefinitionProvenance>;
+  };
+  /**
+   * (可选) 文档中每一次宏/环境的 (重新) 定义，按文档顺序排列。
+   * 定义只对文档中其后的内容生效；可用 `getDefinitionsInEffectAt` 查询某一位置生效的定义。
+   */
+  definitionTimeline?: DefinitionTimelineEntry[];
+  /**
+   * (可选) 静态检测到的定义问题 (重复定义、重新定义未定义的名称、不同文件中的参数个数不一致)。宏的诊断在前，各自按文档顺序排列。
+   * 每条诊断同时附加在对应定义节点的 `definitionDiagnostics` 上 (参见 {@link DiagnosedDefinitionNode})。
+   */
+  definitionDiagnostics?: DefinitionDiagnostic[];
+  /**
+   * (可选) 每个推断出的宏 (`_detailedMacros.inferredUsed`) 的推断依据：调用形式的直方图、置信度以及与推断结果不一致的调用。
+   * 置信度高的推断可以直接提升到自定义宏文件中。
+   */
+  inferredMacroSignatures?: Record<string, InferredMacroSignature>;
+  /** (可选) 每个推断出的环境 (`_detailedEnvironments.inferredUsedEnvironments`) 的推断依据，与 {@link ProjectAST.inferredMacroSignatures} 相同 */
+  inferredEnvironmentSignatures?: Record<string, InferredMacroSignature>;
+  /**
+   * (可选) 文档和本地宏包中定义的定理类环境 (`\newtheorem`、`\declaretheorem`) 的编号方式和样式，
+   * 键为环境名称。同名环境以文档末尾生效的定义为准。
+   */
+  theoremEnvironments?: Record<string, TheoremSpec>;
   /** 项目解析期间遇到的全局错误消息列表 */
   errors?: string[];
   // 可选：包含处理元数据，如版本、时间戳等
   _processingInfo?: {
     timestamp: string;
     parserVersion: string; // 应从 package.json 或其他地方获取
+    /** 不动点重处理实际执行的轮数 (0 表示首轮解析后定义状态已稳定或未启用) */
+    reprocessingPasses?: number;
   };
 }
 
@@ -95,14 +373,93 @@ export interface ParserOptions {
    * 如果提供，通常优先于 environmentsFile。
    */
   customEnvironmentRecord?: Ast.EnvInfoRecord;
+  /**
+   * (可选) 是否启用定义感知的不动点重处理。
+   * 启用后，在所有文件首轮解析完毕后，如果某个文件解析时所见的定义状态与最终定义状态不同
+   * (例如 `main.tex` 在 `\input{preamble}` 读入之前就已完成参数附加)，则重新解析该文件，
+   * 直到定义状态不再变化。默认为 true。
+   */
+  fixpointReprocessing?: boolean;
+  /**
+   * (可选) 不动点重处理的最大轮数，防止定义状态振荡时无限循环。默认为 5。
+   */
+  maxReprocessingPasses?: number;
+  /**
+   * (可选) 是否额外生成合并后的单文档 AST ({@link ProjectAST.flattenedAst})。默认为 false。
+   */
+  flatten?: boolean;
+  /**
+   * (可选) 覆盖文档中的 `\includeonly{...}`：只跟随列出的 `\include` 文件 (名称与 `\include` 的参数相同，可省略 `.tex`)。
+   * 提供后，文档中的 `\includeonly` 指令将被忽略。
+   */
+  includeOnly?: string[];
+  /**
+   * (可选) 覆盖文档中的 `\excludeonly{...}`：跳过列出的 `\include` 文件。
+   * 提供后，文档中的 `\excludeonly` 指令将被忽略。
+   */
+  excludeOnly?: string[];
+  /**
+   * (可选) 如何处理被排除的 `\include` 文件：
+   * `'skip'` (默认) 不解析它们，与 LaTeX 的行为一致；`'flag'` 仍然解析，但在结果中标记为 `excluded`。
+   */
+  includeOnlyMode?: 'skip' | 'flag';
+  /**
+   * (可选) 额外的文件包含命令，键为宏名称 (不含反斜杠)，例如
+   * `{ loadchapter: { argIndex: 0, pathTemplate: 'chapters/#1' } }`。
+   * 这些命令会像 `\input` 一样被跟随；与文档中自动识别出的包装命令同名时，以此处的配置为准。
+   */
+  includeCommands?: Record<string, IncludeCommandConfig>;
+  /**
+   * (可选) 是否跟随 `\usepackage`/`\documentclass` 等命令，解析项目目录中的本地 `.sty`/`.cls` 文件，
+   * 并将其中的定义作为 "package-local" 类别加入定义集合。默认为 true。
+   */
+  followLocalPackages?: boolean;
+  /** (可选) 是否在 {@link ProjectAST.localPackages} 中包含本地宏包文件的 AST。默认为 false。 */
+  includePackageAsts?: boolean;
+  /**
+   * (可选) 是否展开文档中定义的宏：宏调用被替换为代入参数后的定义体 (例如 `\R` 变为 `\mathbb{R}`)，
+   * 展开结果的顶层节点通过 `expandedFrom` 指向原始的宏调用节点 (参见 {@link ExpandedMacroNode})。默认为 false。
+   */
+  expandMacros?: boolean;
+  /** (可选) 宏展开的最大嵌套深度，超过此深度的宏调用保持原样。默认为 10。 */
+  maxExpansionDepth?: number;
+  /**
+   * (可选) 是否为每个节点保留源码位置信息：参数附加、环境处理和宏展开产生的没有位置信息的节点 (例如参数节点)
+   * 按源码补全位置信息，每个 {@link ProjectFileAst} 带有行偏移量表 `lineOffsets`。默认为 false。
+   */
+  positions?: boolean;
+  /**
+   * (可选) 是否严格校验自定义宏/环境定义文件。默认为 false：有问题的条目或字段被忽略，问题记录在 {@link ProjectAST.errors} 中；
+   * 为 true 时，文件缺失、无法解析或存在任何问题都会使解析失败并抛出错误。
+   */
+  strictConfig?: boolean;
   // 可以添加更多特定于库调用的选项，例如日志级别等
 }
 
+/**
+ * 一个自定义文件包含命令的配置。
+ */
+export interface IncludeCommandConfig {
+  /** 路径参数在宏节点 `args` 中的下标 (从 0 开始)；提供 `pathTemplate` 时可省略 */
+  argIndex?: number;
+  /**
+   * (可选) 路径模板，其中 `#1`…`#9` 会被替换为宏的第 1…9 个参数的文本，
+   * 例如 `'chapters/#1'`。省略时直接使用 `argIndex` 指定的参数作为路径。
+   */
+  pathTemplate?: string;
+  /** (可选) 宏的参数签名 (例如 `'m'` 或 `'o m'`)。提供时会作为用户定义的宏签名注册，确保参数被正确附加 */
+  signature?: string;
+  /** (可选) 此命令最终通过哪个命令读入文件，默认为 `'input'`；为 `'include'` 时受 `\includeonly` 控制 */
+  via?: 'input' | 'include' | 'subfile';
+}
+
 /**
  * CLI 工具特有的配置选项。
  * 这些通常由CLI参数解析而来。
  */
 export interface CliOptions {
+  /** 执行的命令：`parse` 输出项目AST (默认)，`defs` 导出项目中发现的定义 */
+  command?: 'parse' | 'defs';
   /** 入口路径，可以是文件或目录 */
   entryPath?: string; // 在CLI中通常是位置参数，但这里也列出
   /** 输出JSON文件路径 */
@@ -113,12 +470,40 @@ export interface CliOptions {
   customMacrosFile?: string; // 在main.ts中是 customMacros
   /** 自定义环境定义文件路径 (对应 ParserOptions.environmentsFile 和/或 ParserOptions.customEnvironmentRecord) */
   customEnvironmentsFile?: string; // 在main.ts中是 customEnvironments
+  /** 是否严格校验自定义定义文件 (对应 ParserOptions.strictConfig) */
+  strictConfig?: boolean;
   /** 是否加载默认宏 (对应 ParserOptions.loadDefaultMacros) */
   loadDefaultMacros?: boolean; // 在main.ts中是 noDefaultMacros 的反义
+  /** 是否启用定义感知的不动点重处理 (对应 ParserOptions.fixpointReprocessing) */
+  fixpointReprocessing?: boolean;
+  /** 是否输出合并后的单文档 AST 而不是按文件划分的项目 AST (对应 ParserOptions.flatten) */
+  flatten?: boolean;
+  /** 覆盖文档中的 \includeonly 列表 (对应 ParserOptions.includeOnly) */
+  includeOnly?: string[];
+  /** 覆盖文档中的 \excludeonly 列表 (对应 ParserOptions.excludeOnly) */
+  excludeOnly?: string[];
+  /** 被排除的 \include 文件的处理方式 (对应 ParserOptions.includeOnlyMode) */
+  includeOnlyMode?: 'skip' | 'flag';
+  /** 是否解析项目目录中的本地 .sty/.cls 文件 (对应 ParserOptions.followLocalPackages) */
+  followLocalPackages?: boolean;
+  /** 是否在输出中包含本地宏包文件的 AST (对应 ParserOptions.includePackageAsts) */
+  includePackageAsts?: boolean;
+  /** 是否展开文档中定义的宏 (对应 ParserOptions.expandMacros) */
+  expandMacros?: boolean;
+  /** 宏展开的最大嵌套深度 (对应 ParserOptions.maxExpansionDepth) */
+  maxExpansionDepth?: number;
+  /** 是否为每个节点保留源码位置信息 (对应 ParserOptions.positions) */
+  positions?: boolean;
+  /** 是否检查每个文件的 AST 重新输出为 LaTeX 后与原文件相同，而不是输出 AST */
+  checkRoundtrip?: boolean;
   /** 是否保存每个文件的AST为单独的JSON文件 */
   saveIndividualAst?: boolean;
   /** 存储单独AST文件的目录 */
   individualAstDir?: string;
+  /** (`defs` 命令) 发现的宏定义的输出文件路径 */
+  emitMacrosFile?: string;
+  /** (`defs` 命令) 发现的环境定义的输出文件路径 */
+  emitEnvironmentsFile?: string;
   /** 显示帮助信息的标志 */
   showHelp?: boolean;
   /** 是否输出详细日志 (DEBUG级别) */
@@ -128,6 +513,30 @@ export interface CliOptions {
   // 可以添加CLI特有的日志级别控制等
 }
 
+/**
+ * 文件中的一条包含引用 (例如一个 `\input{...}` 宏节点)，由 `DefinitionExtractor.extractIncludedFiles` 生成。
+ */
+export interface IncludedFileReference {
+  /** 规范化的文件绝对路径 */
+  path: string;
+  /** 使用的命令（例如input、include） */
+  command: string;
+  /** 命令中的原始路径字符串 */
+  rawPath: string;
+  /** `import` 宏包命令 (例如 `\subimport{dir}{file}`) 中的原始目录参数 */
+  rawDir?: string;
+  /**
+   * 与 `\includeonly`/`\excludeonly` 列表比较时使用的名称。
+   * 仅对最终通过 `\include` 读入文件的命令 (`\include`、`\includefrom`、`\subincludefrom`) 设置；
+   * 其他命令 (例如 `\input`) 不受这些列表影响。
+   */
+  includeOnlyName?: string;
+  /** 包含命令在此文件中的源码位置 */
+  position?: Ast.Position;
+  /** AST 中对应的包含命令宏节点 */
+  node: Ast.Macro;
+}
+
 /**
  * 内部文件解析器返回的结果结构。
  */
@@ -143,15 +552,12 @@ export interface InternalFileParseResult {
    * 从此文件新发现/定义的环境。
    */
   newlyFoundEnvironments: Ast.EnvInfoRecord;
-  /** 从此文件包含/输入的文件列表 */
-  includedFiles: {
-    /** 规范化的文件绝对路径 */
-    path: string;
-    /** 使用的命令（例如input、include） */
-    command: string;
-    /** 命令中的原始路径字符串 */
-    rawPath: string;
-  }[];
+  /** 从此文件包含/输入的文件列表 (按文档顺序) */
+  includedFiles: IncludedFileReference[];
+  /** 此文件中出现的 `\includeonly`/`\excludeonly` 指令 */
+  inclusionDirectives?: InclusionDirectives;
+  /** 此文件中引用的宏包和文档类 (按文档顺序) */
+  packageReferences?: PackageReference[];
   /** 如果解析此文件遇到问题，则为错误信息字符串 */
   error?: string;
 }
@@ -170,6 +576,72 @@ export interface EnvironmentParameter {
   defaultValue?: Ast.Ast[];
 }
 
+/**
+ * 宏展开结果中的顶层节点 (启用 `ParserOptions.expandMacros` 时)。
+ * 节点本身是定义体中的普通节点 (或代入的参数内容)，额外带有指向原始宏调用的引用。
+ */
+export type ExpandedMacroNode = Ast.Ast & {
+  /** 被展开的原始宏调用节点 (不再位于树中，其参数保持展开前的内容) */
+  expandedFrom: Ast.Macro;
+};
+
+/**
+ * 逐字环境 (内容不作为 LaTeX 解析的环境，例如 `lstlisting`、`minted` 以及 `\lstnewenvironment` 定义的环境) 的描述。
+ */
+export interface VerbatimEnvironmentInfo {
+  /** 环境参数的签名；解析时 `\begin{name}` 之后的这些参数不属于逐字内容 */
+  signature: string;
+  /** (可选) 代码的语言 (例如 `\newminted{python}` 定义的 `pythoncode` 为 `python`)，可被 `language=` 选项覆盖 */
+  language?: string;
+  /** (可选) 给出语言的参数的下标 (例如 `\begin{minted}{python}` 中的第 2 个参数) */
+  languageArgIndex?: number;
+}
+
+/**
+ * 代码块节点：逐字环境的节点，额外带有代码的语言 (来自 `language=` 选项、`\begin{minted}{python}` 的参数或环境定义)。
+ * 逐字内容保留为原始字符串：内置逐字环境为 `verbatim` 类型节点的 `content`，其他逐字环境参见 {@link LearnedVerbatimEnvironmentNode}。
+ */
+export type CodeBlockNode = (Ast.Environment | Ast.VerbatimEnvironment | LearnedVerbatimEnvironmentNode) & {
+  /** 代码的语言，例如 `"python"`、`"C"` */
+  codeLanguage: string;
+};
+
+/**
+ * 原始解析器不认识的逐字环境 (宏包预定义的 `Verbatim`、文档中由 `\DefineVerbatimEnvironment` 等定义的环境) 的节点。
+ * 与内置的 `verbatim` 类型节点相同，`content` 为原始字符串；参数照常附加在 `args` 中。
+ */
+export type LearnedVerbatimEnvironmentNode = Omit<Ast.Environment, 'content'> & {
+  /** 环境的原始内容 (从 `\begin{...}` 及其参数之后到 `\end{...}` 之前) */
+  content: string;
+  /** 固定为 true，标记此节点为逐字环境 */
+  verbatim: true;
+};
+
+/**
+ * xparse (LaTeX3) 参数规范中的一个参数，由 `parseXparseArgSpec` 生成。
+ * 例如 `O{default}` 解析为 `{ specifier: 'O', rawSpecifier: 'O{default}', defaultValue: 'default' }`。
+ */
+export interface XparseArgument {
+  /** 参数类型字符：`m`, `o`, `O`, `s`, `t`, `r`, `R`, `d`, `D`, `e`, `E`, `v`, `b`, `u`, `l`, `g`, `G` */
+  specifier: string;
+  /** 参数在规范中的原始文本 (包括前缀和参数处理器)，例如 `'+O{x}'` */
+  rawSpecifier: string;
+  /** 是否带有 `+` 前缀 (参数可以包含段落) */
+  long?: boolean;
+  /** 是否带有 `!` 前缀 (参数前不允许空白) */
+  noLeadingWhitespace?: boolean;
+  /** `>{...}` 参数处理器的原始文本 */
+  processors?: string[];
+  /** `t` 的标记；`r`/`R`/`d`/`D` 的开定界符 */
+  openDelimiter?: string;
+  /** `r`/`R`/`d`/`D` 的闭定界符 */
+  closeDelimiter?: string;
+  /** `u` 的终止标记；`e`/`E` 的修饰标记 */
+  tokens?: string[];
+  /** `O`/`R`/`D`/`G` 的默认值；`E` 的默认值为每个修饰标记一个 */
+  defaultValue?: string | string[];
+}
+
 /**
  * 表示一个新定义的环境的规范，由 DefinitionExtractor 生成。
  * DefinitionHandler 可能会将此转换为 Ast.EnvInfoRecord 的一部分。
@@ -196,12 +668,39 @@ export interface NewEnvironmentSpec {
   endCode?: Ast.Ast[];
   /** (可选) 对于定理类环境，这里可以存放其显示的标题 (例如 "Theorem", "Lemma") */
   theoremTitle?: string;
+  /** (可选) 对于定理类环境 (`\newtheorem`、`\declaretheorem`)，其编号方式和样式 */
+  theorem?: TheoremSpec;
   /** (可选) 对于 tcolorbox，这里可以存放其键值对选项的解析结果 (AST节点或字符串) */
   tcolorboxOptions?: Ast.Ast[] | string; 
-  /** (可选) 包来源，例如 "latex2e", "amsthm", "tcolorbox", "enumitem" */
+  /** (可选) 定义的是逐字环境时 (`\lstnewenvironment`、`\newminted`、fancyvrb 的 `\DefineVerbatimEnvironment` 等)，其描述 */
+  verbatim?: VerbatimEnvironmentInfo;
+  /** (可选) 对于 enumitem 的 `\newlist`/`\renewlist`，列表的类型 (`enumerate`、`itemize` 或 `description`)。列表项按该类型的方式处理 */
+  listType?: string;
+  /**
+   * (可选) 与环境配对的计数器：浮动体定义命令 (`\newfloat`、`\DeclareFloatingEnvironment`) 同时定义的计数器，
+   * 或同一文件中由 `\newcounter` 定义的同名计数器
+   */
+  counter?: string;
+  /** (可选) 包来源，例如 "latex2e", "amsthm", "tcolorbox", "enumitem", "mdframed", "float", "listings", "minted" */
   packageSource?: string;
 }
 
+/**
+ * 定理类环境 (`\newtheorem`、thmtools 的 `\declaretheorem`) 的编号方式和样式。
+ */
+export interface TheoremSpec {
+  /** 显示的标题 (例如 "Theorem")。`\declaretheorem` 未给出标题时为首字母大写的环境名 */
+  title?: string;
+  /** 是否编号。`\newtheorem*` 和 `\declaretheorem[numbered=no]` 为 `false` */
+  numbered: boolean;
+  /** (可选) 共用编号的已有计数器，例如 `\newtheorem{lemma}[theorem]{Lemma}` 中的 `theorem` */
+  sharedCounter?: string;
+  /** (可选) 编号所从属的上级计数器，例如 `\newtheorem{thm}{Theorem}[section]` 中的 `section` */
+  numberWithin?: string;
+  /** 定义时生效的定理样式 (`\theoremstyle{...}` 或 `style=` 选项)，默认为 `plain` */
+  style: string;
+}
+
 // --- 从 unified-latex-custom.d.ts 迁移过来的类型 (如果适用) ---
 // NewCommandSpec 似乎是 listNewcommands 的返回类型，它将被内部使用
 // 在 commandDefinitionUtils.ts 中，并可能转换为 MacroInfoRecord。
@@ -216,9 +715,204 @@ export interface NewCommandSpec {
   signature: string;  // 宏的参数签名，例如 "m o m"
   body: Ast.Ast[];   // 宏体内容的AST节点数组 (修正：使用 Ast.Ast 替代 Ast.Node)
   definition: Ast.Macro; // 定义此宏的完整宏节点
+  /** (可选) 由 `\let\name\target` 定义时的目标宏名称 (不含反斜杠)，宏的签名与目标相同 */
+  aliasOf?: string;
+  /** (可选) 定义的原始源码。`\def`/`\let` 的操作数不是 `definition` 的参数，因此在此单独记录；未提供时由 `definition` 打印得到 */
+  source?: string;
+}
+
+/**
+ * 文档中的一次宏或环境的 (重新) 定义，参见 {@link ProjectAST.definitionTimeline}。
+ */
+export interface DefinitionTimelineEntry {
+  /** `'macro'` 或 `'environment'` */
+  kind: 'macro' | 'environment';
+  /** 宏或环境的名称 (宏名不含反斜杠) */
+  name: string;
+  /** 此次定义的参数签名 */
+  signature: string;
+  /** 定义所在文件的规范化路径 */
+  file: string;
+  /** 定义命令在文件中的偏移量 */
+  offset: number;
+  /** (可选) 定义命令在文件中的行号 (从 1 开始) */
+  line?: number;
+  /** (可选) 定义命令在文件中的列号 (从 1 开始) */
+  column?: number;
+  /** (可选) 使用的定义命令，例如 `newcommand`、`renewcommand` */
+  definingCommand?: string;
+  /**
+   * 文档顺序键：根文件中的位置为 `[offset]`，根文件偏移量 100 处的 `\input` 读入的文件中的位置为 `[100, offset]`，依此类推。
+   * 键按字典序比较 (前缀在前)，即为定义在文档中的先后。
+   */
+  documentOrderKey: number[];
+  /** 文档中此前是否已有同名的定义 (即这是一次重新定义) */
+  redefinition: boolean;
+}
+
+/**
+ * 定义诊断的类型：
+ * - `'already-defined'`: 用 `\newcommand`、`\newenvironment` 等定义已经存在的名称 (由默认宏、CTAN、本地宏包或文档中此前的定义提供)。
+ * - `'undefined-redefinition'`: 用 `\renewcommand`、`\renewenvironment` 等重新定义从未定义过的名称。
+ * - `'arity-conflict'`: 同一名称在不同文件中以不同的参数个数定义。
+ */
+export type DefinitionDiagnosticCode = 'already-defined' | 'undefined-redefinition' | 'arity-conflict';
+
+/**
+ * 一条关于宏或环境定义的警告，参见 {@link ProjectAST.definitionDiagnostics}。
+ */
+export interface DefinitionDiagnostic {
+  /** 诊断的类型 */
+  code: DefinitionDiagnosticCode;
+  /** `'macro'` 或 `'environment'` */
+  kind: 'macro' | 'environment';
+  /** 宏或环境的名称 (宏名不含反斜杠) */
+  name: string;
+  /** 可读的警告信息 */
+  message: string;
+  /** 出问题的定义所在文件的规范化路径 */
+  file: string;
+  /** (可选) 定义命令的行号 (从 1 开始) */
+  line?: number;
+  /** (可选) 定义命令的列号 (从 1 开始) */
+  column?: number;
+  /** (可选) 使用的定义命令 */
+  definingCommand?: string;
+  /** 此次定义的参数签名 */
+  signature: string;
+  /** (可选) 与之冲突的先前定义 */
+  previous?: {
+    category: DefinitionCategory;
+    signature: string;
+    file?: string;
+    line?: number;
+    column?: number;
+    definingCommand?: string;
+  };
+}
+
+/**
+ * 一次未定义宏的调用 (或未定义环境的使用)，参见 {@link InferredMacroSignature}。
+ */
+export interface InferredMacroUsage {
+  /** 调用所在文件的规范化路径 */
+  file: string;
+  /** (可选) 调用的行号 (从 1 开始) */
+  line?: number;
+  /** (可选) 调用的列号 (从 1 开始) */
+  column?: number;
+  /** 此次调用形式对应的签名，例如 `\foo*[x]{y}` 为 `'s o m'` */
+  signature: string;
+}
+
+/**
+ * 根据所有调用推断出的宏签名 (或根据所有使用推断出的环境签名)。
+ */
+export interface InferredMacroSignature {
+  /** 宏名称 (不含反斜杠) */
+  name: string;
+  /** 推断出的签名 */
+  signature: string;
+  /** 置信度 (0 到 1)：必选参数个数与推断结果一致的调用所占的比例 */
+  confidence: number;
+  /** 调用次数 */
+  usageCount: number;
+  /** 调用形式的直方图：每次调用的签名到出现次数的映射 */
+  histogram: Record<string, number>;
+  /** 必选参数个数与推断结果不一致的调用 */
+  conflictingUsages: InferredMacroUsage[];
+}
+
+/**
+ * 导出的一个宏或环境定义。`signature` 与自定义宏/环境文件 (`ParserOptions.macrosFile`/`environmentsFile`) 的格式相同，
+ * 其余字段是供人工整理时参考的注释，加载时被忽略。
+ */
+export interface ExportedDefinition {
+  /** 参数签名 */
+  signature: string;
+  /** 来源类别：文档内定义、项目目录中的本地宏包定义或根据使用推断 */
+  category: Extract<DefinitionCategory, 'defined-in-document' | 'package-local' | 'inferred'>;
+  /** (可选) 定义所在的文件 (推断的定义为首次使用所在的文件)，相对于根文件所在目录 */
+  sourceFile?: string;
+  /** 在项目文件中的使用次数 (不含定义本身) */
+  usageCount: number;
+  /** (可选) 推断的置信度，只对推断的定义设置 (参见 {@link InferredMacroSignature.confidence}) */
+  confidence?: number;
+}
+
+/**
+ * 从项目中发现的宏和环境定义，由 `exportDiscoveredDefinitions` 生成。
+ * `macros` 和 `environments` 可以分别保存为自定义宏文件和自定义环境文件。
+ */
+export interface DiscoveredDefinitions {
+  /** 宏名称 (不含反斜杠) 到导出定义的映射 */
+  macros: Record<string, ExportedDefinition>;
+  /** 环境名称到导出定义的映射 */
+  environments: Record<string, ExportedDefinition>;
+}
+
+/**
+ * 带有定义诊断的定义宏节点 (例如有问题的 `\newcommand` 节点)。
+ */
+export type DiagnosedDefinitionNode = Ast.Macro & {
+  /** 关于此定义的警告 */
+  definitionDiagnostics: DefinitionDiagnostic[];
+};
+
+/**
+ * 宏/环境定义的来源类别，与 {@link ProjectAST._detailedMacros}/{@link ProjectAST._detailedEnvironments} 中的分类对应。
+ * 宏的优先级：`defined-in-document` > `package-local` > `user-provided` > `default` > `ctan-package` > `inferred`；
+ * 环境的优先级：`defined-in-document` > `package-local` > `user-provided` > `ctan`。
+ */
+export type DefinitionCategory =
+  | 'defined-in-document'
+  | 'package-local'
+  | 'user-provided'
+  | 'default'
+  | 'ctan-package'
+  | 'ctan'
+  | 'inferred';
+
+/**
+ * 一个生效的宏或环境定义的来源记录，用于回答"为什么 `\foo` 有两个参数"这类问题。
+ * 源码位置和定义命令只对文档内和本地宏包中的定义可用。
+ */
+export interface DefinitionProvenance {
+  /** 宏或环境的名称 (宏名不含反斜杠) */
+  name: string;
+  /** 在优先级合并中胜出的来源类别 */
+  category: DefinitionCategory;
+  /** 生效的参数签名 */
+  signature: string;
+  /** (可选) 定义所在文件的规范化路径 */
+  file?: string;
+  /** (可选) 定义命令在文件中的行号 (从 1 开始) */
+  line?: number;
+  /** (可选) 定义命令在文件中的列号 (从 1 开始) */
+  column?: number;
+  /** (可选) 使用的定义命令，例如 `newcommand`、`renewcommand`、`def`、`let`、`newenvironment` */
+  definingCommand?: string;
+  /** (可选) 定义的原始源码，例如 `\newcommand{\foo}[2]{#1 and #2}` */
+  source?: string;
+  /** (可选) 由 `\let` 定义的别名的目标宏名称 */
+  aliasOf?: string;
+  /** (可选) 来自哪个宏包：CTAN 宏包中的宏为宏包名；环境为 {@link NewEnvironmentSpec.packageSource}；用户提供的定义为其 `package` 标记 */
+  packageSource?: string;
 }
 
 // --- 为 refactor.md 中提到的 ResolvedParserConfig 预留位置 ---
+/**
+ * 校验自定义宏/环境定义文件时发现的一个问题。
+ */
+export interface ConfigValidationIssue {
+  /** (可选) 出现问题的文件路径；直接通过代码传入的记录没有文件 */
+  file?: string;
+  /** 问题所在位置的 JSON 路径，例如 `$.foo.signture` */
+  path: string;
+  /** 问题描述 */
+  message: string;
+}
+
 /**
  * 内部使用的、已解析和合并的配置对象。
  * 由 ConfigManager 生成，供核心解析逻辑使用。
@@ -227,7 +921,22 @@ export interface ResolvedParserConfig extends Omit<ParserOptions, 'macrosFile' |
   // 直接包含解析后的记录，而不是文件路径
   customMacroRecord: Ast.MacroInfoRecord;
   customEnvironmentRecord: Ast.EnvInfoRecord;
+  // 自定义定义文件中带 `package` 标记的条目：名称 -> 宏包名，只在文档使用该宏包时生效
+  customMacroPackages: Record<string, string>;
+  customEnvironmentPackages: Record<string, string>;
+  // 校验自定义定义文件时发现的问题 (非严格模式下有问题的条目或字段被忽略)
+  configIssues: ConfigValidationIssue[];
   loadDefaultMacros: boolean; // 确保存在且有默认值
+  fixpointReprocessing: boolean;
+  maxReprocessingPasses: number;
+  flatten: boolean;
+  includeOnlyMode: 'skip' | 'flag';
+  includeCommands: Record<string, IncludeCommandConfig>;
+  followLocalPackages: boolean;
+  includePackageAsts: boolean;
+  expandMacros: boolean;
+  maxExpansionDepth: number;
+  positions: boolean;
   // 可以包含其他解析后的配置，如日志级别、工作目录等
   baseDir: string; // 项目的基目录，用于解析相对路径等
 } 
\ No newline at end of file
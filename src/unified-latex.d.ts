@@ -372,12 +372,20 @@ declare module '@unified-latex/unified-latex-util-arguments' {
   import * as Ast from '@unified-latex/unified-latex-types';
   /** 根据宏定义记录为 AST 中的宏附加参数。 */
   export function attachMacroArgs(ast: Ast.Ast, macros: Ast.MacroInfoRecord): void;
+  /** 从 `nodes[startPos]` 开始按签名取走参数节点 (原地修改 `nodes`)。 */
+  export function gobbleArguments(
+    nodes: Ast.Ast[],
+    argSpec: string,
+    startPos?: number
+  ): { args: Ast.Argument[]; nodesRemoved: number };
 }
 
 declare module '@unified-latex/unified-latex-util-environments' {
   import * as Ast from '@unified-latex/unified-latex-types';
   /** 根据环境定义记录处理 AST 中的环境（附加参数等）。 */
   export function processEnvironments(ast: Ast.Ast, environments: Ast.EnvInfoRecord): void;
+  /** 按单个环境的定义处理一个环境节点（附加参数、更新渲染信息、处理内容）。 */
+  export function processEnvironment(envNode: Ast.Environment, envInfo: Ast.EnvInfo): void;
 }
 
 declare module '@unified-latex/unified-latex-util-print-raw' {
@@ -387,7 +395,9 @@ declare module '@unified-latex/unified-latex-util-print-raw' {
 }
 
 declare module "@unified-latex/unified-latex-ctan" {
-  import { EnvInfoRecord } from "@unified-latex/unified-latex-types";
+  import { EnvInfoRecord, MacroInfoRecord } from "@unified-latex/unified-latex-types";
+  /** CTAN 包提供的宏信息，按包名组织 (`latex2e` 为 LaTeX 内核的标准宏)。 */
+  export const macroInfo: Record<string, MacroInfoRecord>;
   /** CTAN 包提供的环境信息，按包名组织。 */
   export const environmentInfo: Record<string, EnvInfoRecord>; 
 } 
\ No newline at end of file
@@ -107,4 +107,15 @@ export function joinPaths(...paths: string[]): string {
  */
 export function isAbsolutePath(filePath: string): boolean {
   return nodePath.isAbsolute(filePath);
-} 
\ No newline at end of file
+}
+
+/**
+ * 计算从 `from` 到 `to` 的相对路径，结果为 POSIX 风格。
+ * 行为类似于 Node.js `path.relative()`。
+ * @param from - 起始目录路径。
+ * @param to - 目标路径。
+ * @returns 相对路径字符串；两者相同时为空字符串。
+ */
+export function getRelativePath(from: string, to: string): string {
+  return nodePath.relative(from, to).replace(/\\/g, '/');
+}
@@ -0,0 +1,77 @@
+/**
+ * 测试辅助：在临时目录中写入 LaTeX 项目并通过 parseLatexProject 解析
+ */
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import type { ParserOptions, ProjectAST } from '../../src/types/index';
+import { parseLatexProject, setLogLevel, LoggerLogLevel } from '../../src/index';
+
+/**
+ * 一个临时的 LaTeX 项目目录，由 {@link useTempProject} 在每个测试之前重新创建、之后删除。
+ */
+export interface TempProject {
+    /** 项目目录的绝对路径 (使用 `/` 分隔，与解析结果中的规范化路径一致) */
+    readonly dir: string;
+    /** 在项目目录中写入一组文件 (键为相对路径)，所需的子目录会自动创建 */
+    write(files: Record<string, string>): Promise<void>;
+    /** 以项目目录为入口解析项目 */
+    parse(options?: Omit<ParserOptions, 'entryPath'>): Promise<ProjectAST>;
+    /** 以给定内容作为 main.tex 解析项目 */
+    parseMain(content: string, options?: Omit<ParserOptions, 'entryPath'>): Promise<ProjectAST>;
+    /** 项目中文件的绝对路径 */
+    path(relativePath: string): string;
+    /** 以相对路径列出解析结果中的文件 (按结果中的顺序) */
+    relativeFiles(projectAst: ProjectAST): string[];
+}
+
+/**
+ * 在当前 `describe` 中注册创建和删除临时项目目录的钩子，并关闭日志输出。
+ * @param prefix - 临时目录名称的前缀。
+ * @returns {@link TempProject}，其 `dir` 只能在测试 (或 `beforeEach`) 中访问。
+ */
+export function useTempProject(prefix: string): TempProject {
+    let projectDir: string | undefined;
+
+    beforeAll(() => setLogLevel(LoggerLogLevel.NONE));
+
+    beforeEach(async () => {
+        projectDir = (await mkdtemp(path.join(os.tmpdir(), prefix))).replace(/\\/g, '/');
+    });
+
+    afterEach(async () => {
+        if (projectDir) {
+            await rm(projectDir, { recursive: true, force: true });
+            projectDir = undefined;
+        }
+    });
+
+    const project: TempProject = {
+        get dir(): string {
+            if (!projectDir) {
+                throw new Error('临时项目目录只能在测试中访问');
+            }
+            return projectDir;
+        },
+        async write(files) {
+            for (const [relativePath, content] of Object.entries(files)) {
+                await mkdir(path.dirname(path.join(project.dir, relativePath)), { recursive: true });
+                await writeFile(path.join(project.dir, relativePath), content);
+            }
+        },
+        parse(options = {}) {
+            return parseLatexProject({ entryPath: project.dir, ...options });
+        },
+        async parseMain(content, options = {}) {
+            await project.write({ 'main.tex': content });
+            return project.parse(options);
+        },
+        path(relativePath) {
+            return `${project.dir}/${relativePath}`;
+        },
+        relativeFiles(projectAst) {
+            return projectAst.files.map(file => path.relative(project.dir, file.filePath).replace(/\\/g, '/'));
+        },
+    };
+    return project;
+}
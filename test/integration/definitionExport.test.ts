@@ -0,0 +1,57 @@
+/**
+ * 定义导出集成测试 (解析临时项目，导出发现的定义并作为自定义定义文件重新加载)
+ */
+import { readFile, writeFile } from 'fs/promises';
+import { exportDiscoveredDefinitions, validateMacroRecord, validateEnvironmentRecord } from '../../src/index';
+import { processParserOptions } from '../../src/config/configManager';
+import { useTempProject } from '../helpers/tempProject';
+
+describe('定义导出', () => {
+    const project = useTempProject('definition-export-');
+
+    const files = {
+        'main.tex': '\\documentclass{article}\n\\usepackage{mylab}\n\\input{chapters/defs}\n\\begin{document}\n'
+            + '\\pair{a}{b} \\pair{c}{d}\n\\labbox{x}\n\\myop{y} \\myop{z}\n'
+            + '\\begin{boxed}{t}x\\end{boxed}\n\\begin{labenv}y\\end{labenv}\n\\begin{mystery}{u}z\\end{mystery}\n\\end{document}\n',
+        'chapters/defs.tex': '\\newcommand{\\pair}[2]{#1 and #2}\n\\newenvironment{boxed}[1]{[#1}{]}\n',
+        'mylab.sty': '\\newcommand{\\labbox}[1]{#1}\n\\newenvironment{labenv}{}{}\n',
+    };
+
+    it('应导出文档内定义、本地宏包定义和推断的定义，并附加来源类别、所在文件和使用次数', async () => {
+        await project.write(files);
+        const discovered = exportDiscoveredDefinitions(await project.parse());
+
+        expect(discovered.macros.pair).toEqual({ signature: 'm m', category: 'defined-in-document', sourceFile: 'chapters/defs.tex', usageCount: 2 });
+        expect(discovered.macros.labbox).toEqual({ signature: 'm', category: 'package-local', sourceFile: 'mylab.sty', usageCount: 1 });
+        expect(discovered.macros.myop).toMatchObject({ signature: 'm', category: 'inferred', sourceFile: 'main.tex', usageCount: 2 });
+        expect(discovered.macros.myop.confidence).toBeGreaterThan(0);
+        expect(discovered.environments.boxed).toEqual({ signature: 'm', category: 'defined-in-document', sourceFile: 'chapters/defs.tex', usageCount: 1 });
+        expect(discovered.environments.labenv).toEqual({ signature: '', category: 'package-local', sourceFile: 'mylab.sty', usageCount: 1 });
+        expect(discovered.environments.mystery).toMatchObject({ signature: 'm', category: 'inferred', sourceFile: 'main.tex' });
+        expect(discovered.macros.section).toBeUndefined();
+    });
+
+    it('写出的文件应能作为自定义定义文件无误地重新加载，注释字段保持不变', async () => {
+        await project.write(files);
+        const discovered = exportDiscoveredDefinitions(await project.parse());
+        await writeFile(project.path('macros.json'), JSON.stringify(discovered.macros, null, 2));
+        await writeFile(project.path('environments.json'), JSON.stringify(discovered.environments, null, 2));
+
+        const writtenMacros = JSON.parse(await readFile(project.path('macros.json'), 'utf8'));
+        const writtenEnvironments = JSON.parse(await readFile(project.path('environments.json'), 'utf8'));
+        expect(writtenMacros).toEqual(discovered.macros);
+        expect(validateMacroRecord(writtenMacros, 'macros.json').issues).toEqual([]);
+        expect(validateEnvironmentRecord(writtenEnvironments, 'environments.json').issues).toEqual([]);
+
+        // 严格模式下，任何校验问题都会使加载失败
+        const config = await processParserOptions({
+            entryPath: project.path('main.tex'),
+            macrosFile: 'macros.json',
+            environmentsFile: 'environments.json',
+            strictConfig: true,
+        });
+        expect(config.configIssues).toEqual([]);
+        expect(config.customMacroRecord).toMatchObject({ pair: { signature: 'm m' }, labbox: { signature: 'm' }, myop: { signature: 'm' } });
+        expect(config.customEnvironmentRecord).toMatchObject({ boxed: { signature: 'm' }, labenv: { signature: '' }, mystery: { signature: 'm' } });
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * 定义时间线集成测试 (通过 parseLatexProject 解析临时项目)
+ */
+import { getDefinitionsInEffectAt } from '../../src/index';
+import { useTempProject } from '../helpers/tempProject';
+
+describe('项目的定义时间线', () => {
+    const project = useTempProject('definition-timeline-');
+
+    const main = '\\documentclass{article}\n\\newcommand{\\pair}[2]{#1 and #2}\n\\input{defs}\n\\begin{document}\n'
+        + '\\pair{a}{b}\n\\renewcommand{\\pair}[1]{only #1}\n\\pair{c}\n\\end{document}\n';
+
+    // 辅助函数：写入并解析 main.tex 和 defs.tex (defs.tex 中定义一个环境)
+    const parseProject = async () => {
+        await project.write({
+            'main.tex': main,
+            'defs.tex': '\\newenvironment{boxed}[1]{[#1}{]}\n',
+        });
+        return project.parse();
+    };
+
+    it('应按文档顺序 (包括被包含文件中的位置) 记录每一次定义，并标记重新定义', async () => {
+        const projectAst = await parseProject();
+        expect(projectAst.definitionTimeline?.map(entry => [entry.kind, entry.name, entry.signature, entry.redefinition])).toEqual([
+            ['macro', 'pair', 'm m', false],
+            ['environment', 'boxed', 'm', false],
+            ['macro', 'pair', 'm', true],
+        ]);
+    });
+
+    it('每条记录应包含文件、位置、定义命令和文档顺序键', async () => {
+        const projectAst = await parseProject();
+        const offset = main.indexOf('\\renewcommand');
+        expect(projectAst.definitionTimeline?.[2]).toMatchObject({
+            file: project.path('main.tex'),
+            offset,
+            line: 6,
+            column: 1,
+            definingCommand: 'renewcommand',
+            documentOrderKey: [offset],
+        });
+        expect(projectAst.definitionTimeline?.[1]).toMatchObject({
+            file: project.path('defs.tex'),
+            documentOrderKey: [main.indexOf('\\input'), 0],
+        });
+    });
+
+    it('getDefinitionsInEffectAt 应返回该位置之前最后一次定义', async () => {
+        const projectAst = await parseProject();
+        const mainPath = project.path('main.tex');
+        expect(getDefinitionsInEffectAt(projectAst, mainPath, main.indexOf('\\pair{a}')).macros.pair).toEqual({ signature: 'm m' });
+        expect(getDefinitionsInEffectAt(projectAst, mainPath, main.indexOf('\\pair{c}')).macros.pair).toEqual({ signature: 'm' });
+    });
+
+    it('getDefinitionsInEffectAt 不应包含之后才定义的名称，但应包含其他来源的定义', async () => {
+        const projectAst = await parseProject();
+        const beforeInput = getDefinitionsInEffectAt(projectAst, project.path('main.tex'), main.indexOf('\\input'));
+        expect(beforeInput.environments.boxed).toBeUndefined();
+        expect(beforeInput.macros.section).toBeDefined();
+
+        const inBody = getDefinitionsInEffectAt(projectAst, project.path('main.tex'), main.indexOf('\\begin{document}'));
+        expect(inBody.environments.boxed).toEqual({ signature: 'm' });
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * 定义管理集成测试 (通过 parseLatexProject 解析临时项目)
+ */
+import type { Ast, DiagnosedDefinitionNode } from '../../src/types/index';
+import { useTempProject } from '../helpers/tempProject';
+
+describe('定义管理', () => {
+    const project = useTempProject('definitions-');
+
+    describe('CTAN 宏包的宏签名', () => {
+        const document = '\\documentclass{article}\n\\usepackage{cleveref}\n\\begin{document}\n\\cref*{sec:a}\n\\end{document}\n';
+
+        it('应加载文档使用的宏包的宏签名，并记录宏来自哪个宏包', async () => {
+            const projectAst = await project.parseMain(document);
+            expect(projectAst._detailedMacros?.ctanPackages.crefrange).toEqual({ signature: 's m m' });
+            expect(projectAst.definitionProvenance?.macros.cref).toMatchObject({ category: 'ctan-package', packageSource: 'cleveref' });
+
+            const body = projectAst.files[0].ast.content.find(node => node.type === 'environment') as Ast.Environment;
+            const cref = body.content.find(node => node.type === 'macro' && node.content === 'cref') as Ast.Macro;
+            expect(cref.args?.map(arg => arg.openMark)).toEqual(['', '{']);
+        });
+
+        it('未使用的宏包的宏不应被加载', async () => {
+            const projectAst = await project.parseMain('\\documentclass{article}\n\\begin{document}\n\\cref{sec:a}\n\\end{document}\n');
+            expect(projectAst._detailedMacros?.ctanPackages.crefrange).toBeUndefined();
+            expect(projectAst.definitionProvenance?.macros.cref?.category).toBe('inferred');
+        });
+
+        it('不加载默认宏时也不应加载 CTAN 宏包的宏', async () => {
+            const projectAst = await project.parseMain(document, { loadDefaultMacros: false });
+            expect(projectAst.usedPackages).toContain('cleveref');
+            expect(projectAst._detailedMacros?.ctanPackages.crefrange).toBeUndefined();
+        });
+    });
+
+    describe('定义来源记录', () => {
+        it('文档内定义的宏应记录文件、行列号、定义命令和源码', async () => {
+            const projectAst = await project.parseMain('\\documentclass{article}\n\\newcommand{\\pair}[2]{#1 and #2}\n\\begin{document}\n\\end{document}\n');
+            expect(projectAst.definitionProvenance?.macros.pair).toEqual({
+                name: 'pair',
+                category: 'defined-in-document',
+                signature: 'm m',
+                file: project.path('main.tex'),
+                line: 2,
+                column: 1,
+                definingCommand: 'newcommand',
+                source: '\\newcommand{\\pair}[2]{#1 and #2}',
+            });
+        });
+
+        it('文档内定义的环境应记录定义命令', async () => {
+            const projectAst = await project.parseMain('\\documentclass{article}\n\\newenvironment{boxed}[1]{[#1}{]}\n\\begin{document}\n\\end{document}\n');
+            expect(projectAst.definitionProvenance?.environments.boxed).toMatchObject({
+                category: 'defined-in-document',
+                signature: 'm',
+                file: project.path('main.tex'),
+                line: 2,
+                definingCommand: 'newenvironment',
+            });
+        });
+
+        it('\\let 定义的别名应记录目标宏', async () => {
+            const projectAst = await project.parseMain('\\documentclass{article}\n\\let\\oldsection\\section\n\\begin{document}\n\\end{document}\n');
+            expect(projectAst.definitionProvenance?.macros.oldsection).toMatchObject({ definingCommand: 'let', aliasOf: 'section' });
+        });
+
+        it('默认宏和推断的宏应记录胜出的类别，且没有源码位置', async () => {
+            const projectAst = await project.parseMain('\\documentclass{article}\n\\begin{document}\n\\subimport{a/}{b}\\unknownmacro{x}\n\\end{document}\n');
+            expect(projectAst.definitionProvenance?.macros.subimport).toEqual({ name: 'subimport', category: 'default', signature: 's m m' });
+            expect(projectAst.definitionProvenance?.macros.unknownmacro).toMatchObject({ category: 'inferred', signature: 'm' });
+            expect(projectAst.definitionProvenance?.macros.unknownmacro.file).toBeUndefined();
+        });
+
+        it('文档内的定义应覆盖同名的默认宏，并记录为文档内定义', async () => {
+            const projectAst = await project.parseMain('\\documentclass{article}\n\\renewcommand{\\section}[1]{#1}\n\\begin{document}\n\\end{document}\n');
+            expect(projectAst.definitionProvenance?.macros.section).toMatchObject({ category: 'defined-in-document', signature: 'm', definingCommand: 'renewcommand' });
+        });
+    });
+
+    describe('定义诊断', () => {
+        const document = (preamble: string): string => `\\documentclass{article}\n${preamble}\\begin{document}\n\\end{document}\n`;
+
+        it('\\newcommand 定义文档中此前已定义的宏时应报告 already-defined，并指向先前的定义', async () => {
+            const projectAst = await project.parseMain(document('\\newcommand{\\foo}{a}\n\\newcommand{\\foo}{b}\n'));
+            expect(projectAst.definitionDiagnostics).toEqual([expect.objectContaining({
+                code: 'already-defined',
+                kind: 'macro',
+                name: 'foo',
+                file: project.path('main.tex'),
+                line: 3,
+                definingCommand: 'newcommand',
+                previous: expect.objectContaining({ category: 'defined-in-document', line: 2, definingCommand: 'newcommand' }),
+            })]);
+        });
+
+        it('\\newcommand 定义默认或 CTAN 宏包提供的宏时应报告 already-defined，并记录提供它的类别', async () => {
+            const projectAst = await project.parseMain(document('\\newcommand{\\textbf}[1]{#1}\n'));
+            expect(projectAst.definitionDiagnostics).toEqual([expect.objectContaining({
+                code: 'already-defined',
+                name: 'textbf',
+                previous: { category: 'default', signature: 'm' },
+            })]);
+        });
+
+        it('\\newenvironment 定义 CTAN 中已有的环境时应报告 already-defined', async () => {
+            const projectAst = await project.parseMain(document('\\newenvironment{itemize}{}{}\n'));
+            expect(projectAst.definitionDiagnostics).toEqual([expect.objectContaining({
+                code: 'already-defined',
+                kind: 'environment',
+                name: 'itemize',
+                previous: expect.objectContaining({ category: 'ctan' }),
+            })]);
+        });
+
+        it('\\renewcommand 重新定义从未定义的宏时应报告 undefined-redefinition', async () => {
+            const projectAst = await project.parseMain(document('\\renewcommand{\\nosuchmacro}{x}\n'));
+            expect(projectAst.definitionDiagnostics).toEqual([expect.objectContaining({
+                code: 'undefined-redefinition',
+                name: 'nosuchmacro',
+                definingCommand: 'renewcommand',
+            })]);
+        });
+
+        it('同一宏在不同文件中以不同的参数个数定义时应报告 arity-conflict', async () => {
+            await project.write({ 'defs.tex': '\\renewcommand{\\foo}[2]{#1#2}\n' });
+            const projectAst = await project.parseMain(document('\\newcommand{\\foo}[1]{#1}\n\\input{defs}\n'));
+            expect(projectAst.definitionDiagnostics).toEqual([expect.objectContaining({
+                code: 'arity-conflict',
+                name: 'foo',
+                file: project.path('defs.tex'),
+                signature: 'm m',
+                previous: expect.objectContaining({ file: project.path('main.tex'), signature: 'm' }),
+            })]);
+        });
+
+        it('同一文件中改变参数个数的重新定义不应报告 arity-conflict', async () => {
+            const projectAst = await project.parseMain(document('\\newcommand{\\foo}[1]{#1}\n\\renewcommand{\\foo}[2]{#1#2}\n'));
+            expect(projectAst.definitionDiagnostics ?? []).toEqual([]);
+        });
+
+        it('诊断应附加在对应的定义宏节点上', async () => {
+            const projectAst = await project.parseMain(document('\\renewcommand{\\nosuchmacro}{x}\n'));
+            const definition = projectAst.files[0].ast.content.find(node => node.type === 'macro' && node.content === 'renewcommand') as DiagnosedDefinitionNode;
+            expect(definition.definitionDiagnostics).toEqual(projectAst.definitionDiagnostics);
+        });
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * 宏展开集成测试 (通过 parseLatexProject 解析临时项目，启用 expandMacros)
+ */
+import { printLatex } from '../../src/index';
+import { useTempProject } from '../helpers/tempProject';
+
+describe('宏展开', () => {
+    const project = useTempProject('macro-expansion-');
+
+    it('应代入参数展开文档内定义的宏', async () => {
+        const projectAst = await project.parseMain(
+            '\\documentclass{article}\n\\newcommand{\\mycmd}[2]{#1 is #2}\n\\begin{document}\n\\mycmd{a}{b}\n\\end{document}\n', { expandMacros: true });
+        expect(printLatex(projectAst.files[0].ast)).toContain('\\begin{document}a is b\\end{document}');
+    });
+
+    it('两次调用之间被重新定义的宏应按各自位置生效的定义展开', async () => {
+        const projectAst = await project.parseMain('\\documentclass{article}\n\\newcommand{\\pair}[2]{#1 and #2}\n\\begin{document}\n'
+            + '\\pair{a}{b}\n\\renewcommand{\\pair}[1]{only #1}\n\\pair{c}{d}\n\\end{document}\n', { expandMacros: true });
+        const printed = printLatex(projectAst.files[0].ast);
+        expect(printed).toContain('\\begin{document}a and b \\renewcommand');
+        expect(printed).toContain('only c{d}\\end{document}');
+    });
+
+    it('包装命令展开得到的 \\input 应记录原始调用的命令和位置，被包含文件中的定义不影响调用之前的内容', async () => {
+        const main = '\\documentclass{article}\n\\newcommand{\\chapterfile}[1]{\\input{chapters/#1}}\n\\newcommand{\\pair}[2]{#1 and #2}\n'
+            + '\\begin{document}\n\\pair{a}{b}\n\\chapterfile{one}\n\\end{document}\n';
+        await project.write({
+            'main.tex': main,
+            'chapters/one.tex': '\\renewcommand{\\pair}[1]{only #1}\n\\pair{c}{d}\n',
+        });
+        const projectAst = await project.parse({ expandMacros: true });
+
+        const edge = projectAst.includeTree!.children[0];
+        expect(edge.filePath).toBe(project.path('chapters/one.tex'));
+        expect(edge.command).toBe('chapterfile');
+        expect(edge.position?.start.offset).toBe(main.indexOf('\\chapterfile{one}'));
+        expect(printLatex(projectAst.files[0].ast)).toContain('\\begin{document}a and b');
+        expect(printLatex(projectAst.files[1].ast)).toContain('only c{d}');
+    });
+});
@@ -0,0 +1,297 @@
+/**
+ * 项目解析集成测试：包含命令的跟随、文档顺序与包含树、不动点重处理、本地宏包 (通过 parseLatexProject 解析临时项目)
+ */
+import type { Ast } from '../../src/types/index';
+import { serializeProjectAstToJson } from '../../src/index';
+import { useTempProject } from '../helpers/tempProject';
+
+// 辅助函数：深度优先查找第一个指定名称的宏节点
+const findMacro = (node: Ast.Ast, name: string): Ast.Macro | undefined => {
+    if (node.type === 'macro' && node.content === name) {
+        return node as Ast.Macro;
+    }
+    const children = [...(Array.isArray(node.content) ? node.content : []), ...((node.args || []) as Ast.Ast[])];
+    for (const child of children) {
+        const found = findMacro(child, name);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+};
+
+describe('项目解析', () => {
+    const project = useTempProject('project-parsing-');
+
+    describe('不动点重处理', () => {
+        it('稍后 \\input 的文件中定义的宏应作用于较早解析的文件', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\input{preamble}\n\\begin{document}\n\\pair{a}{b}\n\\end{document}\n',
+                'preamble.tex': '\\newcommand{\\pair}[1]{(#1)}\n',
+            });
+
+            const projectAst = await project.parse();
+            const pair = findMacro(projectAst.files[0].ast, 'pair')!;
+            // 按定义只附加一个参数，之后的 {b} 保留为普通的组
+            expect(pair.args).toHaveLength(1);
+            expect(projectAst.inferredMacroSignatures?.pair).toBeUndefined();
+            expect(projectAst._processingInfo?.reprocessingPasses).toBe(1);
+            expect(JSON.parse(serializeProjectAstToJson(projectAst))._metadata.processingInfo.reprocessingPasses).toBe(1);
+        });
+
+        it('关闭重处理时较早解析的文件仍使用按调用推断的签名', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\input{preamble}\n\\begin{document}\n\\pair{a}{b}\n\\end{document}\n',
+                'preamble.tex': '\\newcommand{\\pair}[1]{(#1)}\n',
+            });
+
+            const projectAst = await project.parse({ fixpointReprocessing: false });
+            expect(projectAst._processingInfo?.reprocessingPasses).toBe(0);
+            expect(findMacro(projectAst.files[0].ast, 'pair')!.args).toHaveLength(2);
+        });
+
+        it('重处理中新发现的包含文件应被解析，并按文档顺序排列', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\input{preamble}\n\\begin{document}\n\\chapterfile{one}\n\\input{end}\n\\end{document}\n',
+                'preamble.tex': '\\newcommand{\\chapterfile}[1]{\\input{chapters/#1}}\n',
+                'chapters/one.tex': '\\newcommand{\\one}{1}\n',
+                'end.tex': 'The end.\n',
+            });
+
+            const projectAst = await project.parse();
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'preamble.tex', 'chapters/one.tex', 'end.tex']);
+            expect(projectAst.files.every(file => file.ast && !file.error)).toBe(true);
+            expect(projectAst.includeTree!.children.map(child => child.command)).toEqual(['input', 'chapterfile', 'input']);
+            expect(projectAst._detailedMacros?.definedInDocument.one).toBeDefined();
+            expect(projectAst.errors).toBeUndefined();
+        });
+    });
+
+    describe('文档顺序与包含树', () => {
+        it('文件应按文档顺序 (深度优先展开包含命令) 排列', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\begin{document}\n\\input{a}\n\\input{b}\n\\end{document}\n',
+                'a.tex': '\\input{a1}\n',
+                'a1.tex': 'A1\n',
+                'b.tex': 'B\n',
+            });
+            const projectAst = await project.parse();
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'a.tex', 'a1.tex', 'b.tex']);
+        });
+
+        it('包含树应记录每条边的父文件、命令、原始路径和源码位置', async () => {
+            const main = '\\documentclass{article}\n\\begin{document}\n\\include{chapters/one}\n\\end{document}\n';
+            await project.write({ 'main.tex': main, 'chapters/one.tex': 'One.\n' });
+            const projectAst = await project.parse();
+
+            expect(projectAst.includeTree).toMatchObject({ filePath: project.path('main.tex'), children: [expect.anything()] });
+            expect(projectAst.includeTree!.children[0]).toMatchObject({
+                filePath: project.path('chapters/one.tex'),
+                parentFilePath: project.path('main.tex'),
+                command: 'include',
+                rawPath: 'chapters/one',
+                children: [],
+            });
+            expect(projectAst.includeTree!.children[0].position?.start.offset).toBe(main.indexOf('\\include'));
+        });
+
+        it('不存在的文件和重复包含的文件应在包含树中标记，且不重复解析', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\begin{document}\n\\input{a}\n\\input{gone}\n\\input{a}\n\\end{document}\n',
+                'a.tex': 'A\n',
+            });
+            const projectAst = await project.parse();
+
+            // 不存在的文件以带有错误信息的条目报告
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'a.tex', 'gone.tex']);
+            expect(projectAst.files[2].error).toBeDefined();
+            expect(projectAst.includeTree!.children.map(child => [child.rawPath, !!child.missing, !!child.alreadyParsed])).toEqual(
+                [['a', false, false], ['gone', true, false], ['a', false, true]]);
+        });
+    });
+
+    describe('\\includeonly 与 \\excludeonly', () => {
+        const chapters = {
+            'chap1.tex': 'One.\n',
+            'chap2.tex': 'Two.\n',
+            'chap3.tex': 'Three.\n',
+        };
+        const mainWith = (preamble: string): string =>
+            `\\documentclass{article}\n${preamble}\\begin{document}\n\\include{chap1}\n\\include{chap2}\n\\include{chap3}\n\\end{document}\n`;
+
+        it('默认应跳过 \\includeonly 列表之外的 \\include 文件，并在包含树中标记', async () => {
+            await project.write({ ...chapters, 'main.tex': mainWith('\\includeonly{chap1,chap3}\n') });
+            const projectAst = await project.parse();
+
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chap1.tex', 'chap3.tex']);
+            expect(projectAst.includeTree!.children.map(child => !!child.excluded)).toEqual([false, true, false]);
+            expect(projectAst.inclusionControl).toEqual({ includeOnly: ['chap1', 'chap3'], excludeOnly: undefined, source: 'document' });
+        });
+
+        it('\\excludeonly 列出的 \\include 文件应被跳过', async () => {
+            await project.write({ ...chapters, 'main.tex': mainWith('\\usepackage{excludeonly}\n\\excludeonly{chap2}\n') });
+            const projectAst = await project.parse();
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chap1.tex', 'chap3.tex']);
+        });
+
+        it("'flag' 模式下被排除的文件仍应被解析，并标记为 excluded", async () => {
+            await project.write({ ...chapters, 'main.tex': mainWith('\\includeonly{chap1}\n') });
+            const projectAst = await project.parse({ includeOnlyMode: 'flag' });
+
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chap1.tex', 'chap2.tex', 'chap3.tex']);
+            expect(projectAst.files.map(file => !!file.excluded)).toEqual([false, false, true, true]);
+        });
+
+        it('选项中的列表应覆盖文档中的指令', async () => {
+            await project.write({ ...chapters, 'main.tex': mainWith('\\includeonly{chap1}\n') });
+            const projectAst = await project.parse({ includeOnly: ['chap3'] });
+
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chap3.tex']);
+            expect(projectAst.inclusionControl?.source).toBe('options');
+        });
+
+        it('\\input 不受 \\includeonly 列表影响', async () => {
+            await project.write({ ...chapters, 'main.tex': mainWith('\\includeonly{chap1}\n').replace('\\include{chap2}', '\\input{chap2}') });
+            const projectAst = await project.parse();
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chap1.tex', 'chap2.tex']);
+        });
+    });
+
+    describe('import 宏包命令', () => {
+        it('\\subimport 的目录应相对于当前文件所在目录，并逐层嵌套', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\usepackage{import}\n\\begin{document}\n\\subimport{chapters/}{one}\n\\end{document}\n',
+                'chapters/one.tex': '\\subimport{sections/}{intro}\n',
+                'chapters/sections/intro.tex': 'Intro.\n',
+            });
+            const projectAst = await project.parse();
+
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chapters/one.tex', 'chapters/sections/intro.tex']);
+            expect(projectAst.includeTree!.children[0]).toMatchObject({ command: 'subimport', rawDir: 'chapters/', rawPath: 'one' });
+        });
+
+        it('\\import 的目录应相对于根文档所在目录', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\usepackage{import}\n\\begin{document}\n\\subimport{chapters/}{one}\n\\end{document}\n',
+                'chapters/one.tex': '\\import{figures/}{plot}\n',
+                'figures/plot.tex': 'Plot.\n',
+            });
+            const projectAst = await project.parse();
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chapters/one.tex', 'figures/plot.tex']);
+        });
+
+        it('命令应按默认签名附加星号、目录和文件三个参数', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\usepackage{import}\n\\begin{document}\n\\inputfrom{parts}{a}\n\\end{document}\n',
+                'parts/a.tex': 'A.\n',
+            });
+            const projectAst = await project.parse();
+            expect(findMacro(projectAst.files[0].ast, 'inputfrom')!.args?.map(arg => arg.openMark)).toEqual(['', '{', '{']);
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'parts/a.tex']);
+        });
+
+        it('不存在的文件应像其他包含命令一样被报告', async () => {
+            await project.write({
+                'main.tex': '\\documentclass{article}\n\\usepackage{import}\n\\begin{document}\n\\subimport{chapters/}{gone}\n\\end{document}\n',
+            });
+            const projectAst = await project.parse();
+
+            expect(projectAst.includeTree!.children[0]).toMatchObject({ filePath: project.path('chapters/gone.tex'), missing: true });
+            expect(projectAst.files.find(file => file.filePath === project.path('chapters/gone.tex'))?.error).toBeDefined();
+        });
+    });
+
+    describe('自定义文件包含命令', () => {
+        const mainWith = (preamble: string, body: string): string =>
+            `\\documentclass{article}\n${preamble}\\begin{document}\n${body}\\end{document}\n`;
+
+        it('应按选项中的路径模板跟随自定义的包含命令', async () => {
+            await project.write({ 'main.tex': mainWith('', '\\loadchapter{two}\n'), 'chapters/two.tex': 'Two.\n' });
+            const projectAst = await project.parse({
+                includeCommands: { loadchapter: { argIndex: 0, pathTemplate: 'chapters/#1', signature: 'm' } },
+            });
+
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chapters/two.tex']);
+            expect(projectAst.includeTree!.children[0]).toMatchObject({ command: 'loadchapter', rawPath: 'chapters/two' });
+        });
+
+        it('没有路径模板时应直接使用 argIndex 指定的参数作为路径', async () => {
+            await project.write({ 'main.tex': mainWith('', '\\loadpart[draft]{parts/a}\n'), 'parts/a.tex': 'A.\n' });
+            const projectAst = await project.parse({
+                includeCommands: { loadpart: { argIndex: 1, signature: 'o m' } },
+            });
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'parts/a.tex']);
+        });
+
+        it('应识别文档中定义的 \\input 包装命令', async () => {
+            await project.write({
+                'main.tex': mainWith('\\newcommand{\\chapterfile}[1]{\\input{chapters/#1}}\n', '\\chapterfile{one}\n'),
+                'chapters/one.tex': 'One.\n',
+            });
+            const projectAst = await project.parse();
+
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'chapters/one.tex']);
+            expect(projectAst.includeTree!.children[0]).toMatchObject({ command: 'chapterfile', rawPath: 'chapters/one' });
+        });
+
+        it('宏体不只是一个包含命令的宏不应被视为包装命令', async () => {
+            await project.write({
+                'main.tex': mainWith('\\newcommand{\\chapterfile}[1]{\\clearpage\\input{chapters/#1}}\n', '\\chapterfile{one}\n'),
+                'chapters/one.tex': 'One.\n',
+            });
+            const projectAst = await project.parse();
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex']);
+        });
+
+        it('\\include 包装命令应受 \\includeonly 控制', async () => {
+            await project.write({
+                'main.tex': mainWith('\\newcommand{\\chapterinclude}[1]{\\include{#1}}\n\\includeonly{one}\n', '\\chapterinclude{one}\n\\chapterinclude{two}\n'),
+                'one.tex': 'One.\n',
+                'two.tex': 'Two.\n',
+            });
+            const projectAst = await project.parse();
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'one.tex']);
+        });
+
+        it('选项中的配置应优先于文档中识别出的同名包装命令', async () => {
+            await project.write({
+                'main.tex': mainWith('\\newcommand{\\chapterfile}[1]{\\input{chapters/#1}}\n', '\\chapterfile{one}\n'),
+                'chapters/one.tex': 'One.\n',
+                'drafts/one.tex': 'Draft.\n',
+            });
+            const projectAst = await project.parse({
+                includeCommands: { chapterfile: { argIndex: 0, pathTemplate: 'drafts/#1' } },
+            });
+            expect(project.relativeFiles(projectAst)).toEqual(['main.tex', 'drafts/one.tex']);
+        });
+    });
+
+    describe('本地宏包', () => {
+        const files = {
+            'main.tex': '\\documentclass{mycls}\n\\usepackage{mypkg}\n\\begin{document}\n\\pair*[x]{y}\n\\end{document}\n',
+            'mycls.cls': '\\LoadClass{article}\n\\newcommand{\\clsmacro}[1]{#1}\n',
+            'mypkg.sty': '\\NewDocumentCommand{\\pair}{s o m}{#3}\n',
+        };
+
+        it('应在 localPackages 中列出加载的本地宏包，并用其中的定义为文档中的宏附加参数', async () => {
+            await project.write(files);
+            const projectAst = await project.parse();
+
+            expect(projectAst.localPackages).toEqual([
+                { name: 'mycls', kind: 'class', filePath: project.path('mycls.cls'), requestedBy: project.path('main.tex') },
+                { name: 'mypkg', kind: 'package', filePath: project.path('mypkg.sty'), requestedBy: project.path('main.tex') },
+            ]);
+            expect(projectAst._detailedMacros?.packageLocal).toMatchObject({ pair: { signature: 's o m' }, clsmacro: { signature: 'm' } });
+            expect(projectAst.definitionProvenance?.macros.pair).toMatchObject({ category: 'package-local', file: project.path('mypkg.sty') });
+            expect(findMacro(projectAst.files[0].ast, 'pair')?.args?.map(arg => arg.openMark)).toEqual(['', '[', '{']);
+        });
+
+        it('followLocalPackages 为 false 时不应加载本地宏包', async () => {
+            await project.write(files);
+            const projectAst = await project.parse({ followLocalPackages: false });
+
+            expect(projectAst.localPackages).toBeUndefined();
+            expect(projectAst.definitionProvenance?.macros.pair?.category).not.toBe('package-local');
+        });
+    });
+});
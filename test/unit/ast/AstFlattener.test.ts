@@ -0,0 +1,73 @@
+/**
+ * AstFlattener.ts 单元测试
+ */
+import type { Ast, IncludedFileReference, InlinedFileNode } from '../../../src/types/index';
+import { flattenProjectFiles, isInlinedFileNode, INLINED_FILE_ENV } from '../../../src/ast/AstFlattener';
+import { getParser, attachMacroArgs } from '../../../src/latex-utils/unifiedLatexBridge';
+import { setLogLevel, LoggerLogLevel } from '../../../src/index';
+
+// 辅助函数：解析源码并为 \input 附加参数
+const parse = (source: string): Ast.Root => {
+    const ast = getParser().parse(source);
+    attachMacroArgs(ast, { input: { signature: 'm' } });
+    return ast;
+};
+
+// 辅助函数：为 AST 中的每个 \input 生成指向 `/p/<参数>.tex` 的包含引用
+const referencesOf = (ast: Ast.Root): IncludedFileReference[] => ast.content
+    .filter((node): node is Ast.Macro => node.type === 'macro' && node.content === 'input')
+    .map(node => {
+        const rawPath = (node.args![0].content[0] as Ast.String).content;
+        return { path: `/p/${rawPath}.tex`, command: 'input', rawPath, position: node.position, node };
+    });
+
+// 辅助函数：由文件源码生成 flattenProjectFiles 的参数
+const project = (files: Record<string, string | null>) => {
+    const fileAsts = new Map<string, Ast.Root | null>();
+    const fileIncludes = new Map<string, IncludedFileReference[]>();
+    for (const [filePath, source] of Object.entries(files)) {
+        const ast = source === null ? null : parse(source);
+        fileAsts.set(filePath, ast);
+        fileIncludes.set(filePath, ast ? referencesOf(ast) : []);
+    }
+    return { fileAsts, fileIncludes };
+};
+
+describe('AstFlattener - 单文档 AST 测试', () => {
+    beforeAll(() => setLogLevel(LoggerLogLevel.NONE));
+
+    it('应把包含命令替换为包裹目标文件内容的标记节点 (递归进行)', () => {
+        const { fileAsts, fileIncludes } = project({ '/p/main.tex': 'a \\input{ch1} b', '/p/ch1.tex': 'c \\input{ch2}', '/p/ch2.tex': 'd' });
+        const flattened = flattenProjectFiles('/p/main.tex', fileAsts, fileIncludes)!;
+
+        const marker = flattened.content.find(isInlinedFileNode) as InlinedFileNode;
+        expect(marker.env).toBe(INLINED_FILE_ENV);
+        expect(marker.inlinedFrom).toEqual({ filePath: '/p/ch1.tex', parentFilePath: '/p/main.tex', command: 'input', rawPath: 'ch1' });
+        expect(marker.includeMacro.content).toBe('input');
+        expect(marker.position).toEqual(fileIncludes.get('/p/main.tex')![0].position);
+        const nested = marker.content.find(isInlinedFileNode) as InlinedFileNode;
+        expect(nested.inlinedFrom.filePath).toBe('/p/ch2.tex');
+        expect(nested.content).toEqual([expect.objectContaining({ type: 'string', content: 'd' })]);
+    });
+
+    it('不应修改原始的文件 AST', () => {
+        const { fileAsts, fileIncludes } = project({ '/p/main.tex': '\\input{ch1}', '/p/ch1.tex': 'x' });
+        const before = JSON.stringify(fileAsts.get('/p/main.tex'));
+        flattenProjectFiles('/p/main.tex', fileAsts, fileIncludes);
+        expect(JSON.stringify(fileAsts.get('/p/main.tex'))).toBe(before);
+    });
+
+    it('目标文件没有 AST 或形成循环包含时应保留原始的宏节点', () => {
+        const { fileAsts, fileIncludes } = project({ '/p/main.tex': '\\input{gone} \\input{ch1}', '/p/gone.tex': null, '/p/ch1.tex': '\\input{main}' });
+        const flattened = flattenProjectFiles('/p/main.tex', fileAsts, fileIncludes)!;
+
+        expect(flattened.content[0]).toMatchObject({ type: 'macro', content: 'input' });
+        const marker = flattened.content.find(isInlinedFileNode) as InlinedFileNode;
+        expect(marker.content[0]).toMatchObject({ type: 'macro', content: 'input' });
+    });
+
+    it('根文件没有 AST 时应返回 null', () => {
+        const { fileAsts, fileIncludes } = project({ '/p/main.tex': null });
+        expect(flattenProjectFiles('/p/main.tex', fileAsts, fileIncludes)).toBeNull();
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * AstPrinter.ts 单元测试
+ */
+import type { Ast } from '../../../src/types/index';
+import { printLatex, checkRoundTrip } from '../../../src/ast/AstPrinter';
+import { getParser, attachMacroArgs, processEnvironments } from '../../../src/latex-utils/unifiedLatexBridge';
+import { maskVerbatimEnvironments, restoreVerbatimBodies, collapseVerbatimBodies } from '../../../src/latex-utils/verbatimEnvironments';
+
+// 辅助函数：解析源码并按签名附加宏参数
+const parse = (source: string, macros: Ast.MacroInfoRecord = {}): Ast.Root => {
+    const ast = getParser().parse(source);
+    attachMacroArgs(ast, { section: { signature: 's o m' }, textbf: { signature: 'm' }, foo: { signature: 'o m' }, ...macros });
+    return ast;
+};
+
+// 辅助函数：按文件解析的流程处理 \DefineVerbatimEnvironment 定义的逐字环境 MyVerb (不补全位置信息)
+const parseWithMyVerb = (source: string): Ast.Root => {
+    const environments = { MyVerb: { signature: 'o' } };
+    const masked = maskVerbatimEnvironments(source, environments);
+    const ast = parse(masked.source, { DefineVerbatimEnvironment: { signature: 'm m m' } });
+    restoreVerbatimBodies(ast, masked.bodies);
+    processEnvironments(ast, environments);
+    collapseVerbatimBodies(ast, environments);
+    return ast;
+};
+
+describe('AstPrinter - LaTeX 输出测试', () => {
+
+    describe("printLatex - 'preserve' 格式", () => {
+        it('提供源码时应逐字节还原注释、空白、参数和数学定界符', () => {
+            const source = '\\section*{Intro} % 注释\n  text\\foo [x]\n {\\textbf{y}}\n\n'
+                + '\\( a \\) and $x_1^{23}$ \\[ b \\]\n\\begin{center}\n   centered  %\n\\end{center}\n';
+            const result = checkRoundTrip(parse(source), source);
+            expect(result.identical).toBe(true);
+            expect(result.printed).toBe(source);
+        });
+
+        it('逐字内容和 \\verb 应原样输出', () => {
+            const source = 'a \\verb|\\x{| b\n\\begin{verbatim}\n  \\begin{x} %\n\\end{verbatim}\n';
+            expect(printLatex(parse(source), { source })).toBe(source);
+        });
+
+        it('文档中定义的逐字环境应逐字节还原，包括 \\end 之后的空白', () => {
+            const source = '\\DefineVerbatimEnvironment{MyVerb}{Verbatim}{}\n\\begin{document}\n'
+                + '\\begin{MyVerb}[frame=single]\nx  { %\n\\end{MyVerb}\n\\end{document}\n';
+            const result = checkRoundTrip(parseWithMyVerb(source), source);
+            expect(result.difference).toBeUndefined();
+            expect(result.identical).toBe(true);
+        });
+
+        it('未提供源码时应按规范形式输出，没有定界符的参数加上花括号', () => {
+            const source = '\\section{A}\ntext $x_1$ \\foo[o]{m} % c\n';
+            expect(printLatex(parse(source))).toBe('\\section{A} text $x_{1}$ \\foo[o]{m} % c\n');
+        });
+
+        it('新建的节点应按规范形式输出，宏名和字母之间保留空格', () => {
+            const source = 'a \\foo{b} c';
+            const ast = parse(source);
+            ast.content.push({ type: 'macro', content: 'LaTeX' } as Ast.Macro, { type: 'string', content: 'd' } as Ast.String);
+            expect(printLatex(ast, { source })).toBe('a \\foo{b} c\\LaTeX d');
+        });
+    });
+
+    describe("printLatex - 'normalized' 格式", () => {
+        it('应统一缩进环境内容，并把每个 \\item 放在单独一行', () => {
+            const source = '\\begin{itemize}  \\item one \\item two\n'
+                + '\\begin{center} x\n\n\n y \\end{center}\\end{itemize}';
+            expect(printLatex(parse(source), { format: 'normalized' })).toBe(
+                '\\begin{itemize}\n'
+                + '  \\item one\n'
+                + '  \\item two\n'
+                + '  \\begin{center}\n'
+                + '    x\n'
+                + '\n'
+                + '    y\n'
+                + '  \\end{center}\n'
+                + '\\end{itemize}\n');
+        });
+
+        it('应保留源码中的换行，合并行内的连续空白', () => {
+            const source = '\\textbf{a}   b\n   \\textbf{c}  \n';
+            expect(printLatex(parse(source), { format: 'normalized' })).toBe('\\textbf{a} b\n\\textbf{c}\n');
+        });
+
+        it('文档中定义的逐字环境的内容应保持原样', () => {
+            const source = '\\begin{quote}\\begin{MyVerb}\n  keep  {\n\\end{MyVerb}\\end{quote}';
+            expect(printLatex(parseWithMyVerb(source), { format: 'normalized' })).toBe(
+                '\\begin{quote}\n  \\begin{MyVerb}\n  keep  {\n\\end{MyVerb}\n\\end{quote}\n');
+        });
+
+        it('应使用指定的缩进，且不改变逐字环境的内容', () => {
+            const source = '\\begin{quote}\\begin{verbatim}\n  keep  \n\\end{verbatim}\\end{quote}';
+            expect(printLatex(parse(source), { format: 'normalized', indent: '\t' })).toBe(
+                '\\begin{quote}\n\t\\begin{verbatim}\n  keep  \n\\end{verbatim}\n\\end{quote}\n');
+        });
+    });
+
+    describe('checkRoundTrip - 往返检查', () => {
+        it('AST 被修改后应报告差异所在的行', () => {
+            const source = 'line one\n\\textbf{two}\nline three\n';
+            const ast = parse(source);
+            const macro = ast.content.find(node => node.type === 'macro') as Ast.Macro;
+            macro.content = 'emph';
+            const result = checkRoundTrip(ast, source);
+            expect(result.identical).toBe(false);
+            expect(result.difference).toEqual({ line: 2, expected: ['\\textbf{two}'], actual: ['\\emph{two}'] });
+        });
+    });
+});
@@ -0,0 +1,43 @@
+/**
+ * AstSerializer.ts 单元测试
+ */
+import type { Ast, ProjectAST } from '../../../src/types/index';
+import { serializeProjectAstToJson } from '../../../src/ast/AstSerializer';
+
+describe('AstSerializer - 序列化测试', () => {
+    const root = (text: string): Ast.Root => ({ type: 'root', content: [{ type: 'string', content: text }] });
+    const projectAst: ProjectAST = {
+        rootFilePath: '/p/main.tex',
+        files: [
+            { filePath: '/p/main.tex', ast: root('main') },
+            { filePath: '/p/ch1.tex', ast: root('ch1'), error: '解析失败' },
+        ],
+        includeTree: { filePath: '/p/main.tex', children: [] },
+        flattenedAst: root('flattened'),
+        macros: {},
+        environments: {},
+        errors: ['全局错误'],
+        _processingInfo: { timestamp: 't', parserVersion: 'v', reprocessingPasses: 2 },
+    };
+
+    it('应按文件输出 AST，并在 _metadata 中包含项目信息', () => {
+        const output = JSON.parse(serializeProjectAstToJson(projectAst));
+        expect(output['/p/main.tex']).toEqual({ ast: root('main') });
+        expect(output['/p/ch1.tex']).toEqual({ ast: root('ch1'), parsingError: '解析失败' });
+        expect(output._metadata).toMatchObject({
+            rootFilePath: '/p/main.tex',
+            projectGlobalErrors: ['全局错误'],
+            includeTree: projectAst.includeTree,
+            processingInfo: { timestamp: 't', parserVersion: 'v', reprocessingPasses: 2 },
+        });
+        expect(output._metadata.flattened).toBeUndefined();
+    });
+
+    it('单文档模式下根文件条目应为单文档 AST，其他文件不带 AST，_metadata 保持不变', () => {
+        const output = JSON.parse(serializeProjectAstToJson(projectAst, false, true));
+        const perFile = JSON.parse(serializeProjectAstToJson(projectAst));
+        expect(output['/p/main.tex']).toEqual({ ast: root('flattened') });
+        expect(output['/p/ch1.tex']).toEqual({ parsingError: '解析失败' });
+        expect(output._metadata).toEqual({ ...perFile._metadata, flattened: true });
+    });
+});
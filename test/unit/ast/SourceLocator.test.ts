@@ -0,0 +1,79 @@
+/**
+ * SourceLocator.ts 单元测试
+ */
+import type { Ast, IncludedFileReference, InlinedFileNode, ProjectAST } from '../../../src/types/index';
+import { locate } from '../../../src/ast/SourceLocator';
+import { flattenProjectFiles, isInlinedFileNode } from '../../../src/ast/AstFlattener';
+import { getParser, attachMacroArgs } from '../../../src/latex-utils/unifiedLatexBridge';
+import { computeLineOffsets } from '../../../src/latex-utils/sourcePositions';
+import { setLogLevel, LoggerLogLevel } from '../../../src/index';
+
+// 辅助函数：解析源码并为 \input 和 \textbf 附加参数
+const parse = (source: string): Ast.Root => {
+    const ast = getParser().parse(source);
+    attachMacroArgs(ast, { input: { signature: 'm' }, textbf: { signature: 'm' } });
+    return ast;
+};
+
+const mainSource = 'Intro \\textbf{bold}\n\\input{ch1}\ntail';
+const ch1Source = 'first\nsecond line';
+
+// 辅助函数：由 main.tex 和 ch1.tex 构造带单文档 AST 的项目 AST
+const buildProject = (): ProjectAST => {
+    const main = parse(mainSource);
+    const ch1 = parse(ch1Source);
+    const input = main.content.find(node => node.type === 'macro' && node.content === 'input') as Ast.Macro;
+    const references: IncludedFileReference[] = [{ path: '/p/ch1.tex', command: 'input', rawPath: 'ch1', position: input.position, node: input }];
+    const fileAsts = new Map<string, Ast.Root | null>([['/p/main.tex', main], ['/p/ch1.tex', ch1]]);
+    return {
+        rootFilePath: '/p/main.tex',
+        files: [
+            { filePath: '/p/main.tex', ast: main, lineOffsets: computeLineOffsets(mainSource) },
+            { filePath: '/p/ch1.tex', ast: ch1, lineOffsets: computeLineOffsets(ch1Source) },
+        ],
+        flattenedAst: flattenProjectFiles('/p/main.tex', fileAsts, new Map([['/p/main.tex', references], ['/p/ch1.tex', []]]))!,
+        macros: {},
+        errors: [],
+    };
+};
+
+describe('SourceLocator - 源码定位测试', () => {
+    beforeAll(() => setLogLevel(LoggerLogLevel.NONE));
+
+    it('宏参数中的节点应定位到参数内容在文件中的行列号', () => {
+        const projectAst = buildProject();
+        const textbf = projectAst.files[0].ast.content.find(node => node.type === 'macro' && node.content === 'textbf') as Ast.Macro;
+        const bold = textbf.args![0].content[0];
+
+        expect(locate(projectAst, bold)).toEqual({ file: '/p/main.tex', line: 1, column: 15, offset: mainSource.indexOf('bold') });
+    });
+
+    it('单文档 AST 中内联文件节点的内容应定位到被内联的文件', () => {
+        const projectAst = buildProject();
+        const marker = projectAst.flattenedAst!.content.find(isInlinedFileNode) as InlinedFileNode;
+        const second = marker.content.find(node => node.type === 'string' && node.content === 'second')!;
+
+        expect(locate(projectAst, second)).toEqual({ file: '/p/ch1.tex', line: 2, column: 1, offset: ch1Source.indexOf('second') });
+        // 内联文件节点本身位于包含命令处，属于父文件
+        expect(locate(projectAst, marker)).toEqual({ file: '/p/main.tex', line: 2, column: 1, offset: mainSource.indexOf('\\input') });
+    });
+
+    it('位于文件开头或行首边界的节点应定位到该行的第 1 列', () => {
+        const projectAst = buildProject();
+        const [first] = projectAst.files[1].ast.content;
+        const tail = projectAst.files[0].ast.content.find(node => node.type === 'string' && node.content === 'tail')!;
+
+        expect(locate(projectAst, first)).toEqual({ file: '/p/ch1.tex', line: 1, column: 1, offset: 0 });
+        expect(locate(projectAst, tail)).toEqual({ file: '/p/main.tex', line: 3, column: 1, offset: mainSource.indexOf('tail') });
+    });
+
+    it('不属于此项目或没有位置信息的节点应返回 null', () => {
+        const projectAst = buildProject();
+        const foreign = parse('Intro').content[0];
+        const unpositioned: Ast.String = { type: 'string', content: 'x' };
+        projectAst.files[0].ast.content.push(unpositioned);
+
+        expect(locate(projectAst, foreign)).toBeNull();
+        expect(locate(projectAst, unpositioned)).toBeNull();
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * definitionFileSchema.ts 单元测试
+ */
+import {
+    validateMacroRecord,
+    validateEnvironmentRecord,
+    formatConfigValidationIssue
+} from '../../../src/config/definitionFileSchema';
+
+describe('definitionFileSchema - 自定义定义文件校验测试', () => {
+
+    describe('validateMacroRecord - 校验宏定义记录', () => {
+        it('有效的条目应原样保留，注释字段和 package 标记被移出', () => {
+            const result = validateMacroRecord({
+                foo: { signature: 'o m', renderInfo: { inMathMode: true, namedArguments: ['opt', 'body'] } },
+                bar: { signature: '', package: 'mypkg', category: 'inferred', usageCount: 3, confidence: 0.5 },
+            });
+            expect(result.issues).toEqual([]);
+            expect(result.record).toEqual({
+                foo: { signature: 'o m', renderInfo: { inMathMode: true, namedArguments: ['opt', 'body'] } },
+                bar: { signature: '' },
+            });
+            expect(result.packages).toEqual({ bar: 'mypkg' });
+        });
+
+        it('拼写错误的 signature 应指出字段的 JSON 路径，并忽略该条目', () => {
+            const result = validateMacroRecord({ foo: { signture: 'm' } }, 'macros.json');
+            expect(result.record).toEqual({});
+            expect(result.issues).toHaveLength(1);
+            expect(result.issues[0].file).toBe('macros.json');
+            expect(result.issues[0].path).toBe('$.foo.signture');
+            expect(result.issues[0].message).toContain("是否应为 'signature'");
+        });
+
+        it('签名有误的条目应被忽略', () => {
+            const result = validateMacroRecord({ foo: { signature: 'm q' }, 'my macro': { signature: 'b' } });
+            expect(result.record).toEqual({});
+            expect(result.issues.map(issue => issue.path)).toEqual(['$.foo.signature', '$["my macro"].signature']);
+        });
+
+        it('有问题的字段应被忽略，条目的其余部分保留', () => {
+            const result = validateMacroRecord({
+                foo: { signature: 'm', escapeToken: 1, renderInfo: { inMathMode: 'yes', namedArguments: ['a', 'b'] }, colour: 'red' },
+            });
+            expect(result.record).toEqual({ foo: { signature: 'm', renderInfo: {} } });
+            expect(result.issues.map(issue => issue.path)).toEqual([
+                '$.foo.escapeToken',
+                '$.foo.renderInfo.inMathMode',
+                '$.foo.renderInfo.namedArguments',
+                '$.foo.colour',
+            ]);
+        });
+
+        it('应拒绝非对象的内容和带反斜杠的宏名', () => {
+            expect(validateMacroRecord([{ signature: 'm' }]).issues[0].path).toBe('$');
+            const result = validateMacroRecord({ '\\foo': { signature: 'm' } });
+            expect(result.record).toEqual({});
+            expect(result.issues[0].message).toContain("应为 'foo'");
+        });
+    });
+
+    describe('validateEnvironmentRecord - 校验环境定义记录', () => {
+        it('processContent 应解析为 CTAN 环境的内容处理函数', () => {
+            const result = validateEnvironmentRecord({ mylist: { signature: 'o', processContent: 'itemize' } });
+            expect(result.issues).toEqual([]);
+            expect(typeof result.record.mylist.processContent).toBe('function');
+        });
+
+        it('未知的 processContent 和宏专用字段应被报告', () => {
+            const result = validateEnvironmentRecord({ box: { signature: 'm', processContent: 'nosuchenv', escapeToken: '\\' } });
+            expect(result.record).toEqual({ box: { signature: 'm' } });
+            expect(result.issues.map(issue => issue.path)).toEqual(['$.box.processContent', '$.box.escapeToken']);
+        });
+    });
+
+    describe('formatConfigValidationIssue - 格式化问题', () => {
+        it('应包含文件、JSON 路径和描述', () => {
+            expect(formatConfigValidationIssue({ file: 'envs.json', path: '$.box', message: '条目应为对象。' }))
+                .toBe('envs.json: $.box: 条目应为对象。');
+        });
+    });
+});
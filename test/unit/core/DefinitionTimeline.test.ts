@@ -0,0 +1,44 @@
+/**
+ * DefinitionTimeline.ts 单元测试
+ */
+import { compareDocumentOrderKeys, computeFileOrderKeys } from '../../../src/core/DefinitionTimeline';
+
+describe('DefinitionTimeline - 定义时间线测试', () => {
+
+    describe('compareDocumentOrderKeys - 比较文档顺序键', () => {
+        it('应按字典序比较', () => {
+            expect(compareDocumentOrderKeys([10, 5], [10, 7])).toBeLessThan(0);
+            expect(compareDocumentOrderKeys([20], [10, 7])).toBeGreaterThan(0);
+            expect(compareDocumentOrderKeys([10, 5], [10, 5])).toBe(0);
+        });
+
+        it('前缀应排在前面', () => {
+            expect(compareDocumentOrderKeys([10], [10, 0])).toBeLessThan(0);
+        });
+    });
+
+    describe('computeFileOrderKeys - 计算文件的文档顺序键', () => {
+        it('根文件的键为空，被包含文件的键为包含命令在各级父文件中的偏移量', () => {
+            const keys = computeFileOrderKeys({
+                filePath: '/p/main.tex',
+                children: [
+                    { filePath: '/p/a.tex', position: { start: { offset: 10, line: 2, column: 1 }, end: { offset: 19, line: 2, column: 10 } }, children: [
+                        { filePath: '/p/a1.tex', position: { start: { offset: 3, line: 1, column: 4 }, end: { offset: 13, line: 1, column: 14 } }, children: [] },
+                    ] },
+                ],
+            });
+            expect([...keys]).toEqual([['/p/main.tex', []], ['/p/a.tex', [10]], ['/p/a1.tex', [10, 3]]]);
+        });
+
+        it('不存在或已解析过的文件不应获得键', () => {
+            const keys = computeFileOrderKeys({
+                filePath: '/p/main.tex',
+                children: [
+                    { filePath: '/p/gone.tex', missing: true, children: [] },
+                    { filePath: '/p/main.tex', alreadyParsed: true, children: [] },
+                ],
+            });
+            expect([...keys.keys()]).toEqual(['/p/main.tex']);
+        });
+    });
+});
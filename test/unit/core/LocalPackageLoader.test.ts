@@ -0,0 +1,80 @@
+/**
+ * LocalPackageLoader.ts 单元测试
+ */
+import type { PackageReference, ResolvedParserConfig } from '../../../src/types/index';
+import { LocalPackageLoader } from '../../../src/core/LocalPackageLoader';
+import { DefinitionHandler } from '../../../src/core/DefinitionHandler';
+import { processParserOptions } from '../../../src/config/configManager';
+import { useTempProject } from '../../helpers/tempProject';
+
+describe('LocalPackageLoader - 本地宏包加载测试', () => {
+    const project = useTempProject('local-package-loader-');
+
+    const references: PackageReference[] = [
+        { name: 'mycls', kind: 'class', command: 'documentclass' },
+        { name: 'amsmath', kind: 'package', command: 'usepackage' },
+    ];
+
+    // 辅助函数：写入项目文件，并创建共享同一个 DefinitionHandler 的加载器
+    const createLoader = async (files: Record<string, string>, includePackageAsts = false) => {
+        await project.write({ 'main.tex': '\\documentclass{mycls}\n\\usepackage{amsmath}\n', ...files });
+        const config: ResolvedParserConfig = await processParserOptions({ entryPath: project.dir, includePackageAsts });
+        const definitionHandler = new DefinitionHandler(config);
+        return { definitionHandler, loader: new LocalPackageLoader(config, definitionHandler) };
+    };
+
+    const files = {
+        'mycls.cls': '\\LoadClass{article}\n\\RequirePackage{mypkg}\n\\renewcommand{\\section}[2]{#1: #2}\n\\newcommand{\\both}[1]{cls #1}\n',
+        'mypkg.sty': '\\NewDocumentCommand{\\pair}{s o m}{#3}\n\\newcommand{\\both}[2]{sty #1 #2}\n\\newcommand{\\my@helper}{x}\n'
+            + '\\newenvironment{boxed}[1]{[#1}{]}\n',
+    };
+
+    it('应递归加载项目目录中的 .cls/.sty 文件，并跳过不在项目目录中的宏包', async () => {
+        const { definitionHandler, loader } = await createLoader(files);
+        await loader.loadReferencedPackages(references, project.path('main.tex'), [project.dir]);
+
+        expect(loader.getLoadedPackages()).toEqual([
+            { name: 'mycls', kind: 'class', filePath: project.path('mycls.cls'), requestedBy: project.path('main.tex') },
+            { name: 'mypkg', kind: 'package', filePath: project.path('mypkg.sty'), requestedBy: project.path('mycls.cls') },
+        ]);
+        expect(definitionHandler.getUsedPackages()).toEqual(expect.arrayContaining(['article', 'mypkg']));
+    });
+
+    it('\\newcommand 与 \\NewDocumentCommand 定义应以 package-local 类别加入，并覆盖默认宏', async () => {
+        const { definitionHandler, loader } = await createLoader(files);
+        await loader.loadReferencedPackages(references, project.path('main.tex'), [project.dir]);
+
+        const definitions = definitionHandler.getAllDefinitionsCategorized();
+        expect(definitions.packageLocalMacros).toMatchObject({
+            pair: { signature: 's o m' },
+            section: { signature: 'm m' },
+            'my@helper': { signature: '' },
+        });
+        expect(definitions.packageLocalEnvironments.boxed).toEqual({ signature: 'm' });
+        expect(definitions.finalEffectiveMacros.section).toEqual({ signature: 'm m' });
+
+        const provenance = definitionHandler.getDefinitionProvenance();
+        expect(provenance.macros.section).toMatchObject({ category: 'package-local', file: project.path('mycls.cls'), definingCommand: 'renewcommand' });
+        expect(provenance.macros.pair).toMatchObject({ category: 'package-local', file: project.path('mypkg.sty'), definingCommand: 'NewDocumentCommand' });
+        expect(provenance.environments.boxed).toMatchObject({ category: 'package-local', file: project.path('mypkg.sty') });
+    });
+
+    it('宏包自身的定义应覆盖其先行加载的宏包中的同名定义', async () => {
+        const { definitionHandler, loader } = await createLoader(files);
+        await loader.loadReferencedPackages(references, project.path('main.tex'), [project.dir]);
+
+        expect(definitionHandler.getEffectiveMacroInfoRecord().both).toEqual({ signature: 'm' });
+        expect(definitionHandler.getDefinitionProvenance().macros.both).toMatchObject({ file: project.path('mycls.cls') });
+    });
+
+    it('已加载的宏包不应重复加载，启用 includePackageAsts 时应包含宏包的 AST', async () => {
+        const { loader } = await createLoader(files, true);
+        await loader.loadReferencedPackages(references, project.path('main.tex'), [project.dir]);
+        await loader.loadReferencedPackages([{ name: 'mypkg', kind: 'package', command: 'usepackage' }], project.path('main.tex'), [project.dir]);
+
+        const loaded = loader.getLoadedPackages();
+        expect(loaded.map(packageFile => packageFile.name)).toEqual(['mycls', 'mypkg']);
+        expect(loaded[1].requestedBy).toBe(project.path('mycls.cls'));
+        expect(loaded[1].ast).toMatchObject({ type: 'root' });
+    });
+});
@@ -4,15 +4,19 @@
 import type { Ast, NewCommandSpec, NewEnvironmentSpec, EnvironmentParameter } from '../../../src/types/index';
 import {
     extractNewCommands,
+    defParameterTextToSignature,
     listNewEnvironments,
     macroToEnvironmentSpec,
     STANDARD_ENVIRONMENT_DEFINERS,
     TCOLORBOX_ENVIRONMENT_DEFINERS,
     AMSTHM_THEOREM_DEFINERS,
-    ALL_ENVIRONMENT_DEFINERS
+    ALL_ENVIRONMENT_DEFINERS,
+    NEW_DEFINERS,
+    RENEW_DEFINERS,
+    VERBATIM_ENVIRONMENT_DEFINERS
 } from '../../../src/latex-utils/commandDefinitionUtils';
 // 导入 printRaw，以便在 beforeEach 中可以清除它的 mock
-import { printRaw } from '../../../src/latex-utils/unifiedLatexBridge';
+import { printRaw, getParser } from '../../../src/latex-utils/unifiedLatexBridge';
 
 // 辅助函数：创建简化的 AST 节点用于测试
 const createMockMacro = (name: string, args: Ast.Argument[] = [], position?: Ast.Position): Ast.Macro => ({
@@ -146,6 +150,58 @@ describe('commandDefinitionUtils - 命令定义提取工具测试', () => {
             const result = extractNewCommands(mockAst);
             expect(result).toEqual([]);
         });
+
+        it('应能提取 \\def 族定义的宏，并将参数文本转换为签名', () => {
+            const ast = getParser().parse('\\def\\R{x}\n\\gdef\\norm#1{|#1|}\n\\def\\pair(#1,#2){(#1;#2)}');
+            const result = extractNewCommands(ast);
+            expect(result.map(spec => [spec.name, spec.signature])).toEqual([
+                ['R', ''],
+                ['norm', 'm'],
+                ['pair', 'r(, u)'],
+            ]);
+        });
+
+        it('应将 \\let 记录为别名，且不让目标宏吞掉后续内容', () => {
+            const ast = getParser().parse('\\let\\oldsection\\section\n\\let\\a=\\b');
+            const result = extractNewCommands(ast);
+            expect(result.map(spec => [spec.name, spec.aliasOf])).toEqual([
+                ['oldsection', 'section'],
+                ['a', 'b'],
+            ]);
+        });
+
+        it('应按 \\newcommand 的形式提取 \\DeclareRobustCommand', () => {
+            const ast = getParser().parse('\\DeclareRobustCommand{\\rob}[2][x]{#1#2}');
+            const result = extractNewCommands(ast);
+            expect(result).toHaveLength(1);
+            expect(result[0]).toEqual(expect.objectContaining({ name: 'rob', signature: 'O{x} m' }));
+        });
+
+        it('\\newmintedfile 应定义 \\<语言>file 宏，给出宏名时使用该名称', () => {
+            const ast = getParser().parse('\\newmintedfile{python}{linenos}\n\\newmintedfile[\\cfile]{c}{}');
+            const result = extractNewCommands(ast);
+            expect(result.map(spec => [spec.name, spec.signature])).toEqual([
+                ['pythonfile', 'o m'],
+                ['cfile', 'o m'],
+            ]);
+        });
+    });
+
+    describe('defParameterTextToSignature - 转换 \\def 参数文本', () => {
+        it('无定界参数应转换为 m', () => {
+            expect(defParameterTextToSignature('#1#2')).toBe('m m');
+            expect(defParameterTextToSignature('')).toBe('');
+        });
+
+        it('单字符定界参数应转换为 u，前导字符应转换为 r', () => {
+            expect(defParameterTextToSignature('#1.')).toBe('u.');
+            expect(defParameterTextToSignature('[#1]#2')).toBe('r[] m');
+        });
+
+        it('遇到多字符定界符时应截断签名，无法表示的前导文本应得到空签名', () => {
+            expect(defParameterTextToSignature('#1#2 and #3')).toBe('m');
+            expect(defParameterTextToSignature('to#1')).toBe('');
+        });
     });
 
     describe('listNewEnvironments 和 macroToEnvironmentSpec - 提取环境定义', () => {
@@ -229,6 +285,149 @@ describe('commandDefinitionUtils - 命令定义提取工具测试', () => {
             expect(result[0].theoremTitle).toBe('Theorem');
         });
 
+        it('应按 s m o m o 的参数布局识别 \\newtheorem 的共用计数器和上级计数器', () => {
+            const shared = createMockMacro('newtheorem', [
+                createMockArgument([], '', ''),
+                createMockArgument([createMockString('lemma')]),
+                createMockArgument([createMockString('theorem')], '[', ']'),
+                createMockArgument([createMockString('Lemma')]),
+                createMockArgument([], '', ''),
+            ]);
+            const within = createMockMacro('newtheorem', [
+                createMockArgument([], '', ''),
+                createMockArgument([createMockString('thm')]),
+                createMockArgument([], '', ''),
+                createMockArgument([createMockString('Theorem')]),
+                createMockArgument([createMockString('section')], '[', ']'),
+            ]);
+            expect(macroToEnvironmentSpec(shared)).toMatchObject({
+                name: 'lemma',
+                signature: 'o',
+                theoremTitle: 'Lemma',
+                theorem: { title: 'Lemma', numbered: true, sharedCounter: 'theorem', style: 'plain' },
+            });
+            expect(macroToEnvironmentSpec(within)?.theorem).toEqual({ title: 'Theorem', numbered: true, numberWithin: 'section', style: 'plain' });
+        });
+
+        it('\\newtheorem* 应不编号，并记录定义处生效的定理样式', () => {
+            const starred = createMockMacro('newtheorem', [
+                createMockArgument([createMockString('*')], '', ''),
+                createMockArgument([createMockString('note')]),
+                createMockArgument([], '', ''),
+                createMockArgument([createMockString('Note')]),
+                createMockArgument([], '', ''),
+            ]);
+            expect(macroToEnvironmentSpec(starred, 'remark')?.theorem).toEqual({ title: 'Note', numbered: false, style: 'remark' });
+        });
+
+        it('应解析 thmtools 的 \\declaretheorem 的键值对选项', () => {
+            const macroNode = createMockMacro('declaretheorem', [
+                createMockArgument([createMockString('sibling=theorem, name={Main Lemma}, style=definition')], '[', ']'),
+                createMockArgument([createMockString('lemma')]),
+                createMockArgument([], '', ''),
+            ]);
+            const spec = macroToEnvironmentSpec(macroNode);
+            expect(spec?.name).toBe('lemma');
+            expect(spec?.signature).toBe('o');
+            expect(spec?.packageSource).toBe('thmtools');
+            expect(spec?.theorem).toEqual({ title: 'Main Lemma', numbered: true, sharedCounter: 'theorem', style: 'definition' });
+            expect(ALL_ENVIRONMENT_DEFINERS.has('declaretheorem')).toBe(true);
+        });
+
+        it('\\declaretheorem 未给出标题时应使用首字母大写的环境名，numbered=no 表示不编号', () => {
+            const macroNode = createMockMacro('declaretheorem', [
+                createMockArgument([], '', ''),
+                createMockArgument([createMockString('conjecture')]),
+                createMockArgument([createMockString('numbered=no, parent=section')], '[', ']'),
+            ]);
+            expect(macroToEnvironmentSpec(macroNode, 'remark')?.theorem).toEqual({ title: 'Conjecture', numbered: false, style: 'remark' });
+        });
+
+        it('应按定义命令表提取宏包中的环境定义命令的名称、签名和宏包来源', () => {
+            const cases: [Ast.Macro, Partial<NewEnvironmentSpec>][] = [
+                [createMockMacro('newmdenv', [
+                    createMockArgument([createMockString('linecolor=red')], '[', ']'),
+                    createMockArgument([createMockString('warnbox')]),
+                ]), { name: 'warnbox', signature: 'o', packageSource: 'mdframed' }],
+                [createMockMacro('newfloat', [
+                    createMockArgument([createMockString('program')]),
+                    createMockArgument([createMockString('htbp')]),
+                    createMockArgument([createMockString('lop')]),
+                    createMockArgument([], '', ''),
+                ]), { name: 'program', signature: 'o', packageSource: 'float', counter: 'program' }],
+                [createMockMacro('lstnewenvironment', [
+                    createMockArgument([createMockString('code')]),
+                    createMockArgument([createMockString('1')], '[', ']'),
+                    createMockArgument([], '[', ']'),
+                    createMockArgument([createMockString('BEGIN')]),
+                    createMockArgument([]),
+                ]), { name: 'code', signature: 'o', packageSource: 'listings' }],
+                [createMockMacro('newminted', [
+                    createMockArgument([], '', ''),
+                    createMockArgument([createMockString('python')]),
+                    createMockArgument([createMockString('linenos')]),
+                ]), { name: 'pythoncode', signature: '', packageSource: 'minted' }],
+                [createMockMacro('NewTColorBox', [
+                    createMockArgument([], '', ''),
+                    createMockArgument([createMockString('note')]),
+                    createMockArgument([createMockString('O{} m')]),
+                    createMockArgument([createMockString('title=#2')]),
+                ]), { name: 'note', signature: 'O{} m', packageSource: 'tcolorbox' }],
+                [createMockMacro('newtcbtheorem', [
+                    createMockArgument([], '', ''),
+                    createMockArgument([createMockString('mytheo')]),
+                    createMockArgument([createMockString('My Theorem')]),
+                    createMockArgument([]),
+                    createMockArgument([createMockString('th')]),
+                ]), { name: 'mytheo', signature: 'm m', packageSource: 'tcolorbox' }],
+            ];
+            for (const [macroNode, expected] of cases) {
+                expect(macroToEnvironmentSpec(macroNode)).toMatchObject(expected);
+            }
+            expect(printRaw(macroToEnvironmentSpec(cases[2][0])?.beginCode || [])).toBe('BEGIN');
+        });
+
+        it('\\newlist 应记录列表类型并接受可选参数，行内列表去掉星号', () => {
+            const macroNode = createMockMacro('newlist', [
+                createMockArgument([createMockString('inlinelist')]),
+                createMockArgument([createMockString('itemize*')]),
+                createMockArgument([createMockString('1')]),
+            ]);
+            expect(macroToEnvironmentSpec(macroNode)).toMatchObject({ name: 'inlinelist', signature: 'o', listType: 'itemize', packageSource: 'enumitem' });
+        });
+
+        it('逐字环境的定义命令应记录逐字环境信息和代码语言', () => {
+            const lstNode = createMockMacro('lstnewenvironment', [
+                createMockArgument([createMockString('code')]),
+                createMockArgument([], '', ''),
+                createMockArgument([], '', ''),
+                createMockArgument([createMockString('\\lstset{language=Python}')]),
+                createMockArgument([]),
+            ]);
+            expect(macroToEnvironmentSpec(lstNode)?.verbatim).toEqual({ signature: '', language: 'Python' });
+            const mintedNode = createMockMacro('newminted', [
+                createMockArgument([createMockString('pycode')], '[', ']'),
+                createMockArgument([createMockString('python')]),
+                createMockArgument([]),
+            ]);
+            expect(macroToEnvironmentSpec(mintedNode)).toMatchObject({ name: 'pycode', verbatim: { signature: '', language: 'python' } });
+            const fancyvrbNode = createMockMacro('DefineVerbatimEnvironment', [
+                createMockArgument([createMockString('MyVerb')]),
+                createMockArgument([createMockString('Verbatim')]),
+                createMockArgument([createMockString('frame=single')]),
+            ]);
+            expect(macroToEnvironmentSpec(fancyvrbNode)).toMatchObject({ name: 'MyVerb', signature: 'o', packageSource: 'fancyvrb', verbatim: { signature: 'o' } });
+            expect(VERBATIM_ENVIRONMENT_DEFINERS.has('RecustomVerbatimEnvironment')).toBe(true);
+        });
+
+        it('定义命令集合应由定义命令表得出', () => {
+            expect([...TCOLORBOX_ENVIRONMENT_DEFINERS]).toEqual(expect.arrayContaining(['newtcolorbox', 'NewTColorBox', 'DeclareTColorBox', 'newtcbtheorem']));
+            expect([...STANDARD_ENVIRONMENT_DEFINERS]).toEqual(['newenvironment', 'renewenvironment', 'provideenvironment']);
+            expect(NEW_DEFINERS.has('lstnewenvironment')).toBe(true);
+            expect(RENEW_DEFINERS.has('renewlist')).toBe(true);
+            expect(NEW_DEFINERS.has('DeclareFloatingEnvironment') || RENEW_DEFINERS.has('DeclareFloatingEnvironment')).toBe(false);
+        });
+
         it('当没有环境定义时，应返回空数组', () => {
             const mockAst = createMockRoot([createMockString('no envs here')]);
             const result = listNewEnvironments(mockAst);
@@ -0,0 +1,158 @@
+/**
+ * projectFileUtils.ts 单元测试
+ */
+import * as path from 'path';
+import {
+    splitNameList,
+    normalizeIncludeName,
+    isIncludeSelected,
+    parseTexMagicComments,
+    findRootFileCandidates,
+    resolveMagicRoot
+} from '../../../src/latex-utils/projectFileUtils';
+import { useTempProject } from '../../helpers/tempProject';
+
+describe('projectFileUtils - LaTeX 项目文件工具测试', () => {
+
+    describe('splitNameList - 拆分逗号分隔的名称列表', () => {
+        it('应按逗号拆分并去除两端空白 (包括换行)', () => {
+            expect(splitNameList('chap1, chap3,\n  appendix')).toEqual(['chap1', 'chap3', 'appendix']);
+        });
+
+        it('应丢弃空项', () => {
+            expect(splitNameList(' , chap1,,')).toEqual(['chap1']);
+            expect(splitNameList('')).toEqual([]);
+        });
+    });
+
+    describe('normalizeIncludeName - 规范化文件名', () => {
+        it('应去掉开头的 "./" 和末尾的 ".tex"', () => {
+            expect(normalizeIncludeName('./chapters/intro.tex')).toBe('chapters/intro');
+        });
+
+        it('应统一路径分隔符', () => {
+            expect(normalizeIncludeName('chapters\\intro')).toBe('chapters/intro');
+        });
+    });
+
+    describe('isIncludeSelected - 判断 \\include 是否被读入', () => {
+        it('没有任何列表时应读入所有文件', () => {
+            expect(isIncludeSelected('chap1', {})).toBe(true);
+        });
+
+        it('存在 \\includeonly 时只读入列表中的文件', () => {
+            const directives = { includeOnly: ['chap1', 'chapters/chap3'] };
+            expect(isIncludeSelected('chap1', directives)).toBe(true);
+            expect(isIncludeSelected('./chapters/chap3.tex', directives)).toBe(true);
+            expect(isIncludeSelected('chap2', directives)).toBe(false);
+        });
+
+        it('空的 \\includeonly 列表应排除所有文件', () => {
+            expect(isIncludeSelected('chap1', { includeOnly: [] })).toBe(false);
+        });
+
+        it('\\excludeonly 中的文件应被跳过', () => {
+            const directives = { excludeOnly: ['chap2'] };
+            expect(isIncludeSelected('chap1', directives)).toBe(true);
+            expect(isIncludeSelected('chap2.tex', directives)).toBe(false);
+        });
+    });
+
+    describe('parseTexMagicComments - 解析 % !TeX 魔法注释', () => {
+        it('应解析 root、program 和 encoding，且键名不区分大小写', () => {
+            const content = '% !TeX root = ../main.tex\n%!TEX program=xelatex\n% !tex encoding = UTF-8\n\\section{A}';
+            expect(parseTexMagicComments(content)).toEqual({
+                root: '../main.tex',
+                program: 'xelatex',
+                encoding: 'UTF-8',
+            });
+        });
+
+        it('应将 TeXShop 的 TS-program 视为 program', () => {
+            expect(parseTexMagicComments('% !TEX TS-program = lualatex')).toEqual({ program: 'lualatex' });
+        });
+
+        it('应只扫描文件头部的注释和空行', () => {
+            const content = '\n% 普通注释\n\\documentclass{article}\n% !TeX root = other.tex';
+            expect(parseTexMagicComments(content)).toEqual({});
+        });
+    });
+
+    describe('findRootFileCandidates - 根文件候选排名', () => {
+        const project = useTempProject('root-candidates-');
+
+        it('应优先选择含 \\documentclass 且未被包含的文件，而不是仅有常见文件名的文件', async () => {
+            await project.write({
+                'main.tex': '笔记',
+                'paper.tex': '\\documentclass{article}\n\\begin{document}\n\\input{parts/fig}\n\\end{document}',
+                'parts/fig.tex': '\\documentclass{standalone}\n\\begin{document}x\\end{document}',
+            });
+
+            const candidates = await findRootFileCandidates(project.dir);
+            expect(candidates.map(c => c.filePath)).toEqual([
+                project.path('paper.tex'),
+                project.path('parts/fig.tex'),
+                project.path('main.tex'),
+            ]);
+            expect(candidates[0].reasons).toEqual(['has-documentclass', 'has-begin-document', 'not-included']);
+            expect(candidates[1].reasons).not.toContain('not-included');
+        });
+
+        it('分数相同时应按常见文件名优先级排序', async () => {
+            const content = '\\documentclass{book}\n\\begin{document}\\end{document}';
+            await project.write({ 'thesis.tex': content, 'main.tex': content });
+
+            const candidates = await findRootFileCandidates(project.dir);
+            expect(candidates.map(c => path.basename(c.filePath))).toEqual(['main.tex', 'thesis.tex']);
+        });
+
+        it('入口为 TeX 文件时应将其作为唯一候选', async () => {
+            await project.write({ 'chapter.tex': '\\section{A}' });
+            const candidates = await findRootFileCandidates(project.path('chapter.tex'));
+            expect(candidates).toHaveLength(1);
+            expect(candidates[0].reasons).toEqual(['entry-file']);
+        });
+    });
+
+    describe('resolveMagicRoot - 跟随 % !TeX root 魔法注释', () => {
+        const project = useTempProject('magic-root-');
+
+        it('重定向时应在 rootRedirection 中保留入口文件自身的 program/encoding 魔法注释', async () => {
+            await project.write({
+                'chapters/intro.tex': '% !TeX program = xelatex\n% !TeX encoding = UTF-8\n% !TeX root = ../main.tex\n\\section{A}',
+                'main.tex': '% !TeX program = lualatex\n\\documentclass{article}',
+            });
+
+            const resolution = await resolveMagicRoot(project.path('chapters/intro.tex'));
+            expect(resolution.rootFilePath).toBe(project.path('main.tex'));
+            expect(resolution.magicComments).toEqual({ program: 'lualatex' });
+            expect(resolution.redirection).toEqual({
+                entryFilePath: project.path('chapters/intro.tex'),
+                rootFilePath: project.path('main.tex'),
+                chain: [project.path('chapters/intro.tex'), project.path('main.tex')],
+                entryMagicComments: { program: 'xelatex', encoding: 'UTF-8', root: '../main.tex' },
+            });
+        });
+
+        it('多级重定向时应记录最初入口文件的魔法注释', async () => {
+            await project.write({
+                'a.tex': '% !TeX program = xelatex\n% !TeX root = b.tex',
+                'b.tex': '% !TeX program = pdflatex\n% !TeX root = main.tex',
+                'main.tex': '\\documentclass{article}',
+            });
+
+            const resolution = await resolveMagicRoot(project.path('a.tex'));
+            expect(resolution.redirection?.chain).toHaveLength(3);
+            expect(resolution.redirection?.entryMagicComments).toEqual({ program: 'xelatex', root: 'b.tex' });
+            expect(resolution.magicComments).toEqual({});
+        });
+
+        it('没有 root 魔法注释时不应产生重定向记录', async () => {
+            await project.write({ 'main.tex': '% !TeX program = xelatex\n\\documentclass{article}' });
+
+            const resolution = await resolveMagicRoot(project.path('main.tex'));
+            expect(resolution.redirection).toBeNull();
+            expect(resolution.magicComments).toEqual({ program: 'xelatex' });
+        });
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * signatureInference.ts 单元测试
+ */
+import type { Ast } from '../../../src/types/index';
+import {
+    readMacroCallShape,
+    readEnvironmentCallShape,
+    shapeToSignature,
+    inferSignatureFromCalls,
+    MacroCall,
+    MacroCallShape
+} from '../../../src/latex-utils/signatureInference';
+import { getParser, attachMacroArgs } from '../../../src/latex-utils/unifiedLatexBridge';
+
+// 辅助函数：解析源码并读取第一个宏调用的形式
+const shapeOf = (source: string, macros?: Ast.MacroInfoRecord): MacroCallShape => {
+    const ast = getParser().parse(source);
+    if (macros) {
+        attachMacroArgs(ast, macros);
+    }
+    const index = ast.content.findIndex(node => node.type === 'macro');
+    return readMacroCallShape(ast.content, index);
+};
+
+const call = (shape: MacroCallShape, line: number): MacroCall => ({
+    usage: { file: 'main.tex', line, column: 1, signature: shapeToSignature(shape) },
+    shape,
+});
+
+describe('signatureInference - 宏签名推断测试', () => {
+
+    describe('readMacroCallShape - 读取调用形式', () => {
+        it('应识别星号、前导可选参数和花括号组', () => {
+            expect(shapeOf('\\foo*[x y]{a} {b} c')).toEqual({ starred: true, optional: 1, mandatory: 2 });
+        });
+
+        it('可选参数中的嵌套方括号应被跳过', () => {
+            expect(shapeOf('\\foo[a[b]c]{d}')).toEqual({ starred: false, optional: 1, mandatory: 1 });
+        });
+
+        it('花括号组之后的方括号不是可选参数', () => {
+            expect(shapeOf('\\foo{a}[b]{c}')).toEqual({ starred: false, optional: 0, mandatory: 1 });
+        });
+
+        it('没有闭合的方括号不应被视为可选参数', () => {
+            expect(shapeOf('\\foo[a {b}')).toEqual({ starred: false, optional: 0, mandatory: 0 });
+        });
+
+        it('应同时读取已附加的参数和其后的节点', () => {
+            const expected = { starred: true, optional: 1, mandatory: 2 };
+            expect(shapeOf('\\foo*[x]{a}{b}', { foo: { signature: 's o m' } })).toEqual(expected);
+            expect(shapeOf('\\foo{a}{b}', { foo: { signature: 's o m' } })).toEqual({ starred: false, optional: 0, mandatory: 2 });
+        });
+    });
+
+    describe('readEnvironmentCallShape - 读取环境使用的形式', () => {
+        it('应读取 \\begin{env} 之后的可选参数和花括号组', () => {
+            const ast = getParser().parse('\\begin{myenv}[opt] {title} body \\end{myenv}');
+            expect(readEnvironmentCallShape(ast.content[0] as Ast.Environment)).toEqual({ starred: false, optional: 1, mandatory: 1 });
+        });
+
+        it('环境内容不以组开头时没有参数', () => {
+            const ast = getParser().parse('\\begin{myenv} text {x} \\end{myenv}');
+            expect(readEnvironmentCallShape(ast.content[0] as Ast.Environment)).toEqual({ starred: false, optional: 0, mandatory: 0 });
+        });
+    });
+
+    describe('shapeToSignature - 转换为签名', () => {
+        it('应按 s、o、m 的顺序生成签名', () => {
+            expect(shapeToSignature({ starred: true, optional: 2, mandatory: 1 })).toBe('s o o m');
+            expect(shapeToSignature({ starred: false, optional: 0, mandatory: 0 })).toBe('');
+        });
+    });
+
+    describe('inferSignatureFromCalls - 汇总调用', () => {
+        it('必选参数个数应取出现次数最多的值，并报告不一致的调用', () => {
+            const result = inferSignatureFromCalls('foo', [
+                call({ starred: false, optional: 0, mandatory: 1 }, 1),
+                call({ starred: false, optional: 1, mandatory: 1 }, 2),
+                call({ starred: true, optional: 0, mandatory: 1 }, 3),
+                call({ starred: false, optional: 0, mandatory: 3 }, 4),
+            ]);
+            expect(result.signature).toBe('s o m');
+            expect(result.usageCount).toBe(4);
+            expect(result.confidence).toBeCloseTo(0.75);
+            expect(result.histogram).toEqual({ 'm': 1, 'o m': 1, 's m': 1, 'm m m': 1 });
+            expect(result.conflictingUsages).toEqual([{ file: 'main.tex', line: 4, column: 1, signature: 'm m m' }]);
+        });
+
+        it('出现次数相同时应取较小的必选参数个数', () => {
+            const result = inferSignatureFromCalls('foo', [
+                call({ starred: false, optional: 0, mandatory: 2 }, 1),
+                call({ starred: false, optional: 0, mandatory: 1 }, 2),
+            ]);
+            expect(result.signature).toBe('m');
+            expect(result.confidence).toBe(0.5);
+        });
+
+        it('一次多参数调用不应使只有一个参数的调用吞掉其后的内容', () => {
+            // \bar{a}{b}{c} 与 \bar{a}：推断为 m m m 会使第二次调用把其后的 {x}{y} 当作参数
+            const result = inferSignatureFromCalls('bar', [
+                call({ starred: false, optional: 0, mandatory: 3 }, 1),
+                call({ starred: false, optional: 0, mandatory: 1 }, 2),
+            ]);
+            expect(result.signature).toBe('m');
+            expect(result.conflictingUsages).toEqual([{ file: 'main.tex', line: 1, column: 1, signature: 'm m m' }]);
+        });
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * sourcePositions.ts 单元测试
+ */
+import type { Ast } from '../../../src/types/index';
+import { computeLineOffsets, offsetToPoint, fillMissingPositions } from '../../../src/latex-utils/sourcePositions';
+import { getParser, attachMacroArgs, processEnvironments } from '../../../src/latex-utils/unifiedLatexBridge';
+
+// 辅助函数：返回节点在源码中对应的文本
+const textOf = (source: string, node: Ast.Ast): string => source.slice(node.position!.start.offset, node.position!.end.offset);
+
+describe('sourcePositions - 源码位置工具测试', () => {
+
+    describe('computeLineOffsets / offsetToPoint - 行偏移量表', () => {
+        it('应记录每一行的起始偏移量', () => {
+            expect(computeLineOffsets('ab\ncd\n\ne')).toEqual([0, 3, 6, 7]);
+            expect(computeLineOffsets('')).toEqual([0]);
+        });
+
+        it('应把偏移量转换为从 1 开始的行号和列号', () => {
+            const lineOffsets = computeLineOffsets('ab\ncd\n\ne');
+            expect(offsetToPoint(lineOffsets, 0)).toEqual({ line: 1, column: 1, offset: 0 });
+            expect(offsetToPoint(lineOffsets, 4)).toEqual({ line: 2, column: 2, offset: 4 });
+            expect(offsetToPoint(lineOffsets, 7)).toEqual({ line: 4, column: 1, offset: 7 });
+        });
+    });
+
+    describe('fillMissingPositions - 补全位置信息', () => {
+        it('应按源码确定参数的位置，并把宏的位置扩展到最后一个参数', () => {
+            const source = 'a \\foo [x]\n  {y}{} b';
+            const ast = getParser().parse(source);
+            attachMacroArgs(ast, { foo: { signature: 'o m m' } });
+
+            expect(fillMissingPositions(ast, source)).toBe(3);
+            const macro = ast.content.find(node => node.type === 'macro') as Ast.Macro;
+            expect(macro.args!.map(argument => textOf(source, argument))).toEqual(['[x]', '{y}', '{}']);
+            expect(macro.args![1].position!.start).toEqual({ line: 2, column: 3, offset: 13 });
+            expect(textOf(source, macro)).toBe('\\foo [x]\n  {y}{}');
+        });
+
+        it('省略的可选参数应位于前一个参数之后且长度为 0', () => {
+            const source = '\\foo{x} rest';
+            const ast = getParser().parse(source);
+            attachMacroArgs(ast, { foo: { signature: 'm o' } });
+            fillMissingPositions(ast, source);
+            const macro = ast.content[0] as Ast.Macro;
+            expect(macro.args![1].position!.start.offset).toBe(7);
+            expect(textOf(source, macro.args![1])).toBe('');
+        });
+
+        it('应为环境的参数和环境内容处理器产生的节点补全位置信息', () => {
+            const source = '\\begin{box}{Title} body \\end{box}';
+            const ast = getParser().parse(source);
+            processEnvironments(ast, { box: { signature: 'm', processContent: () => [{ type: 'string', content: 'new' } as Ast.String] } });
+            fillMissingPositions(ast, source);
+            const environment = ast.content[0] as Ast.Environment;
+            expect(textOf(source, environment.args![0])).toBe('{Title}');
+            expect(textOf(source, environment.content[0])).toBe(' body ');
+        });
+
+        it('已有的位置信息应保持不变', () => {
+            const source = 'x $y$ z';
+            const ast = getParser().parse(source);
+            const before = JSON.stringify(ast);
+            expect(fillMissingPositions(ast, source)).toBe(0);
+            expect(JSON.stringify(ast)).toBe(before);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * verbatimEnvironments.ts 单元测试
+ */
+import type { Ast, CodeBlockNode, LearnedVerbatimEnvironmentNode } from '../../../src/types/index';
+import {
+    findLanguageOption,
+    maskVerbatimEnvironments,
+    restoreVerbatimBodies,
+    collapseVerbatimBodies,
+    isLearnedVerbatimEnvironment,
+    annotateCodeBlockLanguages
+} from '../../../src/latex-utils/verbatimEnvironments';
+import { getParser, processEnvironments } from '../../../src/latex-utils/unifiedLatexBridge';
+
+const CODE_ENV = { code: { signature: 'o', language: 'Python' } };
+
+// 辅助函数：遮盖、解析并恢复逐字环境的内容，返回第一个顶层环境
+const parseWithVerbatim = (source: string, environments = CODE_ENV): Ast.Environment => {
+    const masked = maskVerbatimEnvironments(source, environments);
+    const ast = getParser().parse(masked.source);
+    restoreVerbatimBodies(ast, masked.bodies);
+    return ast.content.find(node => node.type === 'environment') as Ast.Environment;
+};
+
+describe('verbatimEnvironments - 逐字环境测试', () => {
+
+    describe('findLanguageOption - 查找语言选项', () => {
+        it('应从选项和定义代码中找出语言', () => {
+            expect(findLanguageOption('language=C, numbers=left')).toBe('C');
+            expect(findLanguageOption('\\lstset{language = Python,#1}')).toBe('Python');
+            expect(findLanguageOption('listing options={language={[Sharp]C}}')).toBe('[Sharp]C');
+        });
+
+        it('值由参数决定或没有给出时应返回 undefined', () => {
+            expect(findLanguageOption('\\lstset{language=#1}')).toBeUndefined();
+            expect(findLanguageOption('numbers=left')).toBeUndefined();
+            expect(findLanguageOption('mylanguage=C')).toBeUndefined();
+        });
+    });
+
+    describe('maskVerbatimEnvironments - 遮盖逐字环境内容', () => {
+        it('应把内容替换为等长空白并保留换行，跳过 \\begin 行上的参数', () => {
+            const source = '\\begin{code}[caption=x]\na % {\n\\end{code}';
+            const { source: masked, bodies } = maskVerbatimEnvironments(source, CODE_ENV);
+            expect(masked).toHaveLength(source.length);
+            expect(masked).toBe('\\begin{code}[caption=x]\n     \n\\end{code}');
+            expect(bodies).toEqual([{
+                env: 'code',
+                start: 23,
+                end: 30,
+                text: '\na % {\n',
+                position: { start: { offset: 23, line: 1, column: 24 }, end: { offset: 30, line: 3, column: 1 } },
+            }]);
+        });
+
+        it('应忽略注释中的 \\begin 以及内置逐字环境中的内容', () => {
+            const source = '% \\begin{code}\n\\begin{verbatim}\\begin{code}\\end{verbatim} text';
+            expect(maskVerbatimEnvironments(source, CODE_ENV)).toEqual({ source, bodies: [] });
+        });
+    });
+
+    describe('restoreVerbatimBodies - 恢复逐字环境内容', () => {
+        it('应把环境内容恢复为一个原始字符串节点，位置为被遮盖的范围', () => {
+            const environment = parseWithVerbatim('\\begin{code}\nx = { # $y % z\n\\end{code} after');
+            expect(environment.env).toBe('code');
+            expect(environment.content).toEqual([{
+                type: 'string',
+                content: '\nx = { # $y % z\n',
+                position: { start: { offset: 12, line: 1, column: 13 }, end: { offset: 28, line: 3, column: 1 } },
+            }]);
+        });
+
+        it('不配对的花括号不应破坏环境之后的 AST', () => {
+            const masked = maskVerbatimEnvironments('\\begin{code}{\\end{code}\\textbf{b}', CODE_ENV);
+            const ast = getParser().parse(masked.source);
+            restoreVerbatimBodies(ast, masked.bodies);
+            expect(ast.content).toEqual([
+                expect.objectContaining({ type: 'environment', env: 'code' }),
+                expect.objectContaining({ type: 'macro', content: 'textbf' }),
+            ]);
+        });
+    });
+
+    describe('collapseVerbatimBodies - 统一逐字环境内容的形式', () => {
+        it('附加参数之后应把内容转换为字符串，并标记为逐字环境', () => {
+            const masked = maskVerbatimEnvironments('\\begin{code}[caption=x]\n{ $\n\\end{code}', CODE_ENV);
+            const ast = getParser().parse(masked.source);
+            restoreVerbatimBodies(ast, masked.bodies);
+            processEnvironments(ast, { code: { signature: 'o' } });
+
+            expect(collapseVerbatimBodies(ast, CODE_ENV)).toBe(1);
+            const environment = ast.content[0] as unknown as LearnedVerbatimEnvironmentNode;
+            expect(environment.content).toBe('\n{ $\n');
+            expect(environment.args).toHaveLength(1);
+            expect(isLearnedVerbatimEnvironment(ast.content[0])).toBe(true);
+        });
+
+        it('不应转换内置逐字环境和其他环境', () => {
+            const ast = getParser().parse('\\begin{verbatim}\nx\n\\end{verbatim}\\begin{quote}x\\end{quote}');
+            expect(collapseVerbatimBodies(ast, CODE_ENV)).toBe(0);
+            expect(ast.content.map(isLearnedVerbatimEnvironment)).toEqual([false, false]);
+        });
+    });
+
+    describe('annotateCodeBlockLanguages - 标注代码块语言', () => {
+        it('应依次从 language= 选项、语言参数和环境定义中取得语言', () => {
+            const source = [
+                '\\begin{lstlisting}[language=C]\nint x;\n\\end{lstlisting}',
+                '\\begin{minted}{python}\nx = 1\n\\end{minted}',
+                '\\begin{code}[language=Ruby]\nputs 1\n\\end{code}',
+                '\\begin{code}\nx = 1\n\\end{code}',
+                '\\begin{verbatim}\nplain\n\\end{verbatim}',
+            ].join('\n');
+            const masked = maskVerbatimEnvironments(source, CODE_ENV);
+            const ast = getParser().parse(masked.source);
+            restoreVerbatimBodies(ast, masked.bodies);
+            processEnvironments(ast, { code: { signature: 'o' } });
+
+            expect(annotateCodeBlockLanguages(ast, CODE_ENV)).toBe(4);
+            const blocks = ast.content.filter(node => node.type === 'environment' || node.type === 'verbatim') as CodeBlockNode[];
+            expect(blocks.map(block => block.codeLanguage)).toEqual(['C', 'python', 'Ruby', 'Python', undefined]);
+        });
+    });
+});
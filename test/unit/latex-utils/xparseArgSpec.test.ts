@@ -0,0 +1,86 @@
+/**
+ * xparseArgSpec.ts 单元测试
+ */
+import {
+    parseXparseArgSpec,
+    xparseArgumentToSignature,
+    xparseArgSpecToSignature,
+    findXparseArgSpecError
+} from '../../../src/latex-utils/xparseArgSpec';
+
+describe('xparseArgSpec - xparse 参数规范解析测试', () => {
+
+    describe('parseXparseArgSpec - 解析参数规范', () => {
+        it('应解析简单参数和带默认值的参数', () => {
+            expect(parseXparseArgSpec('s O{a b} m')).toEqual([
+                { specifier: 's', rawSpecifier: 's' },
+                { specifier: 'O', rawSpecifier: 'O{a b}', defaultValue: 'a b' },
+                { specifier: 'm', rawSpecifier: 'm' },
+            ]);
+        });
+
+        it('应解析带定界符和修饰标记的参数', () => {
+            const args = parseXparseArgSpec('t+ r() D<>{x} e{^_} E{^_}{{1}{2}} u{;}');
+            expect(args.map(arg => arg.specifier)).toEqual(['t', 'r', 'D', 'e', 'E', 'u']);
+            expect(args[0].openDelimiter).toBe('+');
+            expect(args[1]).toEqual(expect.objectContaining({ openDelimiter: '(', closeDelimiter: ')' }));
+            expect(args[2]).toEqual(expect.objectContaining({ openDelimiter: '<', closeDelimiter: '>', defaultValue: 'x' }));
+            expect(args[3].tokens).toEqual(['^', '_']);
+            expect(args[4]).toEqual(expect.objectContaining({ tokens: ['^', '_'], defaultValue: ['1', '2'] }));
+            expect(args[5].tokens).toEqual([';']);
+        });
+
+        it('应记录 +、! 前缀和 >{} 参数处理器', () => {
+            const [arg] = parseXparseArgSpec('>{\\SplitList{;}} +!m');
+            expect(arg).toEqual({
+                specifier: 'm',
+                rawSpecifier: '>{\\SplitList{;}}+!m',
+                long: true,
+                noLeadingWhitespace: true,
+                processors: ['\\SplitList{;}'],
+            });
+        });
+
+        it('遇到无法识别的参数类型时应返回此前已解析的参数', () => {
+            expect(parseXparseArgSpec('m Q o').map(arg => arg.specifier)).toEqual(['m']);
+        });
+
+        it('不完整的参数应被忽略', () => {
+            expect(parseXparseArgSpec('m r(').map(arg => arg.specifier)).toEqual(['m']);
+        });
+    });
+
+    describe('xparseArgumentToSignature - 转换单个参数', () => {
+        it('环境体 b 无法表示为签名', () => {
+            expect(xparseArgumentToSignature({ specifier: 'b', rawSpecifier: '+b', long: true })).toBeNull();
+        });
+
+        it('v 应按花括号形式转换为 m', () => {
+            expect(xparseArgumentToSignature({ specifier: 'v', rawSpecifier: 'v' })).toBe('m');
+        });
+    });
+
+    describe('xparseArgSpecToSignature - 转换参数规范为签名', () => {
+        it('应保留 unified-latex 支持的参数类型并去掉参数处理器', () => {
+            expect(xparseArgSpecToSignature('s t+ O{x} >{\\SplitList{;}} +m')).toBe('s t+ O{x} +m');
+            expect(xparseArgSpecToSignature('r() d<> D<>{y} e{^_} E{^_}{{a}{b}}')).toBe('r() d<> D<>{y} e{^_} E{^_}{{a}{b}}');
+        });
+
+        it('应丢弃环境体参数 b', () => {
+            expect(xparseArgSpecToSignature('o +b')).toBe('o');
+        });
+    });
+
+    describe('findXparseArgSpecError - 检查参数规范', () => {
+        it('有效的规范没有错误', () => {
+            expect(findXparseArgSpecError('s O{x} m')).toBeNull();
+            expect(findXparseArgSpecError('')).toBeNull();
+        });
+
+        it('应报告无法识别、不完整或缺少参数类型的规范', () => {
+            expect(findXparseArgSpecError('m q')).toContain("无法识别的参数类型 'q'");
+            expect(findXparseArgSpecError('m O')).toContain("参数 'O' 不完整");
+            expect(findXparseArgSpecError('m +')).toContain("以前缀 '+' 结尾");
+        });
+    });
+});
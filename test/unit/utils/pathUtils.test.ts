@@ -8,7 +8,8 @@ import {
     getBasename,
     getExtname,
     joinPaths,
-    isAbsolutePath
+    isAbsolutePath,
+    getRelativePath
 } from '../../../src/utils/pathUtils'; // 调整为正确的相对路径
 
 describe('pathUtils -路径处理工具测试', () => {
@@ -129,4 +130,12 @@ describe('pathUtils -路径处理工具测试', () => {
         //     }
         // });
     });
+
+    describe('getRelativePath - 计算相对路径', () => {
+        it('应返回从目录到目标文件的相对路径', () => {
+            expect(getRelativePath('/proj', '/proj/chapters/ch1.tex')).toBe('chapters/ch1.tex');
+            expect(getRelativePath('/proj/sub', '/proj/main.tex')).toBe('../main.tex');
+            expect(getRelativePath('/proj', '/proj')).toBe('');
+        });
+    });
 }); 
\ No newline at end of file